@@ -0,0 +1,14 @@
+// Scopes an API key can be granted, in the same "<access>:<resource>" form as SSO session
+// permissions. Routes that accept keys check them with requirePermission; every other route only
+// accepts user sessions.
+export const API_KEY_SCOPES = {
+  'read:orders': 'List and read orders, invoices, refunds and tracking',
+  'write:orders': 'Update orders, post tracking events and issue invoices',
+  'write:products': 'Create, update and delete products',
+  'read:inventory': 'Read stock levels, warehouses and movements',
+  'write:inventory': 'Adjust stock and manage warehouses',
+} as const;
+
+export type ApiKeyScope = keyof typeof API_KEY_SCOPES;
+
+export const API_KEY_SCOPE_NAMES = Object.keys(API_KEY_SCOPES) as [ApiKeyScope, ...ApiKeyScope[]];
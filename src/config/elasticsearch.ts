@@ -27,22 +27,119 @@ export const INDICES = {
   ANALYTICS: 'vikareta_analytics',
 } as const;
 
+/**
+ * Products and services live in versioned physical indices (e.g. vikareta_products_v2_<timestamp>)
+ * behind a read alias with the public name and a separate write alias. Bump the version whenever
+ * the mapping or analysis settings change and rebuild through the admin reindex endpoint.
+ */
+export const MAPPING_VERSIONS: Record<string, number> = {
+  [INDICES.PRODUCTS]: 2,
+  [INDICES.SERVICES]: 2,
+};
+
+export const writeAliasFor = (alias: string) => `${alias}_write`;
+// Held by an index while it is being rebuilt, so writers can dual-write into it
+export const reindexAliasFor = (alias: string) => `${alias}_reindex`;
+export const physicalIndexName = (alias: string) => `${alias}_v${MAPPING_VERSIONS[alias]}_${Date.now()}`;
+
+// Managed synonym set, edited through the admin search API and reloaded by search analyzers without a reindex
+export const SYNONYM_SET_ID = 'vikareta-synonyms';
+
+// Seed rules (Solr format) for units, material abbreviations and common Hinglish product terms
+export const DEFAULT_SYNONYMS = [
+  'kg, kgs, kilo, kilogram, kilograms',
+  'g, gm, gms, gram, grams',
+  'l, ltr, litre, liter, litres, liters',
+  'ml, millilitre, milliliter',
+  'mm, millimetre, millimeter',
+  'cm, centimetre, centimeter',
+  'm, mtr, metre, meter',
+  'sq ft, sqft, square feet',
+  'pcs, pc, pieces, nos',
+  'ss, stainless steel',
+  'ms, mild steel',
+  'gi, galvanised iron, galvanized iron',
+  'pvc, polyvinyl chloride',
+  'hdpe, high density polyethylene',
+  'tmt, tmt bar, sariya, saria, rebar',
+  'loha, iron',
+  'kapda, kapada, cloth, fabric',
+  'chawal, chaawal, rice',
+  'atta, aata, wheat flour',
+  'dal, daal, lentils, pulses',
+  'tel, oil',
+  'cheeni, chini, sugar',
+  'namak, salt',
+  'masala, spices',
+];
+
+const hasPlugin = (name: string) => config.elasticsearch.analysisPlugins.includes(name);
+
+/**
+ * Analysis chain for Indian-language catalogue text. Devanagari and other Indic scripts are
+ * transliterated to Latin (ICU plugin), so "स्टील" and "steel" meet; a separate normalised field
+ * collapses Hinglish spelling variants ("chaawal" / "chawal", "kha" / "ka"), and a phonetic field
+ * catches sound-alike spellings. Synonyms apply at search time only, from the managed set.
+ */
+export const buildIndexSettings = () => {
+  const transliterate = hasPlugin('icu') ? ['transliterate'] : [];
+  const filter: Record<string, unknown> = {
+    autocomplete_ngram: { type: 'edge_ngram', min_gram: 2, max_gram: 20 },
+    managed_synonyms: { type: 'synonym_graph', synonyms_set: SYNONYM_SET_ID, updateable: true, lenient: true },
+    hinglish_vowels: { type: 'pattern_replace', pattern: '([aeiou])\\1+', replacement: '$1' },
+    hinglish_aspirates: { type: 'pattern_replace', pattern: '([bcdgjkpt])h', replacement: '$1' },
+  };
+  if (hasPlugin('icu')) filter.transliterate = { type: 'icu_transform', id: 'Any-Latin; Latin-ASCII' };
+  if (hasPlugin('phonetic')) filter.phonetic_encoder = { type: 'phonetic', encoder: 'double_metaphone', replace: true };
+
+  const base = { type: 'custom', tokenizer: 'standard', char_filter: ['zero_width'] };
+  const analyzer: Record<string, unknown> = {
+    indian_text: { ...base, filter: ['lowercase', ...transliterate, 'asciifolding'] },
+    indian_search: { ...base, filter: ['lowercase', ...transliterate, 'asciifolding', 'managed_synonyms'] },
+    autocomplete_index: { ...base, filter: ['lowercase', ...transliterate, 'asciifolding', 'autocomplete_ngram'] },
+    autocomplete_search: { ...base, filter: ['lowercase', ...transliterate, 'asciifolding'] },
+    transliterated: { ...base, filter: ['lowercase', ...transliterate, 'asciifolding', 'hinglish_vowels', 'hinglish_aspirates'] },
+  };
+  if (hasPlugin('phonetic')) analyzer.sound_alike = { ...base, filter: ['lowercase', ...transliterate, 'asciifolding', 'phonetic_encoder'] };
+
+  return {
+    number_of_shards: 1,
+    number_of_replicas: 0,
+    analysis: {
+      // Zero-width joiners are common in Indic input and split words unpredictably
+      char_filter: { zero_width: { type: 'pattern_replace', pattern: '[\\u200B-\\u200D\\uFEFF]', replacement: '' } },
+      filter,
+      analyzer,
+    },
+  };
+};
+
+const analysedText = (options: { keyword?: boolean; suggest?: boolean; autocomplete?: boolean } = {}) => ({
+  type: 'text',
+  analyzer: 'indian_text',
+  search_analyzer: 'indian_search',
+  fields: {
+    ...(options.keyword && { keyword: { type: 'keyword' } }),
+    ...(options.suggest && { suggest: { type: 'completion' } }),
+    ...(options.autocomplete && { autocomplete: { type: 'text', analyzer: 'autocomplete_index', search_analyzer: 'autocomplete_search' } }),
+    translit: { type: 'text', analyzer: 'transliterated' },
+    ...(hasPlugin('phonetic') && { phonetic: { type: 'text', analyzer: 'sound_alike' } }),
+  },
+});
+
+// Query fields for an analysed text field and its transliterated and phonetic variants
+export const analysedFields = (field: string, boost = 1) => [
+  `${field}^${boost}`,
+  `${field}.translit^${boost * 0.7}`,
+  ...(hasPlugin('phonetic') ? [`${field}.phonetic^${boost * 0.3}`] : []),
+];
+
 // Index mappings
-const productMapping = {
+export const productMapping = {
   properties: {
     id: { type: 'keyword' },
-    title: { 
-      type: 'text',
-      analyzer: 'standard',
-      fields: {
-        keyword: { type: 'keyword' },
-        suggest: { type: 'completion' }
-      }
-    },
-    description: { 
-      type: 'text',
-      analyzer: 'standard'
-    },
+    title: analysedText({ keyword: true, suggest: true, autocomplete: true }),
+    description: analysedText(),
     categoryId: { type: 'keyword' },
     subcategoryId: { type: 'keyword' },
     sellerId: { type: 'keyword' },
@@ -91,21 +188,11 @@ const productMapping = {
   }
 };
 
-const serviceMapping = {
+export const serviceMapping = {
   properties: {
     id: { type: 'keyword' },
-    title: { 
-      type: 'text',
-      analyzer: 'standard',
-      fields: {
-        keyword: { type: 'keyword' },
-        suggest: { type: 'completion' }
-      }
-    },
-    description: { 
-      type: 'text',
-      analyzer: 'standard'
-    },
+    title: analysedText({ keyword: true, suggest: true, autocomplete: true }),
+    description: analysedText(),
     categoryId: { type: 'keyword' },
     subcategoryId: { type: 'keyword' },
     providerId: { type: 'keyword' },
@@ -169,7 +256,7 @@ const userMapping = {
   }
 };
 
-const rfqMapping = {
+export const rfqMapping = {
   properties: {
     id: { type: 'keyword' },
     buyerId: { type: 'keyword' },
@@ -192,10 +279,40 @@ const rfqMapping = {
     budgetMax: { type: 'double' },
     deliveryTimeline: { type: 'text' },
     deliveryLocation: { type: 'text' },
+    location: { type: 'geo_point' },
     status: { type: 'keyword' },
+    mode: { type: 'keyword' },
+    quoteCount: { type: 'integer' },
+    biddingClosesAt: { type: 'date' },
     expiresAt: { type: 'date' },
     createdAt: { type: 'date' },
+    updatedAt: { type: 'date' },
     // Nested objects
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'text' },
+        unit: { type: 'keyword' },
+        quantity: { type: 'integer' },
+        requiredCertifications: { type: 'keyword' }
+      }
+    },
+    category: {
+      type: 'object',
+      properties: {
+        id: { type: 'keyword' },
+        name: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+        slug: { type: 'keyword' }
+      }
+    },
+    subcategory: {
+      type: 'object',
+      properties: {
+        id: { type: 'keyword' },
+        name: { type: 'text', fields: { keyword: { type: 'keyword' } } },
+        slug: { type: 'keyword' }
+      }
+    },
     buyer: {
       type: 'object',
       properties: {
@@ -214,9 +331,24 @@ const rfqMapping = {
 
 // Elasticsearch helper functions
 export const elasticsearchHelper = {
+  // Search analyzers reference the managed synonym set, so it must exist before any index is created
+  async ensureSynonymSet(): Promise<void> {
+    try {
+      await elasticsearchClient.synonyms.getSynonym({ id: SYNONYM_SET_ID });
+    } catch (error: any) {
+      if (error?.meta?.statusCode !== 404) throw error;
+      await elasticsearchClient.synonyms.putSynonym({
+        id: SYNONYM_SET_ID,
+        synonyms_set: DEFAULT_SYNONYMS.map((synonyms, i) => ({ id: `default-${i + 1}`, synonyms })),
+      });
+      logger.info(`Elasticsearch synonym set created: ${SYNONYM_SET_ID}`);
+    }
+  },
+
   // Initialize indices
   async initializeIndices(): Promise<void> {
     try {
+      await this.ensureSynonymSet();
       const indices = [
         { name: INDICES.PRODUCTS, mapping: productMapping },
         { name: INDICES.SERVICES, mapping: serviceMapping },
@@ -232,19 +364,7 @@ export const elasticsearchHelper = {
             index: index.name,
             body: {
               mappings: index.mapping,
-              settings: {
-                number_of_shards: 1,
-                number_of_replicas: 0,
-                analysis: {
-                  analyzer: {
-                    custom_analyzer: {
-                      type: 'custom',
-                      tokenizer: 'standard',
-                      filter: ['lowercase', 'stop', 'snowball']
-                    }
-                  }
-                }
-              }
+              settings: buildIndexSettings()
             }
           }) as any);
           logger.info(`Elasticsearch index created: ${index.name}`);
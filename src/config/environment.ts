@@ -33,6 +33,7 @@ const envSchema = z.object({
   ELASTICSEARCH_URL: z.string(),
   ELASTICSEARCH_USERNAME: z.string().optional(),
   ELASTICSEARCH_PASSWORD: z.string().optional(),
+  ELASTICSEARCH_ANALYSIS_PLUGINS: z.string().default('icu,phonetic'),
 
   // JWT
   JWT_SECRET: z.string(),
@@ -50,6 +51,35 @@ const envSchema = z.object({
   CASHFREE_CLIENT_ID: z.string(),
   CASHFREE_CLIENT_SECRET: z.string(),
   CASHFREE_ENVIRONMENT: z.enum(['sandbox', 'production']).default('sandbox'),
+  RAZORPAY_KEY_ID: z.string().optional(),
+  RAZORPAY_KEY_SECRET: z.string().optional(),
+  RAZORPAY_WEBHOOK_SECRET: z.string().optional(),
+  PAYMENT_DEFAULT_GATEWAY: z.enum(['cashfree', 'razorpay', 'fake']).default('cashfree'),
+  PAYMENT_GATEWAY_BY_METHOD: z.string().default(''), // e.g. "upi:razorpay,card:cashfree"
+  PAYMENT_RETURN_URL: z.string().optional(),
+  PAYMENT_WEBHOOK_MAX_ATTEMPTS: z.string().transform(Number).default(6),
+  PAYMENT_FAKE_GATEWAY_ENABLED: z.string().transform(val => val === 'true').default(false),
+
+  // Tax
+  DEFAULT_GST_RATE: z.string().transform(Number).default(18),
+
+  // Inventory
+  STOCK_RESERVATION_TTL_MINUTES: z.string().transform(Number).default(30),
+
+  // Escrow
+  ESCROW_COMMISSION_PERCENT: z.string().transform(Number).default(2),
+  ESCROW_DISPUTE_WINDOW_DAYS: z.string().transform(Number).default(7),
+
+  // RFQ orders
+  RFQ_ORDER_APPROVAL_REQUIRED: z.string().transform(val => val === 'true').default(false),
+  RFQ_ORDER_APPROVAL_MIN_AMOUNT: z.string().transform(Number).default(0),
+  RFQ_ORDER_APPROVAL_WINDOW_HOURS: z.string().transform(Number).default(72),
+  NEGOTIATION_OFFER_TTL_HOURS: z.string().transform(Number).default(48),
+  AUCTION_ANTI_SNIPE_MINUTES: z.string().transform(Number).default(5),
+  AUCTION_EXTENSION_MINUTES: z.string().transform(Number).default(5),
+  AUCTION_MAX_EXTENSIONS: z.string().transform(Number).default(12),
+  RFQ_MATCH_TOP_N: z.string().transform(Number).default(25),
+  RFQ_MATCH_MIN_SCORE: z.string().transform(Number).default(0.2),
 
   // Email
   SMTP_HOST: z.string(),
@@ -85,6 +115,29 @@ const envSchema = z.object({
   KAFKA_SASL_USERNAME: z.string().optional(),
   KAFKA_SASL_PASSWORD: z.string().optional(),
   KAFKA_SASL_MECHANISM: z.string().optional(),
+
+  // Domain event outbox
+  OUTBOX_POLL_INTERVAL_MS: z.string().transform(Number).default(2000),
+  OUTBOX_BATCH_SIZE: z.string().transform(Number).default(100),
+  OUTBOX_MAX_ATTEMPTS: z.string().transform(Number).default(10),
+  OUTBOX_RETENTION_DAYS: z.string().transform(Number).default(7),
+
+  // Tenant webhooks
+  WEBHOOK_POLL_INTERVAL_MS: z.string().transform(Number).default(2000),
+  WEBHOOK_TIMEOUT_MS: z.string().transform(Number).default(8000),
+  WEBHOOK_DISABLE_AFTER_FAILURES: z.string().transform(Number).default(15),
+  WEBHOOK_SIGNATURE_TOLERANCE_SECONDS: z.string().transform(Number).default(300),
+  WEBHOOK_RETENTION_DAYS: z.string().transform(Number).default(30),
+
+  // API keys for machine clients
+  API_KEY_RATE_LIMIT_PER_MINUTE: z.string().transform(Number).default(120),
+  API_KEY_USAGE_RETENTION_DAYS: z.string().transform(Number).default(90),
+
+  // Subscription billing
+  BILLING_RETRY_SCHEDULE_DAYS: z.string().default('1,3,5'),
+  BILLING_GRACE_PERIOD_DAYS: z.string().transform(Number).default(7),
+  BILLING_CLAIM_TIMEOUT_MS: z.string().transform(Number).default(300000),
+  BILLING_BATCH_SIZE: z.string().transform(Number).default(50),
 });
 
 // Validate environment variables
@@ -121,6 +174,8 @@ export const config = {
     url: env.ELASTICSEARCH_URL,
     username: env.ELASTICSEARCH_USERNAME,
     password: env.ELASTICSEARCH_PASSWORD,
+    // Installed analysis plugins; transliteration needs "icu" and sound-alike matching needs "phonetic"
+    analysisPlugins: env.ELASTICSEARCH_ANALYSIS_PLUGINS.split(',').map(p => p.trim()).filter(Boolean),
   },
 
   jwt: {
@@ -146,6 +201,85 @@ export const config = {
       clientSecret: env.CASHFREE_CLIENT_SECRET,
       environment: env.CASHFREE_ENVIRONMENT,
     },
+    razorpay: {
+      keyId: env.RAZORPAY_KEY_ID,
+      keySecret: env.RAZORPAY_KEY_SECRET,
+      webhookSecret: env.RAZORPAY_WEBHOOK_SECRET,
+    },
+    // "fake" settles everything in memory; it exists only when fakeGatewayEnabled is set outside production
+    defaultGateway: env.PAYMENT_DEFAULT_GATEWAY,
+    fakeGatewayEnabled: env.PAYMENT_FAKE_GATEWAY_ENABLED,
+    gatewayByMethod: Object.fromEntries(
+      env.PAYMENT_GATEWAY_BY_METHOD.split(',').map(pair => pair.split(':').map(v => v.trim())).filter(([method, gateway]) => method && gateway)
+    ) as Record<string, string>,
+    returnUrl: env.PAYMENT_RETURN_URL,
+    // Failed webhook events retry with exponential backoff, then move to the dead letter state
+    webhookMaxAttempts: env.PAYMENT_WEBHOOK_MAX_ATTEMPTS,
+  },
+
+  tax: {
+    defaultGstRate: env.DEFAULT_GST_RATE,
+  },
+
+  inventory: {
+    reservationTtlMinutes: env.STOCK_RESERVATION_TTL_MINUTES,
+  },
+
+  escrow: {
+    commissionPercent: env.ESCROW_COMMISSION_PERCENT,
+    disputeWindowDays: env.ESCROW_DISPUTE_WINDOW_DAYS,
+  },
+
+  rfq: {
+    // Orders from accepted quotes wait for buyer approval before payment is requested
+    orderApprovalRequired: env.RFQ_ORDER_APPROVAL_REQUIRED,
+    orderApprovalMinAmount: env.RFQ_ORDER_APPROVAL_MIN_AMOUNT,
+    // Stock stays reserved this long while an order awaits approval
+    orderApprovalWindowHours: env.RFQ_ORDER_APPROVAL_WINDOW_HOURS,
+    // Negotiation offers without an explicit validity expire after this long
+    offerTtlHours: env.NEGOTIATION_OFFER_TTL_HOURS,
+    // Reverse-auction defaults: a bid inside the last antiSnipeMinutes pushes the close out by extensionMinutes
+    auctionAntiSnipeMinutes: env.AUCTION_ANTI_SNIPE_MINUTES,
+    auctionExtensionMinutes: env.AUCTION_EXTENSION_MINUTES,
+    auctionMaxExtensions: env.AUCTION_MAX_EXTENSIONS,
+    // Only the best-scoring sellers above the floor are notified of a new RFQ
+    matchTopN: env.RFQ_MATCH_TOP_N,
+    matchMinScore: env.RFQ_MATCH_MIN_SCORE,
+  },
+
+  outbox: {
+    pollIntervalMs: env.OUTBOX_POLL_INTERVAL_MS,
+    batchSize: env.OUTBOX_BATCH_SIZE,
+    maxAttempts: env.OUTBOX_MAX_ATTEMPTS,
+    // Published events are purged after this long
+    retentionDays: env.OUTBOX_RETENTION_DAYS,
+  },
+
+  webhooks: {
+    pollIntervalMs: env.WEBHOOK_POLL_INTERVAL_MS,
+    timeoutMs: env.WEBHOOK_TIMEOUT_MS,
+    // Consecutive failed attempts after which an endpoint is disabled; its queue is kept
+    disableAfterFailures: env.WEBHOOK_DISABLE_AFTER_FAILURES,
+    // Receivers should reject signatures older than this; published with the event catalogue
+    signatureToleranceSeconds: env.WEBHOOK_SIGNATURE_TOLERANCE_SECONDS,
+    // Delivered deliveries and their attempts are purged after this long
+    retentionDays: env.WEBHOOK_RETENTION_DAYS,
+  },
+
+  apiKeys: {
+    // Default for keys without their own limit
+    rateLimitPerMinute: env.API_KEY_RATE_LIMIT_PER_MINUTE,
+    usageRetentionDays: env.API_KEY_USAGE_RETENTION_DAYS,
+  },
+
+  billing: {
+    // Days after the first failed renewal charge on which it is retried, e.g. "1,3,5"
+    retryScheduleDays: env.BILLING_RETRY_SCHEDULE_DAYS.split(',').map(v => Number(v.trim())).filter(v => v > 0),
+    // Past-due subscriptions keep their plan this long after the first failure, then expire
+    gracePeriodDays: env.BILLING_GRACE_PERIOD_DAYS,
+    // A subscription claimed by a renewal run that died is picked up again after this long
+    claimTimeoutMs: env.BILLING_CLAIM_TIMEOUT_MS,
+    batchSize: env.BILLING_BATCH_SIZE,
   },
 
   email: {
@@ -23,6 +23,15 @@ export const kafkaTopics = {
   AD_CLICK: 'ad_click',
   NOTIFICATION_EVENT: 'notification_event',
   SECURITY_EVENT: 'security_event',
+  RFQ_EVENT: 'rfq_event',
+  // Domain events relayed from the outbox, one topic per domain
+  ORDER_EVENT: 'order_event',
+  PAYMENT_EVENT: 'payment_event',
+  REFUND_EVENT: 'refund_event',
+  QUOTE_EVENT: 'quote_event',
+  SHIPMENT_EVENT: 'shipment_event',
+  PRODUCT_EVENT: 'product_event',
+  INVOICE_EVENT: 'invoice_event',
 } as const;
 
 export async function ensureKafkaTopics(): Promise<void> {
@@ -0,0 +1,77 @@
+// Subscription plans and what each one entitles a user to. A null limit is unlimited. Users
+// without an active subscription are on the free plan; admins can override any entitlement per
+// user.
+
+export type PlanCode = 'free' | 'growth' | 'enterprise';
+
+export interface PlanEntitlements {
+  // Per calendar month
+  rfqPosts: number | null;
+  quoteResponses: number | null;
+  // Active product listings at any time
+  productListings: number | null;
+  // Ad credit in INR granted each calendar month
+  adCredit: number;
+  // Users who can act for the account, the owner included
+  teamSeats: number | null;
+  // Active API keys; 0 means no API access
+  apiKeys: number | null;
+}
+
+export type Entitlement = keyof PlanEntitlements;
+
+export interface PlanDefinition {
+  code: PlanCode;
+  name: string;
+  description: string;
+  // INR, billed monthly
+  monthlyPrice: number;
+  trialDays: number;
+  entitlements: PlanEntitlements;
+}
+
+export const PLAN_CATALOGUE: Record<PlanCode, PlanDefinition> = {
+  free: {
+    code: 'free',
+    name: 'Free',
+    description: 'Try the marketplace with a handful of RFQs and listings',
+    monthlyPrice: 0,
+    trialDays: 0,
+    entitlements: { rfqPosts: 3, quoteResponses: 5, productListings: 25, adCredit: 0, teamSeats: 1, apiKeys: 0 },
+  },
+  growth: {
+    code: 'growth',
+    name: 'Growth',
+    description: 'For active buyers and sellers trading every week',
+    monthlyPrice: 1999,
+    trialDays: 14,
+    entitlements: { rfqPosts: 50, quoteResponses: 150, productListings: 500, adCredit: 1000, teamSeats: 5, apiKeys: 2 },
+  },
+  enterprise: {
+    code: 'enterprise',
+    name: 'Enterprise',
+    description: 'Unlimited trading, ERP integration and larger teams',
+    monthlyPrice: 9999,
+    trialDays: 14,
+    entitlements: { rfqPosts: null, quoteResponses: null, productListings: null, adCredit: 10000, teamSeats: 25, apiKeys: null },
+  },
+};
+
+// Cheapest first; upgrade hints suggest the next plan up that raises the limit
+export const PLAN_ORDER: PlanCode[] = ['free', 'growth', 'enterprise'];
+
+export const DEFAULT_PLAN: PlanCode = 'free';
+
+export const ENTITLEMENTS = Object.keys(PLAN_CATALOGUE.free.entitlements) as [Entitlement, ...Entitlement[]];
+
+export const ENTITLEMENT_LABELS: Record<Entitlement, string> = {
+  rfqPosts: 'RFQ posts per month',
+  quoteResponses: 'quote responses per month',
+  productListings: 'active product listings',
+  adCredit: 'ad credit per month (INR)',
+  teamSeats: 'team seats',
+  apiKeys: 'active API keys',
+};
+
+export const isPlanCode = (value: string): value is PlanCode =>
+  Object.prototype.hasOwnProperty.call(PLAN_CATALOGUE, value);
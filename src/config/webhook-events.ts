@@ -0,0 +1,131 @@
+import type { DomainEventType } from '../types/domain-events.types';
+
+// Published catalogue of events tenants can subscribe webhooks to. Every delivery carries the
+// event's version in the body and the X-Vikareta-Event-Version header. Adding optional fields
+// keeps the version; renaming, removing or retyping a field means a new version.
+
+type JsonSchema = Record<string, unknown>;
+
+export interface WebhookEventDefinition {
+  version: number;
+  description: string;
+  // JSON Schema of the delivery's `data` field
+  schema: JsonSchema;
+}
+
+const string = { type: 'string' };
+const uuid = { type: 'string', format: 'uuid' };
+const number = { type: 'number' };
+const dateTime = { type: 'string', format: 'date-time' };
+const nullable = (schema: JsonSchema): JsonSchema => ({ ...schema, type: [schema.type as string, 'null'] });
+
+const object = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: true,
+});
+
+const orderRef = { orderId: uuid, orderNumber: string, buyerId: uuid, sellerId: uuid };
+
+const payment = object({
+  paymentId: uuid,
+  orderId: nullable(uuid),
+  checkoutId: nullable(uuid),
+  amount: number,
+  currency: string,
+  gateway: string,
+  gatewayTransactionId: nullable(string),
+});
+
+const refund = object({
+  refundId: uuid,
+  paymentId: uuid,
+  orderId: nullable(uuid),
+  amount: number,
+  currency: string,
+  destination: string,
+  reasonCode: string,
+  status: string,
+});
+
+const product = object({ productId: uuid, sellerId: uuid });
+const rfq = { rfqId: uuid, buyerId: uuid, status: string };
+
+export const WEBHOOK_EVENT_CATALOGUE: Record<DomainEventType, WebhookEventDefinition> = {
+  'order.created': {
+    version: 1,
+    description: 'An order was placed, from checkout or an accepted quote',
+    schema: object({ ...orderRef, status: string, totalAmount: number, quoteId: nullable(uuid) }),
+  },
+  'order.status_changed': {
+    version: 1,
+    description: 'An order moved to a new status',
+    schema: object({ ...orderRef, fromStatus: string, toStatus: string, notes: nullable(string) }),
+  },
+  'order.cancelled': {
+    version: 1,
+    description: 'An order was cancelled',
+    schema: object({ ...orderRef, reason: nullable(string), paymentStatus: string }),
+  },
+  'payment.captured': { version: 1, description: 'A payment was captured by the gateway', schema: payment },
+  'payment.failed': { version: 1, description: 'A payment attempt failed', schema: payment },
+  'refund.created': { version: 1, description: 'A refund was requested', schema: refund },
+  'refund.succeeded': { version: 1, description: 'A refund reached the buyer', schema: refund },
+  'refund.failed': { version: 1, description: 'A refund could not be completed', schema: refund },
+  'quote.submitted': {
+    version: 1,
+    description: 'A seller quoted on an RFQ; sellerId and totalPrice are null for sealed bids while bidding is open',
+    schema: object({ quoteId: uuid, rfqId: uuid, sellerId: nullable(uuid), buyerId: uuid, totalPrice: nullable(number), validUntil: nullable(dateTime) }),
+  },
+  'quote.accepted': {
+    version: 1,
+    description: 'A buyer accepted a quote',
+    schema: object({ quoteId: uuid, rfqId: uuid, sellerId: uuid, buyerId: uuid, totalPrice: number, orderId: nullable(uuid), dealId: uuid }),
+  },
+  'rfq.published': {
+    version: 1,
+    description: 'An RFQ was published',
+    schema: object({ ...rfq, title: string, categoryId: nullable(uuid), mode: string, expiresAt: nullable(dateTime) }),
+  },
+  'rfq.updated': { version: 1, description: 'An RFQ was edited or its bidding changed', schema: object(rfq) },
+  'rfq.closed': { version: 1, description: 'An RFQ was closed', schema: object(rfq) },
+  'shipment.updated': {
+    version: 1,
+    description: 'A tracking update was recorded for an order',
+    schema: object({
+      ...orderRef,
+      status: string,
+      location: nullable(string),
+      description: nullable(string),
+      provider: nullable(string),
+      trackingNumber: nullable(string),
+    }),
+  },
+  'product.created': { version: 1, description: 'A product was listed', schema: product },
+  'product.updated': { version: 1, description: 'A product was edited', schema: product },
+  'product.deleted': { version: 1, description: 'A product was removed', schema: product },
+  'invoice.generated': {
+    version: 1,
+    description: 'An invoice or credit note was issued for an order',
+    schema: object({ invoiceId: uuid, orderId: uuid, documentType: string, invoiceNumber: string, totalAmount: number, issuedAt: dateTime }),
+  },
+};
+
+// Sent by the test endpoint only; never queued
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+// Subscribes a webhook to every catalogued event
+export const WEBHOOK_WILDCARD = '*';
+
+export const isWebhookEvent = (event: string): event is DomainEventType =>
+  Object.prototype.hasOwnProperty.call(WEBHOOK_EVENT_CATALOGUE, event);
+
+// JSON Schema of the body every delivery is sent with
+export const webhookEnvelopeSchema = (event: DomainEventType): JsonSchema => object({
+  id: uuid,
+  event: { type: 'string', const: event },
+  version: { type: 'integer', const: WEBHOOK_EVENT_CATALOGUE[event].version },
+  timestamp: dateTime,
+  data: WEBHOOK_EVENT_CATALOGUE[event].schema,
+});
@@ -23,6 +23,10 @@ export class AdvertisementController {
       res.status(201).json({ success: true, message: 'Campaign created', data: campaign });
     } catch (error: any) {
       logger.error('AdvertisementController.createCampaign error', error);
+      if (error?.code === 'PLAN_LIMIT_REACHED') {
+        res.status(error.statusCode).json({ success: false, error: { code: error.code, message: error.message, details: error.details } });
+        return;
+      }
       res.status(400).json({ success: false, error: error.message || 'Failed to create campaign' });
     }
   }
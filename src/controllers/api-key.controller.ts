@@ -1,46 +1,32 @@
 import { Request, Response } from 'express';
 import { apiKeyService } from '@/services/api-key.service';
-import { logger } from '@/utils/logger';
+import { API_KEY_SCOPES } from '@/config/api-key-scopes';
 
 export class ApiKeyController {
+  async scopes(req: Request, res: Response): Promise<void> {
+    res.json({ success: true, data: Object.entries(API_KEY_SCOPES).map(([scope, description]) => ({ scope, description })) });
+  }
   async list(req: Request, res: Response): Promise<void> {
-    try {
-      const userId = req.user?.id || req.query.userId as string;
-      const keys = await apiKeyService.list(userId);
-      res.json({ success: true, data: keys });
-    } catch (error) {
-      logger.error('ApiKeyController.list error', error);
-      res.status(500).json({ success: false, error: 'Failed to fetch API keys' });
-    }
+    const keys = await apiKeyService.list(req.user!.id);
+    res.json({ success: true, data: keys });
   }
   async create(req: Request, res: Response): Promise<void> {
-    try {
-      const userId = req.user?.id || req.body.userId;
-      const { name, permissions, expiresAt } = req.body;
-      const apiKey = await apiKeyService.create({ userId, name, permissions, expiresAt });
-      res.status(201).json({ success: true, message: 'API key created', data: apiKey });
-    } catch (error) {
-      logger.error('ApiKeyController.create error', error);
-      res.status(400).json({ success: false, error: 'Failed to create API key' });
-    }
+    const { name, permissions, expiresAt, rateLimitPerMinute } = req.body;
+    const apiKey = await apiKeyService.create({ userId: req.user!.id, name, permissions, expiresAt, rateLimitPerMinute });
+    res.status(201).json({ success: true, message: 'API key created; store it now, it will not be shown again', data: apiKey });
   }
   async revoke(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const apiKey = await apiKeyService.revoke(id);
-      res.json({ success: true, message: 'API key revoked', data: apiKey });
-    } catch (error) {
-      res.status(400).json({ success: false, error: 'Failed to revoke API key' });
-    }
+    const apiKey = await apiKeyService.revoke(req.user!.id, req.params.id);
+    res.json({ success: true, message: 'API key revoked', data: apiKey });
   }
   async rotate(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const apiKey = await apiKeyService.rotate(id);
-      res.json({ success: true, message: 'API key rotated', data: apiKey });
-    } catch (error) {
-      res.status(400).json({ success: false, error: 'Failed to rotate API key' });
-    }
+    const apiKey = await apiKeyService.rotate(req.user!.id, req.params.id);
+    res.json({ success: true, message: 'API key rotated; store it now, it will not be shown again', data: apiKey });
+  }
+  async usage(req: Request, res: Response): Promise<void> {
+    const { page = 1, limit = 20 } = req.query as any;
+    const usage = await apiKeyService.getUsage(req.user!.id, req.params.id, Number(page), Number(limit));
+    res.json({ success: true, data: usage });
   }
 }
 export const apiKeyController = new ApiKeyController();
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { cartService } from '@/services/cart.service';
+import { CustomError } from '@/middleware/error-handler';
 import { logger } from '@/utils/logger';
 
 class CartController {
@@ -66,6 +67,21 @@ class CartController {
       res.status(500).json({ error: 'Internal server error' });
     }
   }
+
+  async checkout(req: Request, res: Response) {
+    try {
+      const userId = req.user?.id;
+      if (!userId) return res.status(401).json({ error: 'Unauthorized' });
+      const result = await cartService.checkout(userId, req.body);
+      res.status(201).json({ success: true, data: result });
+    } catch (e: any) {
+      logger.error('checkout error', e);
+      if (e instanceof CustomError) {
+        return res.status(e.statusCode).json({ error: e.message, details: e.details });
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
 }
 
 export const cartController = new CartController();
\ No newline at end of file
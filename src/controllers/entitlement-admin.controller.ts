@@ -0,0 +1,24 @@
+import { Request, Response } from 'express';
+import { usageLimitsService } from '../services/usage-limits.service';
+import type { Entitlement } from '../config/plans';
+
+export class EntitlementAdminController {
+  async getUserEntitlements(req: Request, res: Response) {
+    const { userId } = req.params;
+    const [summary, overrides] = await Promise.all([
+      usageLimitsService.getUsageSummary(userId),
+      usageLimitsService.listOverrides(userId),
+    ]);
+    res.json({ success: true, data: { ...summary, overrides } });
+  }
+  async setOverride(req: Request, res: Response) {
+    const { userId, entitlement } = req.params;
+    const override = await usageLimitsService.setOverride(req.user!.id, userId, entitlement as Entitlement, req.body);
+    res.json({ success: true, message: 'Entitlement override saved', data: override });
+  }
+  async removeOverride(req: Request, res: Response) {
+    const { userId, entitlement } = req.params;
+    await usageLimitsService.removeOverride(req.user!.id, userId, entitlement as Entitlement);
+    res.json({ success: true, message: 'Entitlement override removed' });
+  }
+}
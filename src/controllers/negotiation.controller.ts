@@ -3,9 +3,10 @@ import { negotiationService } from '../services/negotiation.service';
 
 export class NegotiationController {
   async list(req: Request, res: Response) {
+    const userId = req.user?.id; if (!userId) { res.status(401).json({ success: false, error: 'Unauthorized' }); return; }
     const { quoteId } = req.params;
-    const items = await negotiationService.listForQuote(quoteId);
-    res.json({ success: true, data: items });
+    const thread = await negotiationService.listForQuote(quoteId, userId);
+    res.json({ success: true, data: thread });
   }
   async create(req: Request, res: Response) {
     const userId = req.user?.id;
@@ -13,23 +14,20 @@ export class NegotiationController {
     const body = req.body;
     const item = await negotiationService.create({
       quoteId: body.quoteId,
-      buyerId: body.buyerId,
-      sellerId: body.sellerId,
-      fromUserId: userId,
-      toUserId: userId === body.buyerId ? body.sellerId : body.buyerId,
-      offerPrice: body.offerPrice,
-      price: body.price || body.offerPrice,
-      offerType: body.offerType,
+      userId,
+      price: body.price,
+      items: body.items,
       message: body.message,
       terms: body.terms,
       validUntil: body.validUntil,
+      final: body.final,
     });
     res.status(201).json({ success: true, data: item });
   }
   async counter(req: Request, res: Response) {
     const userId = req.user?.id; if (!userId) { res.status(401).json({ success: false, error: 'Unauthorized' }); return; }
-    const { id } = req.params; const { price, message } = req.body;
-    const item = await negotiationService.counter(id, userId, price, message);
+    const { id } = req.params;
+    const item = await negotiationService.counter(id, userId, req.body);
     res.status(201).json({ success: true, data: item });
   }
   async accept(req: Request, res: Response) {
@@ -44,6 +42,12 @@ export class NegotiationController {
     const item = await negotiationService.reject(id, userId);
     res.json({ success: true, data: item });
   }
+  async withdraw(req: Request, res: Response) {
+    const userId = req.user?.id; if (!userId) { res.status(401).json({ success: false, error: 'Unauthorized' }); return; }
+    const { id } = req.params;
+    const item = await negotiationService.withdraw(id, userId);
+    res.json({ success: true, data: item });
+  }
   async markFinal(req: Request, res: Response) {
     const userId = req.user?.id; if (!userId) { res.status(401).json({ success: false, error: 'Unauthorized' }); return; }
     const { id } = req.params;
@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { logger } from '../utils/logger';
 import { OrderService } from '../services/order.service';
+import { invoiceService } from '../services/invoice.service';
+import { escrowService } from '../services/escrow.service';
+import { refundService } from '../services/refund.service';
+import { rfqService } from '../services/rfq.service';
+import { CustomError } from '../middleware/error-handler';
 
 const orderService = new OrderService();
 
@@ -27,6 +32,10 @@ export class OrderController {
       });
     } catch (error) {
       logger.error('Error creating order:', error);
+      if (error instanceof CustomError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
@@ -95,38 +104,40 @@ export class OrderController {
 
   async updateOrder(req: Request, res: Response): Promise<void> {
     try {
+      const order = await this.applyStatusUpdate(req, res);
+      if (!order) return;
 
-      const { id } = req.params;
-      const { status, notes } = req.body;
-      const updatedBy = req.user?.id;
-
-      const order = await orderService.updateOrderStatus(id, status, notes, updatedBy);
       res.status(200).json({
         success: true,
         message: 'Order updated successfully',
         data: order,
       });
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Error updating order:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
 
   async updateOrderStatus(req: Request, res: Response): Promise<void> {
     try {
+      const order = await this.applyStatusUpdate(req, res);
+      if (!order) return;
 
-      const { id } = req.params;
-      const { status, notes } = req.body;
-      const updatedBy = req.user?.id;
-
-      const order = await orderService.updateOrderStatus(id, status, notes, updatedBy);
       res.status(200).json({
         success: true,
         message: 'Order status updated successfully',
         data: order,
       });
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Error updating order status:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
@@ -169,11 +180,13 @@ export class OrderController {
 
   async addTrackingEvent(req: Request, res: Response): Promise<void> {
     try {
-      const { id } = req.params;
       const userId = req.user?.id;
       const { status, location, description, provider, providerTrackingId, metadata } = req.body;
       if (!status) return void res.status(400).json({ error: 'status required' });
-      await orderService.addTrackingEvent(id, { status, location, description, provider, providerTrackingId, metadata, userId });
+      // Tracking events can move the order to shipped, so they come from the seller's side
+      const order = await this.getOrderForParticipant(req, res, true);
+      if (!order) return;
+      await orderService.addTrackingEvent(order.id, { status, location, description, provider, providerTrackingId, metadata, userId });
       res.status(201).json({ success: true });
     } catch (error) {
       logger.error('Error adding tracking event:', error);
@@ -360,4 +373,276 @@ export class OrderController {
       res.status(500).json({ error: 'Internal server error' });
     }
   }
-}
\ No newline at end of file
+
+  async listInvoices(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await this.getOrderForParticipant(req, res);
+      if (!order) return;
+
+      const invoices = await invoiceService.listForOrder(order.id);
+      res.status(200).json({
+        success: true,
+        message: 'Invoices retrieved successfully',
+        data: invoices,
+      });
+    } catch (error) {
+      logger.error('Error listing invoices:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async generateInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await this.getOrderForParticipant(req, res, true);
+      if (!order) return;
+
+      const invoice = await invoiceService.generateInvoice(order.id);
+      res.status(201).json({
+        success: true,
+        message: 'Invoice generated successfully',
+        data: invoice,
+      });
+    } catch (error: any) {
+      logger.error('Error generating invoice:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async issueCreditNote(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await this.getOrderForParticipant(req, res, true);
+      if (!order) return;
+
+      const { reason, items } = req.body;
+      const creditNote = await invoiceService.issueCreditNote(order.id, { reason, items });
+      res.status(201).json({
+        success: true,
+        message: 'Credit note issued successfully',
+        data: creditNote,
+      });
+    } catch (error: any) {
+      logger.error('Error issuing credit note:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async downloadInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await this.getOrderForParticipant(req, res);
+      if (!order) return;
+
+      const { invoiceId } = req.params;
+      const existing = await invoiceService.getById(invoiceId);
+      if (existing.orderId !== order.id) {
+        res.status(404).json({ error: 'Invoice not found' });
+        return;
+      }
+
+      const { invoice, stream } = await invoiceService.getDocumentStream(invoiceId);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber.replace(/\//g, '-')}.pdf"`);
+      stream.pipe(res);
+    } catch (error: any) {
+      logger.error('Error downloading invoice:', error);
+      if (error?.statusCode === 404) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async listRefunds(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await this.getOrderForParticipant(req, res);
+      if (!order) return;
+
+      const refunds = await refundService.listForOrder(order.id);
+      res.status(200).json({
+        success: true,
+        message: 'Refunds retrieved successfully',
+        data: refunds,
+      });
+    } catch (error) {
+      logger.error('Error listing refunds:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async getEscrow(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await this.getOrderForParticipant(req, res);
+      if (!order) return;
+
+      const holds = await escrowService.getForOrder(order.id);
+      res.status(200).json({
+        success: true,
+        message: 'Escrow retrieved successfully',
+        data: { escrowEnabled: order.escrowEnabled, holds },
+      });
+    } catch (error) {
+      logger.error('Error fetching escrow:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async confirmDelivery(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await this.getOrderForParticipant(req, res);
+      if (!order) return;
+
+      if (order.buyerId !== req.user?.id) {
+        res.status(403).json({ error: 'Only the buyer can confirm delivery' });
+        return;
+      }
+      if (!['shipped', 'delivered'].includes(order.status)) {
+        res.status(400).json({ error: 'Order has not been shipped yet' });
+        return;
+      }
+
+      if (order.status !== 'delivered') {
+        await orderService.updateOrderStatus(order.id, 'delivered', 'Delivery confirmed by buyer', req.user?.id);
+      }
+      // Disputed (frozen) holds wait for an admin, and an order may have nothing held at all
+      const activeHold = order.escrowEnabled
+        ? (await escrowService.getForOrder(order.id)).find(held => held.status === 'active')
+        : undefined;
+      const hold = activeHold ? await escrowService.releaseForOrder(order.id) : null;
+      res.status(200).json({
+        success: true,
+        message: 'Delivery confirmed successfully',
+        data: { escrow: hold },
+      });
+    } catch (error: any) {
+      logger.error('Error confirming delivery:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async decideApproval(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { decision, reason } = req.body;
+      const order = await rfqService.decideQuoteOrder(req.params.id, userId, decision, reason);
+      res.status(200).json({
+        success: true,
+        message: decision === 'approve' ? 'Order approved; payment requested' : 'Order rejected',
+        data: order,
+      });
+    } catch (error: any) {
+      logger.error('Error recording order approval:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async openDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await this.getOrderForParticipant(req, res);
+      if (!order) return;
+
+      const hold = await escrowService.openDispute(order.id, req.user!.id, req.body.reason);
+      res.status(200).json({
+        success: true,
+        message: 'Dispute raised; payment is on hold',
+        data: hold,
+      });
+    } catch (error: any) {
+      logger.error('Error opening dispute:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async resolveDispute(req: Request, res: Response): Promise<void> {
+    try {
+      const { outcome, notes } = req.body;
+      const hold = await escrowService.resolveDispute(req.params.id, outcome, notes);
+      res.status(200).json({
+        success: true,
+        message: 'Dispute resolved successfully',
+        data: hold,
+      });
+    } catch (error: any) {
+      logger.error('Error resolving dispute:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Invoices carry GSTINs and addresses, so only the buyer, the seller or an admin may see them.
+   * Issuing documents is limited to the seller and admins.
+   */
+  // Fulfilment statuses are the seller's (or an admin's) to set. Delivery is confirmed by the
+  // buyer through confirm-delivery and cancellation goes through cancel, both of which settle
+  // the payment and escrow as well
+  private async applyStatusUpdate(req: Request, res: Response) {
+    const { status, notes } = req.body;
+    if (!status) {
+      res.status(400).json({ error: 'status required' });
+      return null;
+    }
+    if (status === 'delivered') {
+      res.status(400).json({ error: 'Delivery is confirmed by the buyer through confirm-delivery' });
+      return null;
+    }
+    if (status === 'cancelled') {
+      res.status(400).json({ error: 'Orders are cancelled through the cancel endpoint' });
+      return null;
+    }
+
+    const order = await this.getOrderForParticipant(req, res, true);
+    if (!order) return null;
+
+    return orderService.updateOrderStatus(order.id, status, notes, req.user?.id);
+  }
+
+  private async getOrderForParticipant(req: Request, res: Response, sellerOnly = false) {
+    const userId = req.user?.id;
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return null;
+    }
+
+    const order = await orderService.getOrderById(req.params.id);
+    if (!order) {
+      res.status(404).json({ error: 'Order not found' });
+      return null;
+    }
+
+    const isAdmin = req.user?.role === 'admin' || req.user?.role === 'super_admin';
+    const allowed = isAdmin || order.sellerId === userId || (!sellerOnly && order.buyerId === userId);
+    if (!allowed) {
+      res.status(403).json({ error: 'Forbidden' });
+      return null;
+    }
+    return order;
+  }
+}
@@ -0,0 +1,18 @@
+import { Request, Response } from 'express';
+import { outboxService } from '../services/outbox.service';
+
+export class OutboxController {
+  async list(req: Request, res: Response) {
+    const { page = 1, limit = 20, status, eventType, aggregateId } = req.query as any;
+    const result = await outboxService.list({ status, eventType, aggregateId }, Number(page), Number(limit));
+    res.json({ success: true, data: result });
+  }
+  async get(req: Request, res: Response) {
+    const event = await outboxService.getById(req.params.id);
+    res.json({ success: true, data: event });
+  }
+  async replay(req: Request, res: Response) {
+    const event = await outboxService.replay(req.params.id);
+    res.json({ success: true, message: `Outbox event ${event.status}`, data: event });
+  }
+}
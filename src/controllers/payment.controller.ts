@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { logger } from '@/utils/logger';
 import { paymentService } from '@/services/payment.service';
+import { refundService } from '@/services/refund.service';
+import { paymentWebhookService } from '@/services/payment-webhook.service';
+import { settlementReconciliationService } from '@/services/settlement-reconciliation.service';
+import { prisma } from '@/config/database';
+import type { Payment } from '@prisma/client';
 
 
 export class PaymentController {
@@ -22,26 +27,72 @@ export class PaymentController {
    *                 type: string
    *               amount:
    *                 type: number
-   *               paymentMethod:
+   *               method:
    *                 type: string
+   *               provider:
+   *                 type: string
+   *                 description: Gateway override; resolved from seller and method rules when omitted
    *     responses:
    *       201:
    *         description: Payment created
    */
   async createPayment(req: Request, res: Response): Promise<void> {
     try {
-      const { orderId, amount, paymentMethod = 'upi', paymentGateway = 'cashfree', gatewayTransactionId } = req.body;
+      const { orderId, amount, method, provider } = req.body;
 
       if (!orderId || !amount) {
         res.status(400).json({ error: 'orderId and amount are required' });
         return;
       }
 
-      const payment = await paymentService.create({ orderId, amount: Number(amount), paymentMethod, paymentGateway, gatewayTransactionId });
+      const payment = await paymentService.create({ orderId, amount: Number(amount), paymentMethod: method, paymentGateway: provider });
 
       res.status(201).json({ success: true, message: 'Payment created successfully', data: payment });
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Error creating payment:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async initiatePayment(req: Request, res: Response): Promise<void> {
+  /**
+   * @openapi
+   * /payments/{id}/initiate:
+   *   post:
+   *     tags:
+   *       - Payments
+   *     summary: Open the payment on its gateway and return the client checkout parameters
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Gateway order created
+   *       409:
+   *         description: Payment already initiated or settled
+   */
+    try {
+      const payment = await paymentService.get(req.params.id);
+      if (!(await this.canAccess(req, payment))) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const result = await paymentService.initiate(payment.id);
+      res.json({ success: true, message: 'Payment initiated', data: result });
+    } catch (error: any) {
+      logger.error('Error initiating payment:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message, details: error.details });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
@@ -67,9 +118,18 @@ export class PaymentController {
     try {
       const { id } = req.params;
       const payment = await paymentService.get(id);
+      if (!(await this.canAccess(req, payment))) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
       res.json({ success: true, data: payment });
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Error fetching payment:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
@@ -95,27 +155,250 @@ export class PaymentController {
    *           schema:
    *             type: object
    *             properties:
-   *               status:
-   *                 type: string
+   *               payload:
+   *                 type: object
+   *                 description: Gateway callback fields, e.g. razorpay_order_id, razorpay_payment_id and razorpay_signature
    *     responses:
    *       200:
    *         description: Payment verified
    */
     try {
       const { id } = req.params;
-      const { status, gatewayTransactionId } = req.body;
+      const { payload } = req.body;
 
       if (!id) {
         res.status(400).json({ error: 'Payment id is required' });
         return;
       }
 
-      const payment = await paymentService.verify(id, status, gatewayTransactionId);
+      const existing = await paymentService.get(id);
+      if (!(await this.canAccess(req, existing))) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const payment = await paymentService.verifyWithGateway(existing.id, payload);
 
       res.json({ success: true, message: 'Payment verified successfully', data: payment });
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Error verifying payment:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async createRefund(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const payment = await paymentService.get(req.params.id);
+      const orderId = req.body.orderId || payment.orderId;
+      if (!(await this.canRefund(req, orderId))) {
+        res.status(403).json({ error: 'Only the seller or an admin can refund this payment' });
+        return;
+      }
+
+      const refund = await refundService.createRefund({ ...req.body, paymentId: payment.id, initiatedBy: userId });
+      res.status(201).json({ success: true, message: 'Refund initiated', data: refund });
+    } catch (error: any) {
+      logger.error('Error creating refund:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async listRefunds(req: Request, res: Response): Promise<void> {
+    try {
+      const payment = await paymentService.get(req.params.id);
+      if (!(await this.canAccess(req, payment))) {
+        res.status(403).json({ error: 'Access denied' });
+        return;
+      }
+
+      const refunds = await refundService.listForPayment(payment.id);
+      res.json({ success: true, data: refunds });
+    } catch (error: any) {
+      logger.error('Error listing refunds:', error);
+      if (error?.statusCode === 404) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async listGatewayRules(req: Request, res: Response): Promise<void> {
+    try {
+      // Every rule, or one seller's
+      const rules = await paymentService.listGatewayRules(req.query.sellerId as string | undefined);
+      res.json({ success: true, data: rules });
+    } catch (error) {
+      logger.error('Error listing gateway rules:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async saveGatewayRule(req: Request, res: Response): Promise<void> {
+    try {
+      // Without a sellerId the rule applies platform-wide
+      const rule = await paymentService.saveGatewayRule({ ...req.body, sellerId: req.body.sellerId ?? null });
+      res.json({ success: true, message: 'Gateway rule saved', data: rule });
+    } catch (error) {
+      logger.error('Error saving gateway rule:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async deleteGatewayRule(req: Request, res: Response): Promise<void> {
+    try {
+      await paymentService.deleteGatewayRule(req.params.id);
+      res.json({ success: true, message: 'Gateway rule deleted' });
+    } catch (error: any) {
+      logger.error('Error deleting gateway rule:', error);
+      if (error?.statusCode === 404) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async listWebhookEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, status, gateway } = req.query as any;
+      const result = await paymentWebhookService.list({ status, gateway }, Number(page), Number(limit));
+      res.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('Error listing payment webhook events:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async getWebhookEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const event = await paymentWebhookService.getById(req.params.id);
+      res.json({ success: true, data: event });
+    } catch (error: any) {
+      logger.error('Error fetching payment webhook event:', error);
+      if (error?.statusCode === 404) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async replayWebhookEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const event = await paymentWebhookService.replay(req.params.id);
+      res.json({ success: true, message: `Webhook event ${event.status}`, data: event });
+    } catch (error: any) {
+      logger.error('Error replaying payment webhook event:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async uploadSettlement(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      if (!req.file) {
+        res.status(400).json({ error: 'Settlement CSV file is required' });
+        return;
+      }
+
+      const { gateway, periodStart, periodEnd } = req.body;
+      const report = await settlementReconciliationService.importUpload({
+        gateway,
+        file: req.file.buffer,
+        originalFileName: req.file.originalname,
+        periodStart: periodStart ? new Date(periodStart) : undefined,
+        periodEnd: periodEnd ? new Date(periodEnd) : undefined,
+        uploadedBy: userId,
+      });
+      res.status(201).json({ success: true, message: 'Settlement file reconciled', data: report });
+    } catch (error: any) {
+      logger.error('Error importing settlement file:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async listSettlementReports(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, gateway, status } = req.query as any;
+      const result = await settlementReconciliationService.listReports({ gateway, status }, Number(page), Number(limit));
+      res.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('Error listing settlement reports:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async getSettlementReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 50, result } = req.query as any;
+      const report = await settlementReconciliationService.getReport(req.params.id);
+      const lines = await settlementReconciliationService.getLines(report.id, result, Number(page), Number(limit));
+      res.json({ success: true, data: { report, lines } });
+    } catch (error: any) {
+      logger.error('Error fetching settlement report:', error);
+      if (error?.statusCode === 404) {
+        res.status(404).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
+
+  private isAdmin(req: Request) {
+    return req.user?.role === 'admin' || req.user?.role === 'super_admin';
+  }
+
+  // A payment is visible to the buyer who owes it, the sellers it pays and admins
+  private async canAccess(req: Request, payment: Payment) {
+    if (this.isAdmin(req)) return true;
+    const userId = req.user?.id;
+    if (!userId) return false;
+    if (payment.orderId) {
+      const order = await prisma.order.findUnique({ where: { id: payment.orderId }, select: { buyerId: true, sellerId: true } });
+      return order?.buyerId === userId || order?.sellerId === userId;
+    }
+    if (payment.checkoutId) {
+      const checkout = await prisma.checkout.findUnique({
+        where: { id: payment.checkoutId },
+        select: { buyerId: true, orders: { select: { sellerId: true } } },
+      });
+      return checkout?.buyerId === userId || !!checkout?.orders.some(order => order.sellerId === userId);
+    }
+    return false;
+  }
+
+  // Refunds move the seller's money, so only the order's seller or an admin may start one
+  private async canRefund(req: Request, orderId?: string | null) {
+    if (this.isAdmin(req)) return true;
+    if (!orderId) return false;
+    const order = await prisma.order.findUnique({ where: { id: orderId }, select: { sellerId: true } });
+    return order?.sellerId === req.user?.id;
+  }
 }
\ No newline at end of file
@@ -32,6 +32,10 @@ export class QuoteController {
         res.status(400).json({ error: error.message });
         return;
       }
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message, details: error.details });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
@@ -49,6 +53,7 @@ export class QuoteController {
       } = req.query;
 
       const filters = {
+        viewerId: req.user?.id,
         rfqId: rfqId as string,
         sellerId: sellerId as string,
         status: status as string,
@@ -76,7 +81,7 @@ export class QuoteController {
   async getQuoteById(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const quote = await rfqService.getQuoteById(id);
+      const quote = await rfqService.getQuoteById(id, req.user?.id);
 
       if (!quote) {
         res.status(404).json({ error: 'Quote not found' });
@@ -118,6 +123,10 @@ export class QuoteController {
         res.status(404).json({ error: 'Quote not found or unauthorized' });
         return;
       }
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
@@ -160,14 +169,20 @@ export class QuoteController {
         return;
       }
 
-      const quote = await rfqService.acceptQuote(id, buyerId);
+      const result = await rfqService.acceptQuote(id, buyerId, req.body || {});
       res.status(200).json({
         success: true,
-        message: 'Quote accepted successfully',
-        data: quote,
+        message: result.order?.status === 'pending_approval'
+          ? 'Quote accepted, order awaiting your approval'
+          : 'Quote accepted successfully',
+        data: result,
       });
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Error accepting quote:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
@@ -0,0 +1,167 @@
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { rfqTemplateService } from '../services/rfq-template.service';
+
+export class RfqTemplateController {
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const templates = await rfqTemplateService.list(userId);
+      res.status(200).json({ success: true, data: templates });
+    } catch (error: any) {
+      logger.error('Error listing RFQ templates:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async get(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const template = await rfqTemplateService.get(req.params.id, userId);
+      res.status(200).json({ success: true, data: template });
+    } catch (error: any) {
+      logger.error('Error fetching RFQ template:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const template = await rfqTemplateService.create(userId, req.body);
+      res.status(201).json({ success: true, message: 'RFQ template created successfully', data: template });
+    } catch (error: any) {
+      logger.error('Error creating RFQ template:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const template = await rfqTemplateService.update(req.params.id, userId, req.body);
+      res.status(200).json({ success: true, message: 'RFQ template updated successfully', data: template });
+    } catch (error: any) {
+      logger.error('Error updating RFQ template:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async pause(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const template = await rfqTemplateService.setStatus(req.params.id, userId, 'paused');
+      res.status(200).json({ success: true, message: 'RFQ template paused', data: template });
+    } catch (error: any) {
+      logger.error('Error pausing RFQ template:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async resume(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const template = await rfqTemplateService.setStatus(req.params.id, userId, 'active');
+      res.status(200).json({ success: true, message: 'RFQ template resumed', data: template });
+    } catch (error: any) {
+      logger.error('Error resuming RFQ template:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async runNow(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const rfq = await rfqTemplateService.runNow(req.params.id, userId);
+      res.status(201).json({ success: true, message: 'RFQ created from template', data: rfq });
+    } catch (error: any) {
+      logger.error('Error running RFQ template:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await rfqTemplateService.delete(req.params.id, userId);
+      res.status(200).json({ success: true, message: 'RFQ template deleted successfully' });
+    } catch (error: any) {
+      logger.error('Error deleting RFQ template:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+}
+
+export const rfqTemplateController = new RfqTemplateController();
\ No newline at end of file
@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { logger } from '../utils/logger';
 import { RfqService } from '../services/rfq.service';
+import { rfqAuctionService } from '../services/rfq-auction.service';
+import { quoteComparisonService } from '../services/quote-comparison.service';
+import { rfqMatchingService } from '../services/rfq-matching.service';
+import { rfqAttachmentService } from '../services/rfq-attachment.service';
+import { rfqSearchService } from '../services/rfq-search.service';
 
 const rfqService = new RfqService();
 
@@ -20,8 +25,12 @@ export class RfqController {
         message: 'RFQ created successfully',
         data: rfq,
       });
-    } catch (error) {
+    } catch (error: any) {
       logger.error('Error creating RFQ:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
       res.status(500).json({ error: 'Internal server error' });
     }
   }
@@ -72,7 +81,7 @@ export class RfqController {
   async getRfqById(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const rfq = await rfqService.getRfqById(id);
+      const rfq = await rfqService.getRfqById(id, req.user?.id);
 
       if (!rfq) {
         res.status(404).json({ error: 'RFQ not found' });
@@ -167,6 +176,331 @@ export class RfqController {
     }
   }
 
+  async placeBid(req: Request, res: Response): Promise<void> {
+    try {
+      const sellerId = req.user?.id;
+      if (!sellerId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const result = await rfqAuctionService.placeBid(req.params.id, sellerId, req.body.amount);
+      res.status(200).json({
+        success: true,
+        message: 'Bid placed successfully',
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error placing bid:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message, details: error.details });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async getStanding(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const standing = await rfqAuctionService.getStanding(req.params.id, userId);
+      res.status(200).json({
+        success: true,
+        message: 'Standing retrieved successfully',
+        data: standing,
+      });
+    } catch (error: any) {
+      logger.error('Error getting RFQ standing:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async compareQuotes(req: Request, res: Response): Promise<void> {
+    try {
+      const buyerId = req.user?.id;
+      if (!buyerId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { format, ...weights } = req.query as any;
+      const comparison = await quoteComparisonService.compare(req.params.id, buyerId, weights);
+      const filename = `rfq-${comparison.rfqId.slice(0, 8)}-quote-comparison`;
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+        res.status(200).send(quoteComparisonService.toCsv(comparison));
+        return;
+      }
+      if (format === 'xlsx') {
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+        res.status(200).send(await quoteComparisonService.toXlsx(comparison));
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Quote comparison retrieved successfully',
+        data: comparison,
+      });
+    } catch (error: any) {
+      logger.error('Error comparing quotes:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async getMatches(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const isAdmin = req.user?.role === 'admin' || req.user?.role === 'super_admin';
+      const matches = await rfqMatchingService.listForRfq(req.params.id, userId, isAdmin);
+      res.status(200).json({
+        success: true,
+        message: 'RFQ matches retrieved successfully',
+        data: matches,
+      });
+    } catch (error: any) {
+      logger.error('Error getting RFQ matches:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async uploadAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+      if (!req.file) {
+        res.status(400).json({ error: 'Attachment file is required' });
+        return;
+      }
+
+      const attachment = await rfqAttachmentService.upload({
+        rfqId: req.params.id,
+        userId,
+        file: req.file.buffer,
+        originalName: req.file.originalname,
+        contentType: req.file.mimetype,
+        kind: req.body.kind,
+        rfqItemId: req.body.rfqItemId,
+      });
+      res.status(201).json({
+        success: true,
+        message: 'Attachment uploaded successfully',
+        data: attachment,
+      });
+    } catch (error: any) {
+      logger.error('Error uploading RFQ attachment:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async getAttachments(req: Request, res: Response): Promise<void> {
+    try {
+      const attachments = await rfqAttachmentService.list(req.params.id);
+      res.status(200).json({
+        success: true,
+        message: 'Attachments retrieved successfully',
+        data: attachments,
+      });
+    } catch (error: any) {
+      logger.error('Error getting RFQ attachments:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async deleteAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await rfqAttachmentService.remove(req.params.id, req.params.attachmentId, userId);
+      res.status(200).json({
+        success: true,
+        message: 'Attachment deleted successfully',
+      });
+    } catch (error: any) {
+      logger.error('Error deleting RFQ attachment:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async getSavedSearches(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const searches = await rfqSearchService.listSavedSearches(userId);
+      res.status(200).json({
+        success: true,
+        message: 'Saved searches retrieved successfully',
+        data: searches,
+      });
+    } catch (error: any) {
+      logger.error('Error getting saved RFQ searches:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async createSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const search = await rfqSearchService.createSavedSearch(userId, req.body);
+      res.status(201).json({
+        success: true,
+        message: 'Saved search created successfully',
+        data: search,
+      });
+    } catch (error: any) {
+      logger.error('Error creating saved RFQ search:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async updateSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const search = await rfqSearchService.updateSavedSearch(req.params.searchId, userId, req.body);
+      res.status(200).json({
+        success: true,
+        message: 'Saved search updated successfully',
+        data: search,
+      });
+    } catch (error: any) {
+      logger.error('Error updating saved RFQ search:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async deleteSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      await rfqSearchService.deleteSavedSearch(req.params.searchId, userId);
+      res.status(200).json({
+        success: true,
+        message: 'Saved search deleted successfully',
+      });
+    } catch (error: any) {
+      logger.error('Error deleting saved RFQ search:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async runSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { page = 1, limit = 20 } = req.query;
+      const results = await rfqSearchService.runSavedSearch(req.params.searchId, userId, { page: Number(page), limit: Number(limit) });
+      res.status(200).json({
+        success: true,
+        message: 'RFQ search completed successfully',
+        data: results,
+      });
+    } catch (error: any) {
+      logger.error('Error running saved RFQ search:', error);
+      if (error?.statusCode && error.statusCode < 500) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async getMatchStats(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = req.query as { from?: string; to?: string };
+      const stats = await rfqMatchingService.getConversionStats(from ? new Date(from) : undefined, to ? new Date(to) : undefined);
+      res.status(200).json({
+        success: true,
+        message: 'Match conversion retrieved successfully',
+        data: stats,
+      });
+    } catch (error) {
+      logger.error('Error getting match conversion:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
   async getBuyerRfqs(req: Request, res: Response): Promise<void> {
     try {
       const buyerId = req.user?.id;
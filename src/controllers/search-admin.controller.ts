@@ -0,0 +1,36 @@
+import { Request, Response } from 'express';
+import { searchSynonymService } from '../services/search-synonym.service';
+import { searchIndexService } from '../services/search-index.service';
+
+export class SearchAdminController {
+  async listSynonyms(_req: Request, res: Response) {
+    const synonyms = await searchSynonymService.list();
+    res.json({ success: true, data: synonyms });
+  }
+  async createSynonym(req: Request, res: Response) {
+    const userId = req.user?.id; if (!userId) { res.status(401).json({ success: false, error: 'Unauthorized' }); return; }
+    const synonym = await searchSynonymService.create(req.body, userId);
+    res.status(201).json({ success: true, data: synonym });
+  }
+  async updateSynonym(req: Request, res: Response) {
+    const userId = req.user?.id; if (!userId) { res.status(401).json({ success: false, error: 'Unauthorized' }); return; }
+    const synonym = await searchSynonymService.update(req.params.id, req.body, userId);
+    res.json({ success: true, data: synonym });
+  }
+  async deleteSynonym(req: Request, res: Response) {
+    await searchSynonymService.delete(req.params.id);
+    res.json({ success: true, message: 'Synonym rule deleted' });
+  }
+  async reindex(req: Request, res: Response) {
+    const job = await searchIndexService.reindex(req.body.index, req.user?.id);
+    res.status(202).json({ success: true, message: 'Reindex started', data: job });
+  }
+  async getIndexStatus(_req: Request, res: Response) {
+    const status = await searchIndexService.getStatus();
+    res.json({ success: true, data: status });
+  }
+  async getReindexJob(req: Request, res: Response) {
+    const job = await searchIndexService.getJob(req.params.id);
+    res.json({ success: true, data: job });
+  }
+}
@@ -3,12 +3,12 @@ import { logger } from '../utils/logger';
 import { ProductService } from '../services/product.service';
 import { ServiceService } from '../services/service.service';
 import { UserService } from '../services/user.service';
-import { RfqService } from '../services/rfq.service';
+import { rfqSearchService } from '../services/rfq-search.service';
+import { elasticsearchService } from '../services/elasticsearch.service';
 
 const productService = new ProductService();
 const serviceService = new ServiceService();
 const userService = new UserService();
-const rfqService = new RfqService();
 
 export class SearchController {
   // Slimmed search endpoint that delegates to ProductService.searchProducts
@@ -134,12 +134,13 @@ export class SearchController {
         return;
       }
 
-      // Simple suggestions - in a real implementation, you'd use Elasticsearch
-      const suggestions = [
-        `${q} products`,
-        `${q} services`,
-        `${q} suppliers`,
-      ];
+      let suggestions: string[];
+      try {
+        suggestions = await elasticsearchService.autocomplete(q as string);
+      } catch (error) {
+        logger.warn('Autocomplete unavailable, using generic suggestions', error);
+        suggestions = [`${q} products`, `${q} services`, `${q} suppliers`];
+      }
 
       res.status(200).json({
         success: true,
@@ -348,51 +349,22 @@ export class SearchController {
     }
   }
 
+  // Open RFQs for seller discovery, with facets; see RfqSearchService
   async searchRfqs(req: Request, res: Response): Promise<void> {
     try {
-      const {
-        q: query,
-        page = 1,
-        limit = 20,
-        categoryId,
-        status = 'active',
-      } = req.query;
-
-      if (!query) {
-        res.status(400).json({ error: 'Search query is required' });
-        return;
-      }
-
-      const where: any = {
-        status: status as string,
-        OR: [
-          { title: { contains: query as string, mode: 'insensitive' } },
-          { description: { contains: query as string, mode: 'insensitive' } },
-        ],
-      };
+      const { sort, page = 1, limit = 20, ...criteria } = req.query as any;
 
-      if (categoryId) {
-        where.categoryId = categoryId;
-      }
-
-      const pageNum = parseInt(page as string);
-      const limitNum = parseInt(limit as string);
-      const skip = (pageNum - 1) * limitNum;
-
-      const [rfqs, total] = await Promise.all([
-        rfqService.searchRfqs(where, skip, limitNum),
-        rfqService.countRfqs(where),
-      ]);
+      const results = await rfqSearchService.search(criteria, {
+        sort,
+        page: Number(page),
+        limit: Number(limit),
+        excludeBuyerId: req.user?.id,
+      });
 
       res.status(200).json({
         success: true,
         message: 'RFQ search completed successfully',
-        data: {
-          rfqs,
-          total,
-          page: pageNum,
-          totalPages: Math.ceil(total / limitNum),
-        },
+        data: results,
       });
     } catch (error) {
       logger.error('Error searching RFQs:', error);
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { ssoService } from '@/services/sso.service';
 import { AuthService } from '@/services/auth.service';
 import { SubscriptionService } from '@/services/subscription.service';
+import { BILLABLE_STATUSES } from '@/services/subscription-billing.service';
 
 const authService = new AuthService();
 const subscriptionService = new SubscriptionService();
@@ -39,7 +40,7 @@ export class SSOController {
 
         // Check if user has an active subscription
         const currentSubscription = await subscriptionService.getCurrent(user.id);
-        if (!currentSubscription || currentSubscription.status !== 'active') {
+        if (!currentSubscription || !BILLABLE_STATUSES.includes(currentSubscription.status)) {
           return res.status(403).json({
             success: false,
             error: 'Access denied: Active subscription required to access dashboard'
@@ -2,6 +2,12 @@ import { Request, Response } from 'express';
 import { subscriptionService } from '@/services/subscription.service';
 import { logger } from '@/utils/logger';
 
+// Client errors keep their status (402 for a declined charge, with the failed invoice in details)
+const sendError = (res: Response, error: any, fallback: string) => {
+  const status = error?.statusCode && error.statusCode < 500 ? error.statusCode : 400;
+  res.status(status).json({ success: false, error: error?.message || fallback, ...(error?.details && { details: error.details }) });
+};
+
 export class SubscriptionController {
   async current(req: Request, res: Response): Promise<void> {
     try {
@@ -25,15 +31,28 @@ export class SubscriptionController {
     }
   }
 
+  async invoices(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id;
+      const { page, limit, subscriptionId, status } = req.query as any;
+      const result = await subscriptionService.listInvoices(userId, { subscriptionId, status }, page, limit);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('SubscriptionController.invoices error', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch invoices' });
+    }
+  }
+
   async create(req: Request, res: Response): Promise<void> {
     try {
       const userId = req.user!.id;
-      const { type, planName, durationMonths, trialDays } = req.body;
-      const created = await subscriptionService.create({ userId, type, planName, durationMonths, trialDays });
-      res.status(201).json({ success: true, message: 'Subscription created', data: created });
+      const { type, planName, planCode, durationMonths, trialDays, paymentMethod, mandateGateway, mandateId, mandateCustomerId } = req.body;
+      const created = await subscriptionService.create({ userId, type, planName, planCode, durationMonths, trialDays, paymentMethod, mandateGateway, mandateId, mandateCustomerId });
+      const message = created.status === 'incomplete' ? 'Subscription created; payment is processing' : 'Subscription created';
+      res.status(201).json({ success: true, message, data: created });
     } catch (error: any) {
       logger.error('SubscriptionController.create error', error);
-      res.status(400).json({ success: false, error: error.message || 'Failed to create subscription' });
+      sendError(res, error, 'Failed to create subscription');
     }
   }
 
@@ -41,12 +60,15 @@ export class SubscriptionController {
     try {
       const userId = req.user!.id;
       const { id } = req.params;
-      const { planName, type, extendMonths } = req.body;
-      const updated = await subscriptionService.upgrade(userId, id, { planName, type, extendMonths });
-      res.json({ success: true, message: 'Subscription updated', data: updated });
+      const { planName, planCode, type } = req.body;
+      const updated = await subscriptionService.upgrade(userId, id, { planName, planCode, type });
+      const message = updated.invoice?.status === 'processing'
+        ? 'Upgrade payment is processing'
+        : updated.pendingPlanCode ? 'Plan change scheduled for the next renewal' : 'Subscription updated';
+      res.json({ success: true, message, data: updated });
     } catch (error: any) {
       logger.error('SubscriptionController.upgrade error', error);
-      res.status(400).json({ success: false, error: error.message || 'Failed to upgrade subscription' });
+      sendError(res, error, 'Failed to upgrade subscription');
     }
   }
 
@@ -54,10 +76,10 @@ export class SubscriptionController {
     try {
       const userId = req.user!.id; const { id } = req.params; const { atPeriodEnd = true } = req.body;
       const result = await subscriptionService.cancel(userId, id, atPeriodEnd);
-      res.json({ success: true, message: atPeriodEnd ? 'Cancellation scheduled' : 'Subscription cancelled', data: result });
+      res.json({ success: true, message: result.cancelAtPeriodEnd ? 'Cancellation scheduled' : 'Subscription cancelled', data: result });
     } catch (error: any) {
       logger.error('SubscriptionController.cancel error', error);
-      res.status(400).json({ success: false, error: error.message || 'Failed to cancel subscription' });
+      sendError(res, error, 'Failed to cancel subscription');
     }
   }
 
@@ -68,7 +90,30 @@ export class SubscriptionController {
       res.json({ success: true, message: 'Subscription reactivated', data: result });
     } catch (error: any) {
       logger.error('SubscriptionController.reactivate error', error);
-      res.status(400).json({ success: false, error: error.message || 'Failed to reactivate subscription' });
+      sendError(res, error, 'Failed to reactivate subscription');
+    }
+  }
+
+  async setPaymentMethod(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id; const { id } = req.params;
+      const { paymentMethod, mandateGateway, mandateId, mandateCustomerId } = req.body;
+      const result = await subscriptionService.setPaymentMethod(userId, id, { paymentMethod, mandateGateway, mandateId, mandateCustomerId });
+      res.json({ success: true, message: 'Payment method updated', data: result });
+    } catch (error: any) {
+      logger.error('SubscriptionController.setPaymentMethod error', error);
+      sendError(res, error, 'Failed to update payment method');
+    }
+  }
+
+  async retryPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.user!.id; const { id } = req.params;
+      const result = await subscriptionService.retryPayment(userId, id);
+      res.json({ success: true, message: result.invoice.status === 'paid' ? 'Payment received' : 'Payment is processing', data: result });
+    } catch (error: any) {
+      logger.error('SubscriptionController.retryPayment error', error);
+      sendError(res, error, 'Failed to retry payment');
     }
   }
 }
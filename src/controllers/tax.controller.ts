@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import { taxService } from '@/services/tax.service';
+import { NotFoundError } from '@/middleware/error-handler';
+import { logger } from '@/utils/logger';
+
+export class TaxController {
+  async calculate(req: Request, res: Response): Promise<void> {
+    try {
+      const buyerId = req.user?.id;
+      if (!buyerId) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { sellerId, items, deliveryAddress } = req.body;
+      const result = await taxService.calculate({ sellerId, buyerId, items, deliveryAddress });
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      logger.error('TaxController.calculate error:', error);
+      res.status(error instanceof NotFoundError ? 404 : 400).json({ success: false, error: error.message || 'Failed to calculate tax' });
+    }
+  }
+
+  async listRates(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = '1', limit = '20', code, codeType, categoryId, activeOnly } = req.query;
+      const result = await taxService.listRates({
+        code: code as string,
+        codeType: codeType as string,
+        categoryId: categoryId as string,
+        activeOnly: activeOnly === 'true' || (activeOnly as unknown) === true,
+      }, parseInt(page as string), parseInt(limit as string));
+      res.json({ success: true, data: result });
+    } catch (error) {
+      logger.error('TaxController.listRates error:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch tax rates' });
+    }
+  }
+
+  async getRate(req: Request, res: Response): Promise<void> {
+    try {
+      const rate = await taxService.getRate(req.params.id);
+      res.json({ success: true, data: rate });
+    } catch (error: any) {
+      if (error instanceof NotFoundError) {
+        res.status(404).json({ success: false, error: error.message });
+        return;
+      }
+      logger.error('TaxController.getRate error:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch tax rate' });
+    }
+  }
+
+  async createRate(req: Request, res: Response): Promise<void> {
+    try {
+      const rate = await taxService.createRate(req.body);
+      res.status(201).json({ success: true, message: 'Tax rate created', data: rate });
+    } catch (error: any) {
+      logger.error('TaxController.createRate error:', error);
+      res.status(400).json({ success: false, error: error.message || 'Failed to create tax rate' });
+    }
+  }
+
+  async updateRate(req: Request, res: Response): Promise<void> {
+    try {
+      const rate = await taxService.updateRate(req.params.id, req.body);
+      res.json({ success: true, message: 'Tax rate updated', data: rate });
+    } catch (error: any) {
+      logger.error('TaxController.updateRate error:', error);
+      res.status(error instanceof NotFoundError ? 404 : 400).json({ success: false, error: error.message || 'Failed to update tax rate' });
+    }
+  }
+
+  async deactivateRate(req: Request, res: Response): Promise<void> {
+    try {
+      const rate = await taxService.deactivateRate(req.params.id);
+      res.json({ success: true, message: 'Tax rate deactivated', data: rate });
+    } catch (error: any) {
+      logger.error('TaxController.deactivateRate error:', error);
+      res.status(error instanceof NotFoundError ? 404 : 400).json({ success: false, error: error.message || 'Failed to deactivate tax rate' });
+    }
+  }
+}
+
+export const taxController = new TaxController();
@@ -1,8 +1,19 @@
 import { Request, Response } from 'express';
 import { logger } from '../utils/logger';
 import { usageLimitsService } from '../services/usage-limits.service';
+import { PLAN_CATALOGUE, PLAN_ORDER } from '../config/plans';
 
 export class UsageLimitsController {
+  /**
+   * Plan catalogue with prices and entitlements
+   */
+  async getPlans(req: Request, res: Response): Promise<void> {
+    res.status(200).json({
+      success: true,
+      data: PLAN_ORDER.map(code => PLAN_CATALOGUE[code]),
+    });
+  }
+
   /**
    * Get usage summary for current user
    */
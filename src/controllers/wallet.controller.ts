@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { logger } from '../utils/logger';
 import { WalletService } from '../services/wallet.service';
+import { ledgerService } from '../services/ledger.service';
 
 const walletService = new WalletService();
 
@@ -432,4 +433,58 @@ export class WalletController {
       res.status(500).json({ error: 'Internal server error' });
     }
   }
+
+  // Ledger (admin)
+  async getJournal(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, accountCode, referenceType, referenceId } = req.query;
+      const result = await ledgerService.getEntries(
+        { accountCode: accountCode as string, referenceType: referenceType as string, referenceId: referenceId as string },
+        parseInt(page as string),
+        parseInt(limit as string)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Journal entries retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Error getting journal entries:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async getReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const { page = 1, limit = 20, status = 'open' } = req.query;
+      const [drifts, trialBalance] = await Promise.all([
+        ledgerService.listDrifts(status as string, parseInt(page as string), parseInt(limit as string)),
+        ledgerService.getTrialBalance(),
+      ]);
+
+      res.status(200).json({
+        success: true,
+        message: 'Ledger reconciliation retrieved successfully',
+        data: { trialBalance, drifts },
+      });
+    } catch (error) {
+      logger.error('Error getting ledger reconciliation:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  async runReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await ledgerService.reconcileWallets();
+      res.status(200).json({
+        success: true,
+        message: 'Ledger reconciliation completed',
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Error running ledger reconciliation:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
 }
\ No newline at end of file
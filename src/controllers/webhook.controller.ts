@@ -1,87 +1,55 @@
 import { Request, Response } from 'express';
 import { logger, logHelper } from '@/utils/logger';
-import { redisClient } from '@/config/redis';
-import cashfreeService from '@/services/cashfree.service';
 import { WhatsAppService } from '@/services/whatsapp.service';
 import { webhookService } from '@/services/webhook.service';
-import { paymentReconciliationService } from '@/services/payment-reconciliation.service';
+import { paymentWebhookService } from '@/services/payment-webhook.service';
+import { paymentGateways } from '@/services/payment-gateway.service';
 import { shippingService } from '@/services/shipping.service';
 
 const whatsappService = new WhatsAppService();
 
 export class WebhookController {
+  async catalogue(req: Request, res: Response): Promise<void> {
+    res.json({ success: true, data: webhookService.getCatalogue() });
+  }
   async list(req: Request, res: Response): Promise<void> {
-    try {
-      const userId = req.user?.id || (req.query.userId as string);
-      const hooks = await webhookService.list(userId);
-      res.json({ success: true, data: hooks });
-    } catch (error) {
-      logger.error('WebhookController.list error', error);
-      res.status(500).json({ success: false, error: 'Failed to fetch webhooks' });
-    }
+    const hooks = await webhookService.list(req.user!.id);
+    res.json({ success: true, data: hooks });
   }
   async create(req: Request, res: Response): Promise<void> {
-    try {
-      const userId = req.user?.id || req.body.userId;
-      const { name, url, events } = req.body;
-      const hook = await webhookService.create({ userId, name, url, events });
-      res.status(201).json({ success: true, message: 'Webhook created', data: hook });
-    } catch (error) {
-      logger.error('WebhookController.create error', error);
-      res.status(400).json({ success: false, error: 'Failed to create webhook' });
-    }
+    const { name, url, events } = req.body;
+    const hook = await webhookService.create({ userId: req.user!.id, name, url, events });
+    res.status(201).json({ success: true, message: 'Webhook created', data: hook });
   }
   async update(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const data = req.body;
-      const hook = await webhookService.update(id, {
-        ...(data.name ? { name: data.name } : {}),
-        ...(data.url ? { url: data.url } : {}),
-        ...(data.events ? { events: data.events } : {}),
-        ...(data.isActive != null ? { isActive: data.isActive } : {}),
-      });
-      res.json({ success: true, message: 'Webhook updated', data: hook });
-    } catch (error) {
-      res.status(400).json({ success: false, error: 'Failed to update webhook' });
-    }
+    const hook = await webhookService.update(req.user!.id, req.params.id, req.body);
+    res.json({ success: true, message: 'Webhook updated', data: hook });
   }
   async regenerateSecret(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const hook = await webhookService.regenerateSecret(id);
-      res.json({ success: true, message: 'Secret regenerated', data: hook });
-    } catch (error) {
-      res.status(400).json({ success: false, error: 'Failed to regenerate secret' });
-    }
+    const hook = await webhookService.regenerateSecret(req.user!.id, req.params.id);
+    res.json({ success: true, message: 'Secret regenerated', data: hook });
   }
   async testFire(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params; const { event = 'test.event', extra } = req.body;
-      const result = await webhookService.testFire(id, event, extra);
-      res.json({ success: true, message: 'Test event dispatched', data: result });
-    } catch (error) {
-      logger.error('WebhookController.testFire error', error);
-      res.status(400).json({ success: false, error: 'Failed to dispatch test event' });
-    }
+    const result = await webhookService.testFire(req.user!.id, req.params.id, req.body.extra);
+    res.json({ success: true, message: 'Test event dispatched', data: result });
   }
   async retryLast(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params; const { event = 'retry.event' } = req.body;
-      const result = await webhookService.retryLast(id, event);
-      res.json({ success: true, message: 'Retry dispatched', data: result });
-    } catch (error: any) {
-      res.status(400).json({ success: false, error: error.message || 'Failed to retry event' });
-    }
+    const delivery = await webhookService.retryLast(req.user!.id, req.params.id);
+    res.status(202).json({ success: true, message: 'Redelivery queued', data: delivery });
+  }
+  async redeliver(req: Request, res: Response): Promise<void> {
+    const delivery = await webhookService.redeliver(req.user!.id, req.params.id, req.params.attemptId);
+    res.status(202).json({ success: true, message: 'Redelivery queued', data: delivery });
   }
   async attempts(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const attempts = await webhookService.getAttempts(id);
-      res.json({ success: true, data: attempts });
-    } catch (error) {
-      res.status(400).json({ success: false, error: 'Failed to fetch attempts' });
-    }
+    const { page = 1, limit = 20 } = req.query as any;
+    const attempts = await webhookService.getAttempts(req.user!.id, req.params.id, Number(page), Number(limit));
+    res.json({ success: true, data: attempts });
+  }
+  async deliveries(req: Request, res: Response): Promise<void> {
+    const { page = 1, limit = 20, status, event } = req.query as any;
+    const deliveries = await webhookService.getDeliveries(req.user!.id, req.params.id, { status, event }, Number(page), Number(limit));
+    res.json({ success: true, data: deliveries });
   }
   async handleCashfreeWebhook(req: Request, res: Response): Promise<void> {
   /**
@@ -99,26 +67,63 @@ export class WebhookController {
    *             type: object
    *     responses:
    *       200:
-   *         description: Webhook queued for processing
+   *         description: Webhook stored for processing
    */
-    try {
-      const payload = req.body;
-      const signatureHeader = req.headers['x-cashfree-signature'] as string | undefined;
+    await this.queuePaymentWebhook('cashfree', req, res);
+  }
+
+  async handlePaymentWebhook(req: Request, res: Response): Promise<void> {
+  /**
+   * @openapi
+   * /webhooks/payments/{gateway}:
+   *   post:
+   *     tags:
+   *       - Webhooks
+   *     summary: Receive payment and refund webhooks from a payment gateway
+   *     parameters:
+   *       - in: path
+   *         name: gateway
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [cashfree, razorpay, fake]
+   *     responses:
+   *       200:
+   *         description: Webhook stored for processing
+   *       404:
+   *         description: Unknown gateway
+   */
+    const { gateway } = req.params;
+    if (!paymentGateways.has(gateway)) {
+      res.status(404).json({ error: 'Unknown payment gateway' });
+      return;
+    }
+    await this.queuePaymentWebhook(gateway, req, res);
+  }
 
-      // Best-effort validation
-      const valid = cashfreeService.validateSignature(payload, signatureHeader);
+  private async queuePaymentWebhook(gateway: string, req: Request, res: Response): Promise<void> {
+    try {
+      // Signatures are computed over the bytes the gateway sent, captured by the JSON body parser
+      const rawBody = (req as any).rawBody ?? JSON.stringify(req.body);
+      const { event, duplicate } = await paymentWebhookService.ingest(gateway, rawBody, req.headers);
 
-      logHelper.logWebhook('cashfree', valid ? 'incoming_valid' : 'incoming_unverified', payload);
+      logHelper.logWebhook(gateway, event.signatureValid ? 'incoming_valid' : 'incoming_rejected', { eventId: event.id, eventType: event.eventType, duplicate });
 
-      // Queue for background processing regardless
-      await redisClient.lpush('payment_webhooks', JSON.stringify(payload));
+      if (!event.signatureValid) {
+        res.status(401).json({ error: 'Invalid webhook signature' });
+        return;
+      }
+      if (duplicate) {
+        res.json({ success: true, message: 'Duplicate webhook ignored' });
+        return;
+      }
 
-      // Attempt immediate reconciliation if payload references an order or txn (non-blocking best-effort)
-      paymentReconciliationService.reconcileCashfreePayload(payload);
+      // Apply right away when possible; the process-payment-webhooks job retries anything that fails
+      paymentWebhookService.processEvent(event.id).catch(err => logger.error(`Failed to process ${gateway} webhook ${event.id}`, err));
 
-      res.json({ success: true, message: 'Webhook queued' });
+      res.json({ success: true, message: 'Webhook received' });
     } catch (error) {
-      logger.error('Error handling cashfree webhook:', error);
+      logger.error(`Error handling ${gateway} webhook:`, error);
       res.status(500).json({ error: 'Internal server error' });
     }
   }
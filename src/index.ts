@@ -10,6 +10,8 @@ import slowDown from 'express-slow-down';
 import { createServer } from 'http';
 import { ensureKafkaTopics } from './config/kafka';
 import { kafkaConsumer } from './services/kafka-consumer.service';
+import { outboxService } from './services/outbox.service';
+import { webhookDeliveryService } from './services/webhook-delivery.service';
 import { Server as SocketIOServer } from 'socket.io';
 import { prisma } from '@/config/database';
 import { config } from '@/config/environment';
@@ -120,7 +122,13 @@ class Application {
     }));
 
     // Body parsing
-    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use(express.json({
+      limit: '10mb',
+      // Gateway webhook signatures cover the exact bytes received, so keep them for verification
+      verify: (req, _res, buf) => {
+        if (req.url?.includes('/webhooks/')) (req as any).rawBody = buf.toString('utf8');
+      },
+    }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
     this.app.use(cookieParser());
 
@@ -350,6 +358,10 @@ class Application {
         } catch (err) {
           logger.warn('Kafka initialization skipped/failed:', err);
         }
+        // Relay domain events to Kafka, webhooks and search sync
+        outboxService.start();
+        // Send queued events to tenant webhooks
+        webhookDeliveryService.start();
       });
 
       // Setup middleware
@@ -463,6 +475,9 @@ class Application {
           jobScheduler.stopAllJobs();
           logger.info('Cron jobs stopped');
 
+          outboxService.stop();
+          webhookDeliveryService.stop();
+
           // Close database connection
           await prisma.$disconnect();
           logger.info('Database disconnected');
@@ -6,6 +6,20 @@ import { minioService } from '../services/minio.service';
 import { notificationService } from '../services/notification.service';
 import { analyticsService } from '../services/analytics.service';
 import { prisma } from '@/config/database';
+import { OrderService } from '../services/order.service';
+import { escrowService } from '../services/escrow.service';
+import { ledgerService } from '../services/ledger.service';
+import { refundService } from '../services/refund.service';
+import { settlementReconciliationService } from '../services/settlement-reconciliation.service';
+import { negotiationService } from '../services/negotiation.service';
+import { rfqAuctionService } from '../services/rfq-auction.service';
+import { rfqTemplateService } from '../services/rfq-template.service';
+import { rfqSearchService } from '../services/rfq-search.service';
+import { outboxService } from '../services/outbox.service';
+import { webhookDeliveryService } from '../services/webhook-delivery.service';
+import { apiKeyService } from '../services/api-key.service';
+import { subscriptionBillingService } from '../services/subscription-billing.service';
+import { processPaymentWebhooksJob } from './process-payment-webhooks.job';
 
 export class JobScheduler {
     private jobs: Map<string, cron.ScheduledTask> = new Map();
@@ -42,9 +56,48 @@ export class JobScheduler {
         // Update inventory alerts every 30 minutes
         this.scheduleJob('inventory-alerts', '*/30 * * * *', this.checkInventoryAlerts.bind(this));
 
+        // Release stock held by unpaid orders every 5 minutes
+        this.scheduleJob('release-expired-reservations', '*/5 * * * *', this.releaseExpiredReservations.bind(this));
+
+        // Every hour, create escrow holds that failed at payment time and release those whose dispute window has passed
+        this.scheduleJob('release-escrow-holds', '15 * * * *', this.releaseEscrowHolds.bind(this));
+
+        // Verify wallet balances against the journal every day at 2:30 AM
+        this.scheduleJob('reconcile-ledger', '30 2 * * *', this.reconcileLedger.bind(this));
+
+        // Poll the gateway for refunds still in flight every 15 minutes
+        this.scheduleJob('sync-pending-refunds', '*/15 * * * *', this.syncPendingRefunds.bind(this));
+
+        // Import gateway settlement files from the MinIO inbox every day at 6 AM
+        this.scheduleJob('reconcile-settlements', '0 6 * * *', this.reconcileSettlements.bind(this));
+
+        // Close sealed-bid and auction RFQs whose deadline has passed, every minute
+        this.scheduleJob('close-rfq-bidding', '* * * * *', this.closeRfqBidding.bind(this));
+
+        // Post due occurrences of recurring RFQ templates every 15 minutes
+        this.scheduleJob('materialise-rfq-templates', '*/15 * * * *', this.materialiseRfqTemplates.bind(this));
+
+        // Alert sellers to new RFQs matching their saved searches every 10 minutes
+        this.scheduleJob('rfq-saved-search-alerts', '*/10 * * * *', this.sendRfqSearchAlerts.bind(this));
+
+        // Expire lapsed negotiation offers every 10 minutes
+        this.scheduleJob('expire-negotiation-offers', '*/10 * * * *', this.expireNegotiationOffers.bind(this));
+
         // Process payment webhooks every 5 minutes
         this.scheduleJob('process-payment-webhooks', '*/5 * * * *', this.processPaymentWebhooks.bind(this));
 
+        // Purge published outbox events every day at 3:45 AM
+        this.scheduleJob('purge-outbox-events', '45 3 * * *', this.purgeOutboxEvents.bind(this));
+
+        // Purge delivered webhook deliveries every day at 4:15 AM
+        this.scheduleJob('purge-webhook-deliveries', '15 4 * * *', this.purgeWebhookDeliveries.bind(this));
+
+        // Purge old API key usage logs every day at 4:30 AM
+        this.scheduleJob('purge-api-key-usage', '30 4 * * *', this.purgeApiKeyUsage.bind(this));
+
+        // Renew, retry and expire subscriptions, and settle mandate charges, every 15 minutes
+        this.scheduleJob('renew-subscriptions', '*/15 * * * *', this.renewSubscriptions.bind(this));
+
         // Backup database every day at 1 AM
         this.scheduleJob('backup-database', '0 1 * * *', this.backupDatabase.bind(this));
 
@@ -115,6 +168,7 @@ export class JobScheduler {
             await elasticsearchService.bulkIndexProducts();
             await elasticsearchService.bulkIndexServices();
             await elasticsearchService.bulkIndexUsers();
+            await elasticsearchService.bulkIndexRfqs();
             
             logger.info('Elasticsearch sync completed successfully');
         } catch (error) {
@@ -130,7 +184,8 @@ export class JobScheduler {
             const expiredRfqs = await prisma.rfq.findMany({
                 where: {
                     expiresAt: { lt: new Date() },
-                    status: 'active'
+                    // Includes auction RFQs the buyer never awarded
+                    status: { in: ['active', 'evaluating'] }
                 }
             });
 
@@ -350,47 +405,166 @@ export class JobScheduler {
         }
     }
 
-    private async processPaymentWebhooks(): Promise<void> {
+    private async releaseExpiredReservations(): Promise<void> {
         try {
-            // Get pending payment webhooks from Redis queue
-            const webhooks = await redisClient.lrange('payment_webhooks', 0, 49);
-            
-            if (webhooks.length > 0) {
-                for (const webhookData of webhooks) {
-                    try {
-                        const webhook = JSON.parse(webhookData);
-                        
-                        // Process webhook based on type
-                        await this.processPaymentWebhook(webhook);
-                        
-                        // Remove processed webhook
-                        await redisClient.lrem('payment_webhooks', 1, webhookData);
-                    } catch (error) {
-                        logger.error('Failed to process payment webhook:', error);
-                    }
-                }
-                
-                logger.info(`Processed ${webhooks.length} payment webhooks`);
+            const released = await new OrderService().releaseExpiredReservations();
+            if (released > 0) {
+                logger.info(`Cancelled ${released} unpaid orders with expired stock reservations`);
+            }
+        } catch (error) {
+            logger.error('Releasing expired reservations failed:', error);
+            throw error;
+        }
+    }
+
+    private async releaseEscrowHolds(): Promise<void> {
+        try {
+            const held = await escrowService.holdPaidOrders();
+            if (held > 0) {
+                logger.info(`Created ${held} missing escrow holds for paid orders`);
+            }
+            const released = await escrowService.releaseDueHolds();
+            if (released > 0) {
+                logger.info(`Released ${released} escrow holds to sellers`);
+            }
+        } catch (error) {
+            logger.error('Releasing escrow holds failed:', error);
+            throw error;
+        }
+    }
+
+    private async reconcileLedger(): Promise<void> {
+        try {
+            const result = await ledgerService.reconcileWallets();
+            logger.info(`Ledger reconciliation checked ${result.walletsChecked} wallets, ${result.drifts.length} drifts`);
+        } catch (error) {
+            logger.error('Ledger reconciliation failed:', error);
+            throw error;
+        }
+    }
+
+    private async reconcileSettlements(): Promise<void> {
+        try {
+            const reports = await settlementReconciliationService.importInbox();
+            if (reports.length > 0) {
+                const mismatches = reports.reduce((sum, r) => sum + r.mismatchCount + r.missingCount, 0);
+                logger.info(`Imported ${reports.length} settlement files, ${mismatches} lines need review`);
+            }
+        } catch (error) {
+            logger.error('Settlement reconciliation failed:', error);
+            throw error;
+        }
+    }
+
+    private async syncPendingRefunds(): Promise<void> {
+        try {
+            const settled = await refundService.syncPendingRefunds();
+            if (settled > 0) {
+                logger.info(`Settled ${settled} pending refunds`);
+            }
+        } catch (error) {
+            logger.error('Syncing pending refunds failed:', error);
+            throw error;
+        }
+    }
+
+    private async closeRfqBidding(): Promise<void> {
+        try {
+            const closed = await rfqAuctionService.closeDueBidding();
+            if (closed > 0) {
+                logger.info(`Closed bidding on ${closed} RFQs`);
             }
+        } catch (error) {
+            logger.error('Closing RFQ bidding failed:', error);
+            throw error;
+        }
+    }
+
+    private async materialiseRfqTemplates(): Promise<void> {
+        try {
+            const posted = await rfqTemplateService.materialiseDue();
+            if (posted > 0) {
+                logger.info(`Posted ${posted} recurring RFQs`);
+            }
+        } catch (error) {
+            logger.error('Materialising RFQ templates failed:', error);
+            throw error;
+        }
+    }
+
+    private async sendRfqSearchAlerts(): Promise<void> {
+        try {
+            const sent = await rfqSearchService.sendSavedSearchAlerts();
+            if (sent > 0) {
+                logger.info(`Sent ${sent} saved RFQ search alerts`);
+            }
+        } catch (error) {
+            logger.error('Sending saved RFQ search alerts failed:', error);
+            throw error;
+        }
+    }
+
+    private async expireNegotiationOffers(): Promise<void> {
+        try {
+            const expired = await negotiationService.expireOffers();
+            if (expired > 0) {
+                logger.info(`Expired ${expired} negotiation offers`);
+            }
+        } catch (error) {
+            logger.error('Expiring negotiation offers failed:', error);
+            throw error;
+        }
+    }
+
+    private async processPaymentWebhooks(): Promise<void> {
+        try {
+            // Drains the stored webhook events through each gateway's adapter
+            await processPaymentWebhooksJob();
         } catch (error) {
             logger.error('Payment webhooks processing failed:', error);
             throw error;
         }
     }
 
-    private async processPaymentWebhook(webhook: any): Promise<void> {
-        // Implementation depends on payment gateway
-        logger.info(`Processing payment webhook: ${webhook.type}`);
-        
-        // Update order payment status based on webhook
-        if (webhook.orderId) {
-            await prisma.order.update({
-                where: { id: webhook.orderId },
-                data: {
-                    paymentStatus: webhook.status,
-                    updatedAt: new Date()
-                }
-            });
+    private async purgeOutboxEvents(): Promise<void> {
+        try {
+            const purged = await outboxService.purgePublished();
+            logger.info(`Purged ${purged} published outbox events`);
+        } catch (error) {
+            logger.error('Outbox purge failed:', error);
+            throw error;
+        }
+    }
+
+    private async purgeWebhookDeliveries(): Promise<void> {
+        try {
+            const purged = await webhookDeliveryService.purgeDelivered();
+            logger.info(`Purged ${purged} delivered webhook deliveries`);
+        } catch (error) {
+            logger.error('Webhook delivery purge failed:', error);
+            throw error;
+        }
+    }
+
+    private async purgeApiKeyUsage(): Promise<void> {
+        try {
+            const purged = await apiKeyService.purgeUsage();
+            logger.info(`Purged ${purged} API key usage log entries`);
+        } catch (error) {
+            logger.error('API key usage purge failed:', error);
+            throw error;
+        }
+    }
+
+    private async renewSubscriptions(): Promise<void> {
+        try {
+            const { processed, settled } = await subscriptionBillingService.renewDue();
+            if (processed || settled) {
+                logger.info(`Subscription billing: ${processed} subscriptions billed, ${settled} mandate charges settled`);
+            }
+        } catch (error) {
+            logger.error('Subscription renewal failed:', error);
+            throw error;
         }
     }
 
@@ -1,6 +1,7 @@
 import { prisma } from '@/config/database';
 import { elasticsearchHelper, INDICES } from '@/config/elasticsearch';
 import { logger } from '@/utils/logger';
+import { elasticsearchService, RFQ_INDEX_INCLUDE, toRfqDocument } from '@/services/elasticsearch.service';
 
 export const syncElasticsearchJob = async (): Promise<void> => {
   try {
@@ -63,11 +64,8 @@ const syncProducts = async (): Promise<void> => {
     });
 
     for (const product of products) {
-      await elasticsearchHelper.indexDocument(
-        INDICES.PRODUCTS,
-        product.id,
-        product
-      );
+      // Goes through the write alias so an in-progress reindex receives it too
+      await elasticsearchService.indexProduct(product);
     }
 
     logger.info(`Synced ${products.length} products to Elasticsearch`);
@@ -116,11 +114,7 @@ const syncServices = async (): Promise<void> => {
     });
 
     for (const service of services) {
-      await elasticsearchHelper.indexDocument(
-        INDICES.SERVICES,
-        service.id,
-        service
-      );
+      await elasticsearchService.indexService(service);
     }
 
     logger.info(`Synced ${services.length} services to Elasticsearch`);
@@ -179,48 +173,21 @@ const syncUsers = async (): Promise<void> => {
 
 const syncRFQs = async (): Promise<void> => {
   try {
-    // Get recently updated RFQs
+    // Get recently created or updated RFQs, including status changes
     const rfqs = await prisma.rfq.findMany({
       where: {
-        createdAt: {
+        updatedAt: {
           gte: new Date(Date.now() - 30 * 60 * 1000), // Last 30 minutes
         },
       },
-      include: {
-        buyer: {
-          select: {
-            id: true,
-            businessName: true,
-            location: true,
-            city: true,
-            state: true,
-            country: true,
-            verificationTier: true,
-            isVerified: true,
-          },
-        },
-        category: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-          },
-        },
-        subcategory: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-          },
-        },
-      },
+      include: RFQ_INDEX_INCLUDE,
     });
 
     for (const rfq of rfqs) {
       await elasticsearchHelper.indexDocument(
         INDICES.RFQS,
         rfq.id,
-        rfq
+        toRfqDocument(rfq)
       );
     }
 
@@ -228,4 +195,4 @@ const syncRFQs = async (): Promise<void> => {
   } catch (error) {
     logger.error('Error syncing RFQs to Elasticsearch:', error);
   }
-};
\ No newline at end of file
+};
@@ -3,7 +3,7 @@ import { logger } from '@/utils/logger';
 
 export const updateInventoryJob = async (): Promise<void> => {
   try {
-    // Update inventory levels based on recent orders
+    // Keep product stock in line with warehouse inventory
     await updateInventoryLevels();
     
     // Check for low stock alerts
@@ -18,53 +18,24 @@ export const updateInventoryJob = async (): Promise<void> => {
 
 const updateInventoryLevels = async (): Promise<void> => {
   try {
-    // Get recent order items that might affect inventory
-    const recentOrderItems = await prisma.orderItem.findMany({
-      where: {
-        order: {
-          createdAt: {
-            gte: new Date(Date.now() - 15 * 60 * 1000), // Last 15 minutes
-          },
-          status: {
-            in: ['confirmed', 'processing', 'shipped'],
-          },
-        },
-        productId: {
-          not: null,
-        },
-      },
-      include: {
-        product: true,
-      },
+    // Orders reserve and ship stock themselves; this only heals drift between
+    // Product.stockQuantity and the per-warehouse available totals.
+    const totals = await prisma.inventory.groupBy({
+      by: ['productId'],
+      _sum: { available: true },
     });
 
-    for (const orderItem of recentOrderItems) {
-      if (orderItem.product) {
-        // Update product stock
-        await prisma.product.update({
-          where: { id: orderItem.productId! },
-          data: {
-            stockQuantity: {
-              decrement: orderItem.quantity,
-            },
-          },
-        });
-
-        // Update inventory records if they exist
-        await prisma.inventory.updateMany({
-          where: {
-            productId: orderItem.productId!,
-          },
-          data: {
-            available: {
-              decrement: orderItem.quantity,
-            },
-          },
-        });
-      }
+    let corrected = 0;
+    for (const total of totals) {
+      const available = total._sum.available || 0;
+      const result = await prisma.product.updateMany({
+        where: { id: total.productId, stockQuantity: { not: available } },
+        data: { stockQuantity: available },
+      });
+      corrected += result.count;
     }
 
-    logger.info(`Updated inventory for ${recentOrderItems.length} order items`);
+    logger.info(`Synced product stock for ${totals.length} products (${corrected} corrected)`);
   } catch (error) {
     logger.error('Error updating inventory levels:', error);
   }
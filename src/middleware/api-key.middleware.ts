@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { SecurityAudit } from '@/config/security';
+import { apiKeyService, isApiKeyFormat } from '@/services/api-key.service';
+import { usageLimitsService } from '@/services/usage-limits.service';
+import { AuthenticationMiddleware, authenticateToken } from './authentication.middleware';
+import { logger } from '@/utils/logger';
+
+// Keys are sent in X-API-Key, or as a bearer token since they never look like a JWT
+const extractApiKey = (req: Request): string | null => {
+  const header = req.get('X-API-Key');
+  if (header) return header.trim();
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ') && isApiKeyFormat(authHeader.substring(7))) return authHeader.substring(7);
+  return null;
+};
+
+/**
+ * Authenticate with an API key when the request carries one, otherwise fall back to the user's
+ * session. The key acts as its owner, limited to the key's scopes: follow it with
+ * requirePermission on every route that mounts it. The owner's plan must include API access.
+ * Each keyed request counts against the key's per-minute limit and is written to its usage log.
+ */
+export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const presented = extractApiKey(req);
+  if (!presented) {
+    await authenticateToken(req, res, next);
+    return;
+  }
+
+  try {
+    const apiKey = await apiKeyService.resolve(presented);
+    if (!apiKey) {
+      SecurityAudit.logSecurityEvent('API_KEY_INVALID', { ip: req.ip, path: req.path }, 'warn');
+      res.status(401).json({ success: false, error: 'Invalid API key' });
+      return;
+    }
+    if (!apiKey.isActive) {
+      res.status(401).json({ success: false, error: 'API key has been revoked' });
+      return;
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      res.status(401).json({ success: false, error: 'API key has expired' });
+      return;
+    }
+
+    let user = await AuthenticationMiddleware.getUserFromCache(apiKey.userId);
+    if (!user) {
+      user = await AuthenticationMiddleware.getUserFromDatabase(apiKey.userId);
+      if (user) await AuthenticationMiddleware.cacheUser(user);
+    }
+    if (!user || !user.isActive) {
+      res.status(401).json({ success: false, error: 'API key owner is not active' });
+      return;
+    }
+
+    // Keys outlive the plan that allowed them, so API access is checked on every use
+    const limits = await usageLimitsService.getUserLimits(apiKey.userId);
+    if (limits.entitlements.apiKeys === 0) {
+      res.status(403).json({
+        success: false,
+        error: { code: 'PLAN_LIMIT_REACHED', message: `Your ${limits.planName} plan does not include API access`, details: { entitlement: 'apiKeys', plan: limits.plan } },
+      });
+      return;
+    }
+
+    const rate = await apiKeyService.consumeRateLimit(apiKey);
+    res.set({
+      'X-RateLimit-Limit': rate.limit.toString(),
+      'X-RateLimit-Remaining': rate.remaining.toString(),
+      'X-RateLimit-Reset': rate.resetAt.toString(),
+    });
+    if (!rate.allowed) {
+      SecurityAudit.logSecurityEvent('API_KEY_RATE_LIMITED', { apiKeyId: apiKey.id, limit: rate.limit, path: req.path }, 'warn');
+      res.status(429).json({
+        success: false,
+        error: 'API key rate limit exceeded',
+        retryAfter: Math.ceil((rate.resetAt - Date.now()) / 1000),
+      });
+      return;
+    }
+
+    req.user = { ...user, permissions: apiKey.permissions };
+    req.apiKey = { id: apiKey.id, prefix: apiKey.prefix, permissions: apiKey.permissions };
+
+    const started = Date.now();
+    res.on('finish', () => {
+      apiKeyService.logUsage(apiKey.id, {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        statusCode: res.statusCode,
+        durationMs: Date.now() - started,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      }).catch(err => logger.warn(`Failed to log usage of API key ${apiKey.prefix}:`, err));
+    });
+    apiKeyService.touch(apiKey.id).catch(err => logger.warn(`Failed to update lastUsed of API key ${apiKey.prefix}:`, err));
+
+    next();
+  } catch (error) {
+    logger.error('API key authentication error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
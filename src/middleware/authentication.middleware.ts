@@ -23,6 +23,12 @@ declare global {
         permissions?: string[];
         ssoSessionId?: string;
       };
+      // Set when the request authenticated with an API key instead of a user session
+      apiKey?: {
+        id: string;
+        prefix: string;
+        permissions: string[];
+      };
       securityContext?: {
         csrfToken?: string;
         rateLimitRemaining?: number;
@@ -642,7 +648,14 @@ export const requirePermission = (...permissions: string[]) => {
       return;
     }
 
-    const userPermissions = req.user.permissions || [];
+    // Scopes restrict API keys only. User sessions, SSO ones included, act with the user's own
+    // rights; their permission lists describe app access, not API scopes.
+    if (!req.apiKey) {
+      next();
+      return;
+    }
+
+    const userPermissions = req.apiKey.permissions;
     const hasPermission = permissions.some(permission =>
       userPermissions.includes(permission)
     );
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import { usageLimitsService } from '@/services/usage-limits.service';
+import { ENTITLEMENT_LABELS, PLAN_CATALOGUE } from '@/config/plans';
+import type { Entitlement } from '@/config/plans';
+import { logger } from '@/utils/logger';
+
+/**
+ * Reject the request when the user has used up an entitlement of their plan. The 403 names the
+ * limit and, when one exists, the cheapest plan that would allow the action. Mount it after
+ * authentication; the service that performs the action still counts the usage.
+ */
+export const requireEntitlement = (entitlement: Entitlement) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    try {
+      const check = await usageLimitsService.checkEntitlement(req.user.id, entitlement);
+      if (check.allowed) {
+        next();
+        return;
+      }
+
+      const plan = PLAN_CATALOGUE[check.plan];
+      const message = check.upgrade
+        ? `Your ${plan.name} plan includes ${check.limit} ${ENTITLEMENT_LABELS[entitlement]}. Upgrade to ${check.upgrade.name} for ${check.upgrade.limit === null ? 'unlimited' : check.upgrade.limit}.`
+        : `Your ${plan.name} plan includes ${check.limit} ${ENTITLEMENT_LABELS[entitlement]}. Contact us to raise this limit.`;
+
+      res.status(403).json({
+        success: false,
+        error: {
+          code: 'PLAN_LIMIT_REACHED',
+          message,
+          details: {
+            entitlement,
+            plan: check.plan,
+            limit: check.limit,
+            used: check.used,
+            upgrade: check.upgrade,
+          },
+        },
+      });
+    } catch (error) {
+      logger.error(`Entitlement check for ${entitlement} failed:`, error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  };
+};
@@ -1,12 +1,18 @@
 import { Router } from 'express';
 import { AdminController } from '@/controllers/admin.controller';
+import { SearchAdminController } from '@/controllers/search-admin.controller';
+import { OutboxController } from '@/controllers/outbox.controller';
+import { EntitlementAdminController } from '@/controllers/entitlement-admin.controller';
 import { authenticateToken, securityHeaders, rateLimit, requireRole, requireUserType } from '@/middleware/authentication.middleware';
-import { validateQuery } from '@/middleware/zod-validate';
-import { paginationQuerySchema } from '@/validation/schemas';
+import { validateBody, validateParams, validateQuery } from '@/middleware/zod-validate';
+import { entitlementOverrideParamsSchema, entitlementOverrideSchema, entitlementUserParamsSchema, outboxEventParamsSchema, outboxEventQuerySchema, paginationQuerySchema, searchReindexJobParamsSchema, searchReindexSchema, searchSynonymCreateSchema, searchSynonymParamsSchema, searchSynonymUpdateSchema } from '@/validation/schemas';
 import { asyncHandler } from '@/middleware/error-handler';
 
 const router = Router();
 const adminController = new AdminController();
+const searchAdminController = new SearchAdminController();
+const outboxController = new OutboxController();
+const entitlementAdminController = new EntitlementAdminController();
 
 // Apply security headers to all admin routes
 router.use(securityHeaders);
@@ -93,5 +99,212 @@ router.get('/products', validateQuery(paginationQuerySchema), asyncHandler(admin
  *         description: RFQs list
  */
 router.get('/rfqs', validateQuery(paginationQuerySchema), asyncHandler(adminController.getRfqs.bind(adminController)));
+/**
+ * @openapi
+ * /api/v1/admin/search/synonyms:
+ *   get:
+ *     summary: List search synonym rules
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Synonym rules
+ *   post:
+ *     summary: Add a synonym rule and publish the set to search
+ *     description: Rules use the Solr format, e.g. "kg, kilo, kilogram" or "sarees => saree".
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Synonym rule created
+ */
+router.get('/search/synonyms', asyncHandler(searchAdminController.listSynonyms.bind(searchAdminController)));
+router.post('/search/synonyms', validateBody(searchSynonymCreateSchema), asyncHandler(searchAdminController.createSynonym.bind(searchAdminController)));
+/**
+ * @openapi
+ * /api/v1/admin/search/synonyms/{id}:
+ *   put:
+ *     summary: Update a synonym rule and republish
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Synonym rule updated
+ *   delete:
+ *     summary: Delete a synonym rule and republish
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Synonym rule deleted
+ */
+router.put('/search/synonyms/:id', validateParams(searchSynonymParamsSchema), validateBody(searchSynonymUpdateSchema), asyncHandler(searchAdminController.updateSynonym.bind(searchAdminController)));
+router.delete('/search/synonyms/:id', validateParams(searchSynonymParamsSchema), asyncHandler(searchAdminController.deleteSynonym.bind(searchAdminController)));
+/**
+ * @openapi
+ * /api/v1/admin/search/indices:
+ *   get:
+ *     summary: Search index aliases, mapping versions, document counts and the latest reindex job
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Index status
+ */
+router.get('/search/indices', asyncHandler(searchAdminController.getIndexStatus.bind(searchAdminController)));
+/**
+ * @openapi
+ * /api/v1/admin/search/reindex:
+ *   post:
+ *     summary: Rebuild a search index into a new versioned index and swap its aliases once counts match
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Reindex started
+ *       409:
+ *         description: A reindex of this index is already running
+ */
+router.post('/search/reindex', validateBody(searchReindexSchema), asyncHandler(searchAdminController.reindex.bind(searchAdminController)));
+/**
+ * @openapi
+ * /api/v1/admin/search/reindex/{id}:
+ *   get:
+ *     summary: Reindex job status and progress
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reindex job
+ *       404:
+ *         description: Job not found
+ */
+router.get('/search/reindex/:id', validateParams(searchReindexJobParamsSchema), asyncHandler(searchAdminController.getReindexJob.bind(searchAdminController)));
+/**
+ * @openapi
+ * /api/v1/admin/outbox/events:
+ *   get:
+ *     summary: List domain events in the outbox (admin)
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, publishing, published, failed, dead_lettered]
+ *     responses:
+ *       200:
+ *         description: Outbox events
+ */
+router.get('/outbox/events', validateQuery(outboxEventQuerySchema), asyncHandler(outboxController.list.bind(outboxController)));
+/**
+ * @openapi
+ * /api/v1/admin/outbox/events/{id}:
+ *   get:
+ *     summary: Get an outbox event with its payload and last error
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Outbox event
+ *       404:
+ *         description: Not found
+ */
+router.get('/outbox/events/:id', validateParams(outboxEventParamsSchema), asyncHandler(outboxController.get.bind(outboxController)));
+/**
+ * @openapi
+ * /api/v1/admin/outbox/events/{id}/replay:
+ *   post:
+ *     summary: Publish an outbox event again, typically a dead-lettered one
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Replay result
+ */
+router.post('/outbox/events/:id/replay', validateParams(outboxEventParamsSchema), asyncHandler(outboxController.replay.bind(outboxController)));
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}/entitlements:
+ *   get:
+ *     summary: A user's plan, entitlement usage and admin overrides
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Entitlements
+ */
+router.get('/users/:userId/entitlements', validateParams(entitlementUserParamsSchema), asyncHandler(entitlementAdminController.getUserEntitlements.bind(entitlementAdminController)));
+/**
+ * @openapi
+ * /api/v1/admin/users/{userId}/entitlements/{entitlement}:
+ *   put:
+ *     summary: Override one of a user's plan limits
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: entitlement
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [rfqPosts, quoteResponses, productListings, adCredit, teamSeats, apiKeys]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [value, reason]
+ *             properties:
+ *               value:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: New limit; null is unlimited
+ *               reason:
+ *                 type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Override saved
+ *   delete:
+ *     summary: Remove an override so the plan's limit applies again
+ *     tags:
+ *       - Admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Override removed
+ */
+router.put('/users/:userId/entitlements/:entitlement', validateParams(entitlementOverrideParamsSchema), validateBody(entitlementOverrideSchema), asyncHandler(entitlementAdminController.setOverride.bind(entitlementAdminController)));
+router.delete('/users/:userId/entitlements/:entitlement', validateParams(entitlementOverrideParamsSchema), asyncHandler(entitlementAdminController.removeOverride.bind(entitlementAdminController)));
 
 export { router as adminRoutes };
\ No newline at end of file
@@ -1,8 +1,87 @@
-import { Router, Request, Response } from 'express';
+import { Router } from 'express';
 import { apiKeyController } from '@/controllers/api-key.controller';
+import { authenticateToken } from '@/middleware/authentication.middleware';
+import { requireEntitlement } from '@/middleware/usage-limits.middleware';
+import { asyncHandler } from '@/middleware/error-handler';
+import { validateBody, validateParams, validateQuery } from '@/middleware/zod-validate';
+import { apiKeyCreateSchema, apiKeyParamsSchema, paginationQuerySchema } from '@/validation/schemas';
+
 const router = Router();
-router.get('/', (req: Request, res: Response) => { void apiKeyController.list(req, res); });
-router.post('/', (req: Request, res: Response) => { void apiKeyController.create(req, res); });
-router.post('/:id/revoke', (req: Request, res: Response) => { void apiKeyController.revoke(req, res); });
-router.post('/:id/rotate', (req: Request, res: Response) => { void apiKeyController.rotate(req, res); });
-export const apiKeyRoutes = router; export default router;
+
+// Keys are managed from a user session only; a key cannot mint or rotate keys
+router.use(authenticateToken);
+
+/**
+ * @openapi
+ * /api/v1/api-keys/scopes:
+ *   get:
+ *     summary: Scopes an API key can be granted
+ *     tags:
+ *       - API Keys
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Scopes with descriptions
+ */
+router.get('/scopes', asyncHandler(apiKeyController.scopes.bind(apiKeyController)));
+router.get('/', asyncHandler(apiKeyController.list.bind(apiKeyController)));
+/**
+ * @openapi
+ * /api/v1/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: The full key is returned once, in this response. Send it in the X-API-Key header.
+ *     tags:
+ *       - API Keys
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, permissions]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               rateLimitPerMinute:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Created key, including the full key
+ */
+router.post('/', requireEntitlement('apiKeys'), validateBody(apiKeyCreateSchema), asyncHandler(apiKeyController.create.bind(apiKeyController)));
+router.post('/:id/revoke', validateParams(apiKeyParamsSchema), asyncHandler(apiKeyController.revoke.bind(apiKeyController)));
+router.post('/:id/rotate', validateParams(apiKeyParamsSchema), asyncHandler(apiKeyController.rotate.bind(apiKeyController)));
+/**
+ * @openapi
+ * /api/v1/api-keys/{id}/usage:
+ *   get:
+ *     summary: Requests made with an API key, newest first
+ *     tags:
+ *       - API Keys
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated usage log
+ */
+router.get('/:id/usage', validateParams(apiKeyParamsSchema), validateQuery(paginationQuerySchema), asyncHandler(apiKeyController.usage.bind(apiKeyController)));
+
+export const apiKeyRoutes = router;
+export default router;
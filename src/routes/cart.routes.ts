@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { authMiddleware } from '@/middleware/authentication.middleware';
 import { validateBody, validateParams } from '@/middleware/zod-validate';
-import { cartAddItemSchema, cartUpdateItemSchema, cartItemIdParamsSchema } from '@/validation/schemas';
+import { cartAddItemSchema, cartUpdateItemSchema, cartItemIdParamsSchema, cartCheckoutSchema } from '@/validation/schemas';
 import { cartController } from '@/controllers/cart.controller';
 import { asyncHandler } from '@/middleware/error-handler';
 
@@ -13,5 +13,6 @@ router.post('/items', validateBody(cartAddItemSchema), asyncHandler(cartControll
 router.put('/items/:itemId', validateParams(cartItemIdParamsSchema), validateBody(cartUpdateItemSchema), asyncHandler(cartController.updateItem.bind(cartController)));
 router.delete('/items/:itemId', validateParams(cartItemIdParamsSchema), asyncHandler(cartController.removeItem.bind(cartController)));
 router.delete('/', asyncHandler(cartController.clearCart.bind(cartController)));
+router.post('/checkout', validateBody(cartCheckoutSchema), asyncHandler(cartController.checkout.bind(cartController)));
 
 export { router as cartRoutes };
\ No newline at end of file
@@ -43,6 +43,7 @@ import { notificationSettingsRoutes } from './notification-settings.routes';
 import { notificationPreferenceRoutes } from './notification-preference.routes';
 import { deliveryPartnerRoutes } from './delivery-partner.routes';
 import { negotiationRoutes } from './negotiation.routes';
+import { rfqTemplateRoutes } from './rfq-template.routes';
 import notificationBatchRoutes from './notification-batch.routes';
 import { serviceAppointmentRoutes } from './service-appointment.routes';
 import subscriptionRoutes from './subscription.routes';
@@ -51,6 +52,7 @@ import onboardingRoutes from './onboarding.routes';
 import personalizationRoutes from './personalization.routes';
 import usageLimitsRoutes from './usage-limits.routes';
 import marketplaceRoutes from './marketplace.routes';
+import { taxRoutes } from './tax.routes';
 
 // Import existing routes that are available
 // import authRoutes from './auth.routes';
@@ -112,6 +114,7 @@ export const setupRoutes = (app: Application): void => {
   app.use(`${API_PREFIX}/notification-preferences`, notificationPreferenceRoutes);
   app.use(`${API_PREFIX}/delivery-partners`, deliveryPartnerRoutes);
   app.use(`${API_PREFIX}/negotiations`, negotiationRoutes);
+  app.use(`${API_PREFIX}/rfq-templates`, rfqTemplateRoutes);
   app.use(`${API_PREFIX}/notification-batches`, notificationBatchRoutes);
   app.use(`${API_PREFIX}/service-appointments`, serviceAppointmentRoutes);
   app.use(`${API_PREFIX}/subscriptions`, subscriptionRoutes);
@@ -120,6 +123,7 @@ export const setupRoutes = (app: Application): void => {
   app.use(`${API_PREFIX}/onboarding`, onboardingRoutes);
   app.use(`${API_PREFIX}/usage-limits`, usageLimitsRoutes);
   app.use(`${API_PREFIX}/marketplace`, marketplaceRoutes);
+  app.use(`${API_PREFIX}/tax`, taxRoutes);
 
   // Root endpoint
   app.get('/', (req, res) => {
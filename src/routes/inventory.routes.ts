@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { InventoryController } from '../controllers/inventory.controller';
-import { authenticateToken } from '../middleware/authentication.middleware';
+import { requirePermission } from '../middleware/authentication.middleware';
+import { apiKeyAuth } from '@/middleware/api-key.middleware';
 import { validateBody, validateQuery } from '@/middleware/zod-validate';
 import { inventoryAdjustSchema, inventoryListQuerySchema, inventoryWarehouseCreateSchema, inventoryMovementsQuerySchema } from '@/validation/schemas';
 
@@ -23,7 +24,7 @@ const inventoryController = new InventoryController();
  *       200:
  *         description: Inventory list
  */
-router.get('/', authenticateToken, validateQuery(inventoryListQuerySchema), inventoryController.getInventory.bind(inventoryController));
+router.get('/', apiKeyAuth, requirePermission('read:inventory'), validateQuery(inventoryListQuerySchema), inventoryController.getInventory.bind(inventoryController));
 /**
  * @openapi
  * /api/v1/inventory/warehouses:
@@ -37,7 +38,7 @@ router.get('/', authenticateToken, validateQuery(inventoryListQuerySchema), inve
  *       200:
  *         description: Warehouses
  */
-router.get('/warehouses', authenticateToken, inventoryController.getWarehouses.bind(inventoryController));
+router.get('/warehouses', apiKeyAuth, requirePermission('read:inventory'), inventoryController.getWarehouses.bind(inventoryController));
 /**
  * @openapi
  * /api/v1/inventory/warehouses:
@@ -57,7 +58,7 @@ router.get('/warehouses', authenticateToken, inventoryController.getWarehouses.b
  *       201:
  *         description: Warehouse created
  */
-router.post('/warehouses', authenticateToken, validateBody(inventoryWarehouseCreateSchema), inventoryController.createWarehouse.bind(inventoryController));
+router.post('/warehouses', apiKeyAuth, requirePermission('write:inventory'), validateBody(inventoryWarehouseCreateSchema), inventoryController.createWarehouse.bind(inventoryController));
 /**
  * @openapi
  * /api/v1/inventory/movements:
@@ -71,7 +72,7 @@ router.post('/warehouses', authenticateToken, validateBody(inventoryWarehouseCre
  *       200:
  *         description: Movements list
  */
-router.get('/movements', authenticateToken, validateQuery(inventoryMovementsQuerySchema), inventoryController.getMovements.bind(inventoryController));
+router.get('/movements', apiKeyAuth, requirePermission('read:inventory'), validateQuery(inventoryMovementsQuerySchema), inventoryController.getMovements.bind(inventoryController));
 /**
  * @openapi
  * /api/v1/inventory/adjust:
@@ -91,7 +92,7 @@ router.get('/movements', authenticateToken, validateQuery(inventoryMovementsQuer
  *       200:
  *         description: Adjusted
  */
-router.post('/adjust', authenticateToken, validateBody(inventoryAdjustSchema), inventoryController.adjustInventory.bind(inventoryController));
+router.post('/adjust', apiKeyAuth, requirePermission('write:inventory'), validateBody(inventoryAdjustSchema), inventoryController.adjustInventory.bind(inventoryController));
 /**
  * @openapi
  * /api/v1/inventory/analytics:
@@ -105,7 +106,7 @@ router.post('/adjust', authenticateToken, validateBody(inventoryAdjustSchema), i
  *       200:
  *         description: Analytics
  */
-router.get('/analytics', authenticateToken, inventoryController.getInventoryAnalytics.bind(inventoryController));
+router.get('/analytics', apiKeyAuth, requirePermission('read:inventory'), inventoryController.getInventoryAnalytics.bind(inventoryController));
 
 export const inventoryRoutes = router;
 export default router;
\ No newline at end of file
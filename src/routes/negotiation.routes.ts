@@ -2,21 +2,25 @@ import { Router } from 'express';
 import { negotiationController } from '../controllers/negotiation.controller';
 import { authMiddleware } from '../middleware/authentication.middleware';
 import { asyncHandler } from '../middleware/error-handler';
+import { validateBody, validateParams } from '@/middleware/zod-validate';
+import { negotiationCreateSchema, negotiationCounterSchema, negotiationIdParamsSchema, negotiationQuoteParamsSchema } from '@/validation/schemas';
 
 const router = Router();
 router.use(authMiddleware);
 
-// List negotiations for a quote
-router.get('/quotes/:quoteId', asyncHandler(negotiationController.list.bind(negotiationController)));
-// Create initial negotiation
-router.post('/', asyncHandler(negotiationController.create.bind(negotiationController)));
-// Counter offer
-router.post('/:id/counter', asyncHandler(negotiationController.counter.bind(negotiationController)));
-// Accept
-router.post('/:id/accept', asyncHandler(negotiationController.accept.bind(negotiationController)));
+// Negotiation thread for a quote, with the open offer and whose turn it is
+router.get('/quotes/:quoteId', validateParams(negotiationQuoteParamsSchema), asyncHandler(negotiationController.list.bind(negotiationController)));
+// Open an offer when none is open and it is the caller's turn
+router.post('/', validateBody(negotiationCreateSchema), asyncHandler(negotiationController.create.bind(negotiationController)));
+// Counter offer, on the total or per line item
+router.post('/:id/counter', validateParams(negotiationIdParamsSchema), validateBody(negotiationCounterSchema), asyncHandler(negotiationController.counter.bind(negotiationController)));
+// Accept; reprices the quote
+router.post('/:id/accept', validateParams(negotiationIdParamsSchema), asyncHandler(negotiationController.accept.bind(negotiationController)));
 // Reject
-router.post('/:id/reject', asyncHandler(negotiationController.reject.bind(negotiationController)));
+router.post('/:id/reject', validateParams(negotiationIdParamsSchema), asyncHandler(negotiationController.reject.bind(negotiationController)));
+// Withdraw own open offer
+router.post('/:id/withdraw', validateParams(negotiationIdParamsSchema), asyncHandler(negotiationController.withdraw.bind(negotiationController)));
 // Mark final
-router.post('/:id/final', asyncHandler(negotiationController.markFinal.bind(negotiationController)));
+router.post('/:id/final', validateParams(negotiationIdParamsSchema), asyncHandler(negotiationController.markFinal.bind(negotiationController)));
 
 export { router as negotiationRoutes };
@@ -1,15 +1,16 @@
 import { Router } from 'express';
 import { OrderController } from '@/controllers/order.controller';
-import { authMiddleware } from '@/middleware/authentication.middleware';
+import { requireAdmin, requirePermission } from '@/middleware/authentication.middleware';
+import { apiKeyAuth } from '@/middleware/api-key.middleware';
 import { validateQuery, validateBody, validateParams } from '@/middleware/zod-validate';
-import { orderCreateSchema, orderUpdateSchema, orderStatusUpdateSchema, orderIdParamsSchema, orderListQuerySchema, orderTrackingEventSchema } from '@/validation/schemas';
+import { orderCreateSchema, orderUpdateSchema, orderStatusUpdateSchema, orderIdParamsSchema, orderListQuerySchema, orderTrackingEventSchema, orderInvoiceParamsSchema, creditNoteCreateSchema, orderDisputeSchema, escrowResolveSchema, orderApprovalSchema } from '@/validation/schemas';
 import { asyncHandler } from '@/middleware/error-handler';
 
 const router = Router();
 const orderController = new OrderController();
 
-// All routes require authentication
-router.use(authMiddleware);
+// All routes require a user session or an API key scoped to orders
+router.use(apiKeyAuth);
 /**
  * @openapi
  * /api/v1/orders:
@@ -23,7 +24,7 @@ router.use(authMiddleware);
  *       200:
  *         description: Orders list
  */
-router.get('/', validateQuery(orderListQuerySchema), asyncHandler(orderController.getOrders.bind(orderController)));
+router.get('/', requirePermission('read:orders'), validateQuery(orderListQuerySchema), asyncHandler(orderController.getOrders.bind(orderController)));
 /**
  * @openapi
  * /api/v1/orders:
@@ -43,7 +44,7 @@ router.get('/', validateQuery(orderListQuerySchema), asyncHandler(orderControlle
  *       201:
  *         description: Order created
  */
-router.post('/', validateBody(orderCreateSchema), asyncHandler(orderController.createOrder.bind(orderController)));
+router.post('/', requirePermission('write:orders'), validateBody(orderCreateSchema), asyncHandler(orderController.createOrder.bind(orderController)));
 /**
  * @openapi
  * /api/v1/orders/{id}:
@@ -63,19 +64,162 @@ router.post('/', validateBody(orderCreateSchema), asyncHandler(orderController.c
  *       200:
  *         description: Order detail
  */
-router.get('/:id', validateParams(orderIdParamsSchema), asyncHandler(orderController.getOrderById.bind(orderController)));
-router.put('/:id', validateParams(orderIdParamsSchema), validateBody(orderUpdateSchema), asyncHandler(orderController.updateOrder.bind(orderController)));
-router.put('/:id/status', validateParams(orderIdParamsSchema), validateBody(orderStatusUpdateSchema), asyncHandler(orderController.updateOrderStatus.bind(orderController)));
-router.get('/:id/tracking', asyncHandler(orderController.getOrderTracking.bind(orderController)));
-router.post('/:id/tracking-events', validateParams(orderIdParamsSchema), validateBody(orderTrackingEventSchema), asyncHandler(orderController.addTrackingEvent.bind(orderController)));
+router.get('/:id', requirePermission('read:orders'), validateParams(orderIdParamsSchema), asyncHandler(orderController.getOrderById.bind(orderController)));
+router.put('/:id', requirePermission('write:orders'), validateParams(orderIdParamsSchema), validateBody(orderUpdateSchema), asyncHandler(orderController.updateOrder.bind(orderController)));
+router.put('/:id/status', requirePermission('write:orders'), validateParams(orderIdParamsSchema), validateBody(orderStatusUpdateSchema), asyncHandler(orderController.updateOrderStatus.bind(orderController)));
+router.get('/:id/tracking', requirePermission('read:orders'), asyncHandler(orderController.getOrderTracking.bind(orderController)));
+router.post('/:id/tracking-events', requirePermission('write:orders'), validateParams(orderIdParamsSchema), validateBody(orderTrackingEventSchema), asyncHandler(orderController.addTrackingEvent.bind(orderController)));
+
+/**
+ * @openapi
+ * /api/v1/orders/{id}/invoices:
+ *   get:
+ *     summary: List the tax invoice and credit notes issued for an order
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invoice documents
+ */
+router.get('/:id/invoices', requirePermission('read:orders'), validateParams(orderIdParamsSchema), asyncHandler(orderController.listInvoices.bind(orderController)));
+/**
+ * @openapi
+ * /api/v1/orders/{id}/invoice:
+ *   post:
+ *     summary: Generate the GST tax invoice for an order (seller)
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Invoice issued (or the existing one)
+ */
+router.post('/:id/invoice', requirePermission('write:orders'), validateParams(orderIdParamsSchema), asyncHandler(orderController.generateInvoice.bind(orderController)));
+/**
+ * @openapi
+ * /api/v1/orders/{id}/credit-notes:
+ *   post:
+ *     summary: Issue a credit note for a cancellation or return (seller)
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Credit note issued
+ */
+router.post('/:id/credit-notes', requirePermission('write:orders'), validateParams(orderIdParamsSchema), validateBody(creditNoteCreateSchema), asyncHandler(orderController.issueCreditNote.bind(orderController)));
+/**
+ * @openapi
+ * /api/v1/orders/{id}/invoices/{invoiceId}/download:
+ *   get:
+ *     summary: Download an invoice or credit note PDF
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: PDF document
+ *         content:
+ *           application/pdf: {}
+ */
+router.get('/:id/invoices/:invoiceId/download', requirePermission('read:orders'), validateParams(orderInvoiceParamsSchema), asyncHandler(orderController.downloadInvoice.bind(orderController)));
+/**
+ * @openapi
+ * /api/v1/orders/{id}/refunds:
+ *   get:
+ *     summary: List refunds issued for an order
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Refunds with status and reason code
+ */
+router.get('/:id/refunds', requirePermission('read:orders'), validateParams(orderIdParamsSchema), asyncHandler(orderController.listRefunds.bind(orderController)));
+/**
+ * @openapi
+ * /api/v1/orders/{id}/escrow:
+ *   get:
+ *     summary: Get the escrow hold for an order
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Escrow holds with status and commission
+ */
+router.get('/:id/escrow', requirePermission('read:orders'), validateParams(orderIdParamsSchema), asyncHandler(orderController.getEscrow.bind(orderController)));
+/**
+ * @openapi
+ * /api/v1/orders/{id}/confirm-delivery:
+ *   post:
+ *     summary: Confirm delivery and release escrowed payment to the seller (buyer)
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Delivery confirmed
+ */
+router.post('/:id/confirm-delivery', requirePermission('write:orders'), validateParams(orderIdParamsSchema), asyncHandler(orderController.confirmDelivery.bind(orderController)));
+/**
+ * @openapi
+ * /api/v1/orders/{id}/approval:
+ *   post:
+ *     summary: Approve or reject an order created from an accepted quote (buyer)
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ */
+router.post('/:id/approval', requirePermission('write:orders'), validateParams(orderIdParamsSchema), validateBody(orderApprovalSchema), asyncHandler(orderController.decideApproval.bind(orderController)));
+/**
+ * @openapi
+ * /api/v1/orders/{id}/dispute:
+ *   post:
+ *     summary: Dispute an order and freeze its escrow hold (buyer)
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Escrow frozen
+ */
+router.post('/:id/dispute', requirePermission('write:orders'), validateParams(orderIdParamsSchema), validateBody(orderDisputeSchema), asyncHandler(orderController.openDispute.bind(orderController)));
+/**
+ * @openapi
+ * /api/v1/orders/{id}/escrow/resolve:
+ *   post:
+ *     summary: Resolve a dispute by releasing or refunding the escrow (admin)
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Dispute resolved
+ */
+router.post('/:id/escrow/resolve', requirePermission('write:orders'), requireAdmin, validateParams(orderIdParamsSchema), validateBody(escrowResolveSchema), asyncHandler(orderController.resolveDispute.bind(orderController)));
 
 // Order statistics routes
-router.get('/pending/stats', asyncHandler(orderController.getPendingOrderStats.bind(orderController)));
-router.get('/completed/stats', asyncHandler(orderController.getCompletedOrderStats.bind(orderController)));
-router.get('/ready-to-ship', asyncHandler(orderController.getReadyToShipOrders.bind(orderController)));
+router.get('/pending/stats', requirePermission('read:orders'), asyncHandler(orderController.getPendingOrderStats.bind(orderController)));
+router.get('/completed/stats', requirePermission('read:orders'), asyncHandler(orderController.getCompletedOrderStats.bind(orderController)));
+router.get('/ready-to-ship', requirePermission('read:orders'), asyncHandler(orderController.getReadyToShipOrders.bind(orderController)));
 
 // Buyer and seller specific routes
-router.get('/buyer', asyncHandler(orderController.getBuyerOrders.bind(orderController)));
-router.get('/seller', asyncHandler(orderController.getSellerOrders.bind(orderController)));
+router.get('/buyer', requirePermission('read:orders'), asyncHandler(orderController.getBuyerOrders.bind(orderController)));
+router.get('/seller', requirePermission('read:orders'), asyncHandler(orderController.getSellerOrders.bind(orderController)));
 
 export { router as orderRoutes };
\ No newline at end of file
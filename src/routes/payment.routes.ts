@@ -1,12 +1,16 @@
 import { Router } from 'express';
+import multer from 'multer';
 import { PaymentController } from '@/controllers/payment.controller';
-import { authMiddleware } from '@/middleware/authentication.middleware';
+import { authMiddleware, requireAdmin, requireRole } from '@/middleware/authentication.middleware';
 import { asyncHandler } from '@/middleware/error-handler';
-import { validateBody, validateParams } from '@/middleware/zod-validate';
-import { paymentCreateSchema, paymentVerifySchema, paymentIdParamsSchema } from '@/validation/schemas';
+import { validateBody, validateParams, validateQuery } from '@/middleware/zod-validate';
+import { paymentCreateSchema, paymentVerifySchema, paymentIdParamsSchema, refundCreateSchema, paymentGatewayRuleSchema, paymentGatewayRuleQuerySchema, paymentWebhookEventQuerySchema, settlementUploadSchema, settlementReportQuerySchema, settlementLineQuerySchema } from '@/validation/schemas';
 
 const router = Router();
 const paymentController = new PaymentController();
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 50 * 1024 * 1024 } });
+// Settlement reports are for finance staff as well as platform admins
+const requireFinance = requireRole('admin', 'super_admin', 'finance_admin');
 
 router.use(authMiddleware);
 
@@ -31,6 +35,149 @@ router.use(authMiddleware);
  */
 router.post('/create', validateBody(paymentCreateSchema), asyncHandler(paymentController.createPayment.bind(paymentController)));
 
+/**
+ * @openapi
+ * /api/v1/payments/gateways/rules:
+ *   get:
+ *     summary: List gateway selection rules, optionally for one seller (admin)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Gateway rules
+ *   post:
+ *     summary: Route a seller's or the platform's payments to a gateway, optionally per payment method (admin)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rule saved
+ */
+router.get('/gateways/rules', requireAdmin, validateQuery(paymentGatewayRuleQuerySchema), asyncHandler(paymentController.listGatewayRules.bind(paymentController)));
+router.post('/gateways/rules', requireAdmin, validateBody(paymentGatewayRuleSchema), asyncHandler(paymentController.saveGatewayRule.bind(paymentController)));
+
+/**
+ * @openapi
+ * /api/v1/payments/gateways/rules/{id}:
+ *   delete:
+ *     summary: Delete a gateway selection rule (admin)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Rule deleted
+ */
+router.delete('/gateways/rules/:id', requireAdmin, validateParams(paymentIdParamsSchema), asyncHandler(paymentController.deleteGatewayRule.bind(paymentController)));
+
+/**
+ * @openapi
+ * /api/v1/payments/webhooks/events:
+ *   get:
+ *     summary: List stored gateway webhook events, e.g. status=dead_lettered (admin)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook events
+ */
+router.get('/webhooks/events', requireAdmin, validateQuery(paymentWebhookEventQuerySchema), asyncHandler(paymentController.listWebhookEvents.bind(paymentController)));
+
+/**
+ * @openapi
+ * /api/v1/payments/webhooks/events/{id}:
+ *   get:
+ *     summary: Get a stored webhook event including its raw body (admin)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook event
+ */
+router.get('/webhooks/events/:id', requireAdmin, validateParams(paymentIdParamsSchema), asyncHandler(paymentController.getWebhookEvent.bind(paymentController)));
+
+/**
+ * @openapi
+ * /api/v1/payments/webhooks/events/{id}/replay:
+ *   post:
+ *     summary: Re-process a stored webhook event, e.g. after it was dead-lettered (admin)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Event re-processed
+ */
+router.post('/webhooks/events/:id/replay', requireAdmin, validateParams(paymentIdParamsSchema), asyncHandler(paymentController.replayWebhookEvent.bind(paymentController)));
+
+/**
+ * @openapi
+ * /api/v1/payments/settlements/reports:
+ *   get:
+ *     summary: List settlement reconciliation reports (finance admins)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Settlement reports
+ *   post:
+ *     summary: Upload a gateway settlement CSV and reconcile it against payments (finance admins)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               gateway:
+ *                 type: string
+ *               periodStart:
+ *                 type: string
+ *                 format: date-time
+ *               periodEnd:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Reconciliation report
+ */
+router.get('/settlements/reports', requireFinance, validateQuery(settlementReportQuerySchema), asyncHandler(paymentController.listSettlementReports.bind(paymentController)));
+router.post('/settlements/reports', requireFinance, upload.single('file'), validateBody(settlementUploadSchema), asyncHandler(paymentController.uploadSettlement.bind(paymentController)));
+
+/**
+ * @openapi
+ * /api/v1/payments/settlements/reports/{id}:
+ *   get:
+ *     summary: Get a settlement report with its lines, e.g. result=mismatched (finance admins)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Settlement report
+ */
+router.get('/settlements/reports/:id', requireFinance, validateParams(paymentIdParamsSchema), validateQuery(settlementLineQuerySchema), asyncHandler(paymentController.getSettlementReport.bind(paymentController)));
+
 /**
  * @openapi
  * /api/v1/payments/{id}:
@@ -54,13 +201,19 @@ router.get('/:id', validateParams(paymentIdParamsSchema), asyncHandler(paymentCo
 
 /**
  * @openapi
- * /api/v1/payments/verify:
+ * /api/v1/payments/verify/{id}:
  *   post:
- *     summary: Verify a payment
+ *     summary: Verify a payment with its gateway
  *     tags:
  *       - Payments
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
  *     requestBody:
  *       required: true
  *       content:
@@ -71,6 +224,46 @@ router.get('/:id', validateParams(paymentIdParamsSchema), asyncHandler(paymentCo
  *       200:
  *         description: Payment verified
  */
-router.post('/verify', validateBody(paymentVerifySchema), asyncHandler(paymentController.verifyPayment.bind(paymentController)));
+router.post('/verify/:id', validateParams(paymentIdParamsSchema), validateBody(paymentVerifySchema), asyncHandler(paymentController.verifyPayment.bind(paymentController)));
+
+/**
+ * @openapi
+ * /api/v1/payments/{id}/initiate:
+ *   post:
+ *     summary: Create the gateway order for a payment
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Client checkout parameters
+ */
+router.post('/:id/initiate', validateParams(paymentIdParamsSchema), asyncHandler(paymentController.initiatePayment.bind(paymentController)));
+
+/**
+ * @openapi
+ * /api/v1/payments/{id}/refunds:
+ *   get:
+ *     summary: List refunds issued against a payment
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Refunds
+ *   post:
+ *     summary: Refund a payment in full or in part (seller or admin)
+ *     tags:
+ *       - Payments
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Refund initiated
+ */
+router.get('/:id/refunds', validateParams(paymentIdParamsSchema), asyncHandler(paymentController.listRefunds.bind(paymentController)));
+router.post('/:id/refunds', validateParams(paymentIdParamsSchema), validateBody(refundCreateSchema), asyncHandler(paymentController.createRefund.bind(paymentController)));
 
 export { router as paymentRoutes };
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { ProductController } from '@/controllers/product.controller';
-import { authMiddleware, optionalAuthMiddleware } from '../middleware/authentication.middleware';
+import { optionalAuthMiddleware, requirePermission } from '../middleware/authentication.middleware';
+import { apiKeyAuth } from '@/middleware/api-key.middleware';
+import { requireEntitlement } from '@/middleware/usage-limits.middleware';
 import { validateQuery, validateBody, validateParams } from '@/middleware/zod-validate';
 import { productCreateSchema, productUpdateSchema, productIdParamsSchema, productListQuerySchema } from '@/validation/schemas';
 import { asyncHandler } from '@/middleware/error-handler';
@@ -117,11 +119,11 @@ router.get('/:id', optionalAuthMiddleware, validateParams(productIdParamsSchema)
  *                 data:
  *                   $ref: '#/components/schemas/Product'
  */
-// Protected routes
-router.use(authMiddleware);
+// Protected routes: a user session or an API key scoped to products
+router.use(apiKeyAuth);
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
-router.post('/', upload.array('images', 10), validateBody(productCreateSchema), asyncHandler(productController.createProduct.bind(productController)));
-router.put('/:id', upload.array('images', 10), validateParams(productIdParamsSchema), validateBody(productUpdateSchema), asyncHandler(productController.updateProduct.bind(productController)));
-router.delete('/:id', validateParams(productIdParamsSchema), asyncHandler(productController.deleteProduct.bind(productController)));
+router.post('/', requirePermission('write:products'), requireEntitlement('productListings'), upload.array('images', 10), validateBody(productCreateSchema), asyncHandler(productController.createProduct.bind(productController)));
+router.put('/:id', requirePermission('write:products'), upload.array('images', 10), validateParams(productIdParamsSchema), validateBody(productUpdateSchema), asyncHandler(productController.updateProduct.bind(productController)));
+router.delete('/:id', requirePermission('write:products'), validateParams(productIdParamsSchema), asyncHandler(productController.deleteProduct.bind(productController)));
 
 export { router as productRoutes };
\ No newline at end of file
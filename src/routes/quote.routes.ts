@@ -1,9 +1,10 @@
 import { Router } from 'express';
 import { QuoteController } from '../controllers/quote.controller';
 import { authMiddleware } from '../middleware/authentication.middleware';
+import { requireEntitlement } from '../middleware/usage-limits.middleware';
 import { asyncHandler } from '../middleware/error-handler';
 import { validateQuery, validateBody, validateParams } from '@/middleware/zod-validate';
-import { quoteCreateSchema, quoteUpdateSchema, quoteIdParamsSchema, quoteListQuerySchema } from '@/validation/schemas';
+import { quoteCreateSchema, quoteUpdateSchema, quoteIdParamsSchema, quoteListQuerySchema, quoteAcceptSchema, quoteRejectSchema } from '@/validation/schemas';
 
 const router = Router();
 const quoteController = new QuoteController();
@@ -44,7 +45,7 @@ router.get('/', validateQuery(quoteListQuerySchema), asyncHandler(quoteControlle
  *       201:
  *         description: Quote created
  */
-router.post('/', validateBody(quoteCreateSchema), asyncHandler(quoteController.createQuote.bind(quoteController)));
+router.post('/', requireEntitlement('quoteResponses'), validateBody(quoteCreateSchema), asyncHandler(quoteController.createQuote.bind(quoteController)));
 /**
  * @openapi
  * /api/v1/quotes/{id}:
@@ -105,5 +106,46 @@ router.put('/:id', validateParams(quoteIdParamsSchema), validateBody(quoteUpdate
  *         description: Deleted
  */
 router.delete('/:id', validateParams(quoteIdParamsSchema), asyncHandler(quoteController.deleteQuote.bind(quoteController)));
+/**
+ * @openapi
+ * /api/v1/quotes/{id}/accept:
+ *   post:
+ *     summary: Accept a quote and create its purchase order
+ *     description: Prices the order at the final negotiated amount and links it to the quote through a deal. When buyer approval is required the order waits in pending_approval before payment is requested.
+ *     tags:
+ *       - Quotes
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quote accepted with its order and deal
+ */
+router.post('/:id/accept', validateParams(quoteIdParamsSchema), validateBody(quoteAcceptSchema), asyncHandler(quoteController.acceptQuote.bind(quoteController)));
+/**
+ * @openapi
+ * /api/v1/quotes/{id}/reject:
+ *   post:
+ *     summary: Reject a quote
+ *     tags:
+ *       - Quotes
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quote rejected
+ */
+router.post('/:id/reject', validateParams(quoteIdParamsSchema), validateBody(quoteRejectSchema), asyncHandler(quoteController.rejectQuote.bind(quoteController)));
 
 export { router as quoteRoutes };
\ No newline at end of file
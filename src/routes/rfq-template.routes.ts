@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { rfqTemplateController } from '../controllers/rfq-template.controller';
+import { authMiddleware } from '../middleware/authentication.middleware';
+import { asyncHandler } from '../middleware/error-handler';
+import { validateBody, validateParams } from '@/middleware/zod-validate';
+import { rfqTemplateCreateSchema, rfqTemplateUpdateSchema, rfqTemplateIdParamsSchema } from '@/validation/schemas';
+
+const router = Router();
+router.use(authMiddleware);
+
+// Buyer's recurring RFQ templates
+router.get('/', asyncHandler(rfqTemplateController.list.bind(rfqTemplateController)));
+// Create from scratch or from an existing RFQ (fromRfqId)
+router.post('/', validateBody(rfqTemplateCreateSchema), asyncHandler(rfqTemplateController.create.bind(rfqTemplateController)));
+// Template with its recent occurrences
+router.get('/:id', validateParams(rfqTemplateIdParamsSchema), asyncHandler(rfqTemplateController.get.bind(rfqTemplateController)));
+// Update fields or reschedule; changes apply from the next occurrence
+router.put('/:id', validateParams(rfqTemplateIdParamsSchema), validateBody(rfqTemplateUpdateSchema), asyncHandler(rfqTemplateController.update.bind(rfqTemplateController)));
+// Pause and resume; resuming skips missed occurrences
+router.post('/:id/pause', validateParams(rfqTemplateIdParamsSchema), asyncHandler(rfqTemplateController.pause.bind(rfqTemplateController)));
+router.post('/:id/resume', validateParams(rfqTemplateIdParamsSchema), asyncHandler(rfqTemplateController.resume.bind(rfqTemplateController)));
+// Post an occurrence now without moving the schedule
+router.post('/:id/run', validateParams(rfqTemplateIdParamsSchema), asyncHandler(rfqTemplateController.runNow.bind(rfqTemplateController)));
+// Delete; RFQs already posted are kept
+router.delete('/:id', validateParams(rfqTemplateIdParamsSchema), asyncHandler(rfqTemplateController.delete.bind(rfqTemplateController)));
+
+export { router as rfqTemplateRoutes };
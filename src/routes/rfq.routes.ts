@@ -1,12 +1,16 @@
 import { Router } from 'express';
+import multer from 'multer';
 import { RfqController } from '@/controllers/rfq.controller';
-import { authMiddleware } from '@/middleware/authentication.middleware';
+import { authMiddleware, requireAdmin } from '@/middleware/authentication.middleware';
+import { requireEntitlement } from '@/middleware/usage-limits.middleware';
 import { validateQuery, validateBody, validateParams } from '@/middleware/zod-validate';
-import { rfqCreateSchema, rfqUpdateSchema, rfqIdParamsSchema, rfqListQuerySchema } from '@/validation/schemas';
+import { rfqCreateSchema, rfqUpdateSchema, rfqIdParamsSchema, rfqListQuerySchema, rfqBidSchema, quoteCompareQuerySchema, rfqMatchStatsQuerySchema, rfqAttachmentUploadSchema, rfqAttachmentParamsSchema, rfqSavedSearchCreateSchema, rfqSavedSearchUpdateSchema, rfqSavedSearchParamsSchema, paginationQuerySchema } from '@/validation/schemas';
 import { asyncHandler } from '@/middleware/error-handler';
+import { MAX_RFQ_ATTACHMENT_BYTES } from '@/services/rfq-attachment.service';
 
 const router = Router();
 const rfqController = new RfqController();
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_RFQ_ATTACHMENT_BYTES } });
 
 // Public routes (no authentication required)
 router.get('/public/recent', asyncHandler(rfqController.getPublicRecentRfqs.bind(rfqController)));
@@ -14,6 +18,100 @@ router.get('/public/recent', asyncHandler(rfqController.getPublicRecentRfqs.bind
 // All other routes require authentication
 router.use(authMiddleware);
 
+/**
+ * @openapi
+ * /api/v1/rfqs/matches/stats:
+ *   get:
+ *     summary: Seller match conversion to quotes and wins (admin)
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Conversion overall and by match rank
+ */
+router.get('/matches/stats', requireAdmin, validateQuery(rfqMatchStatsQuerySchema), asyncHandler(rfqController.getMatchStats.bind(rfqController)));
+/**
+ * @openapi
+ * /api/v1/rfqs/saved-searches:
+ *   get:
+ *     summary: The seller's saved RFQ searches
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Saved searches
+ *   post:
+ *     summary: Save an RFQ search; with alerts on, new matching RFQs are notified periodically
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Saved search created
+ */
+router.get('/saved-searches', asyncHandler(rfqController.getSavedSearches.bind(rfqController)));
+router.post('/saved-searches', validateBody(rfqSavedSearchCreateSchema), asyncHandler(rfqController.createSavedSearch.bind(rfqController)));
+/**
+ * @openapi
+ * /api/v1/rfqs/saved-searches/{searchId}:
+ *   put:
+ *     summary: Update a saved RFQ search or toggle its alerts
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: searchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Saved search updated
+ *   delete:
+ *     summary: Delete a saved RFQ search
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: searchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Saved search deleted
+ */
+router.put('/saved-searches/:searchId', validateParams(rfqSavedSearchParamsSchema), validateBody(rfqSavedSearchUpdateSchema), asyncHandler(rfqController.updateSavedSearch.bind(rfqController)));
+router.delete('/saved-searches/:searchId', validateParams(rfqSavedSearchParamsSchema), asyncHandler(rfqController.deleteSavedSearch.bind(rfqController)));
+/**
+ * @openapi
+ * /api/v1/rfqs/saved-searches/{searchId}/results:
+ *   get:
+ *     summary: Run a saved RFQ search
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: searchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Search results with facets
+ */
+router.get('/saved-searches/:searchId/results', validateParams(rfqSavedSearchParamsSchema), validateQuery(paginationQuerySchema), asyncHandler(rfqController.runSavedSearch.bind(rfqController)));
 /**
  * @openapi
  * /api/v1/rfqs:
@@ -47,7 +145,7 @@ router.get('/', validateQuery(rfqListQuerySchema), asyncHandler(rfqController.ge
  *       201:
  *         description: RFQ created
  */
-router.post('/', validateBody(rfqCreateSchema), asyncHandler(rfqController.createRfq.bind(rfqController)));
+router.post('/', requireEntitlement('rfqPosts'), validateBody(rfqCreateSchema), asyncHandler(rfqController.createRfq.bind(rfqController)));
 /**
  * @openapi
  * /api/v1/rfqs/{id}:
@@ -108,5 +206,175 @@ router.put('/:id', validateParams(rfqIdParamsSchema), validateBody(rfqUpdateSche
  *         description: Deleted
  */
 router.delete('/:id', validateParams(rfqIdParamsSchema), asyncHandler(rfqController.deleteRfq.bind(rfqController)));
+/**
+ * @openapi
+ * /api/v1/rfqs/{id}/bids:
+ *   post:
+ *     summary: Lower your bid on a reverse-auction RFQ (seller)
+ *     description: The new bid must undercut your current bid by at least the RFQ's minimum decrement. Bids close to the deadline extend the auction.
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Bid placed with the seller's new rank
+ */
+router.post('/:id/bids', validateParams(rfqIdParamsSchema), validateBody(rfqBidSchema), asyncHandler(rfqController.placeBid.bind(rfqController)));
+/**
+ * @openapi
+ * /api/v1/rfqs/{id}/standing:
+ *   get:
+ *     summary: Ranking of a sealed-bid or auction RFQ
+ *     description: The buyer sees every quote's rank (sealed bids only after close); a seller sees their own position.
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current standing
+ */
+router.get('/:id/standing', validateParams(rfqIdParamsSchema), asyncHandler(rfqController.getStanding.bind(rfqController)));
+/**
+ * @openapi
+ * /api/v1/rfqs/{id}/quotes/compare:
+ *   get:
+ *     summary: Compare the quotes on an RFQ side by side (buyer)
+ *     description: Normalises landed cost, delivery days, seller rating, verification tier and on-time delivery, and ranks quotes by a weighted score. Weights are relative and default to price 40, delivery 20, rating 15, verification 10, onTime 15.
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, xlsx]
+ *       - in: query
+ *         name: price
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: delivery
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: rating
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: verification
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: onTime
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: Ranked comparison, or a CSV/XLSX export
+ */
+router.get('/:id/quotes/compare', validateParams(rfqIdParamsSchema), validateQuery(quoteCompareQuerySchema), asyncHandler(rfqController.compareQuotes.bind(rfqController)));
+/**
+ * @openapi
+ * /api/v1/rfqs/{id}/matches:
+ *   get:
+ *     summary: Sellers matched to an RFQ with their scores (buyer or admin)
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Stored matches, best first
+ */
+router.get('/:id/matches', validateParams(rfqIdParamsSchema), asyncHandler(rfqController.getMatches.bind(rfqController)));
+/**
+ * @openapi
+ * /api/v1/rfqs/{id}/attachments:
+ *   post:
+ *     summary: Attach a drawing, specification or certificate to an RFQ (buyer)
+ *     description: Multipart upload in the "file" field, up to 25 MB. Pass rfqItemId to pin the file to one line.
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Attachment stored
+ *   get:
+ *     summary: List an RFQ's attachments with temporary download URLs
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachments
+ */
+router.post('/:id/attachments', validateParams(rfqIdParamsSchema), upload.single('file'), validateBody(rfqAttachmentUploadSchema), asyncHandler(rfqController.uploadAttachment.bind(rfqController)));
+router.get('/:id/attachments', validateParams(rfqIdParamsSchema), asyncHandler(rfqController.getAttachments.bind(rfqController)));
+/**
+ * @openapi
+ * /api/v1/rfqs/{id}/attachments/{attachmentId}:
+ *   delete:
+ *     summary: Remove an attachment from an RFQ (buyer)
+ *     tags:
+ *       - RFQs
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachment deleted
+ */
+router.delete('/:id/attachments/:attachmentId', validateParams(rfqAttachmentParamsSchema), asyncHandler(rfqController.deleteAttachment.bind(rfqController)));
 
 export { router as rfqRoutes };
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { SearchController } from '../controllers/search.controller';
 import { validateQuery } from '@/middleware/zod-validate';
-import { searchProductsQuerySchema, searchServicesQuerySchema, searchGlobalQuerySchema, searchSuggestionsQuerySchema, popularSearchesQuerySchema } from '@/validation/schemas';
+import { searchProductsQuerySchema, searchServicesQuerySchema, searchGlobalQuerySchema, searchSuggestionsQuerySchema, popularSearchesQuerySchema, searchRfqsQuerySchema } from '@/validation/schemas';
 
 const router = Router();
 const searchController = new SearchController();
@@ -33,6 +33,19 @@ router.get('/products', validateQuery(searchProductsQuerySchema), searchControll
  *         description: Search results
  */
 router.get('/services', validateQuery(searchServicesQuerySchema), searchController.searchServices.bind(searchController));
+/**
+ * @openapi
+ * /api/v1/search/rfqs:
+ *   get:
+ *     summary: Search open RFQs by keywords, category, budget, location radius and expiry
+ *     description: Returns facets for category, subcategory, mode, budget, expiry and (with lat/lng) distance.
+ *     tags:
+ *       - Search
+ *     responses:
+ *       200:
+ *         description: Search results with facets
+ */
+router.get('/rfqs', validateQuery(searchRfqsQuerySchema), searchController.searchRfqs.bind(searchController));
 /**
  * @openapi
  * /api/v1/search/global:
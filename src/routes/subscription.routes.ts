@@ -1,6 +1,15 @@
 import { Router } from 'express';
 import { subscriptionController } from '@/controllers/subscription.controller';
 import { authenticateToken } from '@/middleware/authentication.middleware';
+import { validateBody, validateParams, validateQuery } from '@/middleware/zod-validate';
+import {
+  billingInvoiceQuerySchema,
+  subscriptionCancelSchema,
+  subscriptionCreateSchema,
+  subscriptionParamsSchema,
+  subscriptionPaymentMethodSchema,
+  subscriptionUpgradeSchema,
+} from '@/validation/schemas';
 
 const router = Router();
 
@@ -9,9 +18,13 @@ router.use(authenticateToken);
 
 router.get('/current', (req, res) => subscriptionController.current(req, res));
 router.get('/history', (req, res) => subscriptionController.history(req, res));
-router.post('/', (req, res) => subscriptionController.create(req, res));
-router.put('/:id', (req, res) => subscriptionController.upgrade(req, res));
-router.post('/:id/cancel', (req, res) => subscriptionController.cancel(req, res));
-router.post('/:id/reactivate', (req, res) => subscriptionController.reactivate(req, res));
+router.get('/invoices', validateQuery(billingInvoiceQuerySchema), (req, res) => subscriptionController.invoices(req, res));
+router.post('/', validateBody(subscriptionCreateSchema), (req, res) => subscriptionController.create(req, res));
+router.put('/:id', validateParams(subscriptionParamsSchema), validateBody(subscriptionUpgradeSchema), (req, res) => subscriptionController.upgrade(req, res));
+router.post('/:id/cancel', validateParams(subscriptionParamsSchema), validateBody(subscriptionCancelSchema), (req, res) => subscriptionController.cancel(req, res));
+router.post('/:id/reactivate', validateParams(subscriptionParamsSchema), (req, res) => subscriptionController.reactivate(req, res));
+router.put('/:id/payment-method', validateParams(subscriptionParamsSchema), validateBody(subscriptionPaymentMethodSchema), (req, res) => subscriptionController.setPaymentMethod(req, res));
+// Pay the outstanding invoice now instead of waiting for the next dunning retry
+router.post('/:id/retry-payment', validateParams(subscriptionParamsSchema), (req, res) => subscriptionController.retryPayment(req, res));
 
 export default router;
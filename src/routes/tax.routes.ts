@@ -0,0 +1,86 @@
+import { Router } from 'express';
+import { taxController } from '@/controllers/tax.controller';
+import { authMiddleware, requireAdmin } from '@/middleware/authentication.middleware';
+import { validateBody, validateParams, validateQuery } from '@/middleware/zod-validate';
+import { taxCalculateSchema, taxRateCreateSchema, taxRateUpdateSchema, taxRateIdParamsSchema, taxRateListQuerySchema } from '@/validation/schemas';
+import { asyncHandler } from '@/middleware/error-handler';
+
+const router = Router();
+router.use(authMiddleware);
+
+/**
+ * @openapi
+ * /api/v1/tax/calculate:
+ *   post:
+ *     summary: Preview the GST breakup for a basket from one seller
+ *     tags:
+ *       - Tax
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax breakup with CGST/SGST or IGST per line
+ */
+router.post('/calculate', validateBody(taxCalculateSchema), asyncHandler(taxController.calculate.bind(taxController)));
+
+/**
+ * @openapi
+ * /api/v1/tax/rates:
+ *   get:
+ *     summary: List HSN/SAC tax rates
+ *     tags:
+ *       - Tax
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Paginated tax rates
+ *   post:
+ *     summary: Create a tax rate (admin)
+ *     tags:
+ *       - Tax
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Tax rate created
+ */
+router.get('/rates', validateQuery(taxRateListQuerySchema), asyncHandler(taxController.listRates.bind(taxController)));
+router.post('/rates', requireAdmin, validateBody(taxRateCreateSchema), asyncHandler(taxController.createRate.bind(taxController)));
+
+/**
+ * @openapi
+ * /api/v1/tax/rates/{id}:
+ *   get:
+ *     summary: Get a tax rate
+ *     tags:
+ *       - Tax
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax rate
+ *   put:
+ *     summary: Update a tax rate (admin)
+ *     tags:
+ *       - Tax
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax rate updated
+ *   delete:
+ *     summary: Deactivate a tax rate (admin)
+ *     tags:
+ *       - Tax
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax rate deactivated
+ */
+router.get('/rates/:id', validateParams(taxRateIdParamsSchema), asyncHandler(taxController.getRate.bind(taxController)));
+router.put('/rates/:id', requireAdmin, validateParams(taxRateIdParamsSchema), validateBody(taxRateUpdateSchema), asyncHandler(taxController.updateRate.bind(taxController)));
+router.delete('/rates/:id', requireAdmin, validateParams(taxRateIdParamsSchema), asyncHandler(taxController.deactivateRate.bind(taxController)));
+
+export { router as taxRoutes };
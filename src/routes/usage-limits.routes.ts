@@ -5,6 +5,9 @@ import { authenticateToken } from '../middleware/authentication.middleware';
 const router = Router();
 const usageLimitsController = new UsageLimitsController();
 
+// Plan catalogue (public)
+router.get('/plans', (req, res) => usageLimitsController.getPlans(req, res));
+
 // Get current user's usage summary
 router.get('/summary', authenticateToken, (req, res) => usageLimitsController.getUsageSummary(req, res));
 
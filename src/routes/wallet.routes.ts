@@ -1,8 +1,8 @@
 import { Router } from 'express';
 import { WalletController } from '@/controllers/wallet.controller';
-import { authMiddleware } from '../middleware/authentication.middleware';
+import { authMiddleware, requireAdmin } from '../middleware/authentication.middleware';
 import { validateQuery } from '@/middleware/zod-validate';
-import { paginationQuerySchema } from '@/validation/schemas';
+import { paginationQuerySchema, ledgerJournalQuerySchema, ledgerDriftQuerySchema } from '@/validation/schemas';
 import { asyncHandler } from '@/middleware/error-handler';
 
 const router = Router();
@@ -274,4 +274,44 @@ router.post('/lock-amount', asyncHandler(walletController.lockAmount.bind(wallet
  */
 router.post('/release-locked-amount/:id', asyncHandler(walletController.releaseLockedAmount.bind(walletController)));
 
+/**
+ * @openapi
+ * /api/v1/wallet/admin/journal:
+ *   get:
+ *     summary: List double-entry journal entries (admin)
+ *     tags:
+ *       - Wallet
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Journal entries with their debit and credit lines
+ */
+router.get('/admin/journal', requireAdmin, validateQuery(ledgerJournalQuerySchema), asyncHandler(walletController.getJournal.bind(walletController)));
+
+/**
+ * @openapi
+ * /api/v1/wallet/admin/reconciliation:
+ *   get:
+ *     summary: Trial balance and wallet balances that drift from the journal (admin)
+ *     tags:
+ *       - Wallet
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reconciliation report
+ *   post:
+ *     summary: Run ledger reconciliation now (admin)
+ *     tags:
+ *       - Wallet
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reconciliation result
+ */
+router.get('/admin/reconciliation', requireAdmin, validateQuery(ledgerDriftQuerySchema), asyncHandler(walletController.getReconciliation.bind(walletController)));
+router.post('/admin/reconciliation', requireAdmin, asyncHandler(walletController.runReconciliation.bind(walletController)));
+
 export { router as walletRoutes };
\ No newline at end of file
@@ -2,18 +2,95 @@ import { Router } from 'express';
 import { WebhookController } from '@/controllers/webhook.controller';
 import { burstyTestWebhookLimiter, retryWebhookLimiter } from '@/middleware/rate-limit';
 import { asyncHandler } from '@/middleware/error-handler';
+import { authenticateToken } from '@/middleware/authentication.middleware';
+import { validateBody, validateParams, validateQuery } from '@/middleware/zod-validate';
+import {
+  paginationQuerySchema,
+  webhookAttemptParamsSchema,
+  webhookCreateSchema,
+  webhookDeliveryQuerySchema,
+  webhookParamsSchema,
+  webhookTestSchema,
+  webhookUpdateSchema,
+} from '@/validation/schemas';
 
 const router = Router();
 const webhookController = new WebhookController();
 
-// CRUD for stored webhooks
-router.get('/', asyncHandler(webhookController.list.bind(webhookController)));
-router.post('/', asyncHandler(webhookController.create.bind(webhookController)));
-router.patch('/:id', asyncHandler(webhookController.update.bind(webhookController)));
-router.post('/:id/secret', asyncHandler(webhookController.regenerateSecret.bind(webhookController)));
-router.post('/:id/test', burstyTestWebhookLimiter, asyncHandler(webhookController.testFire.bind(webhookController)));
-router.post('/:id/retry', retryWebhookLimiter, asyncHandler(webhookController.retryLast.bind(webhookController)));
-router.get('/:id/attempts', asyncHandler(webhookController.attempts.bind(webhookController)));
+/**
+ * @openapi
+ * /api/v1/webhooks/events:
+ *   get:
+ *     summary: Event catalogue with versioned payload schemas and signing details
+ *     tags:
+ *       - Webhooks
+ *     responses:
+ *       200:
+ *         description: Catalogue
+ */
+router.get('/events', asyncHandler(webhookController.catalogue.bind(webhookController)));
+
+// CRUD for the caller's own webhooks
+router.get('/', authenticateToken, asyncHandler(webhookController.list.bind(webhookController)));
+router.post('/', authenticateToken, validateBody(webhookCreateSchema), asyncHandler(webhookController.create.bind(webhookController)));
+router.patch('/:id', authenticateToken, validateParams(webhookParamsSchema), validateBody(webhookUpdateSchema), asyncHandler(webhookController.update.bind(webhookController)));
+router.post('/:id/secret', authenticateToken, validateParams(webhookParamsSchema), asyncHandler(webhookController.regenerateSecret.bind(webhookController)));
+router.post('/:id/test', authenticateToken, burstyTestWebhookLimiter, validateParams(webhookParamsSchema), validateBody(webhookTestSchema), asyncHandler(webhookController.testFire.bind(webhookController)));
+router.post('/:id/retry', authenticateToken, retryWebhookLimiter, validateParams(webhookParamsSchema), asyncHandler(webhookController.retryLast.bind(webhookController)));
+router.get('/:id/attempts', authenticateToken, validateParams(webhookParamsSchema), validateQuery(paginationQuerySchema), asyncHandler(webhookController.attempts.bind(webhookController)));
+/**
+ * @openapi
+ * /api/v1/webhooks/{id}/attempts/{attemptId}/redeliver:
+ *   post:
+ *     summary: Queue the payload of a past delivery attempt again
+ *     description: The redelivery keeps the original event id and is sent after anything already queued for the webhook.
+ *     tags:
+ *       - Webhooks
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: attemptId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Redelivery queued
+ *       404:
+ *         description: Webhook or attempt not found
+ */
+router.post('/:id/attempts/:attemptId/redeliver', authenticateToken, retryWebhookLimiter, validateParams(webhookAttemptParamsSchema), asyncHandler(webhookController.redeliver.bind(webhookController)));
+/**
+ * @openapi
+ * /api/v1/webhooks/{id}/deliveries:
+ *   get:
+ *     summary: List the webhook's queued and past deliveries, newest first
+ *     tags:
+ *       - Webhooks
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, delivering, delivered, failed]
+ *     responses:
+ *       200:
+ *         description: Paginated deliveries
+ */
+router.get('/:id/deliveries', authenticateToken, validateParams(webhookParamsSchema), validateQuery(webhookDeliveryQuerySchema), asyncHandler(webhookController.deliveries.bind(webhookController)));
 
 // Webhook routes (no authentication required)
 /**
@@ -34,6 +111,24 @@ router.get('/:id/attempts', asyncHandler(webhookController.attempts.bind(webhook
  *         description: Handled
  */
 router.post('/cashfree', asyncHandler(webhookController.handleCashfreeWebhook.bind(webhookController)));
+/**
+ * @openapi
+ * /api/v1/webhooks/payments/{gateway}:
+ *   post:
+ *     summary: Handle a payment gateway webhook (cashfree, razorpay, fake)
+ *     tags:
+ *       - Webhooks
+ *     parameters:
+ *       - in: path
+ *         name: gateway
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Handled
+ */
+router.post('/payments/:gateway', asyncHandler(webhookController.handlePaymentWebhook.bind(webhookController)));
 /**
  * @openapi
  * /api/v1/webhooks/whatsapp:
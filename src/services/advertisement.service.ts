@@ -3,6 +3,8 @@ import { Prisma } from '@prisma/client';
 import { kafkaProducer } from './kafka-producer.service';
 import { logger } from '@/utils/logger';
 import { CacheService } from '@/config/redis';
+import { CustomError } from '@/middleware/error-handler';
+import { usageLimitsService } from './usage-limits.service';
 import { adImpressionsCounter, adClicksCounter, adDedupeSkipCounter } from '@/observability/metrics';
 
 export class AdvertisementService {
@@ -18,13 +20,25 @@ export class AdvertisementService {
   }
 
   async createCampaign(userId: string, data: any) {
+    // Campaign budgets draw on the plan's monthly ad credit
+    const budget = Number(data.budget || 0);
+    const credit = await usageLimitsService.checkEntitlement(userId, 'adCredit', budget);
+    if (!credit.allowed) {
+      throw new CustomError(
+        `Campaign budget of ₹${budget} exceeds the ₹${credit.remaining} ad credit left on your plan this month`,
+        403,
+        'PLAN_LIMIT_REACHED',
+        { entitlement: 'adCredit', plan: credit.plan, limit: credit.limit, used: credit.used, upgrade: credit.upgrade },
+      );
+    }
+
     return prisma.adCampaign.create({
       data: {
         businessId: userId,
         name: data.name,
         description: data.description || null,
         campaignType: data.campaignType || 'display',
-        budget: new Prisma.Decimal(data.budget || 0),
+        budget: new Prisma.Decimal(budget),
         dailyBudget: data.dailyBudget ? new Prisma.Decimal(data.dailyBudget) : null,
         startDate: new Date(data.startDate),
         endDate: data.endDate ? new Date(data.endDate) : null,
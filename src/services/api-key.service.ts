@@ -1,32 +1,151 @@
 import { BaseService } from './base.service';
-import { prisma } from '@/config/database';
+import { Prisma } from '@prisma/client';
+import type { ApiKey } from '@prisma/client';
 import crypto from 'crypto';
+import { redisClient } from '@/config/redis';
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
 import { NotFoundError } from '@/middleware/error-handler';
 
-interface CreateApiKeyDto { userId: string; name: string; permissions?: string[]; expiresAt?: string | Date | null; }
+interface CreateApiKeyDto { userId: string; name: string; permissions: string[]; expiresAt?: string | Date | null; rateLimitPerMinute?: number | null; }
+
+interface UsageLogEntry { method: string; path: string; statusCode: number; durationMs: number; ipAddress?: string; userAgent?: string; }
+
+// Everything but the hash is safe to return to the owner
+const publicFields = {
+  id: true, userId: true, name: true, prefix: true, permissions: true, rateLimitPerMinute: true,
+  isActive: true, lastUsed: true, expiresAt: true, createdAt: true, updatedAt: true,
+} satisfies Prisma.ApiKeySelect;
+
+// "vk_" plus 8 hex characters
+const PREFIX_LENGTH = 11;
+
+// lastUsed is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const isApiKeyFormat = (value: string) => value.startsWith('vk_') && value.length > PREFIX_LENGTH + 1;
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
 
 export class ApiKeyService extends BaseService {
-  private generateKey(prefix = 'vk'): string {
-    return `${prefix}_${crypto.randomBytes(30).toString('base64url')}`;
+  /**
+   * Keys are high-entropy random strings, so a plain SHA-256 is enough to store them; the clear
+   * prefix finds the row without comparing against every hash.
+   */
+  private generateKey() {
+    const prefix = `vk_${crypto.randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${crypto.randomBytes(30).toString('base64url')}`;
+    return { key, prefix, keyHash: hashKey(key) };
   }
   async list(userId: string) {
-    return prisma.apiKey.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+    return this.prisma.apiKey.findMany({ where: { userId }, select: publicFields, orderBy: { createdAt: 'desc' } });
   }
+  /**
+   * The returned `key` is the only time the full key is available.
+   */
   async create(data: CreateApiKeyDto) {
-    const key = this.generateKey();
-    return prisma.apiKey.create({ data: { userId: data.userId, name: data.name, key, permissions: data.permissions || [], expiresAt: data.expiresAt ? new Date(data.expiresAt) : null } });
+    const { key, prefix, keyHash } = this.generateKey();
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        userId: data.userId,
+        name: data.name,
+        prefix,
+        keyHash,
+        permissions: data.permissions,
+        rateLimitPerMinute: data.rateLimitPerMinute ?? null,
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+      },
+      select: publicFields,
+    });
+    return { ...apiKey, key };
+  }
+  async revoke(userId: string, id: string) {
+    await this.ensureOwned(userId, id);
+    return this.prisma.apiKey.update({ where: { id }, data: { isActive: false }, select: publicFields });
+  }
+  /**
+   * Replace the key's secret, keeping its name, scopes and limits. The old key stops working at once.
+   */
+  async rotate(userId: string, id: string) {
+    await this.ensureOwned(userId, id);
+    const { key, prefix, keyHash } = this.generateKey();
+    const apiKey = await this.prisma.apiKey.update({ where: { id }, data: { prefix, keyHash, isActive: true, lastUsed: null }, select: publicFields });
+    return { ...apiKey, key };
+  }
+
+  /**
+   * Find the key a client presented. Returns null for unknown keys; revoked and expired keys are
+   * returned so the caller can say why they were refused.
+   */
+  async resolve(presented: string): Promise<ApiKey | null> {
+    if (!isApiKeyFormat(presented)) return null;
+    const apiKey = await this.prisma.apiKey.findUnique({ where: { prefix: presented.slice(0, PREFIX_LENGTH) } });
+    if (!apiKey) return null;
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const actual = Buffer.from(hashKey(presented), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? apiKey : null;
+  }
+
+  /**
+   * Count a request against the key's per-minute limit. Fails open when Redis is unavailable,
+   * like the IP rate limiter.
+   */
+  async consumeRateLimit(apiKey: ApiKey) {
+    const limit = apiKey.rateLimitPerMinute ?? config.apiKeys.rateLimitPerMinute;
+    const window = Math.floor(Date.now() / 60000);
+    const resetAt = (window + 1) * 60000;
+    try {
+      const redisKey = `apikey:rate:${apiKey.id}:${window}`;
+      const current = await redisClient.incr(redisKey);
+      if (current === 1) await redisClient.expire(redisKey, 60);
+      return { allowed: current <= limit, limit, remaining: Math.max(0, limit - current), resetAt };
+    } catch (error) {
+      logger.warn(`API key rate limiting unavailable for ${apiKey.prefix}:`, error);
+      return { allowed: true, limit, remaining: limit, resetAt };
+    }
+  }
+
+  async touch(id: string) {
+    await this.prisma.apiKey.updateMany({
+      where: { id, OR: [{ lastUsed: null }, { lastUsed: { lt: new Date(Date.now() - LAST_USED_RESOLUTION_MS) } }] },
+      data: { lastUsed: new Date() },
+    });
   }
-  async revoke(id: string) {
-    await this.ensureExists(id);
-    return prisma.apiKey.update({ where: { id }, data: { isActive: false } });
+
+  async logUsage(apiKeyId: string, entry: UsageLogEntry) {
+    await this.prisma.apiKeyUsageLog.create({
+      data: {
+        apiKeyId,
+        method: entry.method,
+        path: entry.path.slice(0, 500),
+        statusCode: entry.statusCode,
+        durationMs: entry.durationMs,
+        ipAddress: entry.ipAddress?.slice(0, 45),
+        userAgent: entry.userAgent?.slice(0, 500),
+      },
+    });
   }
-  async rotate(id: string) {
-    await this.ensureExists(id);
-    const key = this.generateKey();
-    return prisma.apiKey.update({ where: { id }, data: { key, isActive: true, lastUsed: null } });
+
+  async getUsage(userId: string, id: string, page = 1, limit = 20) {
+    await this.ensureOwned(userId, id);
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.apiKeyUsageLog.findMany({ where: { apiKeyId: id }, orderBy: { createdAt: 'desc' }, skip, take: limit }),
+      this.prisma.apiKeyUsageLog.count({ where: { apiKeyId: id } }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
   }
-  private async ensureExists(id: string) {
-    const ex = await prisma.apiKey.findUnique({ where: { id } });
+
+  async purgeUsage(olderThanDays = config.apiKeys.usageRetentionDays): Promise<number> {
+    const result = await this.prisma.apiKeyUsageLog.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000) } },
+    });
+    return result.count;
+  }
+
+  private async ensureOwned(userId: string, id: string) {
+    const ex = await this.prisma.apiKey.findFirst({ where: { id, userId }, select: { id: true } });
     if (!ex) throw new NotFoundError('API key not found');
   }
 }
@@ -548,12 +548,7 @@ export class AuthService extends BaseService {
       // Automatically create free tier subscription for business users (sellers)
       if (user.userType === 'seller') {
         try {
-          await this.subscriptionService.create({
-            userId: user.id,
-            type: 'free',
-            planName: 'Free Tier',
-            durationMonths: 1, // Free tier for 1 month
-          });
+          await this.subscriptionService.create({ userId: user.id, planCode: 'free' });
 
           this.logOperation('verifyEmail', { userId, subscriptionCreated: true });
         } catch (subscriptionError) {
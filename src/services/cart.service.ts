@@ -1,7 +1,27 @@
 import { BaseService } from './base.service';
+import { OrderService } from './order.service';
+import { couponService } from './coupon.service';
+import { notificationService } from './notification.service';
+import { paymentService } from './payment.service';
+import { paymentGateways } from './payment-gateway.service';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/error-handler';
 import { logger } from '@/utils/logger';
 
+export interface CheckoutData {
+  couponCode?: string;
+  shippingAddressId?: string;
+  deliveryAddress?: any;
+  billingAddress?: any;
+  paymentMethod?: string;
+  notes?: string;
+  escrow?: boolean;
+}
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
 export class CartService extends BaseService {
+  private orderService = new OrderService();
+
   constructor() { super(); }
 
   private async getOrCreateCart(userId: string) {
@@ -101,6 +121,171 @@ export class CartService extends BaseService {
     const cart = await this.getOrCreateCart(userId);
     await this.prisma.cartItem.deleteMany({ where: { cartId: cart.id } });
   }
+
+  /**
+   * Turn the cart into one order per seller under a single checkout and payment.
+   * Stock reservation, coupon usage, orders and payment commit together or not at all.
+   */
+  async checkout(userId: string, data: CheckoutData) {
+    const cart = await this.getOrCreateCart(userId);
+    const items = await this.prisma.cartItem.findMany({
+      where: { cartId: cart.id },
+      include: { product: true, variant: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (!items.length) throw new ValidationError('Cart is empty');
+
+    // Re-validate availability and prices against the catalogue
+    const priceChanges: { itemId: string; productId: string; title: string; oldPrice: number; newPrice: number }[] = [];
+    for (const item of items) {
+      if (!item.product.isActive || item.product.status !== 'active') throw new ValidationError(`${item.product.title} is no longer available`);
+      if (item.variant && !item.variant.isActive) throw new ValidationError(`Selected variant of ${item.product.title} is no longer available`);
+      if (item.quantity < item.product.minOrderQuantity) {
+        throw new ValidationError(`Minimum order quantity for ${item.product.title} is ${item.product.minOrderQuantity}`);
+      }
+      const currentPrice = Number(item.variant ? item.variant.price : item.product.price);
+      if (currentPrice !== Number(item.unitPrice)) {
+        priceChanges.push({ itemId: item.id, productId: item.productId, title: item.product.title, oldPrice: Number(item.unitPrice), newPrice: currentPrice });
+      }
+    }
+    if (priceChanges.length) {
+      // Refresh the cart so the buyer can review and confirm the new prices
+      await Promise.all(priceChanges.map(c => this.prisma.cartItem.update({ where: { id: c.itemId }, data: { unitPrice: c.newPrice } })));
+      throw new ConflictError('Prices changed since items were added to the cart', { priceChanges });
+    }
+
+    const deliveryAddress = data.deliveryAddress || await this.resolveShippingAddress(userId, data.shippingAddressId);
+    const billingAddress = data.billingAddress || deliveryAddress;
+
+    const bySeller = new Map<string, typeof items>();
+    for (const item of items) {
+      const group = bySeller.get(item.product.sellerId) || [];
+      group.push(item);
+      bySeller.set(item.product.sellerId, group);
+    }
+    const lineTotal = (group: typeof items) => group.reduce((sum, it) => sum + Number(it.unitPrice) * it.quantity, 0);
+    const cartSubtotal = round2(lineTotal(items));
+
+    let coupon: Awaited<ReturnType<typeof couponService.validateForOrder>>['coupon'] | null = null;
+    let discount = 0;
+    if (data.couponCode) {
+      try {
+        ({ coupon, discount } = await couponService.validateForOrder(data.couponCode, cartSubtotal));
+      } catch (error: any) {
+        throw new ValidationError(error.message);
+      }
+    }
+
+    // A single-seller cart follows that seller's gateway rules; mixed carts use the platform's
+    const paymentMethod = data.paymentMethod || 'upi';
+    const paymentGateway = await paymentGateways.resolve({ sellerId: bySeller.size === 1 ? [...bySeller.keys()][0] : null, paymentMethod });
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      if (coupon) {
+        const used = await tx.coupon.updateMany({
+          where: { id: coupon.id, ...(coupon.usageLimit ? { usedCount: { lt: coupon.usageLimit } } : {}) },
+          data: { usedCount: { increment: 1 } },
+        });
+        if (!used.count) throw new ConflictError('Coupon usage limit reached');
+      }
+
+      const checkout = await tx.checkout.create({
+        data: {
+          buyerId: userId,
+          couponId: coupon?.id,
+          subtotal: cartSubtotal,
+          taxAmount: 0,
+          shippingAmount: 0,
+          discountAmount: discount,
+          totalAmount: 0,
+          status: 'pending',
+          paymentMethod,
+          deliveryAddress,
+          billingAddress,
+        },
+      });
+
+      // Split the coupon discount across sellers pro rata (the last order absorbs rounding); each
+      // order spreads its share over its lines before GST is computed
+      const orders: Awaited<ReturnType<OrderService['createOrderInTransaction']>>[] = [];
+      let allocated = 0;
+      const sellerIds = [...bySeller.keys()];
+      for (const [index, sellerId] of sellerIds.entries()) {
+        const group = bySeller.get(sellerId)!;
+        const share = index === sellerIds.length - 1
+          ? round2(discount - allocated)
+          : round2(cartSubtotal > 0 ? (discount * lineTotal(group)) / cartSubtotal : 0);
+        allocated += share;
+
+        // Stock is reserved per order inside this transaction, so concurrent checkouts cannot oversell
+        const order = await this.orderService.createOrderInTransaction(tx, {
+          buyerId: userId,
+          sellerId,
+          checkoutId: checkout.id,
+          couponId: coupon?.id,
+          discountAmount: share,
+          orderType: 'product',
+          items: group.map(it => ({ productId: it.productId, variantId: it.variantId || undefined, quantity: it.quantity, unitPrice: Number(it.unitPrice) })),
+          deliveryAddress,
+          billingAddress,
+          notes: data.notes,
+          escrow: data.escrow,
+        });
+        orders.push(order);
+      }
+
+      const sum = (key: 'taxAmount' | 'shippingAmount' | 'totalAmount') => round2(orders.reduce((acc, o) => acc + Number(o[key]), 0));
+      const updatedCheckout = await tx.checkout.update({
+        where: { id: checkout.id },
+        data: { taxAmount: sum('taxAmount'), shippingAmount: sum('shippingAmount'), totalAmount: sum('totalAmount') },
+      });
+
+      const payment = await tx.payment.create({
+        data: {
+          checkoutId: checkout.id,
+          amount: updatedCheckout.totalAmount,
+          paymentMethod,
+          paymentGateway,
+          status: 'pending',
+        },
+      });
+
+      await tx.cartItem.deleteMany({ where: { cartId: cart.id } });
+      return { checkout: updatedCheckout, orders, payment };
+    }, { timeout: 20000 }); // One order per seller plus tax lookups can outlast the 5s default
+
+    for (const order of result.orders) {
+      notificationService.sendOrderNotification(order, 'created').catch(err => logger.error('Order notification failed', err));
+    }
+    logger.info(`Checkout ${result.checkout.id} created ${result.orders.length} order(s) for user=${userId}`);
+
+    // The checkout stands even if the gateway is unreachable; the client can retry via /payments/:id/initiate
+    let gatewayCheckout: Awaited<ReturnType<typeof paymentService.initiate>>['checkout'] | null = null;
+    try {
+      const initiated = await paymentService.initiate(result.payment.id);
+      result.payment = initiated.payment;
+      gatewayCheckout = initiated.checkout;
+    } catch (error) {
+      logger.warn(`Failed to initiate payment ${result.payment.id} for checkout ${result.checkout.id}`, error);
+    }
+    return { ...result, gatewayCheckout };
+  }
+
+  private async resolveShippingAddress(userId: string, shippingAddressId?: string) {
+    if (!shippingAddressId) throw new ValidationError('Delivery address required');
+    const address = await this.prisma.shippingAddress.findFirst({ where: { id: shippingAddressId, userId } });
+    if (!address) throw new NotFoundError('Shipping address not found');
+    return {
+      name: address.name,
+      phone: address.phone,
+      addressLine1: address.addressLine1,
+      addressLine2: address.addressLine2,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postalCode,
+      country: address.country,
+    };
+  }
 }
 
 export const cartService = new CartService();
\ No newline at end of file
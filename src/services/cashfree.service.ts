@@ -1,7 +1,10 @@
 import crypto from 'crypto';
+import axios from 'axios';
 import { config } from '@/config/environment';
 import { logger } from '@/utils/logger';
 
+const SUBSCRIPTIONS_API_VERSION = '2025-01-01';
+
 export class CashfreeService {
   private clientId: string;
   private clientSecret: string;
@@ -14,15 +17,15 @@ export class CashfreeService {
   }
 
   /**
-   * Validate webhook signature for Cashfree (best-effort)
-   * Cashfree sends signatures differently per integration; this attempts HMAC with client secret.
+   * Validate a legacy x-cashfree-signature: hex HMAC-SHA256 of the raw request body.
+   * Must be given the bytes as received; re-serialised JSON does not match reliably.
    */
-  validateSignature(payload: any, signatureHeader?: string): boolean {
+  validateSignature(rawBody: string, signatureHeader?: string): boolean {
     try {
       if (!signatureHeader) return false;
-      const payloadString = JSON.stringify(payload || {});
-      const hmac = crypto.createHmac('sha256', this.clientSecret).update(payloadString).digest('hex');
-      return hmac === signatureHeader || hmac === (signatureHeader || '').replace('sha256=', '');
+      const expected = Buffer.from(crypto.createHmac('sha256', this.clientSecret).update(rawBody).digest('hex'));
+      const actual = Buffer.from(signatureHeader.replace('sha256=', ''));
+      return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
     } catch (error) {
       logger.error('Error validating cashfree signature:', error);
       return false;
@@ -39,6 +42,131 @@ export class CashfreeService {
     if (status.includes('processing') || status.includes('pending')) return 'processing';
     return 'pending';
   }
+
+  /**
+   * Validate a PG webhook: base64 HMAC-SHA256 of timestamp + raw body, keyed with the client secret
+   */
+  validateWebhookSignature(rawBody: string, timestamp?: string, signature?: string): boolean {
+    if (!timestamp || !signature) return false;
+    const expected = crypto.createHmac('sha256', this.clientSecret).update(timestamp + rawBody).digest('base64');
+    const a = Buffer.from(expected);
+    const b = Buffer.from(signature);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  /**
+   * Create a Cashfree order; the returned payment_session_id drives the client checkout
+   */
+  async createOrder(params: { orderId: string; amount: number; currency: string; customer: { id: string; email?: string | null; phone?: string | null; name?: string | null }; returnUrl?: string; note?: string }) {
+    const { data } = await axios.post(
+      `${this.baseUrl()}/pg/orders`,
+      {
+        order_id: params.orderId,
+        order_amount: params.amount,
+        order_currency: params.currency,
+        order_note: params.note,
+        customer_details: {
+          customer_id: params.customer.id,
+          customer_email: params.customer.email || undefined,
+          customer_phone: params.customer.phone || '9999999999',
+          customer_name: params.customer.name || undefined,
+        },
+        order_meta: params.returnUrl ? { return_url: params.returnUrl } : undefined,
+      },
+      { headers: this.headers(), timeout: 15000 }
+    );
+    return data as { cf_order_id: string; order_id: string; order_status: string; payment_session_id: string };
+  }
+
+  async getOrder(orderId: string) {
+    const { data } = await axios.get(`${this.baseUrl()}/pg/orders/${encodeURIComponent(orderId)}`, { headers: this.headers(), timeout: 15000 });
+    return data as { cf_order_id: string; order_id: string; order_status: string; order_amount: number };
+  }
+
+  async getOrderPayments(orderId: string) {
+    const { data } = await axios.get(`${this.baseUrl()}/pg/orders/${encodeURIComponent(orderId)}/payments`, { headers: this.headers(), timeout: 15000 });
+    return data as Array<{ cf_payment_id: string | number; payment_status: string; payment_amount: number }>;
+  }
+
+  /**
+   * Create a refund against a Cashfree order (PG API 2023-08-01)
+   */
+  async createRefund(cfOrderId: string, params: { refundId: string; amount: number; note?: string }) {
+    const { data } = await axios.post(
+      `${this.baseUrl()}/pg/orders/${encodeURIComponent(cfOrderId)}/refunds`,
+      { refund_amount: params.amount, refund_id: params.refundId, refund_note: params.note?.slice(0, 100) },
+      { headers: this.headers(), timeout: 15000 }
+    );
+    return data as { cf_refund_id?: string; refund_id: string; refund_status: string; status_description?: string };
+  }
+
+  async getRefund(cfOrderId: string, refundId: string) {
+    const { data } = await axios.get(
+      `${this.baseUrl()}/pg/orders/${encodeURIComponent(cfOrderId)}/refunds/${encodeURIComponent(refundId)}`,
+      { headers: this.headers(), timeout: 15000 }
+    );
+    return data as { cf_refund_id?: string; refund_id: string; refund_status: string; status_description?: string };
+  }
+
+  /**
+   * Raise a charge against an active Cashfree subscription (the customer's mandate). payment_id
+   * must be unique per attempt. Subscriptions run on a newer API version than PG orders.
+   */
+  async chargeSubscription(subscriptionId: string, params: { paymentId: string; amount: number; remarks?: string }) {
+    const { data } = await axios.post(
+      `${this.baseUrl()}/pg/subscriptions/pay`,
+      {
+        subscription_id: subscriptionId,
+        payment_id: params.paymentId,
+        payment_amount: params.amount,
+        payment_type: 'CHARGE',
+        payment_remarks: params.remarks?.slice(0, 100),
+      },
+      { headers: { ...this.headers(), 'x-api-version': SUBSCRIPTIONS_API_VERSION }, timeout: 15000 }
+    );
+    return data as { cf_payment_id?: string | number; payment_id: string; payment_status: string; failure_details?: { failure_reason?: string } };
+  }
+
+  async getSubscriptionPayment(subscriptionId: string, paymentId: string) {
+    const { data } = await axios.get(
+      `${this.baseUrl()}/pg/subscriptions/${encodeURIComponent(subscriptionId)}/payments/${encodeURIComponent(paymentId)}`,
+      { headers: { ...this.headers(), 'x-api-version': SUBSCRIPTIONS_API_VERSION }, timeout: 15000 }
+    );
+    return data as { cf_payment_id?: string | number; payment_id: string; payment_status: string; failure_details?: { failure_reason?: string } };
+  }
+
+  /**
+   * Map a subscription payment_status to internal payment status
+   */
+  parseSubscriptionPaymentStatus(status?: string): 'paid' | 'failed' | 'processing' {
+    const value = (status || '').toUpperCase();
+    if (value === 'SUCCESS') return 'paid';
+    if (value === 'FAILED' || value === 'CANCELLED' || value === 'DECLINED') return 'failed';
+    return 'processing';
+  }
+
+  /**
+   * Map Cashfree refund_status to internal refund status
+   */
+  parseRefundStatus(status?: string): 'succeeded' | 'failed' | 'processing' {
+    const value = (status || '').toUpperCase();
+    if (value === 'SUCCESS') return 'succeeded';
+    if (value === 'CANCELLED' || value === 'FAILED') return 'failed';
+    return 'processing';
+  }
+
+  private baseUrl() {
+    return this.environment === 'production' ? 'https://api.cashfree.com' : 'https://sandbox.cashfree.com';
+  }
+
+  private headers() {
+    return {
+      'x-client-id': this.clientId,
+      'x-client-secret': this.clientSecret,
+      'x-api-version': '2023-08-01',
+      'Content-Type': 'application/json',
+    };
+  }
 }
 
 export default new CashfreeService();
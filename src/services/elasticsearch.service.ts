@@ -1,19 +1,72 @@
 import { logger } from '../utils/logger';
-import elasticsearchClient, { elasticsearchHelper, INDICES } from '@/config/elasticsearch';
+import elasticsearchClient, {
+    elasticsearchHelper, INDICES, rfqMapping, productMapping, serviceMapping, buildIndexSettings,
+    MAPPING_VERSIONS, writeAliasFor, reindexAliasFor, physicalIndexName,
+} from '@/config/elasticsearch';
 import { prisma } from '@/config/database';
 import { ESSearchResponse } from '@/types/elasticsearch.types';
+import { Prisma } from '@prisma/client';
+
+// How long a process trusts its view of which indices a write must reach
+export const WRITE_TARGET_TTL_MS = 5000;
+
+export type BulkOpType = 'index' | 'create';
+
+// Relations loaded for every RFQ document
+export const RFQ_INDEX_INCLUDE = {
+    buyer: {
+        select: {
+            id: true,
+            businessName: true,
+            location: true,
+            city: true,
+            state: true,
+            country: true,
+            verificationTier: true,
+            isVerified: true,
+        },
+    },
+    category: { select: { id: true, name: true, slug: true } },
+    subcategory: { select: { id: true, name: true, slug: true } },
+    items: { select: { name: true, unit: true, quantity: true, requiredCertifications: true } },
+    _count: { select: { quotes: true } },
+} satisfies Prisma.RfqInclude;
+
+export type IndexableRfq = Prisma.RfqGetPayload<{ include: typeof RFQ_INDEX_INCLUDE }>;
+
+/**
+ * Flatten an RFQ into its search document: decimals become numbers and the delivery
+ * coordinates become a geo point for radius search.
+ */
+export function toRfqDocument(rfq: IndexableRfq) {
+    const { _count, budgetMin, budgetMax, benchmarkPrice, minDecrement, deliveryLat, deliveryLng, ...fields } = rfq;
+    return {
+        ...fields,
+        budgetMin: budgetMin?.toNumber() ?? null,
+        budgetMax: budgetMax?.toNumber() ?? null,
+        benchmarkPrice: benchmarkPrice?.toNumber() ?? null,
+        minDecrement: minDecrement?.toNumber() ?? null,
+        location: deliveryLat !== null && deliveryLng !== null ? { lat: deliveryLat, lon: deliveryLng } : null,
+        quoteCount: _count.quotes,
+    };
+}
 
 export class ElasticsearchService {
     private client = elasticsearchClient;
+    private writeTargetCache = new Map<string, { indices: string[]; expiresAt: number }>();
 
     async initializeIndices(): Promise<void> {
         try {
+            // Managed synonyms must exist before the analyzers that use them
+            await elasticsearchHelper.ensureSynonymSet();
             // Create products index
             await this.createProductsIndex();
             // Create services index
             await this.createServicesIndex();
             // Create users index
             await this.createUsersIndex();
+            // Create RFQs index
+            await this.createRfqsIndex();
             logger.info('Elasticsearch indices initialized successfully');
         } catch (error) {
             logger.error('Error initializing Elasticsearch indices:', error);
@@ -22,77 +75,8 @@ export class ElasticsearchService {
     }
 
     private async createProductsIndex(): Promise<void> {
-    const indexName = INDICES.PRODUCTS;
         try {
-            const exists = await this.client.indices.exists({ index: indexName }) as any;
-            const existsFlag = typeof exists === 'boolean' ? exists : exists.body;
-            if (!existsFlag) {
-                await this.client.indices.create(({
-                    index: indexName,
-                    body: {
-                        settings: {
-                            number_of_shards: 1,
-                            number_of_replicas: 0,
-                            analysis: {
-                                analyzer: {
-                                    custom_analyzer: {
-                                        type: 'custom',
-                                        tokenizer: 'standard',
-                                        filter: ['lowercase', 'stop', 'snowball'],
-                                    },
-                                },
-                            },
-                        },
-                        mappings: {
-                            properties: {
-                                id: { type: 'keyword' },
-                                title: { 
-                                    type: 'text',
-                                    analyzer: 'custom_analyzer',
-                                    fields: {
-                                        keyword: { type: 'keyword' },
-                                    },
-                                },
-                                description: { 
-                                    type: 'text',
-                                    analyzer: 'custom_analyzer',
-                                },
-                                price: { type: 'float' },
-                                currency: { type: 'keyword' },
-                                status: { type: 'keyword' },
-                                isActive: { type: 'boolean' },
-                                createdAt: { type: 'date' },
-                                updatedAt: { type: 'date' },
-                                category: {
-                                    properties: {
-                                        id: { type: 'keyword' },
-                                        name: { type: 'text' },
-                                        slug: { type: 'keyword' },
-                                    },
-                                },
-                                subcategory: {
-                                    properties: {
-                                        id: { type: 'keyword' },
-                                        name: { type: 'text' },
-                                        slug: { type: 'keyword' },
-                                    },
-                                },
-                                seller: {
-                                    properties: {
-                                        id: { type: 'keyword' },
-                                        businessName: { type: 'text' },
-                                        city: { type: 'text' },
-                                        state: { type: 'text' },
-                                        verificationTier: { type: 'keyword' },
-                                        isVerified: { type: 'boolean' },
-                                    },
-                                },
-                            },
-                        },
-                    },
-                }) as any);
-                logger.info(`Elasticsearch index created: ${indexName}`);
-            }
+            await this.ensureVersionedIndex(INDICES.PRODUCTS, productMapping);
         } catch (error) {
             logger.error('Error creating products index:', error);
             throw error;
@@ -100,83 +84,81 @@ export class ElasticsearchService {
     }
 
     private async createServicesIndex(): Promise<void> {
-    const indexName = INDICES.SERVICES;
         try {
-            const exists = await this.client.indices.exists({ index: indexName }) as any;
-            const existsFlag = typeof exists === 'boolean' ? exists : exists.body;
-            if (!existsFlag) {
-                await this.client.indices.create(({
-                    index: indexName,
-                    body: {
-                        settings: {
-                            number_of_shards: 1,
-                            number_of_replicas: 0,
-                            analysis: {
-                                analyzer: {
-                                    custom_analyzer: {
-                                        type: 'custom',
-                                        tokenizer: 'standard',
-                                        filter: ['lowercase', 'stop', 'snowball'],
-                                    },
-                                },
-                            },
-                        },
-                        mappings: {
-                            properties: {
-                                id: { type: 'keyword' },
-                                title: { 
-                                    type: 'text',
-                                    analyzer: 'custom_analyzer',
-                                    fields: {
-                                        keyword: { type: 'keyword' },
-                                    },
-                                },
-                                description: { 
-                                    type: 'text',
-                                    analyzer: 'custom_analyzer',
-                                },
-                                price: { type: 'float' },
-                                serviceType: { type: 'keyword' },
-                                status: { type: 'keyword' },
-                                isActive: { type: 'boolean' },
-                                createdAt: { type: 'date' },
-                                updatedAt: { type: 'date' },
-                                category: {
-                                    properties: {
-                                        id: { type: 'keyword' },
-                                        name: { type: 'text' },
-                                        slug: { type: 'keyword' },
-                                    },
-                                },
-                                subcategory: {
-                                    properties: {
-                                        id: { type: 'keyword' },
-                                        name: { type: 'text' },
-                                        slug: { type: 'keyword' },
-                                    },
-                                },
-                                provider: {
-                                    properties: {
-                                        id: { type: 'keyword' },
-                                        businessName: { type: 'text' },
-                                        city: { type: 'text' },
-                                        state: { type: 'text' },
-                                        verificationTier: { type: 'keyword' },
-                                        isVerified: { type: 'boolean' },
-                                    },
-                                },
-                            },
-                        },
-                    },
-                }) as any);
-                logger.info(`Elasticsearch index created: ${indexName}`);
-            }
+            await this.ensureVersionedIndex(INDICES.SERVICES, serviceMapping);
         } catch (error) {
             logger.error('Error creating services index:', error);
             throw error;
         }
     }
 
+    /**
+     * Make sure the read and write aliases resolve. A fresh cluster gets a versioned index holding
+     * both; an index created before aliases existed keeps serving under its own name and gains the
+     * write alias until the first reindex replaces it.
+     */
+    private async ensureVersionedIndex(alias: string, mapping: Record<string, any>): Promise<void> {
+        const writeAlias = writeAliasFor(alias);
+        if (await this.client.indices.existsAlias({ name: writeAlias })) return;
+
+        if (await this.client.indices.exists({ index: alias })) {
+            const [current] = Object.keys(await this.client.indices.get({ index: alias }));
+            await this.client.indices.updateAliases({
+                actions: [{ add: { index: current, alias: writeAlias, is_write_index: true } }],
+            });
+            logger.info(`Elasticsearch write alias ${writeAlias} added to ${current}`);
+            return;
+        }
+
+        const index = physicalIndexName(alias);
+        await this.createVersionedIndex(index, alias, mapping);
+        await this.client.indices.updateAliases({
+            actions: [
+                { add: { index, alias } },
+                { add: { index, alias: writeAlias, is_write_index: true } },
+            ],
+        });
+        logger.info(`Elasticsearch index created: ${index} (aliases ${alias}, ${writeAlias})`);
+    }
+
+    // Physical index with the current analysis settings and the mapping version recorded in _meta
+    async createVersionedIndex(index: string, alias: string, mapping: Record<string, any>): Promise<void> {
+        await this.client.indices.create(({
+            index,
+            body: {
+                settings: buildIndexSettings(),
+                mappings: { ...mapping, _meta: { version: MAPPING_VERSIONS[alias] } },
+            },
+        }) as any);
+    }
+
+    // Concrete indices behind an alias; empty when the alias does not exist
+    async resolveAlias(name: string): Promise<string[]> {
+        try {
+            return Object.keys(await this.client.indices.getAlias({ name }));
+        } catch (error: any) {
+            if (error.meta?.statusCode === 404) return [];
+            throw error;
+        }
+    }
+
+    /**
+     * Indices a product or service write must reach: the write alias plus any index being rebuilt.
+     * Cached briefly so single-document writes do not pay an extra round trip each.
+     */
+    async writeTargets(alias: string): Promise<string[]> {
+        const cached = this.writeTargetCache.get(alias);
+        if (cached && cached.expiresAt > Date.now()) return cached.indices;
+
+        const indices = [writeAliasFor(alias), ...await this.resolveAlias(reindexAliasFor(alias))];
+        this.writeTargetCache.set(alias, { indices, expiresAt: Date.now() + WRITE_TARGET_TTL_MS });
+        return indices;
+    }
+
+    invalidateWriteTargets(alias: string): void {
+        this.writeTargetCache.delete(alias);
+    }
+
     private async createUsersIndex(): Promise<void> {
     const indexName = INDICES.USERS;
         try {
@@ -231,13 +213,41 @@ export class ElasticsearchService {
         }
     }
 
+    private async createRfqsIndex(): Promise<void> {
+    const indexName = INDICES.RFQS;
+        try {
+            const exists = await this.client.indices.exists({ index: indexName }) as any;
+            const existsFlag = typeof exists === 'boolean' ? exists : exists.body;
+            if (!existsFlag) {
+                await this.client.indices.create(({
+                    index: indexName,
+                    body: {
+                        settings: {
+                            number_of_shards: 1,
+                            number_of_replicas: 0,
+                        },
+                        mappings: rfqMapping,
+                    },
+                }) as any);
+                logger.info(`Elasticsearch index created: ${indexName}`);
+            } else {
+                // Older indices predate the geo point and facet fields; new fields can be added in place
+                await (this.client.indices.putMapping as any)({ index: indexName, body: rfqMapping });
+            }
+        } catch (error) {
+            logger.error('Error creating RFQs index:', error);
+            throw error;
+        }
+    }
+
     async indexProduct(product: any): Promise<void> {
         try {
-            await this.client.index({
-                index: INDICES.PRODUCTS,
+            const targets = await this.writeTargets(INDICES.PRODUCTS);
+            await Promise.all(targets.map(index => this.client.index({
+                index,
                 id: product.id,
                 body: product,
-            });
+            })));
             logger.debug(`Product ${product.id} indexed successfully`);
         } catch (error) {
             logger.error(`Error indexing product ${product.id}:`, error);
@@ -247,11 +257,12 @@ export class ElasticsearchService {
 
     async indexService(service: any): Promise<void> {
         try {
-            await this.client.index({
-                index: INDICES.SERVICES,
+            const targets = await this.writeTargets(INDICES.SERVICES);
+            await Promise.all(targets.map(index => this.client.index({
+                index,
                 id: service.id,
                 body: service,
-            });
+            })));
             logger.debug(`Service ${service.id} indexed successfully`);
         } catch (error) {
             logger.error(`Error indexing service ${service.id}:`, error);
@@ -273,52 +284,92 @@ export class ElasticsearchService {
         }
     }
 
-    async deleteProduct(productId: string): Promise<void> {
+    async indexRfq(rfq: IndexableRfq): Promise<void> {
         try {
-            await this.client.delete({
-                index: INDICES.PRODUCTS,
-                id: productId,
+            await this.client.index({
+                index: INDICES.RFQS,
+                id: rfq.id,
+                document: toRfqDocument(rfq),
             });
-            logger.debug(`Product ${productId} deleted from index`);
-        } catch (error: any) {
-            if (error.meta?.statusCode !== 404) {
-                logger.error(`Error deleting product ${productId} from index:`, error);
-                throw error;
-            }
+            logger.debug(`RFQ ${rfq.id} indexed successfully`);
+        } catch (error) {
+            logger.error(`Error indexing RFQ ${rfq.id}:`, error);
+            throw error;
         }
     }
 
+    async deleteProduct(productId: string): Promise<void> {
+        const targets = await this.writeTargets(INDICES.PRODUCTS);
+        await Promise.all(targets.map(async index => {
+            try {
+                await this.client.delete({
+                    index,
+                    id: productId,
+                });
+            } catch (error: any) {
+                if (error.meta?.statusCode !== 404) {
+                    logger.error(`Error deleting product ${productId} from ${index}:`, error);
+                    throw error;
+                }
+            }
+        }));
+        logger.debug(`Product ${productId} deleted from index`);
+    }
+
     async deleteService(serviceId: string): Promise<void> {
+        const targets = await this.writeTargets(INDICES.SERVICES);
+        await Promise.all(targets.map(async index => {
+            try {
+                await this.client.delete({
+                    index,
+                    id: serviceId,
+                });
+            } catch (error: any) {
+                if (error.meta?.statusCode !== 404) {
+                    logger.error(`Error deleting service ${serviceId} from ${index}:`, error);
+                    throw error;
+                }
+            }
+        }));
+        logger.debug(`Service ${serviceId} deleted from index`);
+    }
+
+    async deleteUser(userId: string): Promise<void> {
         try {
             await this.client.delete({
-                index: INDICES.SERVICES,
-                id: serviceId,
+                index: INDICES.USERS,
+                id: userId,
             });
-            logger.debug(`Service ${serviceId} deleted from index`);
+            logger.debug(`User ${userId} deleted from index`);
         } catch (error: any) {
             if (error.meta?.statusCode !== 404) {
-                logger.error(`Error deleting service ${serviceId} from index:`, error);
+                logger.error(`Error deleting user ${userId} from index:`, error);
                 throw error;
             }
         }
     }
 
-    async deleteUser(userId: string): Promise<void> {
+    async deleteRfq(rfqId: string): Promise<void> {
         try {
             await this.client.delete({
-                index: INDICES.USERS,
-                id: userId,
+                index: INDICES.RFQS,
+                id: rfqId,
             });
-            logger.debug(`User ${userId} deleted from index`);
+            logger.debug(`RFQ ${rfqId} deleted from index`);
         } catch (error: any) {
             if (error.meta?.statusCode !== 404) {
-                logger.error(`Error deleting user ${userId} from index:`, error);
+                logger.error(`Error deleting RFQ ${rfqId} from index:`, error);
                 throw error;
             }
         }
     }
 
-    async bulkIndexProducts(): Promise<void> {
+    /**
+     * Defaults to every current write target; a reindex passes the new physical index and
+     * 'create' so documents dual-written during the build are not overwritten by older rows.
+     * Returns the number of products sent.
+     */
+    async bulkIndexProducts(index?: string, opType: BulkOpType = 'index'): Promise<number> {
         try {
             const products = await prisma.product.findMany({
                 where: {
@@ -354,28 +405,35 @@ export class ElasticsearchService {
 
             if (products.length === 0) {
                 logger.info('No products to index');
-                return;
+                return 0;
             }
 
-            const body = products.flatMap(product => [
-                { index: { _index: INDICES.PRODUCTS, _id: product.id } },
+            const targets = index ? [index] : await this.writeTargets(INDICES.PRODUCTS);
+            const body = targets.flatMap(target => products.flatMap(product => [
+                { [opType]: { _index: target, _id: product.id } },
                 product,
-            ]);
+            ]));
 
             const response = await this.client.bulk({ body }) as any;
-            const respBody = response.body ?? response;
-            if (respBody.errors) {
-                logger.error('Bulk indexing errors:', respBody.items);
+            const failures = this.bulkFailures(response.body ?? response);
+            if (failures.length) {
+                logger.error('Bulk indexing errors:', failures);
             } else {
                 logger.info(`Successfully indexed ${products.length} products`);
             }
+            return products.length;
         } catch (error) {
             logger.error('Error bulk indexing products:', error);
             throw error;
         }
     }
 
-    async bulkIndexServices(): Promise<void> {
+    /**
+     * Defaults to every current write target; a reindex passes the new physical index and
+     * 'create' so documents dual-written during the build are not overwritten by older rows.
+     * Returns the number of services sent.
+     */
+    async bulkIndexServices(index?: string, opType: BulkOpType = 'index'): Promise<number> {
         try {
             const services = await prisma.service.findMany({
                 where: {
@@ -411,27 +469,38 @@ export class ElasticsearchService {
 
             if (services.length === 0) {
                 logger.info('No services to index');
-                return;
+                return 0;
             }
 
-            const body = services.flatMap(service => [
-                { index: { _index: INDICES.SERVICES, _id: service.id } },
+            const targets = index ? [index] : await this.writeTargets(INDICES.SERVICES);
+            const body = targets.flatMap(target => services.flatMap(service => [
+                { [opType]: { _index: target, _id: service.id } },
                 service,
-            ]);
+            ]));
 
             const response = await this.client.bulk({ body }) as any;
-            const respBody = response.body ?? response;
-            if (respBody.errors) {
-                logger.error('Bulk indexing errors:', respBody.items);
+            const failures = this.bulkFailures(response.body ?? response);
+            if (failures.length) {
+                logger.error('Bulk indexing errors:', failures);
             } else {
                 logger.info(`Successfully indexed ${services.length} services`);
             }
+            return services.length;
         } catch (error) {
             logger.error('Error bulk indexing services:', error);
             throw error;
         }
     }
 
+    // Version conflicts from 'create' only mean a newer copy is already there
+    private bulkFailures(respBody: any): any[] {
+        if (!respBody.errors) return [];
+        return (respBody.items || []).filter((item: any) => {
+            const result = item.index || item.create;
+            return result?.error && result.status !== 409;
+        });
+    }
+
     async bulkIndexUsers(): Promise<void> {
         try {
             const users = await prisma.user.findMany({
@@ -478,6 +547,39 @@ export class ElasticsearchService {
         }
     }
 
+    // Open RFQs only; closed and expired ones are refreshed by the incremental sync
+    async bulkIndexRfqs(): Promise<void> {
+        try {
+            const rfqs = await prisma.rfq.findMany({
+                where: {
+                    status: 'active',
+                },
+                include: RFQ_INDEX_INCLUDE,
+            });
+
+            if (rfqs.length === 0) {
+                logger.info('No RFQs to index');
+                return;
+            }
+
+            const body = rfqs.flatMap(rfq => [
+                { index: { _index: INDICES.RFQS, _id: rfq.id } },
+                toRfqDocument(rfq),
+            ]);
+
+            const response = await this.client.bulk({ body }) as any;
+            const respBody = response.body ?? response;
+            if (respBody.errors) {
+                logger.error('Bulk indexing errors:', respBody.items);
+            } else {
+                logger.info(`Successfully indexed ${rfqs.length} RFQs`);
+            }
+        } catch (error) {
+            logger.error('Error bulk indexing RFQs:', error);
+            throw error;
+        }
+    }
+
     async search<T = any>(index: string, query: any): Promise<ESSearchResponse<T>> {
         try {
             const response = await this.client.search({
@@ -491,6 +593,22 @@ export class ElasticsearchService {
         }
     }
 
+    // Title completions across products and services from the edge-ngram autocomplete fields
+    async autocomplete(text: string, size: number = 10): Promise<string[]> {
+        const response = await this.search<{ title: string }>(`${INDICES.PRODUCTS},${INDICES.SERVICES}`, {
+            size: size * 2,
+            _source: ['title'],
+            query: {
+                bool: {
+                    must: [{ match: { 'title.autocomplete': { query: text, operator: 'and' } } }],
+                    filter: [{ term: { isActive: true } }],
+                },
+            },
+        });
+        const titles = (response.hits?.hits || []).map(hit => hit._source?.title).filter((t): t is string => !!t);
+        return [...new Set(titles)].slice(0, size);
+    }
+
     async healthCheck(): Promise<boolean> {
         try {
             const response = await this.client.ping() as any;
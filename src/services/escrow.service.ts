@@ -0,0 +1,318 @@
+import type { LockedAmount, Prisma } from '@prisma/client';
+import { BaseService } from './base.service';
+import { logger } from '../utils/logger';
+import { config } from '../config/environment';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/error-handler';
+import { notificationService } from './notification.service';
+import { ledgerService, ledgerAccounts } from './ledger.service';
+import type { LedgerAccountRef } from './ledger.service';
+
+type EscrowTransactionType = 'deposit' | 'escrow_hold' | 'escrow_release' | 'commission' | 'refund';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Escrow holds for orders. Buyer payments are parked as a LockedAmount on the buyer's wallet
+ * and either released to the seller (less platform commission) or refunded to the buyer.
+ * Every balance change writes a WalletTransaction and a balanced journal entry.
+ */
+export class EscrowService extends BaseService {
+  /**
+   * Hold a paid escrow order's total in the buyer's wallet. Idempotent per order.
+   */
+  async holdForOrder(orderId: string): Promise<LockedAmount | null> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const order = await tx.order.findUnique({ where: { id: orderId } });
+        if (!order) throw new NotFoundError('Order not found');
+        if (!order.escrowEnabled || order.status === 'cancelled') return null;
+
+        const existing = await tx.lockedAmount.findFirst({ where: { orderId, status: { in: ['active', 'frozen', 'released'] } } });
+        if (existing) return existing;
+
+        const amount = order.totalAmount.toNumber();
+        const wallet = await this.ensureWallet(tx, order.buyerId);
+        await ledgerService.ensureOpened(tx, order.buyerId);
+
+        // Leg 1: gateway funds land in the buyer's wallet
+        const funded = await tx.wallet.update({
+          where: { id: wallet.id },
+          data: { availableBalance: { increment: amount } },
+        });
+        await this.record(tx, funded.id, 'deposit', amount, funded.availableBalance.toNumber(), orderId, `Payment received for order ${order.orderNumber}`);
+        await this.journal(tx, 'deposit', orderId, `Payment received for order ${order.orderNumber}`, ledgerAccounts.gatewayClearing(), ledgerAccounts.wallet(order.buyerId), amount);
+
+        // Leg 2: the same funds move into escrow
+        const held = await tx.wallet.update({
+          where: { id: wallet.id },
+          data: { availableBalance: { decrement: amount }, lockedBalance: { increment: amount } },
+        });
+        await this.record(tx, held.id, 'escrow_hold', -amount, held.availableBalance.toNumber(), orderId, `Escrow hold for order ${order.orderNumber}`);
+        await this.journal(tx, 'escrow_hold', orderId, `Escrow hold for order ${order.orderNumber}`, ledgerAccounts.wallet(order.buyerId), ledgerAccounts.escrow(order.buyerId), amount);
+
+        const hold = await tx.lockedAmount.create({
+          data: {
+            walletId: wallet.id,
+            orderId,
+            amount,
+            reason: 'escrow',
+            lockReason: 'order_payment',
+            status: 'active',
+          },
+        });
+
+        logger.info(`Escrow hold created for order ${orderId}, amount: ${amount}`);
+        return hold;
+      });
+    } catch (error) {
+      logger.error('Error creating escrow hold:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start the dispute window once the order is delivered; the scheduler releases the hold after it.
+   */
+  async startDisputeWindow(orderId: string, deliveredAt = new Date()) {
+    const lockedUntil = new Date(deliveredAt.getTime() + config.escrow.disputeWindowDays * 24 * 60 * 60 * 1000);
+    return this.prisma.lockedAmount.updateMany({
+      where: { orderId, status: 'active' },
+      data: { lockedUntil },
+    });
+  }
+
+  /**
+   * Pay the held amount out to the seller, keeping the platform commission.
+   * Frozen (disputed) holds are only released when an admin resolves the dispute.
+   */
+  async releaseForOrder(orderId: string, options: { resolveDispute?: boolean } = {}): Promise<LockedAmount> {
+    try {
+      const released = await this.prisma.$transaction(async (tx) => {
+        const hold = await this.findOpenHold(tx, orderId);
+        if (hold.status === 'frozen' && !options.resolveDispute) {
+          throw new ConflictError('Escrow is frozen while the order is under dispute');
+        }
+        await this.claimHold(tx, hold, { status: 'released', releasedAt: new Date() });
+
+        const order = await tx.order.findUnique({ where: { id: orderId } });
+        if (!order) throw new NotFoundError('Order not found');
+        const amount = hold.amount.toNumber();
+        const commission = round2(amount * config.escrow.commissionPercent / 100);
+        const sellerWallet = await this.ensureWallet(tx, order.sellerId);
+        await ledgerService.ensureOpened(tx, order.buyerId);
+        await ledgerService.ensureOpened(tx, order.sellerId);
+
+        await tx.wallet.update({
+          where: { id: hold.walletId },
+          data: { lockedBalance: { decrement: amount } },
+        });
+
+        const credited = await tx.wallet.update({
+          where: { id: sellerWallet.id },
+          data: { availableBalance: { increment: amount } },
+        });
+        await this.record(tx, credited.id, 'escrow_release', amount, credited.availableBalance.toNumber(), orderId, `Escrow released for order ${order.orderNumber}`);
+        await this.journal(tx, 'escrow_release', orderId, `Escrow released for order ${order.orderNumber}`, ledgerAccounts.escrow(order.buyerId), ledgerAccounts.wallet(order.sellerId), amount);
+
+        if (commission > 0) {
+          const charged = await tx.wallet.update({
+            where: { id: sellerWallet.id },
+            data: { availableBalance: { decrement: commission } },
+          });
+          await this.record(tx, charged.id, 'commission', -commission, charged.availableBalance.toNumber(), orderId, `Platform commission (${config.escrow.commissionPercent}%) for order ${order.orderNumber}`);
+          await this.journal(tx, 'commission', orderId, `Platform commission for order ${order.orderNumber}`, ledgerAccounts.wallet(order.sellerId), ledgerAccounts.commission(), commission);
+        }
+
+        return tx.lockedAmount.update({
+          where: { id: hold.id },
+          data: { commissionAmount: commission },
+        });
+      });
+
+      await this.notifyParties(orderId, 'Escrow Released', 'Payment for order {orderNumber} has been released to the seller.');
+      logger.info(`Escrow released for order ${orderId}`);
+      return released;
+    } catch (error) {
+      logger.error('Error releasing escrow:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Return the held amount to the buyer's available balance (cancellation or dispute lost by seller).
+   * Runs on the caller's transaction when one is given. Returns null when there is nothing to refund.
+   */
+  async refundForOrder(orderId: string, reason: string, db?: Prisma.TransactionClient): Promise<LockedAmount | null> {
+    const work = async (tx: Prisma.TransactionClient) => {
+      const hold = await tx.lockedAmount.findFirst({ where: { orderId, status: { in: ['active', 'frozen'] } } });
+      if (!hold) return null;
+      const refunded = await this.claimHold(tx, hold, { status: 'refunded', releasedAt: new Date() });
+
+      const amount = hold.amount.toNumber();
+      const buyer = await tx.wallet.findUnique({ where: { id: hold.walletId }, select: { userId: true } });
+      await ledgerService.ensureOpened(tx, buyer!.userId);
+
+      const wallet = await tx.wallet.update({
+        where: { id: hold.walletId },
+        data: { availableBalance: { increment: amount }, lockedBalance: { decrement: amount } },
+      });
+      await this.record(tx, wallet.id, 'refund', amount, wallet.availableBalance.toNumber(), orderId, `Escrow refunded: ${reason}`);
+      await this.journal(tx, 'refund', orderId, `Escrow refunded: ${reason}`, ledgerAccounts.escrow(wallet.userId), ledgerAccounts.wallet(wallet.userId), amount);
+      return refunded;
+    };
+
+    try {
+      return db ? await work(db) : await this.prisma.$transaction(work);
+    } catch (error) {
+      logger.error('Error refunding escrow:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Buyer raises a dispute: the hold is frozen until an admin resolves it.
+   */
+  async openDispute(orderId: string, userId: string, reason: string): Promise<LockedAmount> {
+    const order = await this.prisma.order.findUnique({ where: { id: orderId } });
+    if (!order) throw new NotFoundError('Order not found');
+    if (order.buyerId !== userId) throw new ValidationError('Only the buyer can dispute an order');
+
+    const hold = await this.findOpenHold(this.prisma, orderId);
+    if (hold.status === 'frozen') throw new ConflictError('Order is already under dispute');
+
+    const frozen = await this.claimHold(this.prisma, hold, { status: 'frozen', disputeReason: reason, disputedBy: userId, disputedAt: new Date() });
+
+    await this.notifyParties(orderId, 'Order Disputed', 'A dispute was raised on order {orderNumber}. Payment is on hold until it is resolved.');
+    logger.info(`Escrow frozen for disputed order ${orderId}`);
+    return frozen;
+  }
+
+  async resolveDispute(orderId: string, outcome: 'release' | 'refund', notes?: string): Promise<LockedAmount | null> {
+    const hold = await this.findOpenHold(this.prisma, orderId);
+    if (hold.status !== 'frozen') throw new ConflictError('Order is not under dispute');
+
+    if (outcome === 'release') return this.releaseForOrder(orderId, { resolveDispute: true });
+
+    const refunded = await this.refundForOrder(orderId, notes || 'Dispute resolved in favour of buyer');
+    await this.notifyParties(orderId, 'Dispute Resolved', 'The dispute on order {orderNumber} was resolved and the payment refunded to the buyer.');
+    return refunded;
+  }
+
+  /**
+   * Create the holds that failed when their order's payment was recorded. Orders that ever had a
+   * hold, including refunded ones, are skipped.
+   */
+  async holdPaidOrders(): Promise<number> {
+    const unheld = await this.prisma.order.findMany({
+      where: { escrowEnabled: true, paymentStatus: 'paid', status: { not: 'cancelled' }, escrowHolds: { none: {} } },
+      select: { id: true, status: true, actualDelivery: true },
+      take: 100,
+    });
+
+    let held = 0;
+    for (const { id, status, actualDelivery } of unheld) {
+      try {
+        if (!(await this.holdForOrder(id))) continue;
+        // Delivered before the hold existed, so its dispute window was never started
+        if (status === 'delivered') await this.startDisputeWindow(id, actualDelivery ?? undefined);
+        held++;
+      } catch (error) {
+        logger.error(`Failed to create escrow hold for order ${id}:`, error);
+      }
+    }
+    return held;
+  }
+
+  /**
+   * Release every hold whose dispute window has lapsed without a dispute.
+   */
+  async releaseDueHolds(): Promise<number> {
+    const due = await this.prisma.lockedAmount.findMany({
+      where: { orderId: { not: null }, status: 'active', lockedUntil: { lte: new Date() } },
+      select: { orderId: true },
+    });
+
+    let released = 0;
+    for (const { orderId } of due) {
+      try {
+        await this.releaseForOrder(orderId!);
+        released++;
+      } catch (error) {
+        logger.error(`Failed to release escrow for order ${orderId}:`, error);
+      }
+    }
+    return released;
+  }
+
+  async getForOrder(orderId: string) {
+    return this.prisma.lockedAmount.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async findOpenHold(db: Prisma.TransactionClient, orderId: string) {
+    const hold = await db.lockedAmount.findFirst({ where: { orderId, status: { in: ['active', 'frozen'] } } });
+    if (!hold) throw new NotFoundError('No active escrow hold for this order');
+    return hold;
+  }
+
+  // Move the hold on only if nobody else has since the caller read it, so it is paid out or refunded once
+  private async claimHold(db: Prisma.TransactionClient, hold: LockedAmount, data: Prisma.LockedAmountUpdateManyMutationInput) {
+    const claimed = await db.lockedAmount.updateMany({ where: { id: hold.id, status: hold.status }, data });
+    if (!claimed.count) throw new ConflictError('Escrow hold was changed by another request');
+    return db.lockedAmount.findUniqueOrThrow({ where: { id: hold.id } });
+  }
+
+  private async ensureWallet(tx: Prisma.TransactionClient, userId: string) {
+    return tx.wallet.upsert({
+      where: { userId },
+      update: {},
+      create: { userId, availableBalance: 0, lockedBalance: 0, negativeBalance: 0 },
+    });
+  }
+
+  private async record(
+    tx: Prisma.TransactionClient,
+    walletId: string,
+    transactionType: EscrowTransactionType,
+    amount: number,
+    balanceAfter: number,
+    orderId: string,
+    description: string
+  ) {
+    return tx.walletTransaction.create({
+      data: { walletId, transactionType, amount, balanceAfter, referenceType: 'order', referenceId: orderId, description },
+    });
+  }
+
+  private async journal(tx: Prisma.TransactionClient, entryType: string, orderId: string, description: string, debit: LedgerAccountRef, credit: LedgerAccountRef, amount: number) {
+    return ledgerService.post(tx, {
+      entryType,
+      referenceType: 'order',
+      referenceId: orderId,
+      description,
+      lines: [{ account: debit, debit: amount }, { account: credit, credit: amount }],
+    });
+  }
+
+  private async notifyParties(orderId: string, title: string, template: string) {
+    try {
+      const order = await this.prisma.order.findUnique({ where: { id: orderId }, select: { orderNumber: true, buyerId: true, sellerId: true } });
+      if (!order) return;
+      const message = template.replace('{orderNumber}', order.orderNumber);
+      await Promise.all([order.buyerId, order.sellerId].map(userId => notificationService.createNotification({
+        userId,
+        title,
+        message,
+        type: 'escrow',
+        channel: 'in_app',
+        data: { orderId },
+      })));
+    } catch (error) {
+      logger.warn('Failed to send escrow notification', error);
+    }
+  }
+}
+
+export const escrowService = new EscrowService();
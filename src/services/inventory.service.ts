@@ -1,8 +1,26 @@
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/config/database';
 import { inventoryMovementsCounter } from '@/observability/metrics';
+import { ConflictError } from '@/middleware/error-handler';
 import { trace } from '@opentelemetry/api';
 // logger intentionally unused in this service for now
 
+export interface ReservationItem {
+  orderItemId: string;
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface ReserveStockParams {
+  orderId: string;
+  sellerId: string;
+  items: ReservationItem[];
+  warehouseId?: string;
+  deliveryState?: string;
+  expiresAt?: Date | null;
+}
+
 export class InventoryService {
   async listInventory(sellerId: string, page: number, limit: number, warehouseId?: string, lowStock?: boolean) {
     const skip = (page - 1) * limit;
@@ -145,6 +163,7 @@ export class InventoryService {
         },
       });
 
+  await this.syncProductStock(tx, productId);
   inventoryMovementsCounter.inc({ type: movementType });
   return { inventory, movement };
     });
@@ -194,6 +213,165 @@ export class InventoryService {
       warehouseBreakdown: warehouseAnalytics,
     };
   }
+
+  /**
+   * Reserve stock for every line of an order inside the caller's transaction.
+   * Warehouse-tracked products move units from available to reserved in one warehouse;
+   * products without warehouse rows fall back to Product.stockQuantity.
+   */
+  async reserveForOrder(tx: Prisma.TransactionClient, params: ReserveStockParams) {
+    for (const item of params.items) {
+      if (item.variantId) {
+        const variant = await tx.productVariant.updateMany({
+          where: { id: item.variantId, stockQuantity: { gte: item.quantity } },
+          data: { stockQuantity: { decrement: item.quantity } },
+        });
+        if (!variant.count) await this.throwInsufficient(tx, item.productId);
+      }
+
+      let inventoryId: string | null = null;
+      const tracked = await tx.inventory.count({ where: { productId: item.productId } });
+      if (tracked) {
+        const inventory = await this.pickInventory(tx, item.productId, item.quantity, params.sellerId, params.warehouseId, params.deliveryState);
+        if (!inventory) await this.throwInsufficient(tx, item.productId);
+
+        // Conditional update guards against a concurrent reservation taking the same units
+        const reserved = await tx.inventory.updateMany({
+          where: { id: inventory!.id, available: { gte: item.quantity } },
+          data: {
+            available: { decrement: item.quantity },
+            reserved: { increment: item.quantity },
+            lastMovementType: 'reserve',
+            lastMovementQuantity: item.quantity,
+          },
+        });
+        if (!reserved.count) await this.throwInsufficient(tx, item.productId);
+
+        inventoryId = inventory!.id;
+        await tx.inventoryMovement.create({
+          data: { inventoryId, type: 'reserve', quantity: -item.quantity, reason: 'Reserved for order', reference: params.orderId, userId: params.sellerId },
+        });
+        await this.syncProductStock(tx, item.productId);
+      } else {
+        const product = await tx.product.updateMany({
+          where: { id: item.productId, stockQuantity: { gte: item.quantity } },
+          data: { stockQuantity: { decrement: item.quantity } },
+        });
+        if (!product.count) await this.throwInsufficient(tx, item.productId);
+      }
+
+      await tx.stockReservation.create({
+        data: {
+          orderId: params.orderId,
+          orderItemId: item.orderItemId,
+          productId: item.productId,
+          variantId: item.variantId || null,
+          inventoryId,
+          quantity: item.quantity,
+          status: 'active',
+          expiresAt: params.expiresAt ?? null,
+        },
+      });
+      inventoryMovementsCounter.inc({ type: 'reserve' });
+    }
+  }
+
+  /**
+   * Return reserved units to available stock (cancellation or payment timeout).
+   */
+  async releaseForOrder(tx: Prisma.TransactionClient, orderId: string, sellerId: string, reason: string) {
+    const reservations = await tx.stockReservation.findMany({ where: { orderId, status: 'active' } });
+    for (const reservation of reservations) {
+      if (reservation.inventoryId) {
+        await tx.inventory.update({
+          where: { id: reservation.inventoryId },
+          data: {
+            available: { increment: reservation.quantity },
+            reserved: { decrement: reservation.quantity },
+            lastMovementType: 'release',
+            lastMovementQuantity: reservation.quantity,
+          },
+        });
+        await tx.inventoryMovement.create({
+          data: { inventoryId: reservation.inventoryId, type: 'release', quantity: reservation.quantity, reason, reference: orderId, userId: sellerId },
+        });
+        await this.syncProductStock(tx, reservation.productId);
+      } else {
+        await tx.product.update({ where: { id: reservation.productId }, data: { stockQuantity: { increment: reservation.quantity } } });
+      }
+      if (reservation.variantId) {
+        await tx.productVariant.update({ where: { id: reservation.variantId }, data: { stockQuantity: { increment: reservation.quantity } } });
+      }
+      await tx.stockReservation.update({ where: { id: reservation.id }, data: { status: 'released', resolvedAt: new Date() } });
+      inventoryMovementsCounter.inc({ type: 'release' });
+    }
+    return reservations.length;
+  }
+
+  /**
+   * Convert reservations into outbound movements once the order ships. Idempotent.
+   */
+  async fulfilForOrder(tx: Prisma.TransactionClient, orderId: string, sellerId: string) {
+    const reservations = await tx.stockReservation.findMany({ where: { orderId, status: 'active' } });
+    for (const reservation of reservations) {
+      if (reservation.inventoryId) {
+        await tx.inventory.update({
+          where: { id: reservation.inventoryId },
+          data: {
+            reserved: { decrement: reservation.quantity },
+            lastMovementType: 'out',
+            lastMovementQuantity: reservation.quantity,
+          },
+        });
+        await tx.inventoryMovement.create({
+          data: { inventoryId: reservation.inventoryId, type: 'out', quantity: -reservation.quantity, reason: 'Order shipped', reference: orderId, userId: sellerId },
+        });
+      }
+      await tx.stockReservation.update({ where: { id: reservation.id }, data: { status: 'fulfilled', resolvedAt: new Date() } });
+      inventoryMovementsCounter.inc({ type: 'out' });
+    }
+    return reservations.length;
+  }
+
+  /**
+   * Paid orders keep their stock until shipment, so drop the payment deadline.
+   */
+  async confirmForOrder(orderId: string) {
+    return prisma.stockReservation.updateMany({ where: { orderId, status: 'active' }, data: { expiresAt: null } });
+  }
+
+  /**
+   * Product.stockQuantity mirrors the sellable units summed across warehouses.
+   */
+  async syncProductStock(tx: Prisma.TransactionClient, productId: string) {
+    const total = await tx.inventory.aggregate({ where: { productId }, _sum: { available: true }, _count: { id: true } });
+    if (!total._count.id) return;
+    await tx.product.update({ where: { id: productId }, data: { stockQuantity: total._sum.available || 0 } });
+  }
+
+  private async pickInventory(tx: Prisma.TransactionClient, productId: string, quantity: number, sellerId: string, warehouseId?: string, deliveryState?: string) {
+    const candidates = await tx.inventory.findMany({
+      where: {
+        productId,
+        available: { gte: quantity },
+        ...(warehouseId ? { warehouseId } : {}),
+        warehouse: { userId: sellerId, isActive: true },
+      },
+      include: { warehouse: true },
+    });
+    if (!candidates.length) return null;
+
+    // Prefer a warehouse in the delivery state, then the one with most stock on hand
+    const state = deliveryState?.trim().toLowerCase();
+    const inState = (c: typeof candidates[number]) => !!state && String((c.warehouse.address as any)?.state || '').trim().toLowerCase() === state;
+    candidates.sort((a, b) => Number(inState(b)) - Number(inState(a)) || b.available - a.available);
+    return candidates[0];
+  }
+
+  private async throwInsufficient(tx: Prisma.TransactionClient, productId: string): Promise<never> {
+    const product = await tx.product.findUnique({ where: { id: productId }, select: { title: true } });
+    throw new ConflictError(`Insufficient stock for ${product?.title || productId}`);
+  }
 }
 
 export const inventoryService = new InventoryService();
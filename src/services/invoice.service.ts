@@ -0,0 +1,495 @@
+import PDFDocument from 'pdfkit';
+import type { Invoice, Prisma } from '@prisma/client';
+import { BaseService } from './base.service';
+import { taxService } from './tax.service';
+import { minioService } from './minio.service';
+import { outboxService } from './outbox.service';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/error-handler';
+import { logger } from '../utils/logger';
+
+const INVOICE_FOLDER = 'invoices';
+
+export type InvoiceDocumentType = 'invoice' | 'credit_note';
+
+export interface InvoiceLine {
+  orderItemId: string;
+  description: string;
+  hsnCode: string | null;
+  quantity: number;
+  unitPrice: number;
+  // Share of the order discount; taxableValue is the line price after it
+  discount: number;
+  taxableValue: number;
+  taxRate: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  cessAmount: number;
+  total: number;
+}
+
+export interface CreditNoteData {
+  reason: 'cancellation' | 'return';
+  // Omit to credit everything not yet credited (full cancellation)
+  items?: { orderItemId: string; quantity: number }[];
+}
+
+interface PartyDetails {
+  name: string;
+  gstin: string | null;
+  address: string;
+  state: string | null;
+}
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten', 'Eleven', 'Twelve',
+  'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowThousand = (n: number): string => {
+  const parts: string[] = [];
+  if (n >= 100) {
+    parts.push(`${ONES[Math.floor(n / 100)]} Hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    parts.push(TENS[Math.floor(n / 10)] + (n % 10 ? ` ${ONES[n % 10]}` : ''));
+  } else if (n > 0) {
+    parts.push(ONES[n]);
+  }
+  return parts.join(' ');
+};
+
+/**
+ * Amount in words using the Indian numbering system (crore, lakh, thousand).
+ */
+export const amountInWords = (amount: number): string => {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+
+  const words = (n: number): string => {
+    if (n === 0) return 'Zero';
+    const parts: string[] = [];
+    const crore = Math.floor(n / 10000000);
+    if (crore) parts.push(`${words(crore)} Crore`);
+    n %= 10000000;
+    const lakh = Math.floor(n / 100000);
+    if (lakh) parts.push(`${belowThousand(lakh)} Lakh`);
+    n %= 100000;
+    const thousand = Math.floor(n / 1000);
+    if (thousand) parts.push(`${belowThousand(thousand)} Thousand`);
+    n %= 1000;
+    if (n) parts.push(belowThousand(n));
+    return parts.join(' ');
+  };
+
+  return `Rupees ${words(rupees)}${paise ? ` and ${belowThousand(paise)} Paise` : ''} Only`;
+};
+
+export class InvoiceService extends BaseService {
+  /**
+   * Indian financial year (April to March) label for a date, e.g. "2025-26".
+   */
+  financialYearFor(date: Date = new Date()): string {
+    const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * Issue the tax invoice for an order. Idempotent: returns the existing invoice if one was issued.
+   */
+  async generateInvoice(orderId: string): Promise<Invoice> {
+    try {
+      const existing = await this.prisma.invoice.findFirst({ where: { orderId, documentType: 'invoice', status: 'issued' } });
+      if (existing) return existing;
+
+      const order = await this.loadOrder(orderId);
+      if (order.status === 'cancelled') throw new ValidationError('Cannot invoice a cancelled order');
+
+      // Order lines carry their discount in the taxable value. Orders placed before that kept the
+      // full price there, so their discount is spread over the lines pro rata here.
+      const taxable = order.items.map(item => Number(item.taxableValue) || Number(item.totalPrice));
+      const grossTotal = taxable.reduce((sum, value) => sum + value, 0);
+      const unallocated = round2(Number(order.discountAmount) - order.items.reduce((sum, item, i) => sum + Number(item.totalPrice) - taxable[i], 0));
+      if (unallocated > 0 && grossTotal > 0) {
+        let allocated = 0;
+        taxable.forEach((value, i) => {
+          const share = i === taxable.length - 1 ? round2(unallocated - allocated) : round2((unallocated * value) / grossTotal);
+          allocated += share;
+          taxable[i] = round2(value - share);
+        });
+      }
+
+      const lines: InvoiceLine[] = order.items.map((item, i) => ({
+        orderItemId: item.id,
+        description: item.product?.title || item.service?.title || 'Item',
+        hsnCode: item.hsnCode,
+        quantity: item.quantity,
+        unitPrice: Number(item.unitPrice),
+        discount: round2(Number(item.totalPrice) - taxable[i]),
+        taxableValue: taxable[i],
+        taxRate: Number(item.taxRate),
+        cgstAmount: Number(item.cgstAmount),
+        sgstAmount: Number(item.sgstAmount),
+        igstAmount: Number(item.igstAmount),
+        cessAmount: Number(item.cessAmount),
+        total: round2(taxable[i] + Number(item.taxAmount)),
+      }));
+
+      const invoice = await this.createDocument(order, 'invoice', lines, Number(order.shippingAmount));
+      return await this.finalizeDocument(invoice.id);
+    } catch (error) {
+      // A concurrent request issued it first
+      if (error instanceof ConflictError && error.details?.invoiceId) return this.getById(error.details.invoiceId);
+      logger.error('Error generating invoice:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a credit note against the order's invoice for a cancellation or return.
+   */
+  async issueCreditNote(orderId: string, data: CreditNoteData): Promise<Invoice> {
+    try {
+      const invoice = await this.prisma.invoice.findFirst({ where: { orderId, documentType: 'invoice', status: 'issued' } });
+      if (!invoice) throw new NotFoundError('No invoice issued for this order');
+
+      const invoiceLines = invoice.lineItems as unknown as InvoiceLine[];
+      const { credited, shippingCredited } = await this.creditedSoFar(this.prisma, invoice.id);
+
+      const requested = data.items
+        ? data.items
+        : invoiceLines.map(line => ({ orderItemId: line.orderItemId, quantity: line.quantity - (credited.get(line.orderItemId) || 0) }));
+
+      const lines: InvoiceLine[] = [];
+      for (const req of requested) {
+        if (req.quantity <= 0) continue;
+        const source = invoiceLines.find(line => line.orderItemId === req.orderItemId);
+        if (!source) throw new ValidationError(`Order item ${req.orderItemId} is not on the invoice`);
+        const remaining = source.quantity - (credited.get(source.orderItemId) || 0);
+        if (req.quantity > remaining) throw new ValidationError(`Only ${remaining} unit(s) of ${source.description} can be credited`);
+
+        const ratio = req.quantity / source.quantity;
+        const scaled = (value: number) => round2(value * ratio);
+        const line: InvoiceLine = {
+          ...source,
+          quantity: req.quantity,
+          discount: scaled(source.discount ?? 0),
+          taxableValue: scaled(source.taxableValue),
+          cgstAmount: scaled(source.cgstAmount),
+          sgstAmount: scaled(source.sgstAmount),
+          igstAmount: scaled(source.igstAmount),
+          cessAmount: scaled(source.cessAmount),
+          total: 0,
+        };
+        line.total = round2(line.taxableValue + line.cgstAmount + line.sgstAmount + line.igstAmount + line.cessAmount);
+        lines.push(line);
+      }
+      if (!lines.length) throw new ValidationError('Nothing left to credit on this invoice');
+
+      // Shipping is only refunded on a full cancellation
+      const shipping = data.reason === 'cancellation' && !data.items
+        ? round2(Number(invoice.shippingAmount) - shippingCredited)
+        : 0;
+
+      const order = await this.loadOrder(orderId);
+      const creditNote = await this.createDocument(order, 'credit_note', lines, shipping, {
+        originalInvoiceId: invoice.id,
+        reason: data.reason,
+      });
+      return await this.finalizeDocument(creditNote.id);
+    } catch (error) {
+      logger.error('Error issuing credit note:', error);
+      throw error;
+    }
+  }
+
+  async listForOrder(orderId: string): Promise<Invoice[]> {
+    return this.prisma.invoice.findMany({
+      where: { orderId },
+      orderBy: { issuedAt: 'asc' },
+    });
+  }
+
+  async getById(id: string) {
+    const invoice = await this.prisma.invoice.findUnique({ where: { id } });
+    if (!invoice) throw new NotFoundError('Invoice not found');
+    return invoice;
+  }
+
+  /**
+   * Stream the stored PDF, rendering and uploading it first if an earlier upload failed.
+   */
+  async getDocumentStream(id: string): Promise<{ invoice: Invoice; stream: NodeJS.ReadableStream }> {
+    let invoice = await this.getById(id);
+    if (!invoice.fileName) {
+      invoice = await this.finalizeDocument(invoice.id);
+      if (!invoice.fileName) throw new Error('Invoice document is not available yet');
+    }
+    const stream = await minioService.getFileStream(invoice.fileName, INVOICE_FOLDER);
+    return { invoice, stream };
+  }
+
+  private async loadOrder(orderId: string) {
+    const order = await this.prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: { include: { product: { select: { title: true } }, service: { select: { title: true } } } },
+      },
+    });
+    if (!order) throw new NotFoundError('Order not found');
+    return order;
+  }
+
+  private async createDocument(
+    order: Awaited<ReturnType<InvoiceService['loadOrder']>>,
+    documentType: InvoiceDocumentType,
+    lines: InvoiceLine[],
+    shippingAmount: number,
+    extra: { originalInvoiceId?: string; reason?: string } = {}
+  ): Promise<Invoice> {
+    const [seller, buyer] = await Promise.all([
+      taxService.resolveParty(order.sellerId),
+      taxService.resolveParty(order.buyerId),
+    ]);
+    const sum = (key: keyof InvoiceLine) => round2(lines.reduce((acc, line) => acc + (line[key] as number), 0));
+    const financialYear = this.financialYearFor();
+
+    return this.prisma.$transaction(async (tx) => {
+      // Documents for one order queue on its row: it gets one issued invoice, and credit notes are
+      // checked against the ones committed before them
+      await tx.$queryRaw`SELECT id FROM orders WHERE id = ${order.id}::uuid FOR UPDATE`;
+      if (documentType === 'credit_note' && extra.originalInvoiceId) {
+        await this.assertCreditable(tx, extra.originalInvoiceId, lines, shippingAmount);
+      }
+      if (documentType === 'invoice') {
+        const issued = await tx.invoice.findFirst({ where: { orderId: order.id, documentType: 'invoice', status: 'issued' }, select: { id: true } });
+        if (issued) throw new ConflictError('Order has already been invoiced', { invoiceId: issued.id });
+      }
+      const sequence = await this.nextSequence(tx, order.sellerId, documentType, financialYear);
+      const prefix = documentType === 'invoice' ? 'INV' : 'CN';
+
+      const invoice = await tx.invoice.create({
+        data: {
+          orderId: order.id,
+          sellerId: order.sellerId,
+          buyerId: order.buyerId,
+          documentType,
+          // GST caps document numbers at 16 characters, e.g. INV/25-26/000042
+          invoiceNumber: `${prefix}/${financialYear.slice(2)}/${String(sequence).padStart(6, '0')}`,
+          financialYear,
+          sequence,
+          originalInvoiceId: extra.originalInvoiceId,
+          reason: extra.reason,
+          supplyType: order.supplyType || (sum('igstAmount') > 0 ? 'inter_state' : 'intra_state'),
+          placeOfSupply: order.placeOfSupply || buyer.state,
+          sellerGstin: seller.gstin,
+          buyerGstin: buyer.gstin,
+          taxableValue: sum('taxableValue'),
+          cgstAmount: sum('cgstAmount'),
+          sgstAmount: sum('sgstAmount'),
+          igstAmount: sum('igstAmount'),
+          cessAmount: sum('cessAmount'),
+          shippingAmount,
+          totalAmount: round2(sum('total') + shippingAmount),
+          lineItems: lines as unknown as Prisma.InputJsonValue,
+          status: 'issued',
+        },
+      });
+      await outboxService.record(tx, {
+        type: 'invoice.generated',
+        aggregateId: invoice.id,
+        recipients: [invoice.sellerId, invoice.buyerId],
+        data: {
+          invoiceId: invoice.id,
+          orderId: invoice.orderId,
+          documentType: invoice.documentType,
+          invoiceNumber: invoice.invoiceNumber,
+          totalAmount: Number(invoice.totalAmount),
+          issuedAt: invoice.issuedAt.toISOString(),
+        },
+      });
+      return invoice;
+    });
+  }
+
+  private async nextSequence(tx: Prisma.TransactionClient, sellerId: string, documentType: string, financialYear: string): Promise<number> {
+    // The upsert takes a row lock, so concurrent issues for the same seller serialize here
+    const row = await tx.invoiceSequence.upsert({
+      where: { sellerId_documentType_financialYear: { sellerId, documentType, financialYear } },
+      update: { lastNumber: { increment: 1 } },
+      create: { sellerId, documentType, financialYear, lastNumber: 1 },
+    });
+    return row.lastNumber;
+  }
+
+  /**
+   * Render and upload the PDF. Upload failures leave the record without a file
+   * so the download endpoint can retry.
+   */
+  // Units per order item and shipping already credited against an invoice by issued credit notes
+  private async creditedSoFar(db: Prisma.TransactionClient, invoiceId: string) {
+    const notes = await db.invoice.findMany({
+      where: { originalInvoiceId: invoiceId, documentType: 'credit_note', status: 'issued' },
+      select: { shippingAmount: true, lineItems: true },
+    });
+    const credited = new Map<string, number>();
+    let shippingCredited = 0;
+    for (const note of notes) {
+      shippingCredited += Number(note.shippingAmount);
+      for (const line of note.lineItems as unknown as InvoiceLine[]) {
+        credited.set(line.orderItemId, (credited.get(line.orderItemId) || 0) + line.quantity);
+      }
+    }
+    return { credited, shippingCredited };
+  }
+
+  private async assertCreditable(tx: Prisma.TransactionClient, invoiceId: string, lines: InvoiceLine[], shippingAmount: number) {
+    const invoice = await tx.invoice.findUniqueOrThrow({ where: { id: invoiceId } });
+    const invoiceLines = invoice.lineItems as unknown as InvoiceLine[];
+    const { credited, shippingCredited } = await this.creditedSoFar(tx, invoiceId);
+    for (const line of lines) {
+      const source = invoiceLines.find(l => l.orderItemId === line.orderItemId);
+      const remaining = (source?.quantity || 0) - (credited.get(line.orderItemId) || 0);
+      if (line.quantity > remaining) throw new ConflictError(`Only ${remaining} unit(s) of ${line.description} can still be credited`);
+    }
+    if (round2(shippingCredited + shippingAmount) > Number(invoice.shippingAmount)) {
+      throw new ConflictError('Shipping has already been credited');
+    }
+  }
+
+  private async finalizeDocument(invoiceId: string): Promise<Invoice> {
+    let invoice = await this.getById(invoiceId);
+    try {
+      const pdf = await this.renderPdf(invoice);
+      const upload = await minioService.uploadFile(pdf, `${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`, INVOICE_FOLDER, {
+        'Content-Type': 'application/pdf',
+      });
+      invoice = await this.prisma.invoice.update({ where: { id: invoice.id }, data: { fileName: upload.fileName } });
+    } catch (error) {
+      logger.error(`Failed to store PDF for ${invoice.invoiceNumber}:`, error);
+    }
+
+    logger.info(`${invoice.documentType} issued: ${invoice.invoiceNumber} for order ${invoice.orderId}`);
+    return invoice;
+  }
+
+  private async partyDetails(userId: string): Promise<PartyDetails> {
+    const [user, party] = await Promise.all([
+      this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { firstName: true, lastName: true, businessName: true, address: true, city: true, state: true, postalCode: true, businessProfile: { select: { companyName: true, address: true } } },
+      }),
+      taxService.resolveParty(userId),
+    ]);
+    const profileAddress = (user?.businessProfile?.address || {}) as any;
+    const address = profileAddress.street
+      ? [profileAddress.street, profileAddress.city, profileAddress.state, profileAddress.postalCode]
+      : [user?.address, user?.city, user?.state, user?.postalCode];
+
+    return {
+      name: user?.businessProfile?.companyName || user?.businessName || [user?.firstName, user?.lastName].filter(Boolean).join(' ') || 'N/A',
+      gstin: party.gstin,
+      address: address.filter(Boolean).join(', '),
+      state: party.state,
+    };
+  }
+
+  private async renderPdf(invoice: Invoice): Promise<Buffer> {
+    const [seller, buyer, order, original] = await Promise.all([
+      this.partyDetails(invoice.sellerId),
+      this.partyDetails(invoice.buyerId),
+      this.prisma.order.findUnique({ where: { id: invoice.orderId }, select: { orderNumber: true } }),
+      invoice.originalInvoiceId ? this.prisma.invoice.findUnique({ where: { id: invoice.originalInvoiceId } }) : null,
+    ]);
+    const lines = invoice.lineItems as unknown as InvoiceLine[];
+    const isIntraState = invoice.supplyType === 'intra_state';
+    const money = (value: number | Prisma.Decimal) => Number(value).toFixed(2);
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 36 });
+      const chunks: Buffer[] = [];
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.fontSize(16).font('Helvetica-Bold')
+        .text(invoice.documentType === 'invoice' ? 'TAX INVOICE' : 'CREDIT NOTE', { align: 'center' });
+      doc.moveDown(0.5).fontSize(9).font('Helvetica');
+      doc.text(`${invoice.documentType === 'invoice' ? 'Invoice' : 'Credit Note'} No: ${invoice.invoiceNumber}`);
+      doc.text(`Date: ${invoice.issuedAt.toISOString().slice(0, 10)}`);
+      doc.text(`Order No: ${order?.orderNumber || invoice.orderId}`);
+      if (original) doc.text(`Against Invoice: ${original.invoiceNumber} dated ${original.issuedAt.toISOString().slice(0, 10)}`);
+      if (invoice.reason) doc.text(`Reason: ${invoice.reason}`);
+      doc.text(`Place of Supply: ${invoice.placeOfSupply || 'N/A'} (${isIntraState ? 'Intra-state' : 'Inter-state'})`);
+      doc.moveDown();
+
+      const partyTop = doc.y;
+      const writeParty = (label: string, party: PartyDetails, x: number) => {
+        doc.font('Helvetica-Bold').text(label, x, partyTop, { width: 250 });
+        doc.font('Helvetica').text(party.name, { width: 250 });
+        if (party.address) doc.text(party.address, { width: 250 });
+        doc.text(`State: ${party.state || 'N/A'}`, { width: 250 });
+        doc.text(`GSTIN: ${party.gstin || 'Unregistered'}`, { width: 250 });
+      };
+      writeParty('Seller', seller, 36);
+      const sellerBottom = doc.y;
+      writeParty('Buyer', buyer, 306);
+      doc.x = 36;
+      doc.y = Math.max(sellerBottom, doc.y) + 12;
+
+      const columns = isIntraState
+        ? ['#', 'Description', 'HSN/SAC', 'Qty', 'Rate', 'Taxable', 'GST %', 'CGST', 'SGST', 'Cess', 'Total']
+        : ['#', 'Description', 'HSN/SAC', 'Qty', 'Rate', 'Taxable', 'GST %', 'IGST', 'Cess', 'Total'];
+      const widths = isIntraState
+        ? [18, 120, 48, 30, 48, 52, 32, 44, 44, 36, 51]
+        : [18, 144, 50, 30, 50, 56, 34, 54, 38, 49];
+      const writeRow = (cells: string[], bold = false) => {
+        const top = doc.y;
+        let x = 36;
+        let bottom = top;
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+        cells.forEach((cell, i) => {
+          doc.text(cell, x, top, { width: widths[i] - 4, align: i > 2 ? 'right' : 'left' });
+          bottom = Math.max(bottom, doc.y);
+          x += widths[i];
+        });
+        doc.x = 36;
+        doc.y = bottom + 4;
+      };
+
+      writeRow(columns, true);
+      lines.forEach((line, index) => {
+        const taxCells = isIntraState
+          ? [money(line.cgstAmount), money(line.sgstAmount)]
+          : [money(line.igstAmount)];
+        writeRow([
+          String(index + 1), line.description, line.hsnCode || '-', String(line.quantity), money(line.unitPrice),
+          money(line.taxableValue), String(line.taxRate), ...taxCells, money(line.cessAmount), money(line.total),
+        ]);
+      });
+
+      doc.moveDown().fontSize(9).font('Helvetica');
+      const discount = round2(lines.reduce((sum, line) => sum + (line.discount ?? 0), 0));
+      const summary: [string, string][] = [];
+      if (discount > 0) summary.push(['Discount', money(discount)]);
+      summary.push(['Taxable Value', money(invoice.taxableValue)]);
+      if (isIntraState) {
+        summary.push(['CGST', money(invoice.cgstAmount)], ['SGST', money(invoice.sgstAmount)]);
+      } else {
+        summary.push(['IGST', money(invoice.igstAmount)]);
+      }
+      if (Number(invoice.cessAmount) > 0) summary.push(['Cess', money(invoice.cessAmount)]);
+      if (Number(invoice.shippingAmount) > 0) summary.push(['Shipping', money(invoice.shippingAmount)]);
+      summary.forEach(([label, value]) => doc.text(`${label}: INR ${value}`, { align: 'right' }));
+      doc.font('Helvetica-Bold').text(`Total: INR ${money(invoice.totalAmount)}`, { align: 'right' });
+      doc.font('Helvetica').moveDown(0.5).text(`Amount in words: ${amountInWords(Number(invoice.totalAmount))}`);
+
+      doc.moveDown(2).fontSize(8).text('This is a computer generated document and does not require a signature.', { align: 'center' });
+      doc.end();
+    });
+  }
+}
+
+export const invoiceService = new InvoiceService();
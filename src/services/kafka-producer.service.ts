@@ -19,6 +19,8 @@ class KafkaProducerService {
         this.ready = true;
       } catch (err) {
         logger.error('Kafka producer init error', err);
+        // Let the next caller try to connect again
+        this.connecting = null;
       }
     })();
     return this.connecting;
@@ -35,6 +37,18 @@ class KafkaProducerService {
     }
   }
 
+  /**
+   * Keyed send that throws on failure, for callers that must not lose the message (the outbox relay).
+   * Returns false when Kafka is not configured.
+   */
+  async publish(topic: string, key: string, payload: Record<string, any>): Promise<boolean> {
+    if (!kafka) return false;
+    await this.init();
+    if (!this.ready) throw new Error('Kafka producer is not connected');
+    await this.producer.send({ topic, messages: [{ key, value: JSON.stringify(payload) }] });
+    return true;
+  }
+
   adImpression(data: { adId: string; campaignId?: string }) { return this.emit(kafkaTopics.AD_IMPRESSION, data); }
   adClick(data: { adId: string; campaignId?: string }) { return this.emit(kafkaTopics.AD_CLICK, data); }
   securityEvent(data: { userId: string; type: string; ip?: string; userAgent?: string }) {
@@ -0,0 +1,213 @@
+import type { Prisma } from '@prisma/client';
+import { BaseService } from './base.service';
+import { logger } from '../utils/logger';
+
+export interface LedgerAccountRef {
+  code: string;
+  name: string;
+  accountType: 'wallet' | 'escrow' | 'commission' | 'subscription' | 'gateway_clearing' | 'equity';
+  normalSide: 'debit' | 'credit';
+  ownerId?: string;
+}
+
+export interface JournalLineInput {
+  account: LedgerAccountRef;
+  debit?: number;
+  credit?: number;
+}
+
+export interface PostJournalData {
+  entryType: string;
+  referenceType?: string;
+  referenceId?: string;
+  description?: string;
+  lines: JournalLineInput[];
+}
+
+export interface ReconciliationResult {
+  walletsChecked: number;
+  walletsOpened: number;
+  drifts: Array<{ walletId: string; userId: string; balanceType: 'available' | 'locked'; walletBalance: number; ledgerBalance: number; difference: number }>;
+  trialBalance: { debits: number; credits: number; balanced: boolean };
+}
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+export const ledgerAccounts = {
+  wallet: (userId: string): LedgerAccountRef => ({ code: `wallet:${userId}`, name: 'User wallet', accountType: 'wallet', normalSide: 'credit', ownerId: userId }),
+  escrow: (userId: string): LedgerAccountRef => ({ code: `escrow:${userId}`, name: 'Escrow (locked wallet funds)', accountType: 'escrow', normalSide: 'credit', ownerId: userId }),
+  commission: (): LedgerAccountRef => ({ code: 'platform:commission', name: 'Platform commission', accountType: 'commission', normalSide: 'credit' }),
+  subscriptionRevenue: (): LedgerAccountRef => ({ code: 'platform:subscriptions', name: 'Subscription revenue', accountType: 'subscription', normalSide: 'credit' }),
+  gatewayClearing: (): LedgerAccountRef => ({ code: 'gateway:clearing', name: 'Payment gateway clearing', accountType: 'gateway_clearing', normalSide: 'debit' }),
+  openingBalance: (): LedgerAccountRef => ({ code: 'equity:opening_balance', name: 'Opening balances', accountType: 'equity', normalSide: 'credit' }),
+};
+
+/**
+ * Double-entry journal. Every wallet balance change posts an entry whose debits equal its credits,
+ * so wallet balances can be rebuilt (and checked) from the journal alone.
+ */
+export class LedgerService extends BaseService {
+  async post(tx: Prisma.TransactionClient, data: PostJournalData) {
+    const debits = data.lines.reduce((sum, l) => sum + toPaise(l.debit || 0), 0);
+    const credits = data.lines.reduce((sum, l) => sum + toPaise(l.credit || 0), 0);
+    if (debits !== credits || debits === 0) {
+      throw new Error(`Unbalanced journal entry (${data.entryType}): debits ${debits / 100} != credits ${credits / 100}`);
+    }
+
+    const lines = [];
+    for (const line of data.lines) {
+      const account = await this.resolveAccount(tx, line.account);
+      lines.push({ accountId: account.id, debit: line.debit || 0, credit: line.credit || 0 });
+    }
+
+    return tx.journalEntry.create({
+      data: {
+        entryType: data.entryType,
+        referenceType: data.referenceType,
+        referenceId: data.referenceId,
+        description: data.description,
+        lines: { create: lines },
+      },
+      include: { lines: true },
+    });
+  }
+
+  /**
+   * Wallets that predate the journal get their current balances booked against opening equity
+   * before their first journalled change. Must run before the wallet row is mutated.
+   */
+  async ensureOpened(tx: Prisma.TransactionClient, userId: string) {
+    const code = ledgerAccounts.wallet(userId).code;
+    if (await tx.ledgerAccount.findUnique({ where: { code } })) return false;
+
+    // Lock the wallet and look again, so two first-time postings cannot both open it
+    await tx.$queryRaw`SELECT id FROM wallets WHERE user_id = ${userId}::uuid FOR UPDATE`;
+    if (await tx.ledgerAccount.findUnique({ where: { code } })) return false;
+
+    const wallet = await tx.wallet.findUnique({ where: { userId } });
+    const available = wallet?.availableBalance.toNumber() || 0;
+    const locked = wallet?.lockedBalance.toNumber() || 0;
+
+    await this.resolveAccount(tx, ledgerAccounts.wallet(userId));
+    await this.resolveAccount(tx, ledgerAccounts.escrow(userId));
+    if (available === 0 && locked === 0) return true;
+
+    const lines: JournalLineInput[] = [{ account: ledgerAccounts.openingBalance(), debit: available + locked }];
+    if (available) lines.push({ account: ledgerAccounts.wallet(userId), credit: available });
+    if (locked) lines.push({ account: ledgerAccounts.escrow(userId), credit: locked });
+    await this.post(tx, { entryType: 'opening_balance', referenceType: 'wallet', referenceId: wallet!.id, description: 'Opening balance', lines });
+    return true;
+  }
+
+  async getAccountBalance(code: string, db: Prisma.TransactionClient = this.prisma): Promise<number> {
+    const account = await db.ledgerAccount.findUnique({ where: { code } });
+    if (!account) return 0;
+    const totals = await db.journalLine.aggregate({ where: { accountId: account.id }, _sum: { debit: true, credit: true } });
+    const debit = totals._sum.debit?.toNumber() || 0;
+    const credit = totals._sum.credit?.toNumber() || 0;
+    return account.normalSide === 'credit' ? credit - debit : debit - credit;
+  }
+
+  async getEntries(filters: { accountCode?: string; referenceType?: string; referenceId?: string }, page = 1, limit = 20) {
+    const where: Prisma.JournalEntryWhereInput = {};
+    if (filters.referenceType) where.referenceType = filters.referenceType;
+    if (filters.referenceId) where.referenceId = filters.referenceId;
+    if (filters.accountCode) where.lines = { some: { account: { code: filters.accountCode } } };
+
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.journalEntry.findMany({
+        where,
+        include: { lines: { include: { account: { select: { code: true, name: true } } } } },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.journalEntry.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
+  }
+
+  /**
+   * Rebuild every wallet's available and locked balance from the journal and record any drift.
+   * Drift rows stay open until the balances agree again on a later run.
+   */
+  async reconcileWallets(): Promise<ReconciliationResult> {
+    const [wallets, accounts, sums] = await Promise.all([
+      this.prisma.wallet.findMany({ select: { id: true, userId: true, availableBalance: true, lockedBalance: true } }),
+      this.prisma.ledgerAccount.findMany({ where: { accountType: { in: ['wallet', 'escrow'] } }, select: { id: true, code: true } }),
+      this.prisma.journalLine.groupBy({ by: ['accountId'], _sum: { debit: true, credit: true } }),
+    ]);
+
+    const byAccount = new Map(sums.map(s => [s.accountId, (s._sum.credit?.toNumber() || 0) - (s._sum.debit?.toNumber() || 0)]));
+    const balances = new Map(accounts.map(a => [a.code, byAccount.get(a.id) || 0]));
+
+    const result: ReconciliationResult = { walletsChecked: 0, walletsOpened: 0, drifts: [], trialBalance: await this.getTrialBalance() };
+    for (const wallet of wallets) {
+      result.walletsChecked++;
+      if (!balances.has(ledgerAccounts.wallet(wallet.userId).code)) {
+        // Never journalled: book its balance as opening equity instead of flagging it
+        await this.prisma.$transaction(tx => this.ensureOpened(tx, wallet.userId));
+        result.walletsOpened++;
+        continue;
+      }
+
+      const checks = [
+        { balanceType: 'available' as const, walletBalance: wallet.availableBalance.toNumber(), ledgerBalance: balances.get(ledgerAccounts.wallet(wallet.userId).code) || 0 },
+        { balanceType: 'locked' as const, walletBalance: wallet.lockedBalance.toNumber(), ledgerBalance: balances.get(ledgerAccounts.escrow(wallet.userId).code) || 0 },
+      ];
+      for (const check of checks) {
+        const difference = (toPaise(check.walletBalance) - toPaise(check.ledgerBalance)) / 100;
+        if (difference === 0) {
+          await this.prisma.ledgerDrift.updateMany({
+            where: { walletId: wallet.id, balanceType: check.balanceType, status: 'open' },
+            data: { status: 'resolved', resolvedAt: new Date() },
+          });
+          continue;
+        }
+        await this.prisma.ledgerDrift.create({
+          data: { walletId: wallet.id, balanceType: check.balanceType, walletBalance: check.walletBalance, ledgerBalance: check.ledgerBalance, difference },
+        });
+        result.drifts.push({ walletId: wallet.id, userId: wallet.userId, ...check, difference });
+      }
+    }
+
+    if (result.drifts.length || !result.trialBalance.balanced) {
+      logger.warn(`Ledger reconciliation found ${result.drifts.length} drifting balances (trial balance ${result.trialBalance.balanced ? 'ok' : 'UNBALANCED'})`);
+    }
+    return result;
+  }
+
+  async getTrialBalance() {
+    const totals = await this.prisma.journalLine.aggregate({ _sum: { debit: true, credit: true } });
+    const debits = totals._sum.debit?.toNumber() || 0;
+    const credits = totals._sum.credit?.toNumber() || 0;
+    return { debits, credits, balanced: toPaise(debits) === toPaise(credits) };
+  }
+
+  async listDrifts(status = 'open', page = 1, limit = 20) {
+    const skip = (page - 1) * limit;
+    const where = status === 'all' ? {} : { status };
+    const [items, total] = await Promise.all([
+      this.prisma.ledgerDrift.findMany({
+        where,
+        include: { wallet: { select: { userId: true } } },
+        orderBy: { detectedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.ledgerDrift.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
+  }
+
+  private async resolveAccount(tx: Prisma.TransactionClient, ref: LedgerAccountRef) {
+    return tx.ledgerAccount.upsert({
+      where: { code: ref.code },
+      update: {},
+      create: { code: ref.code, name: ref.name, accountType: ref.accountType, normalSide: ref.normalSide, ownerId: ref.ownerId },
+    });
+  }
+}
+
+export const ledgerService = new LedgerService();
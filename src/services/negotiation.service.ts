@@ -1,92 +1,371 @@
 import { prisma } from '@/config/database';
 import { Prisma } from '@prisma/client';
+import type { NegotiationHistory, NegotiationLine, Quote, QuoteItem, Rfq } from '@prisma/client';
 import { logger } from '@/utils/logger';
+import { config } from '@/config/environment';
+import { WebSocketService } from '@/websocket';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '@/middleware/error-handler';
 
-export interface CreateNegotiationInput {
-  quoteId: string;
-  buyerId: string;
-  sellerId: string;
-  fromUserId: string;
-  toUserId: string;
-  offerPrice: string | number; // decimal
-  price: string | number;      // current price
-  offerType?: string;          // initial | counter | final
+export interface OfferLineInput {
+  quoteItemId: string;
+  unitPrice: number;
+}
+
+export interface OfferInput {
+  price?: number;            // total, tax inclusive; derived from the lines when items are given
+  items?: OfferLineInput[];  // per-line counters against the quote's items
   message?: string;
   terms?: string;
   validUntil?: Date | string;
+  final?: boolean;           // a final offer can only be accepted or rejected
+}
+
+export interface CreateNegotiationInput extends OfferInput {
+  quoteId: string;
+  userId: string;
 }
 
+export interface NegotiationThread {
+  quoteId: string;
+  offers: (NegotiationHistory & { lines: NegotiationLine[] })[];
+  activeOffer: (NegotiationHistory & { lines: NegotiationLine[] }) | null;
+  // Who may make the next offer; null when either party may
+  turnUserId: string | null;
+  settled: boolean;
+}
+
+type QuoteWithItems = Quote & { rfq: Rfq; items: QuoteItem[] };
+type Tx = Prisma.TransactionClient;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * One negotiation thread per quote between its buyer and seller. Parties take turns, only one
+ * offer is open at a time, offers expire, and accepting an offer reprices the quote.
+ */
 export class NegotiationService {
-  async listForQuote(quoteId: string) {
-    return prisma.negotiationHistory.findMany({
+  async listForQuote(quoteId: string, userId: string): Promise<NegotiationThread> {
+    const quote = await this.loadQuote(prisma, quoteId);
+    this.assertParticipant(quote, userId);
+
+    const offers = await prisma.negotiationHistory.findMany({
       where: { quoteId },
+      include: { lines: true },
       orderBy: { createdAt: 'asc' },
     });
+    const latest = offers[offers.length - 1] || null;
+    const active = latest && latest.status === 'pending' && !this.isExpired(latest) ? latest : null;
+
+    return {
+      quoteId,
+      offers,
+      activeOffer: active,
+      turnUserId: active ? active.toUserId : this.nextTurn(latest),
+      settled: latest?.status === 'accepted' || quote.status !== 'pending',
+    };
   }
 
+  /**
+   * Open a new offer on a quote. Allowed only when no offer is open and it is the caller's turn.
+   */
   async create(data: CreateNegotiationInput) {
     try {
-      return await prisma.negotiationHistory.create({
-        data: {
-          quoteId: data.quoteId,
-          buyerId: data.buyerId,
-          sellerId: data.sellerId,
-          fromUserId: data.fromUserId,
-          toUserId: data.toUserId,
-          offerPrice: new Prisma.Decimal(data.offerPrice),
-          price: new Prisma.Decimal(data.price),
-          offerType: data.offerType || 'initial',
-          message: data.message || null,
-          terms: data.terms || null,
-          validUntil: data.validUntil ? new Date(data.validUntil) : null,
-          expiresAt: data.validUntil ? new Date(data.validUntil) : null,
-          status: 'pending',
-        },
+      const offer = await prisma.$transaction(async (tx) => {
+        // Lock the quote so two opening offers cannot both find no offer open
+        await tx.$queryRaw`SELECT id FROM quotes WHERE id = ${data.quoteId}::uuid FOR UPDATE`;
+        const quote = await this.loadQuote(tx, data.quoteId);
+        this.assertNegotiable(quote);
+        this.assertParticipant(quote, data.userId);
+
+        const latest = await tx.negotiationHistory.findFirst({
+          where: { quoteId: quote.id },
+          include: { lines: true },
+          orderBy: { createdAt: 'desc' },
+        });
+        if (latest?.status === 'pending' && !this.isExpired(latest)) {
+          throw new ConflictError('An offer is already open on this quote; counter or respond to it instead');
+        }
+        if (latest?.status === 'accepted') throw new ConflictError('Negotiation on this quote is already settled');
+        const turn = this.nextTurn(latest);
+        if (turn && turn !== data.userId) throw new ConflictError('It is the other party\'s turn to make an offer');
+
+        return this.createOffer(tx, quote, data.userId, data, latest);
       });
+      this.emit(offer, 'negotiation:offer');
+      return offer;
     } catch (err: any) {
       logger.error('Negotiation create failed', err?.message || err);
       throw err;
     }
   }
 
-  async counter(id: string, userId: string, price: string | number, message?: string) {
-    const existing = await prisma.negotiationHistory.findUnique({ where: { id } });
-    if (!existing) throw new Error('Negotiation not found');
-    return prisma.negotiationHistory.create({
+  /**
+   * Counter the open offer. Only its recipient may counter, and final offers cannot be countered.
+   */
+  async counter(id: string, userId: string, input: OfferInput) {
+    const offer = await prisma.$transaction(async (tx) => {
+      const existing = await this.loadOpenOffer(tx, id);
+      if (existing.toUserId !== userId) throw new AuthorizationError('Not authorized to counter this offer');
+      if (existing.offerType === 'final') throw new ConflictError('Final offers can only be accepted or rejected');
+
+      const quote = await this.loadQuote(tx, existing.quoteId);
+      this.assertNegotiable(quote);
+
+      // Conditional update so two concurrent responses cannot both succeed
+      const claimed = await tx.negotiationHistory.updateMany({
+        where: { id, status: 'pending' },
+        data: { status: 'countered', respondedAt: new Date() },
+      });
+      if (!claimed.count) throw new ConflictError('Offer is no longer open');
+
+      return this.createOffer(tx, quote, userId, input, existing);
+    });
+    this.emit(offer, 'negotiation:offer');
+    return offer;
+  }
+
+  /**
+   * Turn the caller's own open offer into a final offer.
+   */
+  async markFinal(id: string, userId: string) {
+    const existing = await this.loadOpenOffer(prisma, id);
+    if (existing.fromUserId !== userId) throw new AuthorizationError('Not authorized to finalize this negotiation');
+    // Conditional so an offer answered or expired in the meantime is not finalized after the fact
+    const marked = await prisma.negotiationHistory.updateMany({
+      where: { id, status: 'pending', OR: [{ expiresAt: null }, { expiresAt: { gte: new Date() } }] },
+      data: { offerType: 'final' },
+    });
+    if (!marked.count) throw new ConflictError('Offer is no longer open');
+    const offer = await prisma.negotiationHistory.findUniqueOrThrow({ where: { id } });
+    this.emit(offer, 'negotiation:offer');
+    return offer;
+  }
+
+  async withdraw(id: string, userId: string) {
+    const existing = await this.loadOpenOffer(prisma, id);
+    if (existing.fromUserId !== userId) throw new AuthorizationError('Not authorized to withdraw this offer');
+    return this.respond(existing, 'withdrawn', 'negotiation:withdrawn');
+  }
+
+  /**
+   * Accept the open offer and reprice the quote and its items in the same transaction.
+   */
+  async accept(id: string, userId: string) {
+    const offer = await prisma.$transaction(async (tx) => {
+      const existing = await this.loadOpenOffer(tx, id);
+      if (existing.toUserId !== userId) throw new AuthorizationError('Not authorized to accept this negotiation');
+
+      const quote = await this.loadQuote(tx, existing.quoteId);
+      this.assertNegotiable(quote);
+
+      const claimed = await tx.negotiationHistory.updateMany({
+        where: { id, status: 'pending' },
+        data: { status: 'accepted', respondedAt: new Date() },
+      });
+      if (!claimed.count) throw new ConflictError('Offer is no longer open');
+
+      await this.applyToQuote(tx, quote, existing);
+      return tx.negotiationHistory.findUnique({ where: { id }, include: { lines: true } });
+    });
+
+    this.emit(offer!, 'negotiation:accepted');
+    logger.info(`Negotiation ${id} accepted; quote ${offer!.quoteId} repriced to ${offer!.price}`);
+    return offer!;
+  }
+
+  async reject(id: string, userId: string) {
+    const existing = await this.loadOpenOffer(prisma, id);
+    if (existing.toUserId !== userId) throw new AuthorizationError('Not authorized to reject this negotiation');
+    return this.respond(existing, 'rejected', 'negotiation:rejected');
+  }
+
+  /**
+   * Expire open offers past their validity, and offers on quotes that are no longer negotiable.
+   * Returns the number of offers expired.
+   */
+  async expireOffers(limit = 500): Promise<number> {
+    const now = new Date();
+    const due = await prisma.negotiationHistory.findMany({
+      where: {
+        status: 'pending',
+        OR: [
+          { expiresAt: { lt: now } },
+          { quote: { status: { not: 'pending' } } },
+          { quote: { validUntil: { lt: now } } },
+        ],
+      },
+      take: limit,
+    });
+
+    let expired = 0;
+    for (const offer of due) {
+      const result = await prisma.negotiationHistory.updateMany({
+        where: { id: offer.id, status: 'pending' },
+        data: { status: 'expired' },
+      });
+      if (!result.count) continue;
+      expired++;
+      this.emit({ ...offer, status: 'expired' }, 'negotiation:expired');
+    }
+    return expired;
+  }
+
+  private async createOffer(tx: Tx, quote: QuoteWithItems, userId: string, input: OfferInput, previous: (NegotiationHistory & { lines: NegotiationLine[] }) | null) {
+    const { price, lines } = this.priceOffer(quote, input, previous?.lines || []);
+    const expiresAt = this.resolveExpiry(quote, input.validUntil);
+    const buyerId = quote.rfq.buyerId;
+
+    return tx.negotiationHistory.create({
       data: {
-        quoteId: existing.quoteId,
-        buyerId: existing.buyerId,
-        sellerId: existing.sellerId,
+        quoteId: quote.id,
+        buyerId,
+        sellerId: quote.sellerId,
         fromUserId: userId,
-        toUserId: userId === existing.fromUserId ? existing.toUserId : existing.fromUserId,
+        toUserId: userId === buyerId ? quote.sellerId : buyerId,
         offerPrice: new Prisma.Decimal(price),
         price: new Prisma.Decimal(price),
-        offerType: 'counter',
-        message: message || null,
+        offerType: input.final ? 'final' : previous ? 'counter' : 'initial',
+        message: input.message || null,
+        terms: input.terms || null,
+        round: previous ? previous.round + 1 : 1,
+        previousId: previous?.id || null,
+        validUntil: expiresAt,
+        expiresAt,
         status: 'pending',
+        lines: { create: lines },
       },
+      include: { lines: true },
     });
   }
 
-  async markFinal(id: string, userId: string) {
-    const existing = await prisma.negotiationHistory.findUnique({ where: { id } });
-    if (!existing) throw new Error('Negotiation not found');
-    if (existing.fromUserId !== userId) throw new Error('Not authorized to finalize this negotiation');
-    return prisma.negotiationHistory.update({ where: { id }, data: { offerType: 'final', status: 'pending' } });
+  /**
+   * Work out the offer total. With line counters, lines not mentioned keep the previous offer's price
+   * (or the quoted one) and tax is carried over at the quote's effective rate, since quote totals are tax inclusive.
+   */
+  private priceOffer(quote: QuoteWithItems, input: OfferInput, previousLines: NegotiationLine[]) {
+    if (!input.items?.length) {
+      if (!input.price || input.price <= 0) throw new ValidationError('Offer price or line items are required');
+      return { price: round2(input.price), lines: [] };
+    }
+
+    const byItem = new Map(quote.items.map(item => [item.id, item]));
+    const overrides = new Map<string, number>();
+    for (const line of input.items) {
+      if (!byItem.has(line.quoteItemId)) throw new ValidationError(`Quote item ${line.quoteItemId} does not belong to this quote`);
+      if (line.unitPrice <= 0) throw new ValidationError('Unit prices must be positive');
+      overrides.set(line.quoteItemId, line.unitPrice);
+    }
+    const previous = new Map(previousLines.map(line => [line.quoteItemId, line.unitPrice.toNumber()]));
+
+    const lines = quote.items.map(item => {
+      const unitPrice = round2(overrides.get(item.id) ?? previous.get(item.id) ?? item.unitPrice.toNumber());
+      return { quoteItemId: item.id, quantity: item.quantity, unitPrice, totalPrice: round2(unitPrice * item.quantity) };
+    });
+
+    const quotedSubtotal = quote.totalPrice.toNumber() - quote.taxAmount.toNumber();
+    const taxRate = quotedSubtotal > 0 ? quote.taxAmount.toNumber() / quotedSubtotal : 0;
+    const subtotal = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+    return { price: round2(subtotal * (1 + taxRate)), lines };
   }
 
-  async accept(id: string, userId: string) {
-    const existing = await prisma.negotiationHistory.findUnique({ where: { id } });
-    if (!existing) throw new Error('Negotiation not found');
-    if (existing.toUserId !== userId) throw new Error('Not authorized to accept this negotiation');
-    return prisma.negotiationHistory.update({ where: { id }, data: { status: 'accepted' } });
+  private async applyToQuote(tx: Tx, quote: QuoteWithItems, offer: NegotiationHistory & { lines: NegotiationLine[] }) {
+    const price = offer.price.toNumber();
+    const quotedTotal = quote.totalPrice.toNumber();
+
+    if (offer.lines.length) {
+      for (const line of offer.lines) {
+        await tx.quoteItem.update({ where: { id: line.quoteItemId }, data: { unitPrice: line.unitPrice, totalPrice: line.totalPrice } });
+      }
+      const subtotal = offer.lines.reduce((sum, line) => sum + line.totalPrice.toNumber(), 0);
+      await tx.quote.update({
+        where: { id: quote.id },
+        data: { totalPrice: price, taxAmount: round2(price - subtotal), negotiatedFrom: quote.negotiatedFrom ?? quote.totalPrice },
+      });
+      return;
+    }
+
+    // A total-only offer scales every line by the same factor
+    const factor = quotedTotal > 0 ? price / quotedTotal : 1;
+    for (const item of quote.items) {
+      const unitPrice = round2(item.unitPrice.toNumber() * factor);
+      await tx.quoteItem.update({ where: { id: item.id }, data: { unitPrice, totalPrice: round2(unitPrice * item.quantity) } });
+    }
+    await tx.quote.update({
+      where: { id: quote.id },
+      data: { totalPrice: price, taxAmount: round2(quote.taxAmount.toNumber() * factor), negotiatedFrom: quote.negotiatedFrom ?? quote.totalPrice },
+    });
   }
 
-  async reject(id: string, userId: string) {
-    const existing = await prisma.negotiationHistory.findUnique({ where: { id } });
-    if (!existing) throw new Error('Negotiation not found');
-    if (existing.toUserId !== userId) throw new Error('Not authorized to reject this negotiation');
-    return prisma.negotiationHistory.update({ where: { id }, data: { status: 'rejected' } });
+  private async respond(existing: NegotiationHistory, status: string, event: string) {
+    const result = await prisma.negotiationHistory.updateMany({
+      where: { id: existing.id, status: 'pending' },
+      data: { status, respondedAt: new Date() },
+    });
+    if (!result.count) throw new ConflictError('Offer is no longer open');
+    const offer = await prisma.negotiationHistory.findUnique({ where: { id: existing.id } });
+    this.emit(offer!, event);
+    return offer!;
+  }
+
+  private async loadQuote(client: Tx | typeof prisma, quoteId: string): Promise<QuoteWithItems> {
+    const quote = await client.quote.findUnique({ where: { id: quoteId }, include: { rfq: true, items: true } });
+    if (!quote) throw new NotFoundError('Quote not found');
+    return quote;
+  }
+
+  private async loadOpenOffer(client: Tx | typeof prisma, id: string) {
+    const existing = await client.negotiationHistory.findUnique({ where: { id }, include: { lines: true } });
+    if (!existing) throw new NotFoundError('Negotiation not found');
+    if (existing.status !== 'pending') throw new ConflictError(`Offer is already ${existing.status}`);
+    // The expiry job flips the status; until then an expired offer is simply closed to responses
+    if (this.isExpired(existing)) throw new ConflictError('Offer has expired');
+    return existing;
+  }
+
+  private assertParticipant(quote: QuoteWithItems, userId: string) {
+    if (userId !== quote.sellerId && userId !== quote.rfq.buyerId) {
+      throw new AuthorizationError('Only the buyer and seller can negotiate this quote');
+    }
+  }
+
+  private assertNegotiable(quote: QuoteWithItems) {
+    if (quote.status !== 'pending') throw new ConflictError('Quote is no longer open for negotiation');
+    if (quote.validUntil && quote.validUntil < new Date()) throw new ConflictError('Quote has expired');
+    if (quote.rfq.mode !== 'open' && quote.rfq.status === 'active') throw new ConflictError('Quotes cannot be negotiated while bidding is open');
+  }
+
+  // After a countered or rejected offer the recipient moves next; after expiry or withdrawal either party may
+  private nextTurn(latest: NegotiationHistory | null): string | null {
+    if (!latest || latest.status === 'expired' || latest.status === 'withdrawn') return null;
+    if (latest.status === 'pending' && this.isExpired(latest)) return null;
+    return latest.toUserId;
+  }
+
+  private isExpired(offer: NegotiationHistory) {
+    return !!offer.expiresAt && offer.expiresAt < new Date();
+  }
+
+  // Offers are capped by the quote's own validity
+  private resolveExpiry(quote: Quote, validUntil?: Date | string): Date {
+    const requested = validUntil ? new Date(validUntil) : new Date(Date.now() + config.rfq.offerTtlHours * 60 * 60 * 1000);
+    if (requested <= new Date()) throw new ValidationError('validUntil must be in the future');
+    return quote.validUntil && quote.validUntil < requested ? quote.validUntil : requested;
+  }
+
+  private emit(offer: NegotiationHistory, event: string) {
+    const payload = {
+      negotiationId: offer.id,
+      quoteId: offer.quoteId,
+      fromUserId: offer.fromUserId,
+      toUserId: offer.toUserId,
+      price: offer.price,
+      offerType: offer.offerType,
+      status: offer.status,
+      round: offer.round,
+      expiresAt: offer.expiresAt,
+    };
+    WebSocketService.emitToUser(offer.buyerId, event, payload);
+    WebSocketService.emitToUser(offer.sellerId, event, payload);
   }
 }
 
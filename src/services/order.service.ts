@@ -1,12 +1,35 @@
-import type { Order } from '@prisma/client';
+import type { Order, Prisma } from '@prisma/client';
 import { BaseService } from './base.service';
 import { logger } from '../utils/logger';
 import { NotificationService } from './notification.service';
+import { taxService } from './tax.service';
+import { invoiceService } from './invoice.service';
+import { inventoryService } from './inventory.service';
+import { escrowService } from './escrow.service';
+import { refundService } from './refund.service';
+import { outboxService } from './outbox.service';
+import { config } from '../config/environment';
+import { ConflictError, ValidationError } from '../middleware/error-handler';
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Moves updateOrderStatus may make; cancellation goes through cancelOrder so the payment,
+// escrow and invoice are unwound with it
+const ORDER_STATUS_TRANSITIONS: Record<string, string[]> = {
+  pending: ['confirmed', 'processing', 'shipped'],
+  confirmed: ['processing', 'shipped'],
+  processing: ['shipped'],
+  shipped: ['delivered'],
+  delivered: ['returned'],
+};
 
 export interface CreateOrderData {
   buyerId: string;
   sellerId: string;
   quoteId?: string;
+  checkoutId?: string;
+  couponId?: string;
+  discountAmount?: number;
   orderType: 'product' | 'service';
   items: {
     productId?: string;
@@ -19,6 +42,16 @@ export interface CreateOrderData {
   billingAddress?: any;
   notes?: string;
   estimatedDelivery?: Date;
+  // Ship-from warehouse; picked automatically from the seller's stock when omitted
+  warehouseId?: string;
+  // Hold the payment in the buyer's wallet until delivery is confirmed
+  escrow?: boolean;
+  // Initial status, e.g. "pending_approval" for quote orders awaiting buyer sign-off
+  status?: string;
+  // Overrides the flat product shipping charge (quotes price delivery in)
+  shippingAmount?: number;
+  // Overrides the default payment window for the stock reservation
+  reservationExpiresAt?: Date;
 }
 
 export interface UpdateOrderData {
@@ -54,120 +87,206 @@ export class OrderService extends BaseService {
 
   async createOrder(data: CreateOrderData): Promise<Order> {
     try {
-      return await this.prisma.$transaction(async (tx) => {
-        // Calculate totals
-        let subtotal = 0;
-        const orderItems = [];
-
-        for (const item of data.items) {
-          const totalPrice = item.unitPrice * item.quantity;
-          subtotal += totalPrice;
-
-          orderItems.push({
-            productId: item.productId,
-            serviceId: item.serviceId,
-            variantId: item.variantId,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            totalPrice,
-          });
-        }
+      const order = await this.prisma.$transaction(async (tx) => this.createOrderInTransaction(tx, data));
 
-        const taxAmount = subtotal * 0.18; // 18% GST
-        const shippingAmount = data.orderType === 'product' ? 50 : 0; // Flat shipping for products
-        const discountAmount = 0; // No discount for now
-        const totalAmount = subtotal + taxAmount + shippingAmount - discountAmount;
+      // Send notifications
+      await this.notificationService.sendOrderNotification(order, 'created');
+      return order;
+    } catch (error) {
+      logger.error('Error creating order:', error);
+      throw error;
+    }
+  }
 
-        // Generate order number
-        const orderNumber = await this.generateOrderNumber();
+  /**
+   * Create an order on an existing transaction so callers such as cart checkout can create
+   * several orders atomically. Sending notifications is left to the caller, after commit.
+   */
+  async createOrderInTransaction(tx: Prisma.TransactionClient, data: CreateOrderData) {
+    // Calculate totals
+    let subtotal = 0;
+    const orderItems = [];
+
+    // The order's discount is spread over its lines pro rata (the last absorbs rounding) so GST
+    // is charged only on what the buyer pays
+    const lineTotals = data.items.map(item => item.unitPrice * item.quantity);
+    const grossTotal = lineTotals.reduce((sum, total) => sum + total, 0);
+    const discountAmount = round2(Math.min(data.discountAmount ?? 0, grossTotal));
+    let allocated = 0;
+    const lineDiscounts = lineTotals.map((total, index) => {
+      const share = index === lineTotals.length - 1
+        ? round2(discountAmount - allocated)
+        : round2(grossTotal > 0 ? (discountAmount * total) / grossTotal : 0);
+      allocated += share;
+      return share;
+    });
 
-        // Create order
-        const order = await tx.order.create({
-          data: {
-            buyerId: data.buyerId,
-            sellerId: data.sellerId,
-            quoteId: data.quoteId,
-            orderNumber,
-            orderType: data.orderType,
-            subtotal,
-            taxAmount,
-            shippingAmount,
-            discountAmount,
-            totalAmount,
-            status: 'pending',
-            paymentStatus: 'pending',
-            deliveryAddress: data.deliveryAddress,
-            billingAddress: data.billingAddress,
-            notes: data.notes,
-            estimatedDelivery: data.estimatedDelivery,
-            items: {
-              create: orderItems,
-            },
-          },
+    // GST breakup per line (CGST+SGST or IGST, cess, exemptions)
+    const tax = await taxService.calculate({
+      sellerId: data.sellerId,
+      buyerId: data.buyerId,
+      items: data.items.map((item, index) => ({ ...item, discount: lineDiscounts[index] })),
+      deliveryAddress: data.deliveryAddress,
+    }, tx);
+
+    for (const [index, item] of data.items.entries()) {
+      const totalPrice = item.unitPrice * item.quantity;
+      const line = tax.lines[index];
+      subtotal += totalPrice;
+
+      orderItems.push({
+        productId: item.productId,
+        serviceId: item.serviceId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice,
+        hsnCode: line.hsnCode,
+        taxableValue: line.taxableValue,
+        taxRate: line.taxRate,
+        cgstAmount: line.cgstAmount,
+        sgstAmount: line.sgstAmount,
+        igstAmount: line.igstAmount,
+        cessAmount: line.cessAmount,
+        taxAmount: line.taxAmount,
+      });
+    }
+
+    const taxAmount = tax.taxAmount;
+    const shippingAmount = data.shippingAmount ?? (data.orderType === 'product' ? 50 : 0); // Flat shipping for products
+    const totalAmount = subtotal + taxAmount + shippingAmount - discountAmount;
+
+    // Generate order number
+    const orderNumber = await this.generateOrderNumber(tx);
+
+    // Create order
+    const order = await tx.order.create({
+      data: {
+        buyerId: data.buyerId,
+        sellerId: data.sellerId,
+        quoteId: data.quoteId,
+        couponId: data.couponId,
+        checkoutId: data.checkoutId,
+        orderNumber,
+        orderType: data.orderType,
+        subtotal,
+        taxAmount,
+        shippingAmount,
+        discountAmount,
+        totalAmount,
+        supplyType: tax.supplyType,
+        placeOfSupply: tax.placeOfSupply,
+        status: data.status || 'pending',
+        paymentStatus: 'pending',
+        deliveryAddress: data.deliveryAddress,
+        billingAddress: data.billingAddress,
+        notes: data.notes,
+        estimatedDelivery: data.estimatedDelivery,
+        escrowEnabled: data.escrow ?? false,
+        items: {
+          create: orderItems,
+        },
+      },
+      include: {
+        buyer: true,
+        seller: true,
+        items: {
           include: {
-            buyer: true,
-            seller: true,
-            items: {
-              include: {
-                product: true,
-                service: true,
-                variant: true,
-              },
-            },
+            product: true,
+            service: true,
+            variant: true,
           },
-        });
+        },
+      },
+    });
 
-        // Create order status history
-        await tx.orderStatusHistory.create({
-          data: {
-            orderId: order.id,
-            status: 'pending',
-            notes: 'Order created',
-          },
-        });
+    // Create order status history
+    await tx.orderStatusHistory.create({
+      data: {
+        orderId: order.id,
+        status: order.status,
+        notes: 'Order created',
+      },
+    });
 
-        // Order history audit
-        await tx.orderHistory.create({
-          data: {
-            orderId: order.id,
-            action: 'ORDER_CREATED',
-            details: `Order created with ${order.items.length} item(s)`
-          }
-        });
+    // Order history audit
+    await tx.orderHistory.create({
+      data: {
+        orderId: order.id,
+        action: 'ORDER_CREATED',
+        details: `Order created with ${order.items.length} item(s)`
+      }
+    });
 
-        // Create service order rows if service items exist
-        const serviceItems = order.items.filter(i => i.serviceId);
-        for (const sItem of serviceItems) {
-          await tx.serviceOrder.create({
-            data: {
-              orderId: order.id,
-              serviceId: sItem.serviceId!,
-              quantity: sItem.quantity,
-              unitPrice: sItem.unitPrice,
-              totalPrice: sItem.totalPrice,
-              status: 'pending'
-            }
-          });
+    // Create service order rows if service items exist
+    const serviceItems = order.items.filter(i => i.serviceId);
+    for (const sItem of serviceItems) {
+      await tx.serviceOrder.create({
+        data: {
+          orderId: order.id,
+          serviceId: sItem.serviceId!,
+          quantity: sItem.quantity,
+          unitPrice: sItem.unitPrice,
+          totalPrice: sItem.totalPrice,
+          status: 'pending'
         }
+      });
+    }
 
-        // Send notifications
-        await this.notificationService.sendOrderNotification(order, 'created');
-
-        logger.info(`Order created: ${order.id} - ${order.orderNumber}`);
-        return order;
+    // Hold stock until payment; unpaid reservations are released by the scheduler
+    const productItems = order.items.filter(i => i.productId);
+    if (productItems.length) {
+      await inventoryService.reserveForOrder(tx, {
+        orderId: order.id,
+        sellerId: data.sellerId,
+        warehouseId: data.warehouseId,
+        deliveryState: data.deliveryAddress?.state,
+        expiresAt: data.reservationExpiresAt || new Date(Date.now() + config.inventory.reservationTtlMinutes * 60 * 1000),
+        items: productItems.map(i => ({ orderItemId: i.id, productId: i.productId!, variantId: i.variantId, quantity: i.quantity })),
       });
-    } catch (error) {
-      logger.error('Error creating order:', error);
-      throw error;
     }
+
+    await outboxService.record(tx, {
+      type: 'order.created',
+      aggregateId: order.id,
+      recipients: [order.buyerId, order.sellerId],
+      data: {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        buyerId: order.buyerId,
+        sellerId: order.sellerId,
+        status: order.status,
+        totalAmount: order.totalAmount.toNumber(),
+        quoteId: order.quoteId,
+      },
+    });
+
+    logger.info(`Order created: ${order.id} - ${order.orderNumber}`);
+    return order;
   }
 
   async updateOrderStatus(orderId: string, status: string, notes?: string, updatedBy?: string): Promise<Order> {
     try {
-      return await this.prisma.$transaction(async (tx) => {
-        const order = await tx.order.update({
+      if (status === 'cancelled') {
+        throw new ValidationError('Orders are cancelled through the cancel endpoint');
+      }
+
+      const updated = await this.prisma.$transaction(async (tx) => {
+        const previous = await tx.order.findUnique({ where: { id: orderId }, select: { status: true } });
+        if (!previous) {
+          throw new Error('Order not found');
+        }
+        if (!ORDER_STATUS_TRANSITIONS[previous.status]?.includes(status)) {
+          throw new ValidationError(`Order cannot move from ${previous.status} to ${status}`);
+        }
+
+        // Conditional on the status checked above, so two updates cannot both make the same move
+        const moved = await tx.order.updateMany({ where: { id: orderId, status: previous.status }, data: { status } });
+        if (!moved.count) {
+          throw new ConflictError('Order status was changed by another request');
+        }
+        const order = await tx.order.findUniqueOrThrow({
           where: { id: orderId },
-          data: { status },
           include: {
             buyer: true,
             seller: true,
@@ -200,12 +319,43 @@ export class OrderService extends BaseService {
           }
         });
 
+        // Reserved stock leaves the warehouse once the order ships
+        if (status === 'shipped') {
+          await inventoryService.fulfilForOrder(tx, orderId, order.sellerId);
+        }
+
+        await outboxService.record(tx, {
+          type: 'order.status_changed',
+          aggregateId: orderId,
+          recipients: [order.buyerId, order.sellerId],
+          data: {
+            orderId,
+            orderNumber: order.orderNumber,
+            buyerId: order.buyerId,
+            sellerId: order.sellerId,
+            fromStatus: previous.status,
+            toStatus: status,
+            notes: notes ?? null,
+          },
+        });
+
         // Send notification
         await this.notificationService.sendOrderNotification(order, 'status_updated');
 
         logger.info(`Order status updated: ${orderId} - ${status}`);
         return order;
       });
+
+      if (status === 'returned') {
+        this.issueCreditNoteIfInvoiced(orderId, 'return');
+      }
+
+      // Escrowed payment is released to the seller once the dispute window after delivery lapses
+      if (status === 'delivered' && updated.escrowEnabled) {
+        await escrowService.startDisputeWindow(orderId);
+      }
+
+      return updated;
     } catch (error) {
       logger.error('Error updating order status:', error);
       throw error;
@@ -234,6 +384,21 @@ export class OrderService extends BaseService {
         await this.updateOrderStatus(orderId, 'confirmed', 'Payment received');
       }
 
+      // A capture that lands after the order was cancelled (e.g. its reservation expired) is
+      // returned to the buyer; nothing ships, so no stock, escrow or invoice
+      if (paymentStatus === 'paid' && order.status === 'cancelled') {
+        await refundService.refundOrder(orderId, 'order_cancelled')
+          .catch(err => logger.error(`Refund of payment on cancelled order ${orderId} failed:`, err));
+      } else if (paymentStatus === 'paid') {
+        // Paid orders get their tax invoice (best-effort; can be regenerated on demand)
+        await inventoryService.confirmForOrder(orderId);
+        if (order.escrowEnabled) {
+          // The payment is already recorded, so a failed hold is retried by the escrow job instead
+          await escrowService.holdForOrder(orderId).catch(err => logger.error(`Escrow hold failed for order ${orderId}; the escrow job will retry`, err));
+        }
+        invoiceService.generateInvoice(orderId).catch(err => logger.error('Invoice generation failed', err));
+      }
+
       // Order history audit
       await this.prisma.orderHistory.create({
         data: {
@@ -420,9 +585,13 @@ export class OrderService extends BaseService {
     }
   }
 
-  async cancelOrder(orderId: string, reason?: string, cancelledBy?: string): Promise<Order> {
+  /**
+   * Cancel an order, returning its stock and refunding it if paid. With unpaidOnly the cancel is
+   * abandoned if a payment lands first.
+   */
+  async cancelOrder(orderId: string, reason?: string, cancelledBy?: string, options: { unpaidOnly?: boolean } = {}): Promise<Order> {
     try {
-      return await this.prisma.$transaction(async (tx) => {
+      const cancelled = await this.prisma.$transaction(async (tx) => {
         const order = await tx.order.findUnique({
           where: { id: orderId },
           include: { items: true },
@@ -432,13 +601,21 @@ export class OrderService extends BaseService {
           throw new Error('Order not found');
         }
 
-        if (!['pending', 'confirmed'].includes(order.status)) {
+        if (!['pending_approval', 'pending', 'confirmed'].includes(order.status)) {
           throw new Error('Order cannot be cancelled in current status');
         }
 
-        const updatedOrder = await tx.order.update({
-          where: { id: orderId },
+        // Conditional on what was checked above, so a concurrent status or payment update wins
+        const claimed = await tx.order.updateMany({
+          where: { id: orderId, status: order.status, ...(options.unpaidOnly && { paymentStatus: 'pending' }) },
           data: { status: 'cancelled' },
+        });
+        if (!claimed.count) {
+          throw new Error('Order changed while it was being cancelled');
+        }
+
+        const updatedOrder = await tx.order.findUniqueOrThrow({
+          where: { id: orderId },
           include: {
             buyer: true,
             seller: true,
@@ -470,19 +647,22 @@ export class OrderService extends BaseService {
           }
         });
 
-        // Restore inventory for products
-        for (const item of order.items) {
-          if (item.productId) {
-            await tx.product.update({
-              where: { id: item.productId },
-              data: {
-                stockQuantity: {
-                  increment: item.quantity,
-                },
-              },
-            });
-          }
-        }
+        // Return reserved stock to the warehouse
+        await inventoryService.releaseForOrder(tx, orderId, order.sellerId, reason || 'Order cancelled');
+
+        await outboxService.record(tx, {
+          type: 'order.cancelled',
+          aggregateId: orderId,
+          recipients: [order.buyerId, order.sellerId],
+          data: {
+            orderId,
+            orderNumber: order.orderNumber,
+            buyerId: order.buyerId,
+            sellerId: order.sellerId,
+            reason: reason ?? null,
+            paymentStatus: order.paymentStatus,
+          },
+        });
 
         // Send notification
         await this.notificationService.sendOrderNotification(updatedOrder, 'cancelled');
@@ -490,12 +670,43 @@ export class OrderService extends BaseService {
         logger.info(`Order cancelled: ${orderId}`);
         return updatedOrder;
       });
+
+      this.issueCreditNoteIfInvoiced(orderId, 'cancellation');
+
+      // Paid orders are refunded in full (escrowed funds go back to the buyer's wallet)
+      if (['paid', 'partially_refunded'].includes(cancelled.paymentStatus)) {
+        await refundService.refundOrder(orderId, 'order_cancelled', cancelledBy)
+          .catch(err => logger.error(`Refund after cancellation failed for order ${orderId}:`, err));
+      }
+      return cancelled;
     } catch (error) {
       logger.error('Error cancelling order:', error);
       throw error;
     }
   }
 
+  /**
+   * Cancel unpaid orders whose stock reservation has passed its payment deadline.
+   */
+  async releaseExpiredReservations(): Promise<number> {
+    const expired = await this.prisma.stockReservation.findMany({
+      where: { status: 'active', expiresAt: { lt: new Date() }, order: { paymentStatus: 'pending' } },
+      select: { orderId: true },
+      distinct: ['orderId'],
+    });
+
+    let released = 0;
+    for (const { orderId } of expired) {
+      try {
+        await this.cancelOrder(orderId, 'Payment not received before reservation expiry', undefined, { unpaidOnly: true });
+        released++;
+      } catch (error) {
+        logger.error(`Failed to release expired reservation for order ${orderId}:`, error);
+      }
+    }
+    return released;
+  }
+
   async addTrackingEvent(orderId: string, data: { status: string; location?: string; description?: string; provider?: string; providerTrackingId?: string; metadata?: any; userId?: string; }): Promise<void> {
     await this.prisma.$transaction(async (tx) => {
       const order = await tx.order.findUnique({ where: { id: orderId } });
@@ -534,6 +745,23 @@ export class OrderService extends BaseService {
         }
       }
 
+      await outboxService.record(tx, {
+        type: 'shipment.updated',
+        aggregateId: orderId,
+        recipients: [order.buyerId, order.sellerId],
+        data: {
+          orderId,
+          orderNumber: order.orderNumber,
+          buyerId: order.buyerId,
+          sellerId: order.sellerId,
+          status: data.status,
+          location: data.location ?? null,
+          description: data.description ?? null,
+          provider: data.provider ?? null,
+          trackingNumber: data.providerTrackingId || order.trackingNumber,
+        },
+      });
+
       await tx.orderHistory.create({
         data: {
           orderId,
@@ -543,9 +771,8 @@ export class OrderService extends BaseService {
         }
       });
 
-      // Optional: if status influences overall order status for shipping milestones
-      const shippingStatuses = ['shipped','delivered'];
-      if (shippingStatuses.includes(data.status) && order.status !== data.status) {
+      // A shipping milestone moves the order to shipped; delivery is only confirmed by the buyer
+      if (data.status === 'shipped' && order.status !== data.status) {
         // Fire and forget; rely on existing status update for history
         try { await this.updateOrderStatus(orderId, data.status, 'Tracking event update'); } catch (e) { /* swallow */ }
       }
@@ -909,7 +1136,13 @@ export class OrderService extends BaseService {
     }
   }
 
-  private async generateOrderNumber(): Promise<string> {
+  private issueCreditNoteIfInvoiced(orderId: string, reason: 'cancellation' | 'return'): void {
+    this.prisma.invoice.findFirst({ where: { orderId, documentType: 'invoice', status: 'issued' } })
+      .then(invoice => (invoice ? invoiceService.issueCreditNote(orderId, { reason }) : null))
+      .catch(err => logger.error(`Credit note for order ${orderId} failed`, err));
+  }
+
+  private async generateOrderNumber(db: Prisma.TransactionClient = this.prisma): Promise<string> {
     const date = new Date();
     const year = date.getFullYear().toString().slice(-2);
     const month = (date.getMonth() + 1).toString().padStart(2, '0');
@@ -921,7 +1154,7 @@ export class OrderService extends BaseService {
     const startOfDay = new Date(date.getFullYear(), date.getMonth(), date.getDate());
     const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
     
-    const todayOrderCount = await this.prisma.order.count({
+    const todayOrderCount = await db.order.count({
       where: {
         createdAt: {
           gte: startOfDay,
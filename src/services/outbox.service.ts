@@ -0,0 +1,233 @@
+import { Prisma } from '@prisma/client';
+import type { OutboxEvent } from '@prisma/client';
+import { BaseService } from './base.service';
+import { kafkaProducer } from './kafka-producer.service';
+import { webhookDeliveryService } from './webhook-delivery.service';
+import { rfqSearchService } from './rfq-search.service';
+import { kafkaTopics } from '../config/kafka';
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+import type { DomainEventDomain, DomainEventEnvelope, DomainEventInput, DomainEventType } from '../types/domain-events.types';
+
+export type DomainEventHandler = (event: DomainEventEnvelope) => Promise<void>;
+
+// Exact event type, or "<domain>.*" for every event of a domain
+export type DomainEventPattern = DomainEventType | `${DomainEventDomain}.*`;
+
+const DOMAIN_TOPICS: Record<DomainEventDomain, string> = {
+  order: kafkaTopics.ORDER_EVENT,
+  payment: kafkaTopics.PAYMENT_EVENT,
+  refund: kafkaTopics.REFUND_EVENT,
+  quote: kafkaTopics.QUOTE_EVENT,
+  rfq: kafkaTopics.RFQ_EVENT,
+  shipment: kafkaTopics.SHIPMENT_EVENT,
+  product: kafkaTopics.PRODUCT_EVENT,
+  invoice: kafkaTopics.INVOICE_EVENT,
+};
+
+// An event stuck in publishing this long is assumed to belong to a crashed relay
+const STALE_PUBLISHING_MS = 5 * 60 * 1000;
+
+/**
+ * Transactional outbox for domain events. Services write events with `record` on the same
+ * transaction client as the change they describe, so an event exists exactly when its change
+ * committed. The relay publishes them to the domain's Kafka topic (keyed by aggregate, so
+ * per-aggregate order holds), queues them for subscribed webhooks and runs in-process
+ * subscribers such as search sync. Failures retry with backoff and end up dead-lettered.
+ */
+export class OutboxService extends BaseService {
+  private subscribers: { pattern: DomainEventPattern; handler: DomainEventHandler }[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  async record<T extends DomainEventType>(db: Prisma.TransactionClient, event: DomainEventInput<T>): Promise<OutboxEvent> {
+    const recipients = [...new Set((event.recipients || []).filter((id): id is string => !!id))];
+    return db.outboxEvent.create({
+      data: {
+        eventType: event.type,
+        aggregateType: event.type.split('.')[0],
+        aggregateId: event.aggregateId,
+        payload: event.data as unknown as Prisma.InputJsonValue,
+        recipientIds: recipients,
+      },
+    });
+  }
+
+  /**
+   * In-process subscribers run once per event, on whichever instance relays it. They are
+   * best-effort: a failing handler is logged and does not hold the event back.
+   */
+  subscribe(pattern: DomainEventPattern, handler: DomainEventHandler): void {
+    this.subscribers.push({ pattern, handler });
+  }
+
+  start(): void {
+    if (this.timer || this.running) return;
+    this.running = true;
+
+    // Keep the RFQ search index current
+    this.subscribe('rfq.*', event => rfqSearchService.syncRfq(event.aggregateId));
+
+    const loop = async () => {
+      try {
+        await this.relayPending();
+      } catch (error) {
+        logger.error('Outbox relay failed:', error);
+      }
+      if (this.running) this.timer = setTimeout(loop, config.outbox.pollIntervalMs);
+    };
+    void loop();
+    logger.info('Outbox relay started');
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Publish due events, oldest first. Once an event of an aggregate fails, later events of the
+   * same aggregate wait for the next pass so consumers never see them out of order.
+   */
+  async relayPending(limit = config.outbox.batchSize) {
+    await this.prisma.outboxEvent.updateMany({
+      where: { status: 'publishing', updatedAt: { lt: new Date(Date.now() - STALE_PUBLISHING_MS) } },
+      data: { status: 'failed', lastError: 'Publishing timed out' },
+    });
+
+    const due = await this.prisma.outboxEvent.findMany({
+      where: { status: { in: ['pending', 'failed'] }, nextAttemptAt: { lte: new Date() } },
+      orderBy: { occurredAt: 'asc' },
+      select: { id: true, aggregateType: true, aggregateId: true },
+      take: limit,
+    });
+
+    const blocked = new Set<string>();
+    const result = { published: 0, failed: 0, deadLettered: 0 };
+    for (const { id, aggregateType, aggregateId } of due) {
+      const aggregate = `${aggregateType}:${aggregateId}`;
+      if (blocked.has(aggregate)) continue;
+      const event = await this.publishEvent(id);
+      if (event?.status === 'published') result.published++;
+      else if (event?.status === 'failed') result.failed++;
+      else if (event?.status === 'dead_lettered') result.deadLettered++;
+      if (event && event.status !== 'published') blocked.add(aggregate);
+    }
+    if (result.published + result.failed + result.deadLettered > 0) {
+      logger.info(`Outbox relay: published=${result.published}, failed=${result.failed}, deadLettered=${result.deadLettered}`);
+    }
+    return result;
+  }
+
+  /**
+   * Publish one event. Safe to call concurrently: only the caller that claims the row publishes it.
+   */
+  async publishEvent(id: string): Promise<OutboxEvent | null> {
+    const claimed = await this.prisma.outboxEvent.updateMany({
+      where: { id, status: { in: ['pending', 'failed'] } },
+      data: { status: 'publishing', attempts: { increment: 1 } },
+    });
+    if (!claimed.count) return null;
+
+    const event = await this.prisma.outboxEvent.findUnique({ where: { id } });
+    if (!event) return null;
+
+    try {
+      const envelope = this.toEnvelope(event);
+      await kafkaProducer.publish(DOMAIN_TOPICS[envelope.aggregateType], event.aggregateId, envelope);
+      if (event.recipientIds.length) await webhookDeliveryService.enqueue(event.recipientIds, envelope);
+      await this.notifySubscribers(envelope);
+
+      return this.prisma.outboxEvent.update({
+        where: { id },
+        data: { status: 'published', lastError: null, publishedAt: new Date() },
+      });
+    } catch (error: any) {
+      return this.fail(event, error?.message || String(error));
+    }
+  }
+
+  /**
+   * Send a dead-lettered event again, e.g. after a Kafka outage outlasted its retries.
+   */
+  async replay(id: string): Promise<OutboxEvent> {
+    const event = await this.getById(id);
+    if (event.status === 'publishing') throw new ValidationError('Event is being published');
+
+    await this.prisma.outboxEvent.update({
+      where: { id },
+      data: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+    logger.info(`Replaying outbox event ${id} (${event.eventType})`);
+    return (await this.publishEvent(id)) || this.getById(id);
+  }
+
+  async getById(id: string) {
+    const event = await this.prisma.outboxEvent.findUnique({ where: { id } });
+    if (!event) throw new NotFoundError('Outbox event not found');
+    return event;
+  }
+
+  async list(filters: { status?: string; eventType?: string; aggregateId?: string }, page = 1, limit = 20) {
+    const where: Prisma.OutboxEventWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.eventType) where.eventType = filters.eventType;
+    if (filters.aggregateId) where.aggregateId = filters.aggregateId;
+
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.outboxEvent.findMany({ where, orderBy: { occurredAt: 'desc' }, skip, take: limit }),
+      this.prisma.outboxEvent.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
+  }
+
+  async purgePublished(olderThanDays = config.outbox.retentionDays): Promise<number> {
+    const result = await this.prisma.outboxEvent.deleteMany({
+      where: { status: 'published', publishedAt: { lt: new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000) } },
+    });
+    return result.count;
+  }
+
+  private toEnvelope(event: OutboxEvent): DomainEventEnvelope {
+    return {
+      id: event.id,
+      type: event.eventType as DomainEventType,
+      aggregateType: event.aggregateType as DomainEventDomain,
+      aggregateId: event.aggregateId,
+      occurredAt: event.occurredAt.toISOString(),
+      data: event.payload as any,
+    };
+  }
+
+  private async notifySubscribers(envelope: DomainEventEnvelope) {
+    const matching = this.subscribers.filter(({ pattern }) =>
+      pattern === envelope.type || pattern === `${envelope.aggregateType}.*`);
+    for (const { pattern, handler } of matching) {
+      try {
+        await handler(envelope);
+      } catch (error) {
+        logger.warn(`Outbox subscriber ${pattern} failed for event ${envelope.id}:`, error);
+      }
+    }
+  }
+
+  private async fail(event: OutboxEvent, lastError: string) {
+    // The claim in publishEvent already counted this attempt
+    const attempts = event.attempts;
+    const deadLetter = attempts >= config.outbox.maxAttempts;
+    // 10s, 20s, 40s, ... capped at 15 minutes between attempts
+    const nextAttemptAt = new Date(Date.now() + Math.min(15 * 60, 5 * Math.pow(2, attempts)) * 1000);
+    if (deadLetter) logger.error(`Outbox event ${event.id} (${event.eventType}) dead-lettered after ${attempts} attempts: ${lastError}`);
+    else logger.warn(`Outbox event ${event.id} (${event.eventType}) failed (attempt ${attempts}): ${lastError}`);
+
+    return this.prisma.outboxEvent.update({
+      where: { id: event.id },
+      data: { status: deadLetter ? 'dead_lettered' : 'failed', lastError, nextAttemptAt },
+    });
+  }
+}
+
+export const outboxService = new OutboxService();
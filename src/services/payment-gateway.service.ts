@@ -0,0 +1,558 @@
+import crypto from 'crypto';
+import Razorpay from 'razorpay';
+import type { Payment } from '@prisma/client';
+import { prisma } from '@/config/database';
+import { config } from '@/config/environment';
+import { logger } from '@/utils/logger';
+import { ValidationError } from '@/middleware/error-handler';
+import cashfreeService from './cashfree.service';
+
+export type PaymentStatus = 'paid' | 'failed' | 'pending' | 'processing';
+
+export interface GatewayOrderRequest {
+  payment: Payment;
+  customer: { id: string; email?: string | null; phone?: string | null; name?: string | null };
+  description?: string;
+}
+
+export interface GatewayOrderResult {
+  gatewayOrderId: string;
+  // What the client SDK needs to open the gateway checkout
+  checkout: Record<string, any>;
+}
+
+export interface GatewayVerifyResult {
+  status: PaymentStatus;
+  gatewayTransactionId?: string;
+}
+
+export interface GatewayRefundRequest {
+  refundId: string;
+  payment: Payment & { order?: { cashfreeOrderId: string | null } | null };
+  amount: number;
+  note?: string;
+  gatewayRefundId?: string | null;
+}
+
+export interface GatewayRefundResult {
+  status: 'processing' | 'succeeded' | 'failed';
+  gatewayRefundId?: string;
+  failureReason?: string;
+}
+
+export interface GatewayMandateChargeRequest {
+  // Unique per attempt; the gateway uses it to drop duplicate charges
+  chargeId: string;
+  // Stable across attempts (the billing invoice id); Razorpay collects every attempt on one order
+  reference: string;
+  // Razorpay token id or Cashfree subscription id the customer authorised
+  mandateId: string;
+  mandateCustomerId?: string | null;
+  amount: number;
+  currency: string;
+  customer: GatewayOrderRequest['customer'];
+  description?: string;
+}
+
+export interface GatewayMandateChargeResult {
+  status: PaymentStatus;
+  gatewayChargeId?: string;
+  failureReason?: string;
+}
+
+export interface GatewayWebhookEvent {
+  kind: 'payment' | 'refund' | 'unknown';
+  eventType: string;
+  // Stable id of the gateway event, used to drop duplicate deliveries
+  eventId?: string;
+  status?: PaymentStatus;
+  refundStatus?: GatewayRefundResult['status'];
+  gatewayOrderId?: string;
+  gatewayTransactionId?: string;
+  refundId?: string;
+  gatewayRefundId?: string;
+  amount?: number;
+}
+
+// What applying a webhook event did: unmatched events are retried, ignored ones are not, and
+// mismatched ones (e.g. a different amount) are dead-lettered for an admin to review
+export type GatewayEventOutcome = 'applied' | 'ignored' | 'unmatched' | 'mismatched';
+
+/**
+ * Everything the platform needs from a payment gateway. Implementations must not throw for
+ * gateway-side declines; they report them through the returned status instead.
+ */
+export interface PaymentGatewayAdapter {
+  readonly name: string;
+  // Header carrying the gateway's unique delivery id, when it sends one
+  readonly eventIdHeader?: string;
+  createOrder(request: GatewayOrderRequest): Promise<GatewayOrderResult>;
+  verifyPayment(payment: Payment, payload: Record<string, any>): Promise<GatewayVerifyResult>;
+  refund(request: GatewayRefundRequest): Promise<GatewayRefundResult>;
+  getRefundStatus(request: GatewayRefundRequest): Promise<GatewayRefundResult>;
+  parseWebhook(payload: any): GatewayWebhookEvent;
+  validateSignature(rawBody: string, headers: Record<string, string | string[] | undefined>): boolean;
+  // Recurring charges against a mandate; gateways that cannot debit mandates leave these out
+  chargeMandate?(request: GatewayMandateChargeRequest): Promise<GatewayMandateChargeResult>;
+  // Looks the charge up by request.chargeId when the gateway never returned its own id
+  getMandateChargeStatus?(request: GatewayMandateChargeRequest, gatewayChargeId?: string | null): Promise<GatewayMandateChargeResult>;
+}
+
+const header = (headers: Record<string, string | string[] | undefined>, name: string) => {
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// Only a 4xx the gateway answered with proves a charge was refused. Timeouts, network errors, 5xx,
+// duplicates (409) and throttling (429) may still have debited the customer.
+const isRejection = (status: unknown) => {
+  const code = Number(status);
+  return code >= 400 && code < 500 && code !== 408 && code !== 409 && code !== 429;
+};
+
+export class CashfreeGateway implements PaymentGatewayAdapter {
+  readonly name = 'cashfree';
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrderResult> {
+    const order = await cashfreeService.createOrder({
+      orderId: request.payment.id,
+      amount: request.payment.amount.toNumber(),
+      currency: request.payment.currency,
+      customer: request.customer,
+      returnUrl: config.payment.returnUrl,
+      note: request.description,
+    });
+    return { gatewayOrderId: order.order_id, checkout: { paymentSessionId: order.payment_session_id, cfOrderId: order.cf_order_id } };
+  }
+
+  async verifyPayment(payment: Payment): Promise<GatewayVerifyResult> {
+    const orderId = payment.gatewayOrderId || payment.id;
+    const order = await cashfreeService.getOrder(orderId);
+    const status = (order.order_status || '').toUpperCase();
+    if (status === 'PAID') {
+      const payments = await cashfreeService.getOrderPayments(orderId).catch(() => []);
+      const captured = payments.find(p => (p.payment_status || '').toUpperCase() === 'SUCCESS');
+      return { status: 'paid', gatewayTransactionId: captured ? String(captured.cf_payment_id) : undefined };
+    }
+    if (status === 'EXPIRED' || status === 'TERMINATED') return { status: 'failed' };
+    return { status: 'pending' };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    try {
+      const result = await cashfreeService.createRefund(this.orderId(request.payment), {
+        refundId: request.refundId,
+        amount: request.amount,
+        note: request.note,
+      });
+      return { status: cashfreeService.parseRefundStatus(result.refund_status), gatewayRefundId: result.cf_refund_id, failureReason: result.status_description };
+    } catch (error: any) {
+      const failureReason = error.response?.data?.message || error.message;
+      // Cashfree may have accepted it; the refund id is ours, so syncPendingRefunds can look it up
+      return { status: isRejection(error.response?.status) ? 'failed' : 'processing', failureReason };
+    }
+  }
+
+  async getRefundStatus(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    try {
+      const result = await cashfreeService.getRefund(this.orderId(request.payment), request.refundId);
+      return { status: cashfreeService.parseRefundStatus(result.refund_status), gatewayRefundId: result.cf_refund_id, failureReason: result.status_description };
+    } catch (error: any) {
+      if (error.response?.status !== 404) throw error;
+      return { status: 'failed', failureReason: 'Refund never reached Cashfree' };
+    }
+  }
+
+  parseWebhook(payload: any): GatewayWebhookEvent {
+    const eventType = String(payload?.type || payload?.event || '');
+    const data = payload?.data || {};
+    if (data.refund) {
+      return {
+        kind: 'refund',
+        eventType,
+        eventId: `${data.refund.cf_refund_id || data.refund.refund_id}:${data.refund.refund_status}`,
+        refundStatus: cashfreeService.parseRefundStatus(data.refund.refund_status),
+        refundId: data.refund.refund_id,
+        gatewayRefundId: data.refund.cf_refund_id ? String(data.refund.cf_refund_id) : undefined,
+        gatewayOrderId: data.refund.order_id,
+        amount: data.refund.refund_amount,
+      };
+    }
+    if (data.payment || data.order) {
+      return {
+        kind: 'payment',
+        eventType,
+        eventId: data.payment?.cf_payment_id ? `${data.payment.cf_payment_id}:${data.payment.payment_status}` : undefined,
+        status: cashfreeService.parsePaymentStatus({ status: data.payment?.payment_status || eventType }),
+        gatewayOrderId: data.order?.order_id,
+        gatewayTransactionId: data.payment?.cf_payment_id ? String(data.payment.cf_payment_id) : undefined,
+        amount: data.payment?.payment_amount ?? data.order?.order_amount,
+      };
+    }
+    // Legacy flat payloads (txStatus/orderId/txnId)
+    return {
+      kind: payload?.orderId || payload?.txnId ? 'payment' : 'unknown',
+      eventType,
+      status: cashfreeService.parsePaymentStatus(payload || {}),
+      gatewayOrderId: payload?.orderId || payload?.order_id,
+      gatewayTransactionId: payload?.txnId || payload?.transactionId || payload?.txnid || payload?.txId,
+    };
+  }
+
+  validateSignature(rawBody: string, headers: Record<string, string | string[] | undefined>): boolean {
+    const signature = header(headers, 'x-webhook-signature');
+    if (signature) return cashfreeService.validateWebhookSignature(rawBody, header(headers, 'x-webhook-timestamp'), signature);
+    // Older integrations sign the body with x-cashfree-signature
+    return cashfreeService.validateSignature(rawBody, header(headers, 'x-cashfree-signature'));
+  }
+
+  async chargeMandate(request: GatewayMandateChargeRequest): Promise<GatewayMandateChargeResult> {
+    try {
+      const result = await cashfreeService.chargeSubscription(request.mandateId, {
+        paymentId: request.chargeId,
+        amount: request.amount,
+        remarks: request.description,
+      });
+      return {
+        status: cashfreeService.parseSubscriptionPaymentStatus(result.payment_status),
+        gatewayChargeId: result.payment_id || request.chargeId,
+        failureReason: result.failure_details?.failure_reason,
+      };
+    } catch (error: any) {
+      const failureReason = error.response?.data?.message || error.message;
+      if (isRejection(error.response?.status)) return { status: 'failed', gatewayChargeId: request.chargeId, failureReason };
+      // The payment id is ours, so the charge can be looked up later whether or not it went through
+      return { status: 'processing', gatewayChargeId: request.chargeId, failureReason };
+    }
+  }
+
+  async getMandateChargeStatus(request: GatewayMandateChargeRequest, gatewayChargeId?: string | null): Promise<GatewayMandateChargeResult> {
+    const paymentId = gatewayChargeId || request.chargeId;
+    try {
+      const result = await cashfreeService.getSubscriptionPayment(request.mandateId, paymentId);
+      return {
+        status: cashfreeService.parseSubscriptionPaymentStatus(result.payment_status),
+        gatewayChargeId: paymentId,
+        failureReason: result.failure_details?.failure_reason,
+      };
+    } catch (error: any) {
+      if (error.response?.status !== 404) throw error;
+      return { status: 'failed', gatewayChargeId: paymentId, failureReason: 'Charge never reached Cashfree' };
+    }
+  }
+
+  // Cashfree refunds are addressed by the merchant order id the payment was collected under
+  private orderId(payment: GatewayRefundRequest['payment']) {
+    return payment.gatewayOrderId || payment.order?.cashfreeOrderId || payment.gatewayTransactionId || payment.id;
+  }
+}
+
+export class RazorpayGateway implements PaymentGatewayAdapter {
+  readonly name = 'razorpay';
+  readonly eventIdHeader = 'x-razorpay-event-id';
+  private client: Razorpay | null = null;
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrderResult> {
+    const order = await this.api().orders.create({
+      amount: Math.round(request.payment.amount.toNumber() * 100),
+      currency: request.payment.currency,
+      receipt: request.payment.id,
+      notes: { paymentId: request.payment.id, ...(request.description ? { description: request.description } : {}) },
+    });
+    return {
+      gatewayOrderId: order.id,
+      checkout: {
+        key: config.payment.razorpay.keyId,
+        orderId: order.id,
+        amount: order.amount,
+        currency: order.currency,
+        prefill: { name: request.customer.name, email: request.customer.email, contact: request.customer.phone },
+      },
+    };
+  }
+
+  async verifyPayment(payment: Payment, payload: Record<string, any>): Promise<GatewayVerifyResult> {
+    const orderId = payload.razorpay_order_id || payment.gatewayOrderId;
+    const paymentId = payload.razorpay_payment_id;
+    const signature = payload.razorpay_signature;
+    if (!orderId || !paymentId || !signature || orderId !== payment.gatewayOrderId) return { status: 'failed' };
+
+    const expected = crypto.createHmac('sha256', this.secret()).update(`${orderId}|${paymentId}`).digest('hex');
+    const valid = expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+    return valid ? { status: 'paid', gatewayTransactionId: paymentId } : { status: 'failed' };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    if (!request.payment.gatewayTransactionId) return { status: 'failed', failureReason: 'Payment has no Razorpay payment id' };
+    try {
+      const refund = await this.api().payments.refund(request.payment.gatewayTransactionId, {
+        amount: Math.round(request.amount * 100),
+        receipt: request.refundId,
+        notes: { refundId: request.refundId, ...(request.note ? { note: request.note } : {}) },
+      });
+      return { status: this.mapRefundStatus(refund.status), gatewayRefundId: refund.id };
+    } catch (error: any) {
+      const failureReason = error.error?.description || error.message;
+      // Razorpay may have accepted it; syncPendingRefunds finds it by its receipt
+      return { status: isRejection(error.statusCode) ? 'failed' : 'processing', failureReason };
+    }
+  }
+
+  async getRefundStatus(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    if (!request.payment.gatewayTransactionId) return { status: 'processing' };
+    if (request.gatewayRefundId) {
+      const refund = await this.api().payments.fetchRefund(request.payment.gatewayTransactionId, request.gatewayRefundId);
+      return { status: this.mapRefundStatus(refund.status), gatewayRefundId: refund.id };
+    }
+    // The request never returned a refund id; find the refund by the receipt it carried
+    const { items } = await this.api().payments.fetchMultipleRefund(request.payment.gatewayTransactionId, { count: 100 });
+    const refund = items.find(r => r.receipt === request.refundId || r.notes?.refundId === request.refundId);
+    if (!refund) return { status: 'failed', failureReason: 'Refund never reached Razorpay' };
+    return { status: this.mapRefundStatus(refund.status), gatewayRefundId: refund.id };
+  }
+
+  parseWebhook(payload: any): GatewayWebhookEvent {
+    const eventType = String(payload?.event || '');
+    const refund = payload?.payload?.refund?.entity;
+    const payment = payload?.payload?.payment?.entity;
+    if (eventType.startsWith('refund.') && refund) {
+      return {
+        kind: 'refund',
+        eventType,
+        eventId: `${refund.id}:${eventType}`,
+        refundStatus: this.mapRefundStatus(refund.status),
+        refundId: refund.notes?.refundId || refund.receipt,
+        gatewayRefundId: refund.id,
+        gatewayTransactionId: refund.payment_id,
+        amount: refund.amount / 100,
+      };
+    }
+    if (eventType.startsWith('payment.') && payment) {
+      const status: PaymentStatus = eventType === 'payment.captured' ? 'paid' : eventType === 'payment.failed' ? 'failed' : 'processing';
+      return {
+        kind: 'payment',
+        eventType,
+        eventId: `${payment.id}:${eventType}`,
+        status,
+        gatewayOrderId: payment.order_id,
+        gatewayTransactionId: payment.id,
+        amount: payment.amount / 100,
+      };
+    }
+    return { kind: 'unknown', eventType };
+  }
+
+  validateSignature(rawBody: string, headers: Record<string, string | string[] | undefined>): boolean {
+    const signature = header(headers, 'x-razorpay-signature');
+    const secret = config.payment.razorpay.webhookSecret;
+    if (!signature || !secret) return false;
+    return Razorpay.validateWebhookSignature(rawBody, signature, secret);
+  }
+
+  /**
+   * Charge a saved recurring token: a recurring payment against the order kept for the reference.
+   * Every attempt shares that order, so Razorpay refuses to collect it twice. Razorpay captures
+   * asynchronously, so the charge is reported as processing.
+   */
+  async chargeMandate(request: GatewayMandateChargeRequest): Promise<GatewayMandateChargeResult> {
+    if (!request.mandateCustomerId) return { status: 'failed', failureReason: 'Mandate has no Razorpay customer id' };
+    try {
+      const amount = Math.round(request.amount * 100);
+      const notes = { chargeId: request.chargeId };
+      const order = await this.findMandateOrder(request.reference)
+        || await this.api().orders.create({ amount, currency: request.currency, receipt: request.reference.slice(0, 40), notes: { reference: request.reference } });
+      if (order.status === 'paid') {
+        const { items } = await this.api().orders.fetchPayments(order.id);
+        return { status: 'paid', gatewayChargeId: items.find(p => p.status === 'captured')?.id };
+      }
+      const payment = await this.api().payments.createRecurringPayment({
+        email: request.customer.email || '',
+        contact: request.customer.phone || '',
+        amount,
+        currency: request.currency,
+        order_id: order.id,
+        customer_id: request.mandateCustomerId,
+        token: request.mandateId,
+        recurring: '1',
+        description: request.description,
+        notes,
+      });
+      return { status: 'processing', gatewayChargeId: payment.razorpay_payment_id || undefined };
+    } catch (error: any) {
+      const failureReason = error.error?.description || error.message;
+      // A rejected attempt leaves the order open for the next one
+      if (isRejection(error.statusCode)) return { status: 'failed', failureReason };
+      return { status: 'processing', failureReason };
+    }
+  }
+
+  async getMandateChargeStatus(request: GatewayMandateChargeRequest, gatewayChargeId?: string | null): Promise<GatewayMandateChargeResult> {
+    let payment: { id: string; status: string; error_description?: string | null } | undefined;
+    if (gatewayChargeId) {
+      payment = await this.api().payments.fetch(gatewayChargeId);
+    } else {
+      // The attempt never returned a payment id; find it on the order through the notes it carried
+      const order = await this.findMandateOrder(request.reference);
+      const { items } = order ? await this.api().orders.fetchPayments(order.id) : { items: [] };
+      payment = items.find(p => p.notes?.chargeId === request.chargeId);
+      if (!payment) return { status: 'failed', failureReason: 'Charge never reached Razorpay' };
+    }
+    const status: PaymentStatus = payment.status === 'captured' ? 'paid' : payment.status === 'failed' ? 'failed' : 'processing';
+    return { status, gatewayChargeId: payment.id, failureReason: payment.error_description || undefined };
+  }
+
+  private async findMandateOrder(reference: string) {
+    const { items } = await this.api().orders.all({ receipt: reference.slice(0, 40) });
+    return items[0];
+  }
+
+  private mapRefundStatus(status?: string): GatewayRefundResult['status'] {
+    if (status === 'processed') return 'succeeded';
+    if (status === 'failed') return 'failed';
+    return 'processing';
+  }
+
+  private secret() {
+    if (!config.payment.razorpay.keySecret) throw new Error('Razorpay is not configured');
+    return config.payment.razorpay.keySecret;
+  }
+
+  private api() {
+    if (!this.client) {
+      this.client = new Razorpay({ key_id: config.payment.razorpay.keyId, key_secret: this.secret() });
+    }
+    return this.client;
+  }
+}
+
+/**
+ * In-memory gateway for integration tests, registered only with PAYMENT_FAKE_GATEWAY_ENABLED=true. Orders are "paid" by
+ * verifying with `{ status: 'paid' }`, and webhooks are signed with FakeGateway.WEBHOOK_SECRET.
+ * Mandate charges succeed unless the mandate id starts with FakeGateway.DECLINED_MANDATE_PREFIX.
+ */
+export class FakeGateway implements PaymentGatewayAdapter {
+  static readonly WEBHOOK_SECRET = 'fake_webhook_secret';
+  static readonly DECLINED_MANDATE_PREFIX = 'fake_declined';
+  readonly name = 'fake';
+  private orders = new Map<string, { paymentId: string; amount: number; status: PaymentStatus; transactionId?: string }>();
+  private refunds = new Map<string, GatewayRefundResult>();
+  private charges = new Map<string, GatewayMandateChargeResult>();
+
+  async createOrder(request: GatewayOrderRequest): Promise<GatewayOrderResult> {
+    const gatewayOrderId = `fake_order_${crypto.randomBytes(8).toString('hex')}`;
+    this.orders.set(gatewayOrderId, { paymentId: request.payment.id, amount: request.payment.amount.toNumber(), status: 'pending' });
+    return { gatewayOrderId, checkout: { orderId: gatewayOrderId } };
+  }
+
+  async verifyPayment(payment: Payment, payload: Record<string, any>): Promise<GatewayVerifyResult> {
+    const order = payment.gatewayOrderId ? this.orders.get(payment.gatewayOrderId) : undefined;
+    const status: PaymentStatus = payload.status === 'failed' ? 'failed' : 'paid';
+    const transactionId = payload.transactionId || `fake_txn_${crypto.randomBytes(8).toString('hex')}`;
+    if (order) Object.assign(order, { status, transactionId });
+    return { status, gatewayTransactionId: status === 'paid' ? transactionId : undefined };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const result: GatewayRefundResult = { status: 'succeeded', gatewayRefundId: `fake_refund_${request.refundId}` };
+    this.refunds.set(request.refundId, result);
+    return result;
+  }
+
+  async getRefundStatus(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    return this.refunds.get(request.refundId) || { status: 'failed', failureReason: 'Unknown refund' };
+  }
+
+  async chargeMandate(request: GatewayMandateChargeRequest): Promise<GatewayMandateChargeResult> {
+    const result: GatewayMandateChargeResult = request.mandateId.startsWith(FakeGateway.DECLINED_MANDATE_PREFIX)
+      ? { status: 'failed', gatewayChargeId: `fake_charge_${request.chargeId}`, failureReason: 'Mandate declined' }
+      : { status: 'paid', gatewayChargeId: `fake_charge_${request.chargeId}` };
+    this.charges.set(request.chargeId, result);
+    return result;
+  }
+
+  async getMandateChargeStatus(request: GatewayMandateChargeRequest): Promise<GatewayMandateChargeResult> {
+    return this.charges.get(request.chargeId) || { status: 'failed', failureReason: 'Unknown charge' };
+  }
+
+  parseWebhook(payload: any): GatewayWebhookEvent {
+    const eventType = String(payload?.event || '');
+    if (eventType.startsWith('refund.')) {
+      return { kind: 'refund', eventType, eventId: payload.id, refundStatus: payload.status, refundId: payload.refundId, gatewayRefundId: payload.gatewayRefundId };
+    }
+    if (eventType.startsWith('payment.')) {
+      return { kind: 'payment', eventType, eventId: payload.id, status: payload.status, gatewayOrderId: payload.orderId, gatewayTransactionId: payload.transactionId, amount: payload.amount };
+    }
+    return { kind: 'unknown', eventType };
+  }
+
+  validateSignature(rawBody: string, headers: Record<string, string | string[] | undefined>): boolean {
+    return header(headers, 'x-fake-signature') === FakeGateway.sign(rawBody);
+  }
+
+  static sign(rawBody: string) {
+    return crypto.createHmac('sha256', FakeGateway.WEBHOOK_SECRET).update(rawBody).digest('hex');
+  }
+}
+
+class PaymentGatewayRegistry {
+  private adapters = new Map<string, PaymentGatewayAdapter>();
+
+  constructor() {
+    this.register(new CashfreeGateway());
+    this.register(new RazorpayGateway());
+    // Anyone can mark a fake payment paid, so tests have to opt in explicitly
+    if (config.payment.fakeGatewayEnabled && config.env !== 'production') this.register(new FakeGateway());
+  }
+
+  register(adapter: PaymentGatewayAdapter) {
+    this.adapters.set(adapter.name, adapter);
+  }
+
+  has(name: string) {
+    return this.adapters.has(name);
+  }
+
+  list() {
+    return [...this.adapters.keys()];
+  }
+
+  get(name: string): PaymentGatewayAdapter {
+    const adapter = this.adapters.get(name);
+    if (!adapter) throw new ValidationError(`Unsupported payment gateway: ${name}`);
+    return adapter;
+  }
+
+  /**
+   * Pick the gateway for a payment: seller + method rule, seller rule, platform method rule, platform rule,
+   * then the PAYMENT_GATEWAY_BY_METHOD map and finally PAYMENT_DEFAULT_GATEWAY.
+   */
+  async resolve(params: { sellerId?: string | null; paymentMethod?: string }): Promise<string> {
+    try {
+      const rules = await prisma.paymentGatewayRule.findMany({
+        where: {
+          isActive: true,
+          AND: [
+            { OR: [{ sellerId: null }, ...(params.sellerId ? [{ sellerId: params.sellerId }] : [])] },
+            { OR: [{ paymentMethod: null }, ...(params.paymentMethod ? [{ paymentMethod: params.paymentMethod }] : [])] },
+          ],
+        },
+      });
+
+      // Seller rules outrank platform rules; method-specific rules outrank catch-alls
+      const rank = (rule: { sellerId: string | null; paymentMethod: string | null }) =>
+        (rule.sellerId ? 2 : 0) + (rule.paymentMethod ? 1 : 0);
+      const best = rules
+        .filter(rule => this.has(rule.gateway.toLowerCase()))
+        .sort((a, b) => rank(b) - rank(a))[0];
+      if (best) return best.gateway.toLowerCase();
+    } catch (error) {
+      logger.warn('Failed to load payment gateway rules', error);
+    }
+
+    const byMethod = params.paymentMethod ? config.payment.gatewayByMethod[params.paymentMethod] : undefined;
+    if (byMethod && this.has(byMethod)) return byMethod;
+    return config.payment.defaultGateway;
+  }
+}
+
+export const paymentGateways = new PaymentGatewayRegistry();
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { PaymentWebhookEvent } from '@prisma/client';
+import { BaseService } from './base.service';
+import { logger } from '../utils/logger';
+import { config } from '../config/environment';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+import { paymentGateways } from './payment-gateway.service';
+import type { GatewayEventOutcome } from './payment-gateway.service';
+import { paymentService } from './payment.service';
+import { refundService } from './refund.service';
+
+// Headers worth keeping for audits and replays; credentials and cookies are dropped
+const STORED_HEADER_PATTERN = /^(content-type|user-agent|x-webhook-.*|x-cashfree-.*|x-razorpay-.*|x-fake-.*)$/i;
+// An event stuck in processing this long is assumed to belong to a crashed worker
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+export interface IngestResult {
+  event: PaymentWebhookEvent;
+  duplicate: boolean;
+}
+
+/**
+ * Store-then-process ingestion for payment gateway webhooks. Every delivery is persisted with its
+ * raw body before anything is applied; duplicates are dropped by (gateway, dedupeKey), failures retry
+ * with backoff and end up dead-lettered for an admin to replay.
+ */
+export class PaymentWebhookService extends BaseService {
+  async ingest(gateway: string, rawBody: string, headers: Record<string, string | string[] | undefined>): Promise<IngestResult> {
+    const adapter = paymentGateways.get(gateway);
+    const signatureValid = adapter.validateSignature(rawBody, headers);
+
+    let payload: any = null;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      // Kept as received; processing will dead-letter it
+    }
+    const parsed = payload ? adapter.parseWebhook(payload) : null;
+
+    // Unsigned deliveries get a unique key so they can never shadow the genuine event
+    const headerId = adapter.eventIdHeader ? headers[adapter.eventIdHeader] : undefined;
+    const dedupeKey = !signatureValid
+      ? `rejected:${crypto.randomUUID()}`
+      : (Array.isArray(headerId) ? headerId[0] : headerId) || parsed?.eventId || crypto.createHash('sha256').update(rawBody).digest('hex');
+
+    const storedHeaders = Object.fromEntries(
+      Object.entries(headers).filter(([name, value]) => value !== undefined && STORED_HEADER_PATTERN.test(name))
+    );
+
+    try {
+      const event = await this.prisma.paymentWebhookEvent.create({
+        data: {
+          gateway,
+          dedupeKey: dedupeKey.slice(0, 255),
+          eventType: parsed?.eventType || null,
+          signatureValid,
+          headers: storedHeaders as Prisma.InputJsonValue,
+          rawBody,
+          status: signatureValid ? 'received' : 'rejected',
+        },
+      });
+      if (!signatureValid) logger.warn(`Rejected ${gateway} webhook ${event.id}: invalid signature`);
+      return { event, duplicate: false };
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const existing = await this.prisma.paymentWebhookEvent.findUnique({ where: { gateway_dedupeKey: { gateway, dedupeKey } } });
+        if (existing) return { event: existing, duplicate: true };
+      }
+      logger.error('Error storing payment webhook:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply one stored event. Safe to call concurrently: only the caller that claims the row processes it.
+   */
+  async processEvent(id: string): Promise<PaymentWebhookEvent | null> {
+    const claimed = await this.prisma.paymentWebhookEvent.updateMany({
+      where: { id, status: { in: ['received', 'failed'] } },
+      data: { status: 'processing', attempts: { increment: 1 } },
+    });
+    if (!claimed.count) return null;
+
+    const event = await this.prisma.paymentWebhookEvent.findUnique({ where: { id } });
+    if (!event) return null;
+
+    try {
+      const parsed = paymentGateways.get(event.gateway).parseWebhook(JSON.parse(event.rawBody));
+      let outcome: GatewayEventOutcome = 'ignored';
+      if (parsed.kind === 'payment') outcome = await paymentService.applyGatewayEvent(event.gateway, parsed);
+      if (parsed.kind === 'refund') outcome = await refundService.applyGatewayEvent(parsed);
+
+      // The payment or refund may not be recorded yet (e.g. the webhook beat our own write), so retry
+      if (outcome === 'unmatched') throw new Error(`No ${parsed.kind} matches this event`);
+      // Retrying cannot fix a mismatch, so it goes straight to review
+      if (outcome === 'mismatched') {
+        logger.error(`Payment webhook ${id} dead-lettered: amount does not match the ${parsed.kind}`);
+        return this.prisma.paymentWebhookEvent.update({
+          where: { id },
+          data: { status: 'dead_lettered', lastError: `Event amount ${parsed.amount} does not match the ${parsed.kind}` },
+        });
+      }
+
+      return this.prisma.paymentWebhookEvent.update({
+        where: { id },
+        data: { status: outcome === 'applied' ? 'processed' : 'ignored', lastError: null, processedAt: new Date() },
+      });
+    } catch (error: any) {
+      return this.fail(event, error?.message || String(error));
+    }
+  }
+
+  /**
+   * Drain events that are due, oldest first.
+   */
+  async processPending(limit = 50) {
+    await this.prisma.paymentWebhookEvent.updateMany({
+      where: { status: 'processing', updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+      data: { status: 'failed', lastError: 'Processing timed out' },
+    });
+
+    const due = await this.prisma.paymentWebhookEvent.findMany({
+      where: { status: { in: ['received', 'failed'] }, nextAttemptAt: { lte: new Date() } },
+      orderBy: { receivedAt: 'asc' },
+      select: { id: true },
+      take: limit,
+    });
+
+    const result = { processed: 0, ignored: 0, failed: 0, deadLettered: 0 };
+    for (const { id } of due) {
+      const event = await this.processEvent(id);
+      if (event?.status === 'processed') result.processed++;
+      else if (event?.status === 'ignored') result.ignored++;
+      else if (event?.status === 'failed') result.failed++;
+      else if (event?.status === 'dead_lettered') result.deadLettered++;
+    }
+    return result;
+  }
+
+  /**
+   * Re-run a stored event immediately, typically one that was dead-lettered. Transitions are
+   * guarded downstream, so replaying an already applied event changes nothing.
+   */
+  async replay(id: string): Promise<PaymentWebhookEvent> {
+    const event = await this.getById(id);
+    if (!event.signatureValid) throw new ValidationError('Events with an invalid signature cannot be replayed');
+    if (event.status === 'processing') throw new ValidationError('Event is being processed');
+
+    await this.prisma.paymentWebhookEvent.update({
+      where: { id },
+      data: { status: 'received', attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+    logger.info(`Replaying ${event.gateway} webhook ${id}`);
+    return (await this.processEvent(id)) || this.getById(id);
+  }
+
+  async getById(id: string) {
+    const event = await this.prisma.paymentWebhookEvent.findUnique({ where: { id } });
+    if (!event) throw new NotFoundError('Webhook event not found');
+    return event;
+  }
+
+  async list(filters: { status?: string; gateway?: string }, page = 1, limit = 20) {
+    const where: Prisma.PaymentWebhookEventWhereInput = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.gateway) where.gateway = filters.gateway;
+
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.paymentWebhookEvent.findMany({
+        where,
+        omit: { rawBody: true },
+        orderBy: { receivedAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.paymentWebhookEvent.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
+  }
+
+  private async fail(event: PaymentWebhookEvent, lastError: string) {
+    // The claim in processEvent already counted this attempt
+    const attempts = event.attempts;
+    const deadLetter = attempts >= config.payment.webhookMaxAttempts;
+    // 2, 4, 8, ... minutes between attempts
+    const nextAttemptAt = new Date(Date.now() + Math.pow(2, attempts) * 60 * 1000);
+    if (deadLetter) logger.error(`Payment webhook ${event.id} dead-lettered after ${attempts} attempts: ${lastError}`);
+    else logger.warn(`Payment webhook ${event.id} failed (attempt ${attempts}): ${lastError}`);
+
+    return this.prisma.paymentWebhookEvent.update({
+      where: { id: event.id },
+      data: { status: deadLetter ? 'dead_lettered' : 'failed', lastError, nextAttemptAt },
+    });
+  }
+}
+
+export const paymentWebhookService = new PaymentWebhookService();
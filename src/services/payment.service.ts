@@ -1,7 +1,12 @@
+import { PaymentGateway, Prisma } from '@prisma/client';
 import { BaseService } from './base.service';
 import { prisma } from '@/config/database';
 import { OrderService } from './order.service';
-import { ValidationError, NotFoundError } from '@/middleware/error-handler';
+import { ValidationError, NotFoundError, ConflictError } from '@/middleware/error-handler';
+import { paymentGateways } from './payment-gateway.service';
+import type { GatewayEventOutcome, GatewayWebhookEvent } from './payment-gateway.service';
+import { logger } from '@/utils/logger';
+import { outboxService } from './outbox.service';
 
 export interface CreatePaymentParams {
   orderId: string;
@@ -11,6 +16,18 @@ export interface CreatePaymentParams {
   gatewayTransactionId?: string;
 }
 
+// Allowed payment status moves. Anything else, e.g. paid -> pending from a late webhook, is rejected.
+const PAYMENT_TRANSITIONS: Record<string, string[]> = {
+  pending: ['processing', 'paid', 'failed'],
+  processing: ['paid', 'failed'],
+  failed: ['processing', 'paid'],
+  paid: ['partially_refunded', 'refunded'],
+  partially_refunded: ['refunded'],
+  refunded: [],
+};
+
+export const canTransitionPayment = (from: string, to: string) => (PAYMENT_TRANSITIONS[from] || []).includes(to);
+
 class PaymentService extends BaseService {
   private orderService: OrderService;
   constructor() {
@@ -20,12 +37,19 @@ class PaymentService extends BaseService {
 
   async create(params: CreatePaymentParams) {
     if (!params.orderId || !params.amount) throw new ValidationError('orderId and amount required');
+    const order = await prisma.order.findUnique({ where: { id: params.orderId }, select: { sellerId: true } });
+    if (!order) throw new NotFoundError('Order not found');
+    const paymentMethod = params.paymentMethod || 'upi';
+    const paymentGateway = params.paymentGateway || await paymentGateways.resolve({ sellerId: order.sellerId, paymentMethod });
+    // Validates the explicit choice too
+    paymentGateways.get(paymentGateway);
+
     const payment = await prisma.payment.create({
       data: {
         orderId: params.orderId,
         amount: Number(params.amount),
-        paymentMethod: params.paymentMethod || 'upi',
-        paymentGateway: params.paymentGateway || 'cashfree',
+        paymentMethod,
+        paymentGateway,
         gatewayTransactionId: params.gatewayTransactionId,
         status: 'pending'
       }
@@ -39,13 +63,162 @@ class PaymentService extends BaseService {
     return payment;
   }
 
-  async verify(id: string, status?: string, gatewayTransactionId?: string) {
-    const payment = await prisma.payment.update({ where: { id }, data: { status: status || 'processing', gatewayTransactionId } });
+  /**
+   * Open the payment on its gateway and return what the client SDK needs to collect it.
+   */
+  async initiate(id: string) {
+    const payment = await this.get(id);
+    if (payment.status !== 'pending') throw new ConflictError(`Payment is already ${payment.status}`);
+    if (payment.gatewayOrderId) throw new ConflictError('Payment has already been initiated', { gatewayOrderId: payment.gatewayOrderId });
+
+    const buyerId = payment.orderId
+      ? (await prisma.order.findUnique({ where: { id: payment.orderId }, select: { buyerId: true } }))?.buyerId
+      : payment.checkoutId
+        ? (await prisma.checkout.findUnique({ where: { id: payment.checkoutId }, select: { buyerId: true } }))?.buyerId
+        : undefined;
+    const buyer = buyerId
+      ? await prisma.user.findUnique({ where: { id: buyerId }, select: { id: true, email: true, phone: true, firstName: true, lastName: true, businessName: true } })
+      : null;
+    if (!buyer) throw new ValidationError('Payment has no buyer to collect from');
+
+    const gateway = paymentGateways.get(payment.paymentGateway);
+    const result = await gateway.createOrder({
+      payment,
+      customer: {
+        id: buyer.id,
+        email: buyer.email,
+        phone: buyer.phone,
+        name: buyer.businessName || [buyer.firstName, buyer.lastName].filter(Boolean).join(' ') || null,
+      },
+      description: payment.orderId ? `Order payment ${payment.orderId}` : `Checkout payment ${payment.checkoutId}`,
+    });
+
+    const updated = await prisma.payment.update({ where: { id }, data: { gatewayOrderId: result.gatewayOrderId } });
+    logger.info(`Payment ${id} initiated on ${gateway.name}: ${result.gatewayOrderId}`);
+    return { payment: updated, gateway: gateway.name, checkout: result.checkout };
+  }
+
+  /**
+   * Confirm a payment with its gateway (client callback payload or a status lookup) before settling it.
+   */
+  async verifyWithGateway(id: string, payload: Record<string, any> = {}) {
+    const payment = await this.get(id);
+    if (payment.status === 'paid') return payment;
+    const result = await paymentGateways.get(payment.paymentGateway).verifyPayment(payment, payload);
+    if (result.status !== payment.status && !canTransitionPayment(payment.status, result.status)) return payment;
+    return this.verify(id, result.status, result.gatewayTransactionId || payment.gatewayTransactionId || undefined);
+  }
+
+  /**
+   * Apply a parsed gateway payment webhook. Events that would move the payment backwards are ignored.
+   */
+  async applyGatewayEvent(gateway: string, event: GatewayWebhookEvent): Promise<GatewayEventOutcome> {
+    if (event.kind !== 'payment' || !event.status) return 'ignored';
+    if (!event.gatewayOrderId && !event.gatewayTransactionId) return 'unmatched';
+    const payment = await prisma.payment.findFirst({
+      where: {
+        paymentGateway: gateway,
+        OR: [
+          ...(event.gatewayOrderId ? [{ gatewayOrderId: event.gatewayOrderId }] : []),
+          ...(event.gatewayTransactionId ? [{ gatewayTransactionId: event.gatewayTransactionId }] : []),
+        ],
+      },
+    });
+    if (!payment) return 'unmatched';
+    if (!canTransitionPayment(payment.status, event.status)) {
+      logger.info(`Ignoring ${gateway} ${event.eventType} for payment ${payment.id}: ${payment.status} -> ${event.status} not allowed`);
+      return 'ignored';
+    }
+    // Compared in paise; a capture for a different amount must not settle the order
+    if (event.amount !== undefined && Math.round(event.amount * 100) !== Math.round(payment.amount.toNumber() * 100)) {
+      logger.error(`${gateway} ${event.eventType} for payment ${payment.id} is for ${event.amount}, expected ${payment.amount.toString()}`);
+      return 'mismatched';
+    }
+    await this.verify(payment.id, event.status, event.gatewayTransactionId || payment.gatewayTransactionId || undefined);
+    return 'applied';
+  }
+
+  async listGatewayRules(sellerId?: string | null) {
+    return prisma.paymentGatewayRule.findMany({
+      where: sellerId === undefined ? {} : { sellerId },
+      orderBy: [{ sellerId: 'asc' }, { paymentMethod: 'asc' }],
+    });
+  }
+
+  /**
+   * One rule per seller (or the platform) and payment method; saving again replaces the gateway.
+   */
+  async saveGatewayRule(data: { sellerId: string | null; paymentMethod?: string | null; gateway: 'razorpay' | 'cashfree'; isActive?: boolean }) {
+    const paymentMethod = data.paymentMethod ?? null;
+    const gateway = data.gateway === 'razorpay' ? PaymentGateway.RAZORPAY : PaymentGateway.CASHFREE;
+    const existing = await prisma.paymentGatewayRule.findFirst({ where: { sellerId: data.sellerId, paymentMethod } });
+    if (existing) {
+      return prisma.paymentGatewayRule.update({ where: { id: existing.id }, data: { gateway, isActive: data.isActive ?? true } });
+    }
+    return prisma.paymentGatewayRule.create({ data: { sellerId: data.sellerId, paymentMethod, gateway, isActive: data.isActive ?? true } });
+  }
+
+  async deleteGatewayRule(id: string) {
+    const rule = await prisma.paymentGatewayRule.findUnique({ where: { id } });
+    if (!rule) throw new NotFoundError('Gateway rule not found');
+    await prisma.paymentGatewayRule.delete({ where: { id } });
+  }
+
+  async verify(id: string, status = 'processing', gatewayTransactionId?: string) {
+    const current = await this.get(id);
+    if (current.status === status) return current;
+    if (!canTransitionPayment(current.status, status)) {
+      throw new ConflictError(`Payment cannot move from ${current.status} to ${status}`);
+    }
+
+    // Conditional on the status we read, so concurrent callbacks and webhooks settle it only once
+    const moved = await prisma.$transaction(async (tx) => {
+      const result = await tx.payment.updateMany({ where: { id, status: current.status }, data: { status, gatewayTransactionId } });
+      if (result.count && (status === 'paid' || status === 'failed')) {
+        await this.recordPaymentEvent(tx, id, status === 'paid' ? 'payment.captured' : 'payment.failed');
+      }
+      return result;
+    });
+    if (!moved.count) return this.get(id);
+    const payment = await this.get(id);
     if (payment.orderId && payment.status === 'paid') {
       await this.orderService.updatePaymentStatus(payment.orderId, 'paid');
     }
+    // A checkout payment settles every seller order created from the cart
+    if (payment.checkoutId && payment.status === 'paid') {
+      await prisma.checkout.update({ where: { id: payment.checkoutId }, data: { status: 'paid' } });
+      const orders = await prisma.order.findMany({ where: { checkoutId: payment.checkoutId }, select: { id: true } });
+      for (const order of orders) {
+        await this.orderService.updatePaymentStatus(order.id, 'paid');
+      }
+    }
     return payment;
   }
+
+  // Buyer and every seller whose order the payment covers receive the event
+  private async recordPaymentEvent(tx: Prisma.TransactionClient, id: string, type: 'payment.captured' | 'payment.failed') {
+    const payment = await tx.payment.findUniqueOrThrow({ where: { id } });
+    const orders = payment.orderId || payment.checkoutId
+      ? await tx.order.findMany({
+        where: payment.orderId ? { id: payment.orderId } : { checkoutId: payment.checkoutId },
+        select: { buyerId: true, sellerId: true },
+      })
+      : [];
+    await outboxService.record(tx, {
+      type,
+      aggregateId: id,
+      recipients: orders.flatMap(order => [order.buyerId, order.sellerId]),
+      data: {
+        paymentId: id,
+        orderId: payment.orderId,
+        checkoutId: payment.checkoutId,
+        amount: payment.amount.toNumber(),
+        currency: payment.currency,
+        gateway: payment.paymentGateway,
+        gatewayTransactionId: payment.gatewayTransactionId,
+      },
+    });
+  }
 }
 
 export const paymentService = new PaymentService();
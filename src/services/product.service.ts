@@ -3,10 +3,9 @@ import { BaseService } from './base.service';
 import { logger } from '../utils/logger';
 // minioClient intentionally not used in this service yet
 import { elasticsearchService } from './elasticsearch.service';
-import elasticsearchClient, { INDICES } from '@/config/elasticsearch';
+import { INDICES, analysedFields } from '@/config/elasticsearch';
 import { ESSearchResponse } from '@/types/elasticsearch.types';
-import { kafkaProducer } from '@/services/kafka-producer.service';
-import { kafkaTopics } from '@/config/kafka';
+import { outboxService } from './outbox.service';
 
 export interface CreateProductData {
   title: string;
@@ -18,6 +17,7 @@ export interface CreateProductData {
   stockQuantity?: number;
   minOrderQuantity?: number;
   sku?: string;
+  hsnCode?: string;
   weight?: number;
   isService?: boolean;
   images?: string[];
@@ -47,30 +47,38 @@ export class ProductService extends BaseService {
 
   async createProduct(sellerId: string, data: CreateProductData): Promise<Product> {
     try {
-      const product = await this.prisma.product.create({
-        data: {
-          ...data,
-          sellerId,
-          currency: data.currency || 'INR',
-          stockQuantity: data.stockQuantity || 0,
-          minOrderQuantity: data.minOrderQuantity || 1,
-          isService: data.isService || false,
-          status: 'active',
-        },
-        include: {
-          seller: true,
-          category: true,
-          subcategory: true,
-          media: true,
-          variants: true,
-        },
+      const product = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.product.create({
+          data: {
+            ...data,
+            sellerId,
+            currency: data.currency || 'INR',
+            stockQuantity: data.stockQuantity || 0,
+            minOrderQuantity: data.minOrderQuantity || 1,
+            isService: data.isService || false,
+            status: 'active',
+          },
+          include: {
+            seller: true,
+            category: true,
+            subcategory: true,
+            media: true,
+            variants: true,
+          },
+        });
+        await outboxService.record(tx, {
+          type: 'product.created',
+          aggregateId: created.id,
+          recipients: [sellerId],
+          data: { productId: created.id, sellerId },
+        });
+        return created;
       });
 
       // Index in Elasticsearch
       await this.indexProductInElasticsearch(product);
 
       logger.info(`Product created: ${product.id} by seller: ${sellerId}`);
-  kafkaProducer.emit(kafkaTopics.NOTIFICATION_EVENT, { kind: 'product_created', productId: product.id, sellerId });
       return product;
     } catch (error) {
       logger.error('Error creating product:', error);
@@ -92,23 +100,31 @@ export class ProductService extends BaseService {
         throw err;
       }
 
-      const product = await this.prisma.product.update({
-        where: { id: productId },
-        data,
-        include: {
-          seller: true,
-          category: true,
-          subcategory: true,
-          media: true,
-          variants: true,
-        },
+      const product = await this.prisma.$transaction(async (tx) => {
+        const updated = await tx.product.update({
+          where: { id: productId },
+          data,
+          include: {
+            seller: true,
+            category: true,
+            subcategory: true,
+            media: true,
+            variants: true,
+          },
+        });
+        await outboxService.record(tx, {
+          type: 'product.updated',
+          aggregateId: productId,
+          recipients: [sellerId],
+          data: { productId, sellerId },
+        });
+        return updated;
       });
 
       // Update in Elasticsearch
       await this.indexProductInElasticsearch(product);
 
       logger.info(`Product updated: ${productId} by seller: ${sellerId}`);
-  kafkaProducer.emit(kafkaTopics.NOTIFICATION_EVENT, { kind: 'product_updated', productId, sellerId });
       return product;
     } catch (error) {
       logger.error('Error updating product:', error);
@@ -282,7 +298,18 @@ export class ProductService extends BaseService {
 
   async deleteProduct(productId: string, sellerId: string): Promise<void> {
     try {
-      const result = await this.prisma.product.deleteMany({ where: { id: productId, sellerId } });
+      const result = await this.prisma.$transaction(async (tx) => {
+        const deleted = await tx.product.deleteMany({ where: { id: productId, sellerId } });
+        if (deleted.count) {
+          await outboxService.record(tx, {
+            type: 'product.deleted',
+            aggregateId: productId,
+            recipients: [sellerId],
+            data: { productId, sellerId },
+          });
+        }
+        return deleted;
+      });
       if (result.count === 0) {
         const err: any = new Error('Product not found or unauthorized');
         err.code = 'P2025';
@@ -293,7 +320,6 @@ export class ProductService extends BaseService {
       await this.removeProductFromElasticsearch(productId);
 
       logger.info(`Product deleted: ${productId} by seller: ${sellerId}`);
-      kafkaProducer.emit(kafkaTopics.NOTIFICATION_EVENT, { kind: 'product_deleted', productId, sellerId });
     } catch (error) {
       logger.error('Error deleting product:', error);
       throw error;
@@ -359,7 +385,7 @@ export class ProductService extends BaseService {
               {
                 multi_match: {
                   query,
-                  fields: ['title^2', 'description', 'sku'],
+                  fields: [...analysedFields('title', 2), ...analysedFields('description'), 'sku'],
                   type: 'best_fields',
                   fuzziness: 'AUTO',
                 },
@@ -440,25 +466,21 @@ export class ProductService extends BaseService {
 
   private async indexProductInElasticsearch(product: any): Promise<void> {
     try {
-      await elasticsearchClient.index({
-        index: INDICES.PRODUCTS,
+      await elasticsearchService.indexProduct({
         id: product.id,
-        document: {
-          id: product.id,
-          title: product.title,
-          description: product.description,
-          categoryId: product.categoryId,
-          subcategoryId: product.subcategoryId,
-          sellerId: product.sellerId,
-          price: product.price,
-          currency: product.currency,
-          stockQuantity: product.stockQuantity,
-          sku: product.sku,
-          isActive: product.isActive,
-          status: product.status,
-          createdAt: product.createdAt,
-          updatedAt: product.updatedAt,
-        },
+        title: product.title,
+        description: product.description,
+        categoryId: product.categoryId,
+        subcategoryId: product.subcategoryId,
+        sellerId: product.sellerId,
+        price: product.price,
+        currency: product.currency,
+        stockQuantity: product.stockQuantity,
+        sku: product.sku,
+        isActive: product.isActive,
+        status: product.status,
+        createdAt: product.createdAt,
+        updatedAt: product.updatedAt,
       });
     } catch (error) {
       logger.error('Error indexing product in Elasticsearch:', error);
@@ -467,10 +489,7 @@ export class ProductService extends BaseService {
 
   private async removeProductFromElasticsearch(productId: string): Promise<void> {
     try {
-      await elasticsearchClient.delete({
-        index: INDICES.PRODUCTS,
-        id: productId,
-      });
+      await elasticsearchService.deleteProduct(productId);
     } catch (error) {
       logger.error('Error removing product from Elasticsearch:', error);
     }
@@ -0,0 +1,271 @@
+import ExcelJS from 'exceljs';
+import { BaseService } from './base.service';
+import { rfqAuctionService } from './rfq-auction.service';
+import { AuthorizationError, ConflictError, NotFoundError } from '../middleware/error-handler';
+
+export type ComparisonCriterion = 'price' | 'delivery' | 'rating' | 'verification' | 'onTime';
+export type ComparisonWeights = Record<ComparisonCriterion, number>;
+
+export interface QuoteComparisonRow {
+  rank: number;
+  quoteId: string;
+  sellerId: string;
+  sellerName: string;
+  status: string;
+  quotedPrice: number;
+  taxAmount: number;
+  // Null when the seller has no delivered orders to estimate from
+  shippingEstimate: number | null;
+  landedCost: number;
+  deliveryTimeline: string | null;
+  deliveryDays: number | null;
+  rating: number | null;
+  reviewCount: number;
+  verificationTier: string;
+  onTimeRate: number | null;
+  deliveredOrders: number;
+  // Per-criterion scores between 0 and 1 before weighting
+  scores: ComparisonWeights;
+  score: number;
+}
+
+export interface QuoteComparison {
+  rfqId: string;
+  title: string;
+  weights: ComparisonWeights;
+  quotes: QuoteComparisonRow[];
+}
+
+export const DEFAULT_COMPARISON_WEIGHTS: ComparisonWeights = { price: 40, delivery: 20, rating: 15, verification: 10, onTime: 15 };
+
+const VERIFICATION_SCORES: Record<string, number> = { basic: 0, verified: 0.6, premium: 1 };
+// Seller history considered for shipping and on-time figures
+const HISTORY_ORDERS = 100;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Spreadsheets run cells starting with these as formulas; a leading quote keeps them as text
+const spreadsheetSafe = (value: string | number | null) =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+/**
+ * Parse free-text delivery timelines such as "7 days", "2-3 weeks" or "1 month" into days.
+ * Ranges use the upper bound; anything unrecognised returns null.
+ */
+export function parseDeliveryDays(timeline?: string | null): number | null {
+  if (!timeline) return null;
+  const text = timeline.toLowerCase();
+  if (/\b(immediate|same day|today)\b/.test(text)) return 0;
+  if (/\b(tomorrow|next day)\b/.test(text)) return 1;
+
+  const match = text.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|to)\s*(\d+(?:\.\d+)?))?\s*(?:working\s+|business\s+)?(hours?|hrs?|days?|d\b|weeks?|wks?|w\b|months?|mos?)?/);
+  if (!match) return null;
+  const amount = parseFloat(match[2] || match[1]);
+  const unit = match[3] || 'days';
+  if (unit.startsWith('h')) return Math.ceil(amount / 24);
+  if (unit.startsWith('w')) return Math.ceil(amount * 7);
+  if (unit.startsWith('m')) return Math.ceil(amount * 30);
+  return Math.ceil(amount);
+}
+
+/**
+ * Side-by-side comparison of the quotes on an RFQ, normalised to landed cost and delivery days
+ * and ranked by a weighted score the buyer can tune.
+ */
+export class QuoteComparisonService extends BaseService {
+  async compare(rfqId: string, buyerId: string, weights: Partial<ComparisonWeights> = {}): Promise<QuoteComparison> {
+    const rfq = await this.prisma.rfq.findUnique({
+      where: { id: rfqId },
+      include: {
+        quotes: {
+          where: { status: { in: ['pending', 'accepted'] } },
+          include: { seller: { select: { id: true, firstName: true, lastName: true, businessName: true, verificationTier: true } } },
+        },
+      },
+    });
+    if (!rfq) throw new NotFoundError('RFQ not found');
+    if (rfq.buyerId !== buyerId) throw new AuthorizationError('Only the buyer can compare quotes on this RFQ');
+    if (rfq.mode === 'sealed_bid' && rfq.status === 'active') throw new ConflictError('Sealed bids can be compared once bidding closes');
+
+    const resolved = this.resolveWeights(weights);
+    const quotes = rfq.quotes.filter(quote => rfqAuctionService.canViewQuote(rfq, quote, buyerId));
+
+    const rows = await Promise.all(quotes.map(async quote => {
+      const [history, rating] = await Promise.all([
+        this.sellerHistory(quote.sellerId, rfq.deliveryLocation),
+        this.sellerRating(quote.sellerId),
+      ]);
+      const quotedPrice = quote.totalPrice.toNumber();
+      const seller = quote.seller;
+      return {
+        rank: 0,
+        quoteId: quote.id,
+        sellerId: quote.sellerId,
+        sellerName: seller.businessName || [seller.firstName, seller.lastName].filter(Boolean).join(' ') || quote.sellerId,
+        status: quote.status,
+        quotedPrice,
+        taxAmount: quote.taxAmount.toNumber(),
+        shippingEstimate: history.shippingEstimate,
+        // Quote totals already include tax
+        landedCost: round2(quotedPrice + (history.shippingEstimate ?? 0)),
+        deliveryTimeline: quote.deliveryTimeline,
+        deliveryDays: parseDeliveryDays(quote.deliveryTimeline),
+        rating: rating.average,
+        reviewCount: rating.count,
+        verificationTier: seller.verificationTier,
+        onTimeRate: history.onTimeRate,
+        deliveredOrders: history.deliveredOrders,
+        scores: { price: 0, delivery: 0, rating: 0, verification: 0, onTime: 0 },
+        score: 0,
+      } as QuoteComparisonRow;
+    }));
+
+    this.score(rows, resolved);
+    return { rfqId, title: rfq.title, weights: resolved, quotes: rows };
+  }
+
+  toCsv(comparison: QuoteComparison): string {
+    const escape = (value: unknown) => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const lines = [COLUMNS.map(column => column.header).join(',')];
+    for (const row of comparison.quotes) {
+      lines.push(COLUMNS.map(column => escape(spreadsheetSafe(column.value(row)))).join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  async toXlsx(comparison: QuoteComparison): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Quote comparison');
+    sheet.columns = COLUMNS.map(column => ({ header: column.header, key: column.header, width: Math.max(12, column.header.length + 2) }));
+    for (const row of comparison.quotes) {
+      sheet.addRow(COLUMNS.map(column => spreadsheetSafe(column.value(row))));
+    }
+    sheet.getRow(1).font = { bold: true };
+
+    const weights = workbook.addWorksheet('Weights');
+    weights.addRow(['Criterion', 'Weight']).font = { bold: true };
+    for (const [criterion, weight] of Object.entries(comparison.weights)) weights.addRow([criterion, weight]);
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  // Weights are relative; they are scaled to sum to 100
+  private resolveWeights(weights: Partial<ComparisonWeights>): ComparisonWeights {
+    const merged = { ...DEFAULT_COMPARISON_WEIGHTS };
+    for (const key of Object.keys(merged) as ComparisonCriterion[]) {
+      if (weights[key] !== undefined) merged[key] = Math.max(0, weights[key]!);
+    }
+    const total = Object.values(merged).reduce((sum, w) => sum + w, 0);
+    if (total === 0) return { ...DEFAULT_COMPARISON_WEIGHTS };
+    for (const key of Object.keys(merged) as ComparisonCriterion[]) merged[key] = round2(merged[key] * 100 / total);
+    return merged;
+  }
+
+  /**
+   * Min-max normalise each criterion across the quotes, then rank by weighted score.
+   * A missing figure scores 0 for that criterion.
+   */
+  private score(rows: QuoteComparisonRow[], weights: ComparisonWeights) {
+    const normalise = (values: (number | null)[], lowerIsBetter: boolean) => {
+      const present = values.filter((v): v is number => v !== null);
+      const min = Math.min(...present);
+      const max = Math.max(...present);
+      return values.map(v => {
+        if (v === null) return 0;
+        if (max === min) return 1;
+        return lowerIsBetter ? (max - v) / (max - min) : (v - min) / (max - min);
+      });
+    };
+
+    const price = normalise(rows.map(r => r.landedCost), true);
+    const delivery = normalise(rows.map(r => r.deliveryDays), true);
+    const rating = rows.map(r => (r.rating === null ? 0 : (r.rating - 1) / 4));
+    const onTime = rows.map(r => r.onTimeRate ?? 0);
+
+    rows.forEach((row, i) => {
+      row.scores = {
+        price: round2(price[i]),
+        delivery: round2(delivery[i]),
+        rating: round2(rating[i]),
+        verification: VERIFICATION_SCORES[row.verificationTier] ?? 0,
+        onTime: round2(onTime[i]),
+      };
+      row.score = round2((Object.keys(weights) as ComparisonCriterion[])
+        .reduce((sum, key) => sum + row.scores[key] * weights[key], 0));
+    });
+
+    rows.sort((a, b) => b.score - a.score || a.landedCost - b.landedCost);
+    rows.forEach((row, i) => { row.rank = i + 1; });
+  }
+
+  /**
+   * Shipping estimate and on-time rate over the seller's recent delivered orders. Shipping is
+   * averaged over the orders that went to the RFQ's delivery city, else its state, else all of them.
+   */
+  private async sellerHistory(sellerId: string, deliveryLocation: string | null) {
+    const orders = await this.prisma.order.findMany({
+      where: { sellerId, status: 'delivered' },
+      select: { shippingAmount: true, deliveryAddress: true, estimatedDelivery: true, actualDelivery: true },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_ORDERS,
+    });
+    const tracked = orders.filter(o => o.estimatedDelivery && o.actualDelivery);
+    const onTime = tracked.filter(o => o.actualDelivery! <= o.estimatedDelivery!).length;
+
+    const location = deliveryLocation?.toLowerCase();
+    const deliveredTo = (field: 'city' | 'state') => orders.filter(o => {
+      const value = (o.deliveryAddress as Record<string, unknown> | null)?.[field];
+      return !!location && typeof value === 'string' && value.trim() !== '' && location.includes(value.trim().toLowerCase());
+    });
+    const sameCity = deliveredTo('city');
+    const local = sameCity.length ? sameCity : deliveredTo('state');
+    const basis = local.length ? local : orders;
+
+    return {
+      shippingEstimate: basis.length
+        ? round2(basis.reduce((sum, o) => sum + o.shippingAmount.toNumber(), 0) / basis.length)
+        : null,
+      deliveredOrders: orders.length,
+      onTimeRate: tracked.length ? round2(onTime / tracked.length) : null,
+    };
+  }
+
+  private async sellerRating(sellerId: string) {
+    const result = await this.prisma.review.aggregate({
+      where: {
+        isPublished: true,
+        OR: [{ product: { sellerId } }, { service: { providerId: sellerId } }, { order: { sellerId } }],
+      },
+      _avg: { rating: true },
+      _count: { rating: true },
+    });
+    return {
+      average: result._avg.rating === null ? null : round2(result._avg.rating),
+      count: result._count.rating,
+    };
+  }
+}
+
+const COLUMNS: { header: string; value: (row: QuoteComparisonRow) => string | number | null }[] = [
+  { header: 'Rank', value: r => r.rank },
+  { header: 'Seller', value: r => r.sellerName },
+  { header: 'Quote ID', value: r => r.quoteId },
+  { header: 'Status', value: r => r.status },
+  { header: 'Quoted price', value: r => r.quotedPrice },
+  { header: 'Tax', value: r => r.taxAmount },
+  { header: 'Shipping estimate', value: r => r.shippingEstimate },
+  { header: 'Landed cost', value: r => r.landedCost },
+  { header: 'Delivery timeline', value: r => r.deliveryTimeline },
+  { header: 'Delivery days', value: r => r.deliveryDays },
+  { header: 'Rating', value: r => r.rating },
+  { header: 'Reviews', value: r => r.reviewCount },
+  { header: 'Verification tier', value: r => r.verificationTier },
+  { header: 'On-time rate', value: r => r.onTimeRate },
+  { header: 'Delivered orders', value: r => r.deliveredOrders },
+  { header: 'Score', value: r => r.score },
+];
+
+export const quoteComparisonService = new QuoteComparisonService();
@@ -0,0 +1,336 @@
+import type { Prisma, Refund } from '@prisma/client';
+import { BaseService } from './base.service';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+import { paymentGateways } from './payment-gateway.service';
+import type { GatewayEventOutcome, GatewayRefundResult, GatewayWebhookEvent } from './payment-gateway.service';
+import { WalletService } from './wallet.service';
+import { escrowService } from './escrow.service';
+import { notificationService } from './notification.service';
+import { outboxService } from './outbox.service';
+
+export const REFUND_REASON_CODES = ['order_cancelled', 'item_returned', 'damaged', 'not_delivered', 'duplicate_payment', 'price_adjustment', 'other'] as const;
+export type RefundReasonCode = typeof REFUND_REASON_CODES[number];
+
+export interface CreateRefundData {
+  paymentId: string;
+  orderId?: string;
+  amount?: number; // Defaults to everything still refundable
+  reasonCode: RefundReasonCode;
+  notes?: string;
+  destination?: 'gateway' | 'wallet';
+  initiatedBy?: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Partial and full refunds of captured payments, either back through the original gateway
+ * or to the buyer's wallet. Payment and order payment statuses follow the succeeded total.
+ */
+export class RefundService extends BaseService {
+  private walletService = new WalletService();
+
+  async createRefund(data: CreateRefundData): Promise<Refund> {
+    try {
+      const payment = await this.prisma.payment.findUnique({ where: { id: data.paymentId } });
+      if (!payment) throw new NotFoundError('Payment not found');
+      if (!['paid', 'partially_refunded'].includes(payment.status)) {
+        throw new ValidationError('Only captured payments can be refunded');
+      }
+
+      const orderId = data.orderId || payment.orderId;
+      if (!orderId) throw new ValidationError('orderId is required to refund part of a checkout payment');
+      const order = await this.prisma.order.findUnique({ where: { id: orderId } });
+      if (!order || (order.id !== payment.orderId && (!payment.checkoutId || order.checkoutId !== payment.checkoutId))) {
+        throw new ValidationError('Order is not covered by this payment');
+      }
+
+      // Escrowed funds sit in the buyer's wallet, so they can only go back there
+      const hold = order.escrowEnabled
+        ? await this.prisma.lockedAmount.findFirst({ where: { orderId, status: { in: ['active', 'frozen'] } } })
+        : null;
+
+      const refund = await this.prisma.$transaction(async (tx) => {
+        // Refunds queue on the payment and order rows, so each sees what the previous ones committed
+        await tx.$queryRaw`SELECT id FROM payments WHERE id = ${payment.id}::uuid FOR UPDATE`;
+        await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId}::uuid FOR UPDATE`;
+        const refundable = round2(Math.min(
+          payment.amount.toNumber() - await this.committedAmount(tx, { paymentId: payment.id }),
+          order.totalAmount.toNumber() - await this.committedAmount(tx, { orderId })
+        ));
+        const amount = round2(data.amount ?? refundable);
+        if (amount <= 0 || amount > refundable) {
+          throw new ValidationError(`Refund amount must be between 0 and the refundable balance of ${refundable}`);
+        }
+        if (hold && amount !== hold.amount.toNumber()) {
+          throw new ValidationError('Escrowed orders can only be refunded in full while the payment is on hold');
+        }
+
+        const destination = hold ? 'wallet' : data.destination || 'gateway';
+        const created = await tx.refund.create({
+          data: {
+            paymentId: payment.id,
+            orderId,
+            amount,
+            currency: payment.currency,
+            destination,
+            reasonCode: data.reasonCode,
+            notes: data.notes,
+            status: 'pending',
+            gateway: destination === 'gateway' ? payment.paymentGateway : null,
+            initiatedBy: data.initiatedBy,
+          },
+        });
+        await this.recordEvent(tx, created, 'refund.created');
+        return created;
+      });
+
+      logger.info(`Refund created: ${refund.id} for payment ${payment.id}, amount: ${refund.amount}`);
+      return this.process(refund.id);
+    } catch (error) {
+      logger.error('Error creating refund:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Refund whatever is left of an order's payment, e.g. after cancellation. Returns null for unpaid orders.
+   */
+  async refundOrder(orderId: string, reasonCode: RefundReasonCode, initiatedBy?: string): Promise<Refund | null> {
+    const order = await this.prisma.order.findUnique({ where: { id: orderId } });
+    if (!order) throw new NotFoundError('Order not found');
+
+    const payment = await this.prisma.payment.findFirst({
+      where: {
+        status: { in: ['paid', 'partially_refunded'] },
+        OR: [{ orderId }, ...(order.checkoutId ? [{ checkoutId: order.checkoutId }] : [])],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!payment) return null;
+
+    return this.createRefund({ paymentId: payment.id, orderId, reasonCode, initiatedBy });
+  }
+
+  async getById(id: string) {
+    const refund = await this.prisma.refund.findUnique({ where: { id } });
+    if (!refund) throw new NotFoundError('Refund not found');
+    return refund;
+  }
+
+  async listForPayment(paymentId: string) {
+    return this.prisma.refund.findMany({ where: { paymentId }, orderBy: { createdAt: 'desc' } });
+  }
+
+  async listForOrder(orderId: string) {
+    return this.prisma.refund.findMany({ where: { orderId }, orderBy: { createdAt: 'desc' } });
+  }
+
+  /**
+   * Poll the gateway for refunds it accepted but has not settled yet.
+   */
+  async syncPendingRefunds(): Promise<number> {
+    const pending = await this.prisma.refund.findMany({
+      where: { status: 'processing', destination: 'gateway', updatedAt: { lt: new Date(Date.now() - 60 * 1000) } },
+      include: { payment: { include: { order: { select: { cashfreeOrderId: true } } } } },
+      take: 100,
+    });
+
+    let settled = 0;
+    for (const refund of pending) {
+      try {
+        const result = await paymentGateways.get(refund.payment.paymentGateway).getRefundStatus({
+          refundId: refund.id,
+          payment: refund.payment,
+          amount: refund.amount.toNumber(),
+          gatewayRefundId: refund.gatewayRefundId,
+        });
+        const updated = await this.applyGatewayResult(refund.id, result);
+        if (updated.status !== 'processing') settled++;
+      } catch (error) {
+        logger.error(`Failed to sync refund ${refund.id}:`, error);
+      }
+    }
+    return settled;
+  }
+
+  /**
+   * Apply a parsed gateway refund webhook.
+   */
+  async applyGatewayEvent(event: GatewayWebhookEvent): Promise<GatewayEventOutcome> {
+    if (event.kind !== 'refund' || !event.refundStatus) return 'ignored';
+    const byId = event.refundId && UUID_PATTERN.test(event.refundId) ? [{ id: event.refundId }] : [];
+    const byGatewayId = event.gatewayRefundId ? [{ gatewayRefundId: event.gatewayRefundId }] : [];
+    if (!byId.length && !byGatewayId.length) return 'unmatched';
+
+    const refund = await this.prisma.refund.findFirst({ where: { destination: 'gateway', OR: [...byId, ...byGatewayId] } });
+    if (!refund) return 'unmatched';
+    // Settled refunds never change again
+    if (['succeeded', 'failed'].includes(refund.status)) return 'ignored';
+    await this.applyGatewayResult(refund.id, { status: event.refundStatus, gatewayRefundId: event.gatewayRefundId });
+    return 'applied';
+  }
+
+  private async process(refundId: string): Promise<Refund> {
+    const refund = await this.prisma.refund.findUnique({
+      where: { id: refundId },
+      include: { payment: { include: { order: { select: { cashfreeOrderId: true } } } }, order: true },
+    });
+    if (!refund) throw new NotFoundError('Refund not found');
+
+    try {
+      if (refund.destination === 'wallet') {
+        const amount = refund.amount.toNumber();
+        const released = refund.orderId ? await escrowService.refundForOrder(refund.orderId, `Refund (${refund.reasonCode})`) : null;
+        if (!released) {
+          const buyerId = refund.order!.buyerId;
+          await this.walletService.getWalletByUserId(buyerId);
+          await this.walletService.addFunds(buyerId, {
+            transactionType: 'refund',
+            amount,
+            referenceType: 'refund',
+            referenceId: refund.id,
+            description: `Refund for order ${refund.order!.orderNumber}`,
+          });
+        }
+        return this.markSucceeded(refund.id);
+      }
+
+      await this.prisma.refund.update({ where: { id: refund.id }, data: { status: 'processing' } });
+      const result = await paymentGateways.get(refund.payment.paymentGateway).refund({
+        refundId: refund.id,
+        payment: refund.payment,
+        amount: refund.amount.toNumber(),
+        note: refund.notes || refund.reasonCode,
+      });
+      return this.applyGatewayResult(refund.id, result);
+    } catch (error: any) {
+      logger.error(`Refund ${refund.id} failed:`, error);
+      return this.markFailed(refund.id, error.message);
+    }
+  }
+
+  private async applyGatewayResult(refundId: string, result: GatewayRefundResult): Promise<Refund> {
+    if (result.status === 'succeeded') return this.markSucceeded(refundId, result.gatewayRefundId);
+    if (result.status === 'failed') return this.markFailed(refundId, result.failureReason || 'Refund rejected by gateway', result.gatewayRefundId);
+    return this.prisma.refund.update({
+      where: { id: refundId },
+      data: { status: 'processing', gatewayRefundId: result.gatewayRefundId },
+    });
+  }
+
+  private async markSucceeded(refundId: string, gatewayRefundId?: string): Promise<Refund> {
+    const refund = await this.prisma.$transaction(async (tx) => {
+      // Only the first settlement counts; repeated syncs are no-ops
+      const claimed = await tx.refund.updateMany({
+        where: { id: refundId, status: { in: ['pending', 'processing'] } },
+        data: { status: 'succeeded', processedAt: new Date(), ...(gatewayRefundId ? { gatewayRefundId } : {}) },
+      });
+      const refund = await tx.refund.findUnique({ where: { id: refundId } });
+      if (!claimed.count || !refund) return null;
+
+      const payment = await tx.payment.update({
+        where: { id: refund.paymentId },
+        data: { refundedAmount: { increment: refund.amount } },
+      });
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { status: payment.refundedAmount.gte(payment.amount) ? 'refunded' : 'partially_refunded' },
+      });
+
+      if (refund.orderId) {
+        const order = await tx.order.findUnique({ where: { id: refund.orderId } });
+        const refunded = await this.succeededAmount(tx, refund.orderId);
+        const paymentStatus = order && refunded >= order.totalAmount.toNumber() ? 'refunded' : 'partially_refunded';
+        await tx.order.update({ where: { id: refund.orderId }, data: { paymentStatus } });
+        await tx.orderHistory.create({
+          data: {
+            orderId: refund.orderId,
+            action: 'REFUND',
+            details: `Refunded ${refund.amount} (${refund.reasonCode}) to ${refund.destination}; payment status ${paymentStatus}`,
+            userId: refund.initiatedBy,
+          },
+        });
+      }
+      await this.recordEvent(tx, refund, 'refund.succeeded');
+      return refund;
+    });
+
+    if (!refund) return this.getById(refundId);
+
+    logger.info(`Refund succeeded: ${refund.id}`);
+    await this.notifyBuyer(refund, 'Refund Processed', `A refund of ₹${refund.amount} has been processed${refund.destination === 'wallet' ? ' to your wallet' : ' to your original payment method'}.`);
+    return refund;
+  }
+
+  private async markFailed(refundId: string, failureReason: string, gatewayRefundId?: string): Promise<Refund> {
+    const claimed = await this.prisma.$transaction(async (tx) => {
+      const result = await tx.refund.updateMany({
+        where: { id: refundId, status: { in: ['pending', 'processing'] } },
+        data: { status: 'failed', failureReason, processedAt: new Date(), ...(gatewayRefundId ? { gatewayRefundId } : {}) },
+      });
+      if (result.count) await this.recordEvent(tx, await tx.refund.findUniqueOrThrow({ where: { id: refundId } }), 'refund.failed');
+      return result;
+    });
+    const refund = await this.getById(refundId);
+    if (!claimed.count) return refund;
+
+    await this.notifyBuyer(refund, 'Refund Failed', `A refund of ₹${refund.amount} could not be processed. Our team will follow up.`);
+    return refund;
+  }
+
+  // Pending, processing and succeeded refunds all count against the refundable balance
+  private async committedAmount(tx: Prisma.TransactionClient, where: { paymentId?: string; orderId?: string }) {
+    const total = await tx.refund.aggregate({ where: { ...where, status: { not: 'failed' } }, _sum: { amount: true } });
+    return total._sum.amount?.toNumber() || 0;
+  }
+
+  private async succeededAmount(tx: Prisma.TransactionClient, orderId: string) {
+    const total = await tx.refund.aggregate({ where: { orderId, status: 'succeeded' }, _sum: { amount: true } });
+    return total._sum.amount?.toNumber() || 0;
+  }
+
+  private async notifyBuyer(refund: Refund, title: string, message: string) {
+    try {
+      if (!refund.orderId) return;
+      const order = await this.prisma.order.findUnique({ where: { id: refund.orderId }, select: { buyerId: true } });
+      if (!order) return;
+      await notificationService.createNotification({
+        userId: order.buyerId,
+        title,
+        message,
+        type: 'refund',
+        channel: 'in_app',
+        data: { refundId: refund.id, orderId: refund.orderId, amount: refund.amount.toString() },
+      });
+    } catch (error) {
+      logger.warn('Failed to send refund notification', error);
+    }
+  }
+
+  private async recordEvent(tx: Prisma.TransactionClient, refund: Refund, type: 'refund.created' | 'refund.succeeded' | 'refund.failed') {
+    const order = refund.orderId
+      ? await tx.order.findUnique({ where: { id: refund.orderId }, select: { buyerId: true, sellerId: true } })
+      : null;
+    await outboxService.record(tx, {
+      type,
+      aggregateId: refund.id,
+      recipients: [order?.buyerId, order?.sellerId],
+      data: {
+        refundId: refund.id,
+        paymentId: refund.paymentId,
+        orderId: refund.orderId,
+        amount: refund.amount.toNumber(),
+        currency: refund.currency,
+        destination: refund.destination,
+        reasonCode: refund.reasonCode,
+        status: refund.status,
+      },
+    });
+  }
+
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,103 @@
+import { RfqAttachment } from '@prisma/client';
+import { BaseService } from './base.service';
+import { minioService } from './minio.service';
+import { logger } from '../utils/logger';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/error-handler';
+
+export interface UploadRfqAttachmentInput {
+  rfqId: string;
+  userId: string;
+  file: Buffer;
+  originalName: string;
+  contentType: string;
+  kind?: string;
+  rfqItemId?: string;
+}
+
+export type RfqAttachmentWithUrl = RfqAttachment & { url: string };
+
+export const MAX_RFQ_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+const MAX_ATTACHMENTS_PER_RFQ = 20;
+// Drawings, specification sheets and certificates
+const ALLOWED_CONTENT_TYPES = new Set([
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/vnd.dwg',
+  'image/vnd.dxf',
+  'application/acad',
+  'application/dxf',
+  'application/step',
+  'model/step',
+  'text/csv',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+]);
+
+const folderFor = (rfqId: string) => `rfqs/${rfqId}`;
+
+/**
+ * Files attached to an RFQ, optionally pinned to one of its lines. Objects are private in MinIO
+ * and handed out as short-lived presigned URLs.
+ */
+export class RfqAttachmentService extends BaseService {
+  async upload(input: UploadRfqAttachmentInput): Promise<RfqAttachmentWithUrl> {
+    const rfq = await this.prisma.rfq.findUnique({ where: { id: input.rfqId }, include: { _count: { select: { attachments: true } } } });
+    if (!rfq) throw new NotFoundError('RFQ not found');
+    if (rfq.buyerId !== input.userId) throw new AuthorizationError('Only the buyer can attach files to this RFQ');
+    if (rfq._count.attachments >= MAX_ATTACHMENTS_PER_RFQ) throw new ValidationError(`An RFQ can have at most ${MAX_ATTACHMENTS_PER_RFQ} attachments`);
+    if (!ALLOWED_CONTENT_TYPES.has(input.contentType)) throw new ValidationError(`Unsupported file type: ${input.contentType}`);
+    if (input.file.length > MAX_RFQ_ATTACHMENT_BYTES) throw new ValidationError('Attachments are limited to 25 MB');
+
+    if (input.rfqItemId) {
+      const line = await this.prisma.rfqItem.findFirst({ where: { id: input.rfqItemId, rfqId: input.rfqId } });
+      if (!line) throw new ValidationError('Line item does not belong to this RFQ');
+    }
+
+    const stored = await minioService.uploadFile(input.file, input.originalName, folderFor(input.rfqId), {
+      'Content-Type': input.contentType,
+    });
+    const attachment = await this.prisma.rfqAttachment.create({
+      data: {
+        rfqId: input.rfqId,
+        rfqItemId: input.rfqItemId,
+        kind: input.kind || 'other',
+        fileName: stored.fileName,
+        originalName: input.originalName,
+        contentType: input.contentType,
+        size: stored.size,
+        uploadedBy: input.userId,
+      },
+    });
+
+    logger.info(`RFQ attachment uploaded: ${attachment.id} for RFQ: ${input.rfqId}`);
+    return { ...attachment, url: stored.url };
+  }
+
+  async list(rfqId: string): Promise<RfqAttachmentWithUrl[]> {
+    const rfq = await this.prisma.rfq.findUnique({ where: { id: rfqId }, select: { id: true } });
+    if (!rfq) throw new NotFoundError('RFQ not found');
+
+    const attachments = await this.prisma.rfqAttachment.findMany({ where: { rfqId }, orderBy: { createdAt: 'asc' } });
+    return Promise.all(attachments.map(async attachment => ({
+      ...attachment,
+      url: await minioService.getFileUrl(`${folderFor(rfqId)}/${attachment.fileName}`, 60 * 60),
+    })));
+  }
+
+  async remove(rfqId: string, attachmentId: string, userId: string): Promise<void> {
+    const attachment = await this.prisma.rfqAttachment.findFirst({ where: { id: attachmentId, rfqId }, include: { rfq: { select: { buyerId: true } } } });
+    if (!attachment) throw new NotFoundError('Attachment not found');
+    if (attachment.rfq.buyerId !== userId) throw new AuthorizationError('Only the buyer can remove attachments from this RFQ');
+
+    await this.prisma.rfqAttachment.delete({ where: { id: attachmentId } });
+    await minioService.deleteFile(attachment.fileName, folderFor(rfqId));
+    logger.info(`RFQ attachment removed: ${attachmentId} from RFQ: ${rfqId}`);
+  }
+}
+
+export const rfqAttachmentService = new RfqAttachmentService();
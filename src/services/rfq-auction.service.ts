@@ -0,0 +1,319 @@
+import { Prisma } from '@prisma/client';
+import type { PrismaClient, Quote, QuoteItem, Rfq } from '@prisma/client';
+import { BaseService } from './base.service';
+import { logger } from '../utils/logger';
+import { config } from '../config/environment';
+import { notificationService } from './notification.service';
+import { WebSocketService } from '../websocket';
+import { outboxService } from './outbox.service';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../middleware/error-handler';
+
+export type RfqMode = 'open' | 'sealed_bid' | 'reverse_auction';
+
+export interface BiddingSettings {
+  mode?: RfqMode;
+  biddingClosesAt?: Date | string;
+  minDecrement?: number;
+  minDecrementType?: 'amount' | 'percent';
+  antiSnipeMinutes?: number;
+  extensionMinutes?: number;
+  maxExtensions?: number;
+}
+
+export interface BidStanding {
+  rank: number;
+  quoteId: string;
+  sellerId: string;
+  amount: number;
+  lastBidAt: Date | null;
+}
+
+type Tx = Prisma.TransactionClient;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Sealed-bid and reverse-auction RFQs. Sealed bids stay hidden from the buyer until bidding closes;
+ * in a reverse auction sellers see their live rank and can only lower their bid by the minimum decrement,
+ * and late bids extend the close. When bidding closes, quotes are ranked and the buyer accepts a winner.
+ */
+export class RfqAuctionService extends BaseService {
+  /**
+   * Validate the bidding fields of a new RFQ and fill in the platform defaults.
+   */
+  resolveSettings(settings: BiddingSettings, expiresAt?: Date) {
+    const mode = settings.mode || 'open';
+    if (mode === 'open') return { mode, expiresAt };
+
+    if (!settings.biddingClosesAt) throw new ValidationError('biddingClosesAt is required for sealed-bid and auction RFQs');
+    const biddingClosesAt = new Date(settings.biddingClosesAt);
+    if (biddingClosesAt <= new Date()) throw new ValidationError('biddingClosesAt must be in the future');
+    if (expiresAt && expiresAt < biddingClosesAt) throw new ValidationError('expiresAt cannot be before biddingClosesAt');
+
+    const base = {
+      mode,
+      biddingClosesAt,
+      // Leave the buyer time to evaluate after bidding closes
+      expiresAt: expiresAt || new Date(biddingClosesAt.getTime() + 30 * 24 * 60 * 60 * 1000),
+    };
+    if (mode === 'sealed_bid') return base;
+
+    if (settings.minDecrementType === 'percent' && (settings.minDecrement ?? 0) >= 100) {
+      throw new ValidationError('A percentage decrement must be below 100');
+    }
+    return {
+      ...base,
+      minDecrement: settings.minDecrement,
+      minDecrementType: settings.minDecrementType || 'amount',
+      antiSnipeMinutes: settings.antiSnipeMinutes ?? config.rfq.auctionAntiSnipeMinutes,
+      extensionMinutes: settings.extensionMinutes ?? config.rfq.auctionExtensionMinutes,
+      maxExtensions: settings.maxExtensions ?? config.rfq.auctionMaxExtensions,
+    };
+  }
+
+  isBiddingOpen(rfq: Rfq) {
+    return rfq.mode !== 'open' && rfq.status === 'active' && (!rfq.biddingClosesAt || rfq.biddingClosesAt > new Date());
+  }
+
+  /**
+   * Competing sellers never see each other's quotes on sealed-bid or auction RFQs, and the buyer
+   * sees sealed bids only once bidding has closed.
+   */
+  canViewQuote(rfq: Rfq, quote: Pick<Quote, 'sellerId'>, viewerId?: string) {
+    if (rfq.mode === 'open') return true;
+    if (viewerId && quote.sellerId === viewerId) return true;
+    if (viewerId !== rfq.buyerId) return false;
+    return rfq.mode !== 'sealed_bid' || rfq.status !== 'active';
+  }
+
+  /**
+   * Record a seller's first price on a non-open RFQ; called inside the quote's transaction.
+   */
+  async recordQuote(tx: Tx, rfq: Rfq, quote: Quote) {
+    if (rfq.mode === 'open') return;
+    if (!this.isBiddingOpen(rfq)) throw new ConflictError('Bidding has closed for this RFQ');
+
+    const now = new Date();
+    await tx.rfqBid.create({ data: { rfqId: rfq.id, quoteId: quote.id, sellerId: quote.sellerId, amount: quote.totalPrice, createdAt: now } });
+    await tx.quote.update({ where: { id: quote.id }, data: { lastBidAt: now } });
+    if (rfq.mode === 'reverse_auction') await this.extendIfSniping(tx, rfq);
+  }
+
+  /**
+   * Lower a seller's bid on a live reverse auction. The quote is repriced in the same transaction,
+   * with its lines scaled so that tax stays proportional.
+   */
+  async placeBid(rfqId: string, sellerId: string, amount: number) {
+    const result = await this.prisma.$transaction(async (tx) => {
+      const rfq = await tx.rfq.findUnique({ where: { id: rfqId } });
+      if (!rfq) throw new NotFoundError('RFQ not found');
+      if (rfq.mode !== 'reverse_auction') throw new ValidationError('Bids can only be placed on reverse-auction RFQs');
+      if (!this.isBiddingOpen(rfq)) throw new ConflictError('Bidding has closed for this RFQ');
+
+      const quote = await tx.quote.findFirst({ where: { rfqId, sellerId, status: 'pending' }, include: { items: true } });
+      if (!quote) throw new NotFoundError('Submit a quote before bidding');
+
+      const current = quote.totalPrice.toNumber();
+      const step = rfq.minDecrement
+        ? (rfq.minDecrementType === 'percent' ? current * rfq.minDecrement.toNumber() / 100 : rfq.minDecrement.toNumber())
+        : 0.01;
+      const maxAllowed = round2(current - step);
+      if (amount > maxAllowed) {
+        throw new ValidationError(`Bid must be ${maxAllowed} or lower`, { currentBid: current, maxAllowed });
+      }
+
+      const taxAmount = await this.scaleLines(tx, quote, amount);
+      const now = new Date();
+      const updated = await tx.quote.update({
+        where: { id: quote.id },
+        data: { totalPrice: amount, taxAmount, lastBidAt: now },
+      });
+      await tx.rfqBid.create({ data: { rfqId, quoteId: quote.id, sellerId, amount, createdAt: now } });
+
+      const biddingClosesAt = await this.extendIfSniping(tx, rfq);
+      const standings = await this.rank(tx, rfqId);
+      return { quote: updated, biddingClosesAt, extended: biddingClosesAt > rfq.biddingClosesAt!, standings, buyerId: rfq.buyerId };
+    });
+
+    const own = result.standings.find(s => s.quoteId === result.quote.id);
+    this.broadcast(rfqId, result.buyerId, result.standings, result.biddingClosesAt);
+    if (result.extended) {
+      for (const standing of result.standings) {
+        WebSocketService.emitToUser(standing.sellerId, 'auction:extended', { rfqId, biddingClosesAt: result.biddingClosesAt });
+      }
+      WebSocketService.emitToUser(result.buyerId, 'auction:extended', { rfqId, biddingClosesAt: result.biddingClosesAt });
+    }
+
+    logger.info(`Bid of ${amount} placed on RFQ ${rfqId} by seller ${sellerId} (rank ${own?.rank})`);
+    return { quote: result.quote, rank: own?.rank, bidders: result.standings.length, biddingClosesAt: result.biddingClosesAt };
+  }
+
+  /**
+   * Scale a quote's lines to a new total inside the caller's transaction, so the total still adds
+   * up from its lines and tax. Returns the scaled tax for the caller to store with the total.
+   */
+  async scaleLines(tx: Tx, quote: Quote & { items: QuoteItem[] }, amount: number): Promise<number> {
+    const factor = amount / quote.totalPrice.toNumber();
+    for (const item of quote.items) {
+      const unitPrice = round2(item.unitPrice.toNumber() * factor);
+      await tx.quoteItem.update({ where: { id: item.id }, data: { unitPrice, totalPrice: round2(unitPrice * item.quantity) } });
+    }
+    return round2(quote.taxAmount.toNumber() * factor);
+  }
+
+  /**
+   * Current standing as the caller may see it: the buyer gets the full ranking (sealed bids only
+   * after close), a seller gets their own position.
+   */
+  async getStanding(rfqId: string, userId: string) {
+    const rfq = await this.prisma.rfq.findUnique({ where: { id: rfqId } });
+    if (!rfq) throw new NotFoundError('RFQ not found');
+    if (rfq.mode === 'open') throw new ValidationError('Open RFQs are not ranked');
+
+    const standings = await this.rank(this.prisma, rfqId);
+    const summary = { rfqId, mode: rfq.mode, status: rfq.status, biddingClosesAt: rfq.biddingClosesAt, bidders: standings.length };
+
+    if (userId === rfq.buyerId) {
+      if (rfq.mode === 'sealed_bid' && rfq.status === 'active') return { ...summary, standings: [] };
+      return { ...summary, standings };
+    }
+
+    const own = standings.find(s => s.sellerId === userId);
+    if (!own) throw new AuthorizationError('Only the buyer and bidding sellers can view this RFQ\'s standing');
+    // Sealed bidders learn their rank only after the bids are opened
+    const hideRank = rfq.mode === 'sealed_bid' && rfq.status === 'active';
+    return { ...summary, standing: hideRank ? { ...own, rank: null } : own };
+  }
+
+  /**
+   * Close bidding on RFQs whose deadline has passed. Returns the number closed.
+   */
+  async closeDueBidding(): Promise<number> {
+    const due = await this.prisma.rfq.findMany({
+      where: { mode: { in: ['sealed_bid', 'reverse_auction'] }, status: 'active', biddingClosesAt: { lte: new Date() } },
+      select: { id: true },
+      take: 100,
+    });
+
+    let closed = 0;
+    for (const { id } of due) {
+      try {
+        if (await this.closeBidding(id)) closed++;
+      } catch (error) {
+        logger.error(`Failed to close bidding on RFQ ${id}:`, error);
+      }
+    }
+    return closed;
+  }
+
+  /**
+   * Stop accepting bids, store each quote's final rank and hand the RFQ to the buyer for evaluation.
+   */
+  async closeBidding(rfqId: string): Promise<boolean> {
+    const result = await this.prisma.$transaction(async (tx) => {
+      // An extension may have landed since the RFQ was picked up
+      const claimed = await tx.rfq.updateMany({
+        where: { id: rfqId, status: 'active', biddingClosesAt: { lte: new Date() } },
+        data: { status: 'evaluating', biddingClosedAt: new Date() },
+      });
+      if (!claimed.count) return null;
+
+      const standings = await this.rank(tx, rfqId);
+      for (const standing of standings) {
+        await tx.quote.update({ where: { id: standing.quoteId }, data: { rank: standing.rank } });
+      }
+      const rfq = await tx.rfq.findUnique({ where: { id: rfqId } });
+      await outboxService.record(tx, {
+        type: 'rfq.updated',
+        aggregateId: rfqId,
+        recipients: [rfq!.buyerId],
+        data: { rfqId, buyerId: rfq!.buyerId, status: rfq!.status },
+      });
+      return { rfq: rfq!, standings };
+    });
+    if (!result) return false;
+
+    const { rfq, standings } = result;
+    const payload = { rfqId, status: rfq.status, bidders: standings.length };
+    WebSocketService.emitToUser(rfq.buyerId, 'auction:closed', { ...payload, standings });
+    for (const standing of standings) {
+      WebSocketService.emitToUser(standing.sellerId, 'auction:closed', { ...payload, quoteId: standing.quoteId, rank: standing.rank });
+    }
+
+    this.notifyClosed(rfq, standings).catch(err => logger.error('Failed to send bidding closed notifications', err));
+    logger.info(`Bidding closed on RFQ ${rfqId} with ${standings.length} ranked quotes`);
+    return true;
+  }
+
+  // Lowest price first; equal prices go to whoever bid it first
+  private async rank(client: Tx | PrismaClient, rfqId: string): Promise<BidStanding[]> {
+    const quotes = await client.quote.findMany({
+      where: { rfqId, status: 'pending' },
+      orderBy: [{ totalPrice: 'asc' }, { lastBidAt: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true, sellerId: true, totalPrice: true, lastBidAt: true },
+    });
+    return quotes.map((quote, index) => ({
+      rank: index + 1,
+      quoteId: quote.id,
+      sellerId: quote.sellerId,
+      amount: quote.totalPrice.toNumber(),
+      lastBidAt: quote.lastBidAt,
+    }));
+  }
+
+  private async extendIfSniping(tx: Tx, rfq: Rfq): Promise<Date> {
+    const closesAt = rfq.biddingClosesAt!;
+    const remaining = closesAt.getTime() - Date.now();
+    if (!rfq.antiSnipeMinutes || remaining > rfq.antiSnipeMinutes * 60 * 1000 || rfq.extensionCount >= rfq.maxExtensions) {
+      return closesAt;
+    }
+
+    const extended = new Date(closesAt.getTime() + rfq.extensionMinutes * 60 * 1000);
+    // Guarded on the count so concurrent late bids extend only once
+    const result = await tx.rfq.updateMany({
+      where: { id: rfq.id, extensionCount: rfq.extensionCount },
+      data: { biddingClosesAt: extended, extensionCount: { increment: 1 } },
+    });
+    return result.count ? extended : closesAt;
+  }
+
+  private broadcast(rfqId: string, buyerId: string, standings: BidStanding[], biddingClosesAt: Date) {
+    WebSocketService.emitToUser(buyerId, 'auction:standings', { rfqId, biddingClosesAt, standings });
+    const best = standings[0]?.amount;
+    for (const standing of standings) {
+      WebSocketService.emitToUser(standing.sellerId, 'auction:rank', {
+        rfqId,
+        quoteId: standing.quoteId,
+        rank: standing.rank,
+        bidders: standings.length,
+        amount: standing.amount,
+        leading: standing.rank === 1,
+        bestBid: best,
+        biddingClosesAt,
+      });
+    }
+  }
+
+  private async notifyClosed(rfq: Rfq, standings: BidStanding[]) {
+    const buyer = await notificationService.createNotification({
+      userId: rfq.buyerId,
+      title: 'Bidding Closed',
+      message: `Bidding on "${rfq.title}" has closed with ${standings.length} ranked quotes. Review them and pick a winner.`,
+      type: 'rfq_bidding_closed',
+      data: { rfqId: rfq.id },
+    });
+    await notificationService.sendNotification(buyer.id);
+
+    for (const standing of standings) {
+      await notificationService.createNotification({
+        userId: standing.sellerId,
+        title: 'Bidding Closed',
+        message: `Bidding on "${rfq.title}" has closed. Your quote ranked #${standing.rank} of ${standings.length}.`,
+        type: 'rfq_bidding_closed',
+        data: { rfqId: rfq.id, quoteId: standing.quoteId, rank: standing.rank },
+      });
+    }
+  }
+}
+
+export const rfqAuctionService = new RfqAuctionService();
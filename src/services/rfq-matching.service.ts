@@ -0,0 +1,339 @@
+import { Prisma } from '@prisma/client';
+import type { Rfq, RfqMatch } from '@prisma/client';
+import { BaseService } from './base.service';
+import { logger } from '../utils/logger';
+import { config } from '../config/environment';
+import { elasticsearchService, INDICES } from './elasticsearch.service';
+import { notificationService } from './notification.service';
+import { AuthorizationError, NotFoundError } from '../middleware/error-handler';
+
+export type MatchSignal = 'subcategory' | 'text' | 'distance' | 'price' | 'winRate' | 'responsiveness';
+export type MatchSignals = Record<MatchSignal, number>;
+
+export interface SellerMatch {
+  sellerId: string;
+  score: number;
+  signals: MatchSignals;
+}
+
+const MATCH_WEIGHTS: MatchSignals = { subcategory: 0.2, text: 0.25, distance: 0.15, price: 0.15, winRate: 0.1, responsiveness: 0.15 };
+// Sellers beyond this distance get no credit for proximity
+const MAX_DISTANCE_KM = 1500;
+// Track record considered for win rate and responsiveness
+const HISTORY_DAYS = 365;
+// Candidates are scored a page at a time
+const CANDIDATE_PAGE = 1000;
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+/**
+ * Picks which sellers hear about a new RFQ. Every seller with active products in the RFQ's category
+ * is scored on catalogue fit, distance, price and track record; only the top matches are notified,
+ * and each match is stored so quote and win conversion can be measured per match.
+ */
+export class RfqMatchingService extends BaseService {
+  /**
+   * Invited sellers (e.g. past winners of a recurring RFQ) take the first ranks regardless of score;
+   * the remaining places go to the best matches above the floor.
+   */
+  async matchAndNotify(rfq: Rfq, invitedSellerIds: string[] = []): Promise<RfqMatch[]> {
+    const matches = await this.scoreSellers(rfq);
+    const invited = new Set(invitedSellerIds.filter(id => id !== rfq.buyerId));
+    const invitedMatches = [...invited].map(sellerId => matches.find(match => match.sellerId === sellerId)
+      ?? { sellerId, score: 0, signals: { subcategory: 0, text: 0, distance: 0, price: 0, winRate: 0, responsiveness: 0 } });
+    const selected = [
+      ...invitedMatches,
+      ...matches
+        .filter(match => !invited.has(match.sellerId) && match.score >= config.rfq.matchMinScore)
+        .slice(0, Math.max(0, config.rfq.matchTopN - invitedMatches.length)),
+    ];
+
+    if (!selected.length) {
+      logger.info(`No sellers matched RFQ ${rfq.id}`);
+      return [];
+    }
+
+    const now = new Date();
+    await this.prisma.rfqMatch.createMany({
+      data: selected.map((match, index) => ({
+        rfqId: rfq.id,
+        sellerId: match.sellerId,
+        score: match.score,
+        rank: index + 1,
+        signals: match.signals as unknown as Prisma.InputJsonValue,
+        notifiedAt: now,
+      })),
+      skipDuplicates: true,
+    });
+
+    await notificationService.sendBulkNotifications(selected.map(match => (invited.has(match.sellerId)
+      ? {
+        userId: match.sellerId,
+        title: 'Invitation to Quote Again',
+        message: `You won an earlier round of "${rfq.title}" and are invited to quote on the new one.`,
+        type: 'new_rfq',
+        data: { rfqId: rfq.id, categoryId: rfq.categoryId, invited: true },
+      }
+      : {
+        userId: match.sellerId,
+        title: 'New RFQ Matched to You',
+        message: `A new RFQ "${rfq.title}" matches your catalogue.`,
+        type: 'new_rfq',
+        data: { rfqId: rfq.id, categoryId: rfq.categoryId, matchScore: match.score },
+      })));
+
+    logger.info(`RFQ ${rfq.id} matched to ${selected.length} of ${matches.length} candidate sellers (${invitedMatches.length} invited)`);
+    return this.prisma.rfqMatch.findMany({ where: { rfqId: rfq.id }, orderBy: { rank: 'asc' } });
+  }
+
+  /**
+   * Score all candidate sellers for an RFQ, best first. Each signal is between 0 and 1.
+   */
+  async scoreSellers(rfq: Rfq): Promise<SellerMatch[]> {
+    const origin = await this.deliveryPoint(rfq);
+    const scored: SellerMatch[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const candidates = await this.prisma.user.findMany({
+        where: { userType: 'seller', isActive: true, id: { not: rfq.buyerId }, products: { some: { categoryId: rfq.categoryId, isActive: true } } },
+        select: { id: true, city: true, state: true, latitude: true, longitude: true },
+        orderBy: { id: 'asc' },
+        take: CANDIDATE_PAGE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (!candidates.length) break;
+      scored.push(...await this.signalsFor(rfq, candidates, origin));
+      if (candidates.length < CANDIDATE_PAGE) break;
+      cursor = candidates[candidates.length - 1].id;
+    }
+
+    // Text relevance is raw until every page is in, then scaled against the best seller overall
+    const topText = scored.reduce((top, match) => Math.max(top, match.signals.text), 0);
+    const matches = scored.map(({ sellerId, signals }) => {
+      signals.text = topText > 0 ? signals.text / topText : 0;
+      const score = (Object.keys(MATCH_WEIGHTS) as MatchSignal[])
+        .reduce((sum, key) => sum + signals[key] * MATCH_WEIGHTS[key], 0);
+      for (const key of Object.keys(signals) as MatchSignal[]) signals[key] = round4(signals[key]);
+      return { sellerId, score: round4(score), signals };
+    });
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  // Conversion hooks: called inside the quote and acceptance transactions
+  async markQuoted(tx: Prisma.TransactionClient, rfqId: string, sellerId: string, quoteId: string) {
+    await tx.rfqMatch.updateMany({ where: { rfqId, sellerId, quotedAt: null }, data: { quotedAt: new Date(), quoteId } });
+  }
+
+  async markWon(tx: Prisma.TransactionClient, rfqId: string, sellerId: string) {
+    await tx.rfqMatch.updateMany({ where: { rfqId, sellerId, wonAt: null }, data: { wonAt: new Date() } });
+  }
+
+  async listForRfq(rfqId: string, userId: string, isAdmin = false) {
+    const rfq = await this.prisma.rfq.findUnique({ where: { id: rfqId }, select: { id: true, buyerId: true } });
+    if (!rfq) throw new NotFoundError('RFQ not found');
+    if (!isAdmin && rfq.buyerId !== userId) throw new AuthorizationError('Only the buyer can view matches for this RFQ');
+    return this.prisma.rfqMatch.findMany({ where: { rfqId }, orderBy: { rank: 'asc' } });
+  }
+
+  /**
+   * Match-to-quote and match-to-win conversion for matches created in a period, overall and by rank band.
+   */
+  async getConversionStats(from?: Date, to?: Date) {
+    const where: Prisma.RfqMatchWhereInput = {};
+    if (from || to) where.createdAt = { ...(from && { gte: from }), ...(to && { lte: to }) };
+
+    const [notified, quoted, won, byRank] = await Promise.all([
+      this.prisma.rfqMatch.count({ where }),
+      this.prisma.rfqMatch.count({ where: { ...where, quotedAt: { not: null } } }),
+      this.prisma.rfqMatch.count({ where: { ...where, wonAt: { not: null } } }),
+      this.prisma.$queryRaw<{ band: string; notified: bigint; quoted: bigint; won: bigint }[]>`
+        SELECT CASE WHEN rank <= 5 THEN '1-5' WHEN rank <= 10 THEN '6-10' ELSE '11+' END AS band,
+               COUNT(*) AS notified, COUNT(quoted_at) AS quoted, COUNT(won_at) AS won
+        FROM rfq_matches
+        WHERE created_at >= ${from || new Date(0)} AND created_at <= ${to || new Date()}
+        GROUP BY band ORDER BY MIN(rank)`,
+    ]);
+
+    const rate = (n: number, d: number) => (d ? round4(n / d) : 0);
+    return {
+      notified,
+      quoted,
+      won,
+      quoteRate: rate(quoted, notified),
+      winRate: rate(won, notified),
+      byRank: byRank.map(row => ({
+        band: row.band,
+        notified: Number(row.notified),
+        quoted: Number(row.quoted),
+        won: Number(row.won),
+        quoteRate: rate(Number(row.quoted), Number(row.notified)),
+      })),
+    };
+  }
+
+  // Unweighted signals for one page of candidates
+  private async signalsFor(
+    rfq: Rfq,
+    candidates: { id: string; city: string | null; state: string | null; latitude: number | null; longitude: number | null }[],
+    origin: { lat: number; lng: number } | null
+  ): Promise<SellerMatch[]> {
+    const sellerIds = candidates.map(c => c.id);
+    const [subcategorySellers, textScores, prices, winRates, responsiveness] = await Promise.all([
+      this.subcategorySellers(rfq, sellerIds),
+      this.textScores(rfq, sellerIds),
+      this.averagePrices(rfq, sellerIds),
+      this.winRates(sellerIds),
+      this.responsiveness(sellerIds),
+    ]);
+
+    return candidates.map(seller => ({
+      sellerId: seller.id,
+      score: 0,
+      signals: {
+        subcategory: !rfq.subcategoryId ? 1 : subcategorySellers.has(seller.id) ? 1 : 0.5,
+        text: textScores.get(seller.id) ?? 0,
+        distance: this.distanceScore(origin, seller, rfq.deliveryLocation),
+        price: this.priceScore(rfq, prices.get(seller.id)),
+        winRate: winRates.get(seller.id) ?? 0.5,
+        responsiveness: responsiveness.get(seller.id) ?? 0.5,
+      },
+    }));
+  }
+
+  private async subcategorySellers(rfq: Rfq, sellerIds: string[]) {
+    if (!rfq.subcategoryId) return new Set<string>();
+    const rows = await this.prisma.product.groupBy({
+      by: ['sellerId'],
+      where: { sellerId: { in: sellerIds }, subcategoryId: rfq.subcategoryId, isActive: true },
+    });
+    return new Set(rows.map(row => row.sellerId));
+  }
+
+  /**
+   * Best raw product relevance per seller from the product index; scoreSellers scales it.
+   * Search is best-effort: if Elasticsearch is unavailable every seller scores 0 here.
+   */
+  private async textScores(rfq: Rfq, sellerIds: string[]) {
+    const scores = new Map<string, number>();
+    const text = [rfq.title, rfq.description].filter(Boolean).join(' ');
+    try {
+      const response = await elasticsearchService.search(INDICES.PRODUCTS, {
+        size: 0,
+        query: {
+          bool: {
+            must: [{ multi_match: { query: text, fields: ['title^3', 'description', 'subcategory.name', 'category.name'] } }],
+            filter: [{ terms: { 'seller.id': sellerIds } }, { term: { isActive: true } }],
+          },
+        },
+        aggs: {
+          sellers: {
+            terms: { field: 'seller.id', size: sellerIds.length },
+            aggs: { best: { max: { script: '_score' } } },
+          },
+        },
+      });
+      const buckets: { key: string; best: { value: number } }[] = (response as any).aggregations?.sellers?.buckets || [];
+      for (const bucket of buckets) scores.set(bucket.key, bucket.best.value);
+    } catch (error) {
+      logger.warn(`Catalogue similarity unavailable for RFQ ${rfq.id}`, error);
+    }
+    return scores;
+  }
+
+  private async averagePrices(rfq: Rfq, sellerIds: string[]) {
+    const rows = await this.prisma.product.groupBy({
+      by: ['sellerId'],
+      where: {
+        sellerId: { in: sellerIds },
+        isActive: true,
+        ...(rfq.subcategoryId ? { subcategoryId: rfq.subcategoryId } : { categoryId: rfq.categoryId }),
+      },
+      _avg: { price: true },
+    });
+    return new Map(rows.map(row => [row.sellerId, row._avg.price ? row._avg.price.toNumber() : null]));
+  }
+
+  // Accepted share of decided quotes, smoothed so new sellers start near 0.5
+  private async winRates(sellerIds: string[]) {
+    const rows = await this.prisma.quote.groupBy({
+      by: ['sellerId', 'status'],
+      where: { sellerId: { in: sellerIds }, status: { in: ['accepted', 'rejected'] }, createdAt: { gte: this.historyStart() } },
+      _count: { _all: true },
+    });
+    const tally = new Map<string, { won: number; total: number }>();
+    for (const row of rows) {
+      const entry = tally.get(row.sellerId) || { won: 0, total: 0 };
+      entry.total += row._count._all;
+      if (row.status === 'accepted') entry.won += row._count._all;
+      tally.set(row.sellerId, entry);
+    }
+    return new Map([...tally].map(([sellerId, t]) => [sellerId, (t.won + 1) / (t.total + 2)]));
+  }
+
+  // Share of past matches the seller answered with a quote, smoothed the same way
+  private async responsiveness(sellerIds: string[]) {
+    const where = { sellerId: { in: sellerIds }, createdAt: { gte: this.historyStart() } };
+    const [notified, quoted] = await Promise.all([
+      this.prisma.rfqMatch.groupBy({ by: ['sellerId'], where, _count: { _all: true } }),
+      this.prisma.rfqMatch.groupBy({ by: ['sellerId'], where: { ...where, quotedAt: { not: null } }, _count: { _all: true } }),
+    ]);
+    const quotedBySeller = new Map(quoted.map(row => [row.sellerId, row._count._all]));
+    return new Map(notified.map(row => [row.sellerId, ((quotedBySeller.get(row.sellerId) || 0) + 1) / (row._count._all + 2)]));
+  }
+
+  // The RFQ's own coordinates, else the buyer's
+  private async deliveryPoint(rfq: Rfq) {
+    if (rfq.deliveryLat !== null && rfq.deliveryLng !== null) return { lat: rfq.deliveryLat, lng: rfq.deliveryLng };
+    const buyer = await this.prisma.user.findUnique({ where: { id: rfq.buyerId }, select: { latitude: true, longitude: true } });
+    return buyer?.latitude != null && buyer.longitude != null ? { lat: buyer.latitude, lng: buyer.longitude } : null;
+  }
+
+  /**
+   * Linear falloff with great-circle distance; without coordinates, fall back to matching the
+   * seller's city or state in the delivery location. Unknown locations score a neutral 0.5.
+   */
+  private distanceScore(
+    origin: { lat: number; lng: number } | null,
+    seller: { city: string | null; state: string | null; latitude: number | null; longitude: number | null },
+    deliveryLocation: string | null
+  ) {
+    if (origin && seller.latitude !== null && seller.longitude !== null) {
+      const km = haversineKm(origin.lat, origin.lng, seller.latitude, seller.longitude);
+      return Math.max(0, 1 - km / MAX_DISTANCE_KM);
+    }
+    if (!deliveryLocation || (!seller.city && !seller.state)) return 0.5;
+    const location = deliveryLocation.toLowerCase();
+    if (seller.city && location.includes(seller.city.toLowerCase())) return 1;
+    if (seller.state && location.includes(seller.state.toLowerCase())) return 0.7;
+    return 0.2;
+  }
+
+  /**
+   * How well the seller's typical price fits the budget. The budget is for the whole RFQ, so the
+   * seller's average unit price is multiplied by the requested quantity.
+   */
+  private priceScore(rfq: Rfq, averagePrice: number | null | undefined) {
+    if (!averagePrice || (!rfq.budgetMin && !rfq.budgetMax)) return 0.5;
+    const estimate = averagePrice * (rfq.quantity || 1);
+    const min = rfq.budgetMin?.toNumber() ?? 0;
+    const max = rfq.budgetMax?.toNumber() ?? Infinity;
+    if (estimate >= min && estimate <= max) return 1;
+    const bound = estimate > max ? max : min;
+    return Math.max(0, 1 - Math.abs(estimate - bound) / Math.max(bound, 1));
+  }
+
+  private historyStart() {
+    return new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
+
+function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export const rfqMatchingService = new RfqMatchingService();
@@ -0,0 +1,343 @@
+import { Prisma, RfqSavedSearch } from '@prisma/client';
+import { BaseService } from './base.service';
+import { elasticsearchService, INDICES, RFQ_INDEX_INCLUDE } from './elasticsearch.service';
+import { notificationService } from './notification.service';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError } from '../middleware/error-handler';
+
+export interface RfqSearchCriteria {
+  q?: string;
+  categoryId?: string;
+  subcategoryId?: string;
+  mode?: 'open' | 'sealed_bid' | 'reverse_auction';
+  // A budget range matches any RFQ whose budget overlaps it
+  budgetMin?: number;
+  budgetMax?: number;
+  lat?: number;
+  lng?: number;
+  radiusKm?: number;
+  expiresWithinDays?: number;
+}
+
+export interface RfqSearchOptions {
+  page?: number;
+  limit?: number;
+  sort?: 'relevance' | 'newest' | 'expiring' | 'budget' | 'distance';
+  createdAfter?: Date;
+  createdBefore?: Date;
+  // Sellers never see their own RFQs
+  excludeBuyerId?: string;
+}
+
+export interface RfqSearchFacetBucket {
+  key: string;
+  label?: string;
+  count: number;
+}
+
+export interface RfqSearchResult {
+  rfqs: any[];
+  total: number;
+  page: number;
+  totalPages: number;
+  // Null when search fell back to the database
+  facets: Record<string, RfqSearchFacetBucket[]> | null;
+}
+
+export interface SavedSearchInput {
+  name: string;
+  criteria: RfqSearchCriteria;
+  alertsEnabled?: boolean;
+}
+
+const MAX_SAVED_SEARCHES = 20;
+// RFQs younger than this may not be indexed yet; they are left for the next alert run
+const ALERT_INDEX_LAG_MS = 5 * 60 * 1000;
+const ALERT_BATCH_SIZE = 200;
+const ALERT_PREVIEW_SIZE = 5;
+
+const BUDGET_BUCKETS = [
+  { key: 'under_10k', to: 10000 },
+  { key: '10k_1l', from: 10000, to: 100000 },
+  { key: '1l_10l', from: 100000, to: 1000000 },
+  { key: 'over_10l', from: 1000000 },
+];
+const DISTANCE_BUCKETS = [
+  { key: 'within_50km', to: 50 },
+  { key: '50_200km', from: 50, to: 200 },
+  { key: '200_500km', from: 200, to: 500 },
+  { key: 'over_500km', from: 500 },
+];
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const haversineKm = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const a = Math.sin(toRad(lat2 - lat1) / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Seller-side discovery of open RFQs over the RFQ index, with facets and saved searches that alert
+ * sellers to newly posted matches. Falls back to a database query without facets or radius
+ * filtering when Elasticsearch is unavailable.
+ */
+export class RfqSearchService extends BaseService {
+  async search(criteria: RfqSearchCriteria, options: RfqSearchOptions = {}): Promise<RfqSearchResult> {
+    const page = options.page || 1;
+    const limit = options.limit || 20;
+    try {
+      const response = await elasticsearchService.search(INDICES.RFQS, this.buildQuery(criteria, options, page, limit));
+      const ids = (response.hits?.hits || []).map(hit => hit._source?.id || hit._id) as string[];
+      const total = typeof response.hits?.total === 'object' ? response.hits.total.value : response.hits?.total || 0;
+      return {
+        rfqs: await this.hydrate(ids, criteria),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+        facets: this.readFacets(response.aggregations),
+      };
+    } catch (error) {
+      logger.error('RFQ search failed, falling back to database:', error);
+      return this.searchDatabase(criteria, options, page, limit);
+    }
+  }
+
+  // Re-index one RFQ from the database; called for RFQ change events
+  async syncRfq(rfqId: string): Promise<void> {
+    const rfq = await this.prisma.rfq.findUnique({ where: { id: rfqId }, include: RFQ_INDEX_INCLUDE });
+    if (!rfq) {
+      await elasticsearchService.deleteRfq(rfqId);
+      return;
+    }
+    await elasticsearchService.indexRfq(rfq);
+  }
+
+  async listSavedSearches(sellerId: string): Promise<RfqSavedSearch[]> {
+    return this.prisma.rfqSavedSearch.findMany({ where: { sellerId }, orderBy: { createdAt: 'desc' } });
+  }
+
+  async createSavedSearch(sellerId: string, input: SavedSearchInput): Promise<RfqSavedSearch> {
+    const count = await this.prisma.rfqSavedSearch.count({ where: { sellerId } });
+    if (count >= MAX_SAVED_SEARCHES) throw new ConflictError(`You can save up to ${MAX_SAVED_SEARCHES} RFQ searches`);
+    return this.prisma.rfqSavedSearch.create({
+      data: {
+        sellerId,
+        name: input.name,
+        criteria: input.criteria as Prisma.InputJsonValue,
+        alertsEnabled: input.alertsEnabled ?? true,
+        // Alerts cover RFQs posted from now on
+        lastAlertedAt: new Date(),
+      },
+    });
+  }
+
+  async updateSavedSearch(id: string, sellerId: string, input: Partial<SavedSearchInput>): Promise<RfqSavedSearch> {
+    await this.getOwnedSavedSearch(id, sellerId);
+    return this.prisma.rfqSavedSearch.update({
+      where: { id },
+      data: {
+        name: input.name,
+        criteria: input.criteria ? (input.criteria as Prisma.InputJsonValue) : undefined,
+        alertsEnabled: input.alertsEnabled,
+      },
+    });
+  }
+
+  async deleteSavedSearch(id: string, sellerId: string): Promise<void> {
+    await this.getOwnedSavedSearch(id, sellerId);
+    await this.prisma.rfqSavedSearch.delete({ where: { id } });
+  }
+
+  async runSavedSearch(id: string, sellerId: string, options: RfqSearchOptions = {}): Promise<RfqSearchResult> {
+    const saved = await this.getOwnedSavedSearch(id, sellerId);
+    return this.search(saved.criteria as RfqSearchCriteria, { ...options, excludeBuyerId: sellerId });
+  }
+
+  /**
+   * Notify sellers of RFQs posted since their last alert that match their saved searches.
+   * Returns the number of alerts sent.
+   */
+  async sendSavedSearchAlerts(): Promise<number> {
+    const windowEnd = new Date(Date.now() - ALERT_INDEX_LAG_MS);
+    let cursor: string | undefined;
+    let sent = 0;
+
+    for (;;) {
+      const batch = await this.prisma.rfqSavedSearch.findMany({
+        where: { alertsEnabled: true },
+        orderBy: { id: 'asc' },
+        take: ALERT_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+      if (!batch.length) break;
+      cursor = batch[batch.length - 1].id;
+
+      for (const saved of batch) {
+        const windowStart = saved.lastAlertedAt || saved.createdAt;
+        if (windowStart >= windowEnd) continue;
+        try {
+          const criteria = saved.criteria as RfqSearchCriteria;
+          const result = await this.search(criteria, {
+            limit: ALERT_PREVIEW_SIZE,
+            sort: 'newest',
+            createdAfter: windowStart,
+            createdBefore: windowEnd,
+            excludeBuyerId: saved.sellerId,
+          });
+          // The database fallback (no facets) ignores the radius; keep the window for the next run
+          if (result.facets === null && criteria.radiusKm) continue;
+          if (result.total > 0) {
+            await notificationService.createNotification({
+              userId: saved.sellerId,
+              title: 'New RFQs for Your Saved Search',
+              message: `${result.total} new RFQ${result.total === 1 ? '' : 's'} match "${saved.name}".`,
+              type: 'rfq_saved_search',
+              data: { savedSearchId: saved.id, rfqIds: result.rfqs.map(rfq => rfq.id), total: result.total },
+            });
+            sent++;
+          }
+          await this.prisma.rfqSavedSearch.update({ where: { id: saved.id }, data: { lastAlertedAt: windowEnd } });
+        } catch (error) {
+          logger.error(`Saved RFQ search alert failed for ${saved.id}:`, error);
+        }
+      }
+    }
+    return sent;
+  }
+
+  private async getOwnedSavedSearch(id: string, sellerId: string): Promise<RfqSavedSearch> {
+    const saved = await this.prisma.rfqSavedSearch.findFirst({ where: { id, sellerId } });
+    if (!saved) throw new NotFoundError('Saved search not found');
+    return saved;
+  }
+
+  private buildQuery(criteria: RfqSearchCriteria, options: RfqSearchOptions, page: number, limit: number) {
+    const filter: any[] = [{ term: { status: 'active' } }, { range: { expiresAt: { gt: 'now' } } }];
+    const mustNot: any[] = [];
+    const must: any[] = [];
+
+    if (criteria.q) {
+      must.push({
+        multi_match: {
+          query: criteria.q,
+          fields: ['title^3', 'description', 'items.name^2', 'category.name', 'subcategory.name'],
+          type: 'best_fields',
+          fuzziness: 'AUTO',
+        },
+      });
+    }
+    if (criteria.categoryId) filter.push({ term: { categoryId: criteria.categoryId } });
+    if (criteria.subcategoryId) filter.push({ term: { subcategoryId: criteria.subcategoryId } });
+    if (criteria.mode) filter.push({ term: { mode: criteria.mode } });
+    // RFQs without a stated budget are kept
+    if (criteria.budgetMin !== undefined) mustNot.push({ range: { budgetMax: { lt: criteria.budgetMin } } });
+    if (criteria.budgetMax !== undefined) mustNot.push({ range: { budgetMin: { gt: criteria.budgetMax } } });
+    if (criteria.expiresWithinDays) filter.push({ range: { expiresAt: { lte: `now+${criteria.expiresWithinDays}d` } } });
+    if (options.createdAfter || options.createdBefore) {
+      filter.push({ range: { createdAt: { ...(options.createdAfter && { gt: options.createdAfter.toISOString() }), ...(options.createdBefore && { lte: options.createdBefore.toISOString() }) } } });
+    }
+    if (options.excludeBuyerId) mustNot.push({ term: { buyerId: options.excludeBuyerId } });
+
+    const origin = criteria.lat !== undefined && criteria.lng !== undefined ? { lat: criteria.lat, lon: criteria.lng } : null;
+    if (origin && criteria.radiusKm) filter.push({ geo_distance: { distance: `${criteria.radiusKm}km`, location: origin } });
+
+    const sort: any[] = [];
+    switch (options.sort) {
+      case 'newest': sort.push({ createdAt: { order: 'desc' } }); break;
+      case 'expiring': sort.push({ expiresAt: { order: 'asc' } }); break;
+      case 'budget': sort.push({ budgetMax: { order: 'desc', missing: '_last' } }); break;
+      case 'distance':
+        if (origin) sort.push({ _geo_distance: { location: origin, order: 'asc', unit: 'km' } });
+        break;
+    }
+    sort.push({ _score: { order: 'desc' } }, { createdAt: { order: 'desc' } });
+
+    const aggs: any = {
+      categories: { terms: { field: 'categoryId', size: 20 }, aggs: { name: { terms: { field: 'category.name.keyword', size: 1 } } } },
+      subcategories: { terms: { field: 'subcategoryId', size: 20 }, aggs: { name: { terms: { field: 'subcategory.name.keyword', size: 1 } } } },
+      modes: { terms: { field: 'mode', size: 5 } },
+      budget: { range: { field: 'budgetMax', ranges: BUDGET_BUCKETS } },
+      expiry: {
+        date_range: {
+          field: 'expiresAt',
+          ranges: [
+            { key: 'within_24h', from: 'now', to: 'now+1d' },
+            { key: 'within_7d', from: 'now', to: 'now+7d' },
+            { key: 'within_30d', from: 'now', to: 'now+30d' },
+          ],
+        },
+      },
+    };
+    if (origin) aggs.distance = { geo_distance: { field: 'location', origin, unit: 'km', ranges: DISTANCE_BUCKETS } };
+
+    return {
+      query: { bool: { must, filter, must_not: mustNot } },
+      from: (page - 1) * limit,
+      size: limit,
+      sort,
+      aggs,
+      track_total_hits: true,
+    };
+  }
+
+  private readFacets(aggregations: any): Record<string, RfqSearchFacetBucket[]> {
+    const facets: Record<string, RfqSearchFacetBucket[]> = {};
+    for (const [name, agg] of Object.entries<any>(aggregations || {})) {
+      facets[name] = (agg.buckets || []).map((bucket: any) => ({
+        key: String(bucket.key),
+        ...(bucket.name?.buckets?.[0] && { label: bucket.name.buckets[0].key }),
+        count: bucket.doc_count,
+      }));
+    }
+    return facets;
+  }
+
+  // Load RFQs in search order, with distance from the searcher when a point was given
+  private async hydrate(ids: string[], criteria: RfqSearchCriteria) {
+    if (!ids.length) return [];
+    const rfqs = await this.prisma.rfq.findMany({
+      where: { id: { in: ids } },
+      include: {
+        buyer: { select: { id: true, businessName: true, city: true, state: true, verificationTier: true, isVerified: true } },
+        category: true,
+        subcategory: true,
+        items: { orderBy: { lineNumber: 'asc' } },
+        _count: { select: { quotes: true } },
+      },
+    });
+    const byId = new Map(rfqs.map(rfq => [rfq.id, rfq]));
+    return ids.map(id => byId.get(id)).filter(Boolean).map(rfq => ({
+      ...rfq!,
+      distanceKm: criteria.lat !== undefined && criteria.lng !== undefined && rfq!.deliveryLat !== null && rfq!.deliveryLng !== null
+        ? Math.round(haversineKm(criteria.lat, criteria.lng, rfq!.deliveryLat, rfq!.deliveryLng!) * 10) / 10
+        : null,
+    }));
+  }
+
+  private async searchDatabase(criteria: RfqSearchCriteria, options: RfqSearchOptions, page: number, limit: number): Promise<RfqSearchResult> {
+    const where: Prisma.RfqWhereInput = { status: 'active', expiresAt: { gt: new Date() } };
+    const and: Prisma.RfqWhereInput[] = [];
+    if (criteria.q) {
+      and.push({ OR: [{ title: { contains: criteria.q, mode: 'insensitive' } }, { description: { contains: criteria.q, mode: 'insensitive' } }] });
+    }
+    if (criteria.categoryId) where.categoryId = criteria.categoryId;
+    if (criteria.subcategoryId) where.subcategoryId = criteria.subcategoryId;
+    if (criteria.mode) where.mode = criteria.mode;
+    if (criteria.budgetMin !== undefined) and.push({ OR: [{ budgetMax: null }, { budgetMax: { gte: criteria.budgetMin } }] });
+    if (criteria.budgetMax !== undefined) and.push({ OR: [{ budgetMin: null }, { budgetMin: { lte: criteria.budgetMax } }] });
+    if (criteria.expiresWithinDays) and.push({ expiresAt: { lte: new Date(Date.now() + criteria.expiresWithinDays * 24 * 60 * 60 * 1000) } });
+    if (options.createdAfter || options.createdBefore) where.createdAt = { gt: options.createdAfter, lte: options.createdBefore };
+    if (options.excludeBuyerId) where.buyerId = { not: options.excludeBuyerId };
+    if (and.length) where.AND = and;
+
+    const orderBy: Prisma.RfqOrderByWithRelationInput = options.sort === 'expiring' ? { expiresAt: 'asc' }
+      : options.sort === 'budget' ? { budgetMax: { sort: 'desc', nulls: 'last' } }
+        : { createdAt: 'desc' };
+    const [rows, total] = await Promise.all([
+      this.prisma.rfq.findMany({ where, select: { id: true }, orderBy, skip: (page - 1) * limit, take: limit }),
+      this.prisma.rfq.count({ where }),
+    ]);
+    return { rfqs: await this.hydrate(rows.map(row => row.id), criteria), total, page, totalPages: Math.ceil(total / limit), facets: null };
+  }
+}
+
+export const rfqSearchService = new RfqSearchService();
@@ -0,0 +1,331 @@
+import { Prisma, RfqTemplate, Rfq } from '@prisma/client';
+import { BaseService } from './base.service';
+import { rfqService } from './rfq.service';
+import type { RfqLineData } from './rfq.service';
+import { usageLimitsService } from './usage-limits.service';
+import { notificationService } from './notification.service';
+import { logger } from '../utils/logger';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../middleware/error-handler';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RfqTemplateData {
+  name: string;
+  // Copies the RFQ's fields and line items; explicit fields below override them
+  fromRfqId?: string;
+  title?: string;
+  description?: string;
+  categoryId?: string;
+  subcategoryId?: string;
+  quantity?: number;
+  budgetMin?: number;
+  budgetMax?: number;
+  deliveryTimeline?: string;
+  deliveryLocation?: string;
+  deliveryLat?: number;
+  deliveryLng?: number;
+  mode?: 'open' | 'sealed_bid' | 'reverse_auction';
+  biddingHours?: number;
+  items?: RfqLineData[];
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  validityDays?: number;
+  startsAt?: Date | string;
+  endsAt?: Date | string;
+  maxOccurrences?: number;
+  inviteWinners?: boolean;
+  shareBenchmark?: boolean;
+}
+
+export type UpdateRfqTemplateData = Partial<Omit<RfqTemplateData, 'fromRfqId'>>;
+
+// Winners of this many recent occurrences are invited to the next one
+const WINNER_LOOKBACK = 6;
+const DUE_BATCH_SIZE = 100;
+
+/**
+ * Step a run date forward by the template's recurrence. Monthly steps keep the day of month,
+ * clamped to the end of shorter months.
+ */
+export function advanceRecurrence(from: Date, frequency: string, interval: number): Date {
+  const next = new Date(from);
+  if (frequency === 'daily') next.setDate(next.getDate() + interval);
+  else if (frequency === 'weekly') next.setDate(next.getDate() + 7 * interval);
+  else {
+    const day = next.getDate();
+    next.setDate(1);
+    next.setMonth(next.getMonth() + interval);
+    const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+    next.setDate(Math.min(day, lastDay));
+  }
+  return next;
+}
+
+/**
+ * Recurring RFQs for repeat procurement. Each active template is materialised into a new RFQ when
+ * it falls due; every occurrence goes through the normal RFQ posting path, so it counts against
+ * the buyer's monthly limit and is matched to sellers like any other RFQ.
+ */
+export class RfqTemplateService extends BaseService {
+  async create(buyerId: string, data: RfqTemplateData): Promise<RfqTemplate> {
+    const base = data.fromRfqId ? await this.copyFromRfq(data.fromRfqId, buyerId) : {};
+    const { startsAt, endsAt, items, ...fields } = data;
+    const merged = { ...base, ...this.defined(fields) } as RfqTemplateData;
+    const lines = items ?? (base as { items?: RfqLineData[] }).items;
+    if (!merged.title || !merged.categoryId) throw new ValidationError('title and categoryId are required unless copying an RFQ');
+    this.assertSchedule(merged);
+
+    const nextRunAt = startsAt ? new Date(startsAt) : new Date();
+    if (endsAt && new Date(endsAt) <= nextRunAt) throw new ValidationError('endsAt must be after the first occurrence');
+
+    const template = await this.prisma.rfqTemplate.create({
+      data: {
+        buyerId,
+        name: merged.name,
+        title: merged.title,
+        description: merged.description,
+        categoryId: merged.categoryId,
+        subcategoryId: merged.subcategoryId,
+        quantity: merged.quantity,
+        budgetMin: merged.budgetMin,
+        budgetMax: merged.budgetMax,
+        deliveryTimeline: merged.deliveryTimeline,
+        deliveryLocation: merged.deliveryLocation,
+        deliveryLat: merged.deliveryLat,
+        deliveryLng: merged.deliveryLng,
+        mode: merged.mode || 'open',
+        biddingHours: merged.biddingHours,
+        items: lines?.length ? (lines as unknown as Prisma.InputJsonValue) : undefined,
+        frequency: merged.frequency,
+        interval: merged.interval ?? 1,
+        validityDays: merged.validityDays ?? 7,
+        nextRunAt,
+        endsAt: endsAt ? new Date(endsAt) : undefined,
+        maxOccurrences: merged.maxOccurrences,
+        inviteWinners: merged.inviteWinners ?? true,
+        shareBenchmark: merged.shareBenchmark ?? true,
+      },
+    });
+
+    logger.info(`RFQ template created: ${template.id} by buyer: ${buyerId}`);
+    return template;
+  }
+
+  async list(buyerId: string): Promise<RfqTemplate[]> {
+    return this.prisma.rfqTemplate.findMany({ where: { buyerId }, orderBy: { createdAt: 'desc' } });
+  }
+
+  async get(id: string, buyerId: string) {
+    const template = await this.prisma.rfqTemplate.findUnique({
+      where: { id },
+      include: { rfqs: { select: { id: true, title: true, status: true, benchmarkPrice: true, createdAt: true }, orderBy: { createdAt: 'desc' }, take: 12 } },
+    });
+    if (!template) throw new NotFoundError('RFQ template not found');
+    if (template.buyerId !== buyerId) throw new AuthorizationError('You do not own this RFQ template');
+    return template;
+  }
+
+  async update(id: string, buyerId: string, data: UpdateRfqTemplateData): Promise<RfqTemplate> {
+    const template = await this.get(id, buyerId);
+    if (template.status === 'ended') throw new ConflictError('This RFQ template has ended');
+
+    const { startsAt, endsAt, items, ...fields } = data;
+    this.assertSchedule({
+      mode: fields.mode ?? (template.mode as RfqTemplateData['mode']),
+      biddingHours: fields.biddingHours ?? template.biddingHours ?? undefined,
+      validityDays: fields.validityDays ?? template.validityDays,
+    });
+
+    return this.prisma.rfqTemplate.update({
+      where: { id },
+      data: {
+        ...this.defined(fields),
+        items: items ? (items as unknown as Prisma.InputJsonValue) : undefined,
+        nextRunAt: startsAt ? new Date(startsAt) : undefined,
+        endsAt: endsAt ? new Date(endsAt) : undefined,
+      },
+    });
+  }
+
+  async setStatus(id: string, buyerId: string, status: 'active' | 'paused'): Promise<RfqTemplate> {
+    const template = await this.get(id, buyerId);
+    if (template.status === 'ended') throw new ConflictError('This RFQ template has ended');
+
+    // A resumed template does not backfill the occurrences it missed while paused
+    let nextRunAt = template.nextRunAt;
+    while (status === 'active' && nextRunAt < new Date()) {
+      nextRunAt = advanceRecurrence(nextRunAt, template.frequency, template.interval);
+    }
+    return this.prisma.rfqTemplate.update({ where: { id }, data: { status, nextRunAt } });
+  }
+
+  async delete(id: string, buyerId: string): Promise<void> {
+    await this.get(id, buyerId);
+    await this.prisma.rfqTemplate.delete({ where: { id } });
+    logger.info(`RFQ template deleted: ${id} by buyer: ${buyerId}`);
+  }
+
+  // Post the next occurrence immediately without moving the schedule
+  async runNow(id: string, buyerId: string): Promise<Rfq> {
+    const template = await this.get(id, buyerId);
+    if (template.status !== 'active') throw new ConflictError('Only active RFQ templates can be run');
+    const rfq = await this.materialise(template);
+    if (!rfq) throw new ConflictError('Monthly RFQ posting limit exceeded; the occurrence was not posted');
+    return rfq;
+  }
+
+  /**
+   * Materialise every template that has fallen due. Each template is claimed by moving its
+   * nextRunAt forward first, so overlapping runs cannot post the same occurrence twice.
+   * Returns the number of RFQs posted.
+   */
+  async materialiseDue(): Promise<number> {
+    const now = new Date();
+    const due = await this.prisma.rfqTemplate.findMany({
+      where: { status: 'active', nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+      take: DUE_BATCH_SIZE,
+    });
+
+    let posted = 0;
+    for (const template of due) {
+      let nextRunAt = advanceRecurrence(template.nextRunAt, template.frequency, template.interval);
+      while (nextRunAt <= now) nextRunAt = advanceRecurrence(nextRunAt, template.frequency, template.interval);
+      const ended = !!template.endsAt && nextRunAt > template.endsAt;
+
+      const claimed = await this.prisma.rfqTemplate.updateMany({
+        where: { id: template.id, status: 'active', nextRunAt: template.nextRunAt },
+        data: { nextRunAt, ...(ended && { status: 'ended' }) },
+      });
+      if (!claimed.count) continue;
+
+      try {
+        if (await this.materialise(template)) posted++;
+      } catch (error: any) {
+        logger.error(`Failed to materialise RFQ template ${template.id}:`, error);
+        await this.prisma.rfqTemplate.update({ where: { id: template.id }, data: { lastError: error?.message || 'Unknown error' } });
+      }
+    }
+    return posted;
+  }
+
+  /**
+   * Post one occurrence. When the buyer is over their monthly RFQ limit the occurrence is skipped
+   * and the buyer told why; returns null in that case.
+   */
+  private async materialise(template: RfqTemplate): Promise<Rfq | null> {
+    const { canPost, limit } = await usageLimitsService.canPostRfq(template.buyerId);
+    if (!canPost) {
+      const reason = `Monthly RFQ posting limit of ${limit} reached; this occurrence was skipped`;
+      await this.prisma.rfqTemplate.update({ where: { id: template.id }, data: { lastError: reason } });
+      await notificationService.createNotification({
+        userId: template.buyerId,
+        title: 'Recurring RFQ Skipped',
+        message: `"${template.name}" was not posted: ${reason}.`,
+        type: 'rfq_template_skipped',
+        data: { templateId: template.id },
+      });
+      return null;
+    }
+
+    const [winners, benchmark] = await Promise.all([
+      template.inviteWinners ? this.previousWinners(template.id) : Promise.resolve([]),
+      template.shareBenchmark ? this.lastAcceptedPrice(template.id) : Promise.resolve(undefined),
+    ]);
+
+    const now = Date.now();
+    const rfq = await rfqService.createRfq(template.buyerId, {
+      title: template.title,
+      description: template.description ?? undefined,
+      categoryId: template.categoryId,
+      subcategoryId: template.subcategoryId ?? undefined,
+      quantity: template.quantity ?? undefined,
+      budgetMin: template.budgetMin?.toNumber(),
+      budgetMax: template.budgetMax?.toNumber(),
+      deliveryTimeline: template.deliveryTimeline ?? undefined,
+      deliveryLocation: template.deliveryLocation ?? undefined,
+      deliveryLat: template.deliveryLat ?? undefined,
+      deliveryLng: template.deliveryLng ?? undefined,
+      mode: template.mode as RfqTemplateData['mode'],
+      biddingClosesAt: template.mode !== 'open' && template.biddingHours ? new Date(now + template.biddingHours * 60 * 60 * 1000) : undefined,
+      items: (template.items as unknown as RfqLineData[] | null) ?? undefined,
+      expiresAt: new Date(now + template.validityDays * 24 * 60 * 60 * 1000),
+    }, { templateId: template.id, benchmarkPrice: benchmark, invitedSellerIds: winners });
+
+    const occurrences = template.occurrences + 1;
+    await this.prisma.rfqTemplate.update({
+      where: { id: template.id },
+      data: {
+        occurrences,
+        lastRunAt: new Date(),
+        lastError: null,
+        ...(template.maxOccurrences && occurrences >= template.maxOccurrences && { status: 'ended' }),
+      },
+    });
+
+    logger.info(`RFQ template ${template.id} materialised as RFQ ${rfq.id} (occurrence ${occurrences})`);
+    return rfq;
+  }
+
+  private async previousWinners(templateId: string): Promise<string[]> {
+    const quotes = await this.prisma.quote.findMany({
+      where: { status: 'accepted', rfq: { templateId } },
+      select: { sellerId: true },
+      orderBy: { rfq: { createdAt: 'desc' } },
+      take: WINNER_LOOKBACK,
+    });
+    return [...new Set(quotes.map(quote => quote.sellerId))];
+  }
+
+  private async lastAcceptedPrice(templateId: string): Promise<number | undefined> {
+    const quote = await this.prisma.quote.findFirst({
+      where: { status: 'accepted', rfq: { templateId } },
+      select: { totalPrice: true },
+      orderBy: { rfq: { createdAt: 'desc' } },
+    });
+    return quote?.totalPrice.toNumber();
+  }
+
+  private async copyFromRfq(rfqId: string, buyerId: string): Promise<Partial<RfqTemplateData>> {
+    const rfq = await this.prisma.rfq.findUnique({ where: { id: rfqId }, include: { items: { orderBy: { lineNumber: 'asc' } } } });
+    if (!rfq) throw new NotFoundError('RFQ not found');
+    if (rfq.buyerId !== buyerId) throw new AuthorizationError('You can only create templates from your own RFQs');
+
+    return this.defined({
+      title: rfq.title,
+      description: rfq.description,
+      categoryId: rfq.categoryId,
+      subcategoryId: rfq.subcategoryId,
+      quantity: rfq.quantity,
+      budgetMin: rfq.budgetMin?.toNumber(),
+      budgetMax: rfq.budgetMax?.toNumber(),
+      deliveryTimeline: rfq.deliveryTimeline,
+      deliveryLocation: rfq.deliveryLocation,
+      deliveryLat: rfq.deliveryLat,
+      deliveryLng: rfq.deliveryLng,
+      items: rfq.items.map(item => this.defined({
+        productId: item.productId,
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        targetPrice: item.targetPrice?.toNumber(),
+        specifications: item.specifications as Record<string, unknown> | null,
+        requiredCertifications: item.requiredCertifications,
+      }) as RfqLineData),
+    }) as Partial<RfqTemplateData>;
+  }
+
+  private assertSchedule(template: Pick<RfqTemplateData, 'mode' | 'biddingHours' | 'validityDays'>) {
+    if (!template.mode || template.mode === 'open') return;
+    if (!template.biddingHours) throw new ValidationError('biddingHours is required for sealed-bid and auction templates');
+    if (template.biddingHours > (template.validityDays ?? 7) * 24) throw new ValidationError('biddingHours cannot exceed validityDays');
+  }
+
+  // Drop null and undefined values so they do not override copied or stored fields
+  private defined<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null && v !== undefined)) as Partial<T>;
+  }
+}
+
+export const rfqTemplateService = new RfqTemplateService();
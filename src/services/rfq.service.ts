@@ -2,9 +2,30 @@ import { BaseService } from './base.service';
 import { logger } from '../utils/logger';
 import { NotificationService } from './notification.service';
 import { usageLimitsService } from './usage-limits.service';
-import { Rfq, Quote } from '@prisma/client';
+import { taxService } from './tax.service';
+import { OrderService } from './order.service';
+import { paymentService } from './payment.service';
+import { rfqAuctionService } from './rfq-auction.service';
+import { rfqMatchingService } from './rfq-matching.service';
+import { outboxService } from './outbox.service';
+import type { BiddingSettings } from './rfq-auction.service';
+import { config } from '../config/environment';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/error-handler';
+import { Prisma, Rfq, RfqItem, Quote, Deal, Order } from '@prisma/client';
+
+export interface RfqLineData {
+  productId?: string;
+  name: string;
+  description?: string;
+  quantity: number;
+  unit: string;
+  // Per unit
+  targetPrice?: number;
+  specifications?: Record<string, unknown>;
+  requiredCertifications?: string[];
+}
 
-export interface CreateRfqData {
+export interface CreateRfqData extends BiddingSettings {
   title: string;
   description?: string;
   categoryId: string;
@@ -14,7 +35,18 @@ export interface CreateRfqData {
   budgetMax?: number;
   deliveryTimeline?: string;
   deliveryLocation?: string;
+  deliveryLat?: number;
+  deliveryLng?: number;
   expiresAt?: Date;
+  items?: RfqLineData[];
+}
+
+// Set by the recurring-template job rather than the API
+export interface CreateRfqOptions {
+  templateId?: string;
+  benchmarkPrice?: number;
+  // Sellers invited ahead of the scored matches
+  invitedSellerIds?: string[];
 }
 
 export interface UpdateRfqData extends Partial<CreateRfqData> {
@@ -24,14 +56,18 @@ export interface UpdateRfqData extends Partial<CreateRfqData> {
 export interface CreateQuoteData {
   rfqId: string;
   sellerId: string;
-  totalPrice: number;
+  // Required without items; with items it is derived from them and, if given, must match
+  totalPrice?: number;
   deliveryTimeline?: string;
   termsConditions?: string;
   validUntil?: Date;
   items: {
     productId: string;
+    // Required when the RFQ has line items; each line is answered exactly once
+    rfqItemId?: string;
     quantity: number;
     unitPrice: number;
+    certifications?: string[];
   }[];
 }
 
@@ -43,6 +79,21 @@ export interface UpdateQuoteData {
   status?: string;
 }
 
+export interface AcceptQuoteOptions {
+  shippingAddressId?: string;
+  deliveryAddress?: any;
+  billingAddress?: any;
+  notes?: string;
+  // Overrides the platform default for whether the order waits for buyer approval
+  requireApproval?: boolean;
+}
+
+export interface AcceptedQuote {
+  quote: Quote;
+  order: Order | null;
+  deal: Deal;
+}
+
 export interface RfqFilters {
   buyerId?: string;
   categoryId?: string;
@@ -55,6 +106,8 @@ export interface RfqFilters {
 }
 
 export interface QuoteFilters {
+  // Hides sealed and competing auction quotes this user may not see
+  viewerId?: string;
   rfqId?: string;
   sellerId?: string;
   status?: string;
@@ -62,88 +115,133 @@ export interface QuoteFilters {
   validBefore?: Date;
 }
 
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
 export class RfqService extends BaseService {
   private notificationService: NotificationService;
+  private orderService: OrderService;
 
   constructor() {
     super();
     this.notificationService = new NotificationService();
-  }
-
-  async searchRfqs(where: any, skip: number, take: number) {
-    return this.prisma.rfq.findMany({ where, skip, take, orderBy: { createdAt: 'desc' } });
-  }
-
-  async countRfqs(where: any) {
-    return this.prisma.rfq.count({ where });
+    this.orderService = new OrderService();
   }
 
   // RFQ Methods
-  async createRfq(buyerId: string, data: CreateRfqData): Promise<Rfq> {
+  async createRfq(buyerId: string, data: CreateRfqData, options: CreateRfqOptions = {}): Promise<Rfq> {
     // Check usage limits before creating RFQ
-    const { canPost } = await usageLimitsService.canPostRfq(buyerId);
+    const { canPost, limit } = await usageLimitsService.canPostRfq(buyerId);
     if (!canPost) {
-      throw new Error('Monthly RFQ posting limit exceeded. You can post 3 RFQs per month.');
+      throw new Error(`Monthly RFQ posting limit exceeded. Your plan allows ${limit} RFQs per month.`);
     }
 
-    const rfq = await this.prisma.rfq.create({
-      data: {
-        ...data,
-        buyerId,
-        status: 'active',
-        expiresAt: data.expiresAt || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-      },
-      include: {
-        buyer: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            businessName: true,
-            email: true,
+    const { mode, biddingClosesAt, minDecrement, minDecrementType, antiSnipeMinutes, extensionMinutes, maxExtensions, items, ...fields } = data;
+    const bidding = rfqAuctionService.resolveSettings(
+      { mode, biddingClosesAt, minDecrement, minDecrementType, antiSnipeMinutes, extensionMinutes, maxExtensions },
+      data.expiresAt ? new Date(data.expiresAt) : undefined
+    );
+
+    const rfq = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.rfq.create({
+        data: {
+          ...fields,
+          ...bidding,
+          buyerId,
+          templateId: options.templateId,
+          benchmarkPrice: options.benchmarkPrice,
+          status: 'active',
+          expiresAt: bidding.expiresAt || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+          items: items?.length ? { create: this.toLineRows(items) } : undefined,
+        },
+        include: {
+          buyer: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              businessName: true,
+              email: true,
+            },
           },
+          category: true,
+          subcategory: true,
+          items: { orderBy: { lineNumber: 'asc' } },
         },
-        category: true,
-        subcategory: true,
-      },
+      });
+      await outboxService.record(tx, {
+        type: 'rfq.published',
+        aggregateId: created.id,
+        recipients: [buyerId],
+        data: {
+          rfqId: created.id,
+          buyerId,
+          status: created.status,
+          title: created.title,
+          categoryId: created.categoryId,
+          mode: created.mode,
+          expiresAt: created.expiresAt?.toISOString() ?? null,
+        },
+      });
+      return created;
     });
 
     // Increment usage count after successful creation
     await usageLimitsService.incrementRfqPost(buyerId);
 
-    // Notify relevant sellers (best-effort)
-    this.notifyRelevantSellers(rfq).catch((err) => logger.error('notifyRelevantSellers failed', err));
+    // Notify the best-matching sellers (best-effort)
+    rfqMatchingService.matchAndNotify(rfq, options.invitedSellerIds).catch((err) => logger.error('RFQ seller matching failed', err));
 
     logger.info(`RFQ created: ${rfq.id} by buyer: ${buyerId}`);
     return rfq;
   }
 
   async updateRfq(rfqId: string, buyerId: string, data: UpdateRfqData): Promise<Rfq> {
-    return this.prisma.rfq.update({
-      where: { id: rfqId },
-      data,
-      include: {
-        buyer: true,
-        category: true,
-        subcategory: true,
-        quotes: {
-          include: {
-            seller: {
-              select: {
-                id: true,
-                firstName: true,
-                lastName: true,
-                businessName: true,
+    const { items, ...fields } = data;
+    if (items) {
+      // Quotes answer specific lines, so the lines are frozen once the first quote arrives
+      const quotes = await this.prisma.quote.count({ where: { rfqId } });
+      if (quotes > 0) throw new ConflictError('Line items cannot be changed after quotes have been received');
+    }
+
+    const rfq = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.rfq.update({
+        where: { id: rfqId },
+        data: {
+          ...fields,
+          items: items ? { deleteMany: {}, create: this.toLineRows(items) } : undefined,
+        },
+        include: {
+          buyer: true,
+          category: true,
+          subcategory: true,
+          items: { orderBy: { lineNumber: 'asc' } },
+          quotes: {
+            include: {
+              seller: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                  businessName: true,
+                },
               },
             },
           },
         },
-      },
+      });
+      await outboxService.record(tx, {
+        type: 'rfq.updated',
+        aggregateId: rfqId,
+        recipients: [updated.buyerId],
+        data: { rfqId, buyerId: updated.buyerId, status: updated.status },
+      });
+      return updated;
     });
+    return rfq;
   }
 
-  async getRfqById(rfqId: string): Promise<Rfq | null> {
-    return this.prisma.rfq.findUnique({
+  async getRfqById(rfqId: string, viewerId?: string): Promise<Rfq | null> {
+    const rfq = await this.prisma.rfq.findUnique({
       where: { id: rfqId },
       include: {
         buyer: {
@@ -160,6 +258,8 @@ export class RfqService extends BaseService {
         },
         category: true,
         subcategory: true,
+        items: { orderBy: { lineNumber: 'asc' } },
+        attachments: { orderBy: { createdAt: 'asc' } },
         quotes: {
           include: {
             seller: {
@@ -190,6 +290,10 @@ export class RfqService extends BaseService {
         _count: { select: { quotes: true } },
       },
     });
+    if (rfq && rfq.mode !== 'open') {
+      rfq.quotes = rfq.quotes.filter(quote => rfqAuctionService.canViewQuote(rfq, quote, viewerId));
+    }
+    return rfq;
   }
 
   async getRfqs(filters: RfqFilters = {}, page = 1, limit = 20) {
@@ -237,10 +341,19 @@ export class RfqService extends BaseService {
   }
 
   async closeRfq(rfqId: string, buyerId: string): Promise<Rfq> {
-    const rfq = await this.prisma.rfq.update({
-      where: { id: rfqId },
-      data: { status: 'closed' },
-      include: { buyer: true, quotes: { include: { seller: true } } },
+    const rfq = await this.prisma.$transaction(async (tx) => {
+      const closed = await tx.rfq.update({
+        where: { id: rfqId },
+        data: { status: 'closed' },
+        include: { buyer: true, quotes: { include: { seller: true } } },
+      });
+      await outboxService.record(tx, {
+        type: 'rfq.closed',
+        aggregateId: rfqId,
+        recipients: [closed.buyerId, ...closed.quotes.map(quote => quote.sellerId)],
+        data: { rfqId, buyerId: closed.buyerId, status: closed.status },
+      });
+      return closed;
     });
 
     // Notify sellers who submitted quotes
@@ -261,31 +374,69 @@ export class RfqService extends BaseService {
   // Quote Methods
   async createQuote(data: CreateQuoteData): Promise<Quote> {
     // Check usage limits before creating quote
-    const { canRespond } = await usageLimitsService.canRespondToRfq(data.sellerId);
+    const { canRespond, limit } = await usageLimitsService.canRespondToRfq(data.sellerId);
     if (!canRespond) {
-      throw new Error('Monthly quote response limit exceeded. You can respond to 5 RFQs per month.');
+      throw new Error(`Monthly quote response limit exceeded. Your plan allows ${limit} quote responses per month.`);
     }
 
     return this.prisma.$transaction(async (tx) => {
       const existingQuote = await tx.quote.findFirst({ where: { rfqId: data.rfqId, sellerId: data.sellerId } });
       if (existingQuote) throw new Error('You have already submitted a quote for this RFQ');
 
-      const rfq = await tx.rfq.findUnique({ where: { id: data.rfqId }, include: { buyer: true } });
+      const rfq = await tx.rfq.findUnique({ where: { id: data.rfqId }, include: { buyer: true, items: true } });
       if (!rfq || rfq.status !== 'active') throw new Error('RFQ is not active');
       if (rfq.expiresAt && rfq.expiresAt < new Date()) throw new Error('RFQ has expired');
+      if (rfq.mode !== 'open' && !rfqAuctionService.isBiddingOpen(rfq)) throw new ConflictError('Bidding has closed for this RFQ');
+      if (rfq.items.length) this.assertLinesAnswered(rfq.items, data.items);
+
+      // Quote totals are tax-inclusive when priced line by line
+      const tax = await taxService.calculate({ sellerId: data.sellerId, buyerId: rfq.buyerId, items: data.items }, tx);
+      const subtotal = data.items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+      const computedTotal = round2(subtotal + tax.taxAmount);
+      if (data.items.length && data.totalPrice !== undefined && round2(data.totalPrice) !== computedTotal) {
+        throw new ValidationError('totalPrice does not match the quoted lines plus tax', { totalPrice: data.totalPrice, expected: computedTotal });
+      }
+      if (!data.items.length && data.totalPrice === undefined) throw new ValidationError('totalPrice is required for a quote without items');
 
       const quote = await tx.quote.create({
         data: {
           rfqId: data.rfqId,
           sellerId: data.sellerId,
-          totalPrice: data.totalPrice,
+          totalPrice: data.items.length ? computedTotal : data.totalPrice!,
+          taxAmount: tax.taxAmount,
           deliveryTimeline: data.deliveryTimeline,
           termsConditions: data.termsConditions,
           validUntil: data.validUntil || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
           status: 'pending',
-          items: { create: data.items.map(item => ({ productId: item.productId, quantity: item.quantity, unitPrice: item.unitPrice, totalPrice: item.unitPrice * item.quantity })) },
+          items: {
+            create: data.items.map(item => ({
+              productId: item.productId,
+              rfqItemId: rfq.items.length ? item.rfqItemId : undefined,
+              quantity: item.quantity,
+              unitPrice: item.unitPrice,
+              totalPrice: item.unitPrice * item.quantity,
+              certifications: item.certifications ?? [],
+            })),
+          },
+        },
+        include: { rfq: { include: { buyer: true } }, seller: true, items: { include: { product: true, rfqItem: true } } },
+      });
+      await rfqAuctionService.recordQuote(tx, rfq, quote);
+      await rfqMatchingService.markQuoted(tx, rfq.id, data.sellerId, quote.id);
+      // The buyer's webhooks see no more of a sealed bid than the buyer does in the app
+      const visible = rfqAuctionService.canViewQuote(rfq, quote, rfq.buyerId);
+      await outboxService.record(tx, {
+        type: 'quote.submitted',
+        aggregateId: quote.id,
+        recipients: [rfq.buyerId],
+        data: {
+          quoteId: quote.id,
+          rfqId: rfq.id,
+          sellerId: visible ? data.sellerId : null,
+          buyerId: rfq.buyerId,
+          totalPrice: visible ? quote.totalPrice.toNumber() : null,
+          validUntil: quote.validUntil?.toISOString() ?? null,
         },
-        include: { rfq: { include: { buyer: true } }, seller: true, items: { include: { product: true } } },
       });
 
       // Increment usage count after successful creation
@@ -307,7 +458,41 @@ export class RfqService extends BaseService {
   }
 
   async updateQuote(quoteId: string, sellerId: string, data: UpdateQuoteData): Promise<Quote> {
-    const quote = await this.prisma.quote.update({ where: { id: quoteId }, data, include: { rfq: { include: { buyer: true } }, seller: true, items: { include: { product: true } } } });
+    const existing = await this.prisma.quote.findUnique({ where: { id: quoteId }, include: { rfq: true } });
+    if (!existing || existing.sellerId !== sellerId) throw new NotFoundError('Quote not found');
+    if (existing.rfq.mode !== 'open') {
+      // Auction prices move only through bids, and sealed bids are final once opened
+      if (existing.rfq.mode === 'reverse_auction' && data.totalPrice !== undefined) throw new ValidationError('Place a bid to change the price on an auction RFQ');
+      if (!rfqAuctionService.isBiddingOpen(existing.rfq)) throw new ConflictError('Bidding has closed for this RFQ');
+    }
+
+    // A new price on a sealed bid is a new bid, recorded with the quote so the bid history matches it
+    const rebid = existing.rfq.mode === 'sealed_bid' && data.totalPrice !== undefined && !existing.totalPrice.equals(data.totalPrice);
+    const quote = await this.prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const changes: Prisma.QuoteUncheckedUpdateInput = {
+        deliveryTimeline: data.deliveryTimeline,
+        termsConditions: data.termsConditions,
+        validUntil: data.validUntil,
+        status: data.status,
+        ...(rebid && { lastBidAt: now }),
+      };
+      if (data.totalPrice !== undefined) {
+        // A priced quote keeps adding up: its lines and tax move with the new total
+        const lined = await tx.quote.findUniqueOrThrow({ where: { id: quoteId }, include: { items: true } });
+        changes.totalPrice = data.totalPrice;
+        if (lined.items.length) changes.taxAmount = await rfqAuctionService.scaleLines(tx, lined, data.totalPrice);
+      }
+      const updated = await tx.quote.update({
+        where: { id: quoteId },
+        data: changes,
+        include: { rfq: { include: { buyer: true } }, seller: true, items: { include: { product: true } } },
+      });
+      if (rebid) {
+        await tx.rfqBid.create({ data: { rfqId: existing.rfqId, quoteId, sellerId, amount: data.totalPrice!, createdAt: now } });
+      }
+      return updated;
+    });
 
     // Notify buyer if quote was updated (best-effort)
     this.notificationService.createNotification({ userId: quote.rfq.buyerId, title: 'Quote Updated', message: `A quote for your RFQ "${quote.rfq.title}" has been updated.`, type: 'quote_updated', data: { rfqId: quote.rfqId, quoteId: quote.id } }).catch(err => logger.error('notify buyer failed', err));
@@ -315,8 +500,8 @@ export class RfqService extends BaseService {
     return quote;
   }
 
-  async getQuoteById(quoteId: string): Promise<Quote | null> {
-    return this.prisma.quote.findUnique({
+  async getQuoteById(quoteId: string, viewerId?: string): Promise<Quote | null> {
+    const quote = await this.prisma.quote.findUnique({
       where: { id: quoteId },
       include: {
         rfq: { include: { buyer: { select: { id: true, firstName: true, lastName: true, businessName: true, email: true, phone: true } }, category: true, subcategory: true } },
@@ -325,6 +510,8 @@ export class RfqService extends BaseService {
         negotiations: { orderBy: { createdAt: 'desc' }, include: { fromUser: { select: { id: true, firstName: true, lastName: true, businessName: true } }, toUser: { select: { id: true, firstName: true, lastName: true, businessName: true } } } },
       },
     });
+    if (quote && !rfqAuctionService.canViewQuote(quote.rfq, quote, viewerId)) return null;
+    return quote;
   }
 
   async getQuotes(filters: QuoteFilters = {}, page = 1, limit = 20) {
@@ -337,6 +524,13 @@ export class RfqService extends BaseService {
       if (filters.validAfter) where.validUntil.gte = filters.validAfter;
       if (filters.validBefore) where.validUntil.lte = filters.validBefore;
     }
+    if (filters.viewerId) {
+      where.OR = [
+        { rfq: { mode: 'open' } },
+        { sellerId: filters.viewerId },
+        { rfq: { buyerId: filters.viewerId, OR: [{ mode: 'reverse_auction' }, { status: { not: 'active' } }] } },
+      ];
+    }
 
     const [quotes, total] = await Promise.all([
       this.prisma.quote.findMany({ where, include: { rfq: { include: { buyer: { select: { id: true, firstName: true, lastName: true, businessName: true } }, category: true } }, seller: { select: { id: true, firstName: true, lastName: true, businessName: true, verificationTier: true, isVerified: true } }, items: { include: { product: { select: { id: true, title: true, media: { take: 1 } } } } } }, orderBy: { createdAt: 'desc' }, skip: (page - 1) * limit, take: limit }),
@@ -346,23 +540,132 @@ export class RfqService extends BaseService {
     return { quotes, total, page, totalPages: Math.ceil(total / limit) };
   }
 
-  async acceptQuote(quoteId: string, buyerId: string): Promise<Quote> {
-    return this.prisma.$transaction(async (tx) => {
-      const quote = await tx.quote.findUnique({ where: { id: quoteId }, include: { rfq: true, seller: true } });
-      if (!quote || quote.rfq.buyerId !== buyerId) throw new Error('Quote not found or unauthorized');
-      if (quote.status !== 'pending') throw new Error('Quote is not in pending status');
+  /**
+   * Accept a quote and turn it into a purchase order at the final negotiated price, linked to the
+   * quote and a Deal. Orders that need buyer approval wait in "pending_approval" before payment is requested.
+   */
+  async acceptQuote(quoteId: string, buyerId: string, options: AcceptQuoteOptions = {}): Promise<AcceptedQuote> {
+    const deliveryAddress = options.deliveryAddress || await this.resolveBuyerAddress(buyerId, options.shippingAddressId);
 
-      const updatedQuote = await tx.quote.update({ where: { id: quoteId }, data: { status: 'accepted' }, include: { rfq: { include: { buyer: true } }, seller: true, items: { include: { product: true } } } });
+    const result = await this.prisma.$transaction(async (tx) => {
+      const quote = await tx.quote.findUnique({ where: { id: quoteId }, include: { rfq: true, items: true } });
+      if (!quote || quote.rfq.buyerId !== buyerId) throw new NotFoundError('Quote not found or unauthorized');
+      if (quote.status !== 'pending') throw new ConflictError('Quote is not in pending status');
+      if (quote.validUntil && quote.validUntil < new Date()) throw new ValidationError('Quote has expired');
+      if (quote.rfq.mode !== 'open' && quote.rfq.status === 'active') throw new ConflictError('Bidding is still open on this RFQ');
+
+      // Accepted negotiation offers have already repriced the quote and its items
+      const finalPrice = quote.totalPrice.toNumber();
+      const quotedTotal = quote.negotiatedFrom ? quote.negotiatedFrom.toNumber() : finalPrice;
 
+      const updatedQuote = await tx.quote.update({ where: { id: quoteId }, data: { status: 'accepted' }, include: { rfq: { include: { buyer: true } }, seller: true, items: { include: { product: true } } } });
       await tx.quote.updateMany({ where: { rfqId: quote.rfqId, id: { not: quoteId }, status: 'pending' }, data: { status: 'rejected' } });
       await tx.rfq.update({ where: { id: quote.rfqId }, data: { status: 'closed' } });
+      await rfqMatchingService.markWon(tx, quote.rfqId, quote.sellerId);
+
+      const requiresApproval = options.requireApproval
+        ?? (config.rfq.orderApprovalRequired && finalPrice >= config.rfq.orderApprovalMinAmount);
+
+      let order: Order | null = null;
+      if (quote.items.length) {
+        order = await this.orderService.createOrderInTransaction(tx, {
+          buyerId,
+          sellerId: quote.sellerId,
+          quoteId,
+          orderType: 'product',
+          items: quote.items.map(item => ({ productId: item.productId, quantity: item.quantity, unitPrice: item.unitPrice.toNumber() })),
+          deliveryAddress,
+          billingAddress: options.billingAddress || deliveryAddress,
+          notes: options.notes || `Purchase order for RFQ "${quote.rfq.title}"`,
+          shippingAmount: 0,
+          status: requiresApproval ? 'pending_approval' : 'pending',
+          reservationExpiresAt: requiresApproval
+            ? new Date(Date.now() + config.rfq.orderApprovalWindowHours * 60 * 60 * 1000)
+            : undefined,
+        });
+      }
 
-      const notification = await this.notificationService.createNotification({ userId: quote.sellerId, title: 'Quote Accepted', message: `Your quote for RFQ "${quote.rfq.title}" has been accepted!`, type: 'quote_accepted', data: { rfqId: quote.rfqId, quoteId: quote.id } });
-      await this.notificationService.sendNotification(notification.id);
+      const deal = await tx.deal.create({
+        data: {
+          buyerId,
+          sellerId: quote.sellerId,
+          rfqId: quote.rfqId,
+          quoteId,
+          orderId: order?.id,
+          title: `Deal for RFQ "${quote.rfq.title}"`,
+          description: quote.negotiatedFrom ? `Negotiated from ${quotedTotal} to ${finalPrice}` : undefined,
+          discountType: 'amount',
+          discountValue: Math.max(0, round2(quotedTotal - finalPrice)),
+          dealValue: finalPrice,
+          status: 'active',
+          startDate: new Date(),
+          endDate: quote.validUntil && quote.validUntil > new Date() ? quote.validUntil : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+        },
+      });
+
+      await outboxService.record(tx, {
+        type: 'quote.accepted',
+        aggregateId: quoteId,
+        recipients: [buyerId, quote.sellerId],
+        data: {
+          quoteId,
+          rfqId: quote.rfqId,
+          sellerId: quote.sellerId,
+          buyerId,
+          totalPrice: finalPrice,
+          orderId: order?.id ?? null,
+          dealId: deal.id,
+        },
+      });
+      await outboxService.record(tx, {
+        type: 'rfq.closed',
+        aggregateId: quote.rfqId,
+        recipients: [buyerId],
+        data: { rfqId: quote.rfqId, buyerId, status: 'closed' },
+      });
+
+      return { quote: updatedQuote, order, deal, requiresApproval };
+    }, { timeout: 20000 });
+
+    const { quote, order, deal, requiresApproval } = result;
+    this.notifyQuoteAccepted(quote, order, requiresApproval);
+    if (order && !requiresApproval) await this.requestPayment(order.id);
+
+    logger.info(`Quote accepted: ${quoteId} by buyer: ${buyerId}${order ? `, order ${order.orderNumber}` : ''}`);
+    return { quote, order, deal };
+  }
+
+  /**
+   * Buyer decision on a quote order waiting in "pending_approval". Approval requests payment;
+   * rejection cancels the order and its deal.
+   */
+  async decideQuoteOrder(orderId: string, buyerId: string, decision: 'approve' | 'reject', reason?: string): Promise<Order> {
+    const order = await this.prisma.order.findUnique({ where: { id: orderId } });
+    if (!order || order.buyerId !== buyerId) throw new NotFoundError('Order not found');
+    if (order.status !== 'pending_approval') throw new ConflictError('Order is not awaiting approval');
+
+    if (decision === 'reject') {
+      const cancelled = await this.orderService.cancelOrder(orderId, reason || 'Rejected during buyer approval', buyerId);
+      await this.prisma.deal.updateMany({ where: { orderId }, data: { status: 'cancelled', isActive: false } });
+      return cancelled;
+    }
 
-      logger.info(`Quote accepted: ${quoteId} by buyer: ${buyerId}`);
-      return updatedQuote;
+    const approved = await this.prisma.$transaction(async (tx) => {
+      const moved = await tx.order.updateMany({ where: { id: orderId, status: 'pending_approval' }, data: { status: 'pending' } });
+      if (!moved.count) throw new ConflictError('Order is not awaiting approval');
+      await tx.orderStatusHistory.create({ data: { orderId, status: 'pending', notes: 'Approved by buyer', updatedBy: buyerId } });
+      await tx.orderHistory.create({ data: { orderId, action: 'ORDER_APPROVED', details: reason || 'Approved by buyer', userId: buyerId } });
+      // The normal payment window starts now
+      await tx.stockReservation.updateMany({
+        where: { orderId, status: 'active' },
+        data: { expiresAt: new Date(Date.now() + config.inventory.reservationTtlMinutes * 60 * 1000) },
+      });
+      return tx.order.findUnique({ where: { id: orderId } });
     });
+
+    await this.requestPayment(orderId);
+    logger.info(`Quote order ${orderId} approved by buyer ${buyerId}`);
+    return approved!;
   }
 
   async rejectQuote(quoteId: string, buyerId: string, reason?: string): Promise<Quote> {
@@ -372,16 +675,114 @@ export class RfqService extends BaseService {
     return quote;
   }
 
-  private async notifyRelevantSellers(rfq: any): Promise<void> {
+  private toLineRows(items: RfqLineData[]) {
+    return items.map((item, index) => ({
+      lineNumber: index + 1,
+      productId: item.productId,
+      name: item.name,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      targetPrice: item.targetPrice,
+      specifications: item.specifications as Prisma.InputJsonValue | undefined,
+      requiredCertifications: item.requiredCertifications ?? [],
+    }));
+  }
+
+  /**
+   * A quote on an itemised RFQ must answer every line exactly once, for the requested quantity,
+   * and hold every certification the line asks for.
+   */
+  private assertLinesAnswered(lines: RfqItem[], items: CreateQuoteData['items']) {
+    const byId = new Map(lines.map(line => [line.id, line]));
+    const answered = new Set<string>();
+    const errors: string[] = [];
+
+    for (const item of items) {
+      const line = item.rfqItemId ? byId.get(item.rfqItemId) : undefined;
+      if (!line) {
+        errors.push(item.rfqItemId ? `Line ${item.rfqItemId} does not belong to this RFQ` : `Product ${item.productId} does not reference an RFQ line`);
+        continue;
+      }
+      if (answered.has(line.id)) errors.push(`Line ${line.lineNumber} is quoted more than once`);
+      answered.add(line.id);
+      if (item.quantity !== line.quantity) errors.push(`Line ${line.lineNumber} requires a quantity of ${line.quantity} ${line.unit}`);
+      const held = new Set((item.certifications ?? []).map(c => c.toLowerCase()));
+      const missing = line.requiredCertifications.filter(c => !held.has(c.toLowerCase()));
+      if (missing.length) errors.push(`Line ${line.lineNumber} requires certifications: ${missing.join(', ')}`);
+    }
+    for (const line of lines) {
+      if (!answered.has(line.id)) errors.push(`Line ${line.lineNumber} (${line.name}) has not been quoted`);
+    }
+
+    if (errors.length) throw new ValidationError('Quote does not match the RFQ line items', errors);
+  }
+
+  private async resolveBuyerAddress(buyerId: string, shippingAddressId?: string) {
+    const address = await this.prisma.shippingAddress.findFirst({
+      where: shippingAddressId ? { id: shippingAddressId, userId: buyerId } : { userId: buyerId, isDefault: true },
+    });
+    if (!address) {
+      if (shippingAddressId) throw new NotFoundError('Shipping address not found');
+      return undefined;
+    }
+    return {
+      name: address.name,
+      phone: address.phone,
+      addressLine1: address.addressLine1,
+      addressLine2: address.addressLine2,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postalCode,
+      country: address.country,
+    };
+  }
+
+  // Create the order's payment and open it on the gateway; failures leave the order payable later
+  private async requestPayment(orderId: string) {
     try {
-      const sellers = await this.prisma.user.findMany({ where: { userType: 'seller', isActive: true, products: { some: { categoryId: rfq.categoryId, isActive: true } } }, select: { id: true } });
-      const notifications = sellers.map(seller => ({ userId: seller.id, title: 'New RFQ Available', message: `A new RFQ "${rfq.title}" is available in your category.`, type: 'new_rfq', data: { rfqId: rfq.id, categoryId: rfq.categoryId } }));
-      await this.notificationService.sendBulkNotifications(notifications);
+      const order = await this.prisma.order.findUnique({ where: { id: orderId } });
+      if (!order) return;
+      const payment = await paymentService.create({ orderId, amount: order.totalAmount.toNumber() });
+      await paymentService.initiate(payment.id).catch(err => logger.warn(`Failed to initiate payment ${payment.id}`, err));
+      const notification = await this.notificationService.createNotification({
+        userId: order.buyerId,
+        title: 'Payment Requested',
+        message: `Order ${order.orderNumber} is ready for payment of ₹${order.totalAmount}.`,
+        type: 'payment_requested',
+        data: { orderId, paymentId: payment.id },
+      });
+      await this.notificationService.sendNotification(notification.id);
     } catch (error) {
-      logger.error('Error notifying relevant sellers:', error);
+      logger.error(`Failed to request payment for order ${orderId}:`, error);
     }
   }
 
+  private notifyQuoteAccepted(quote: Quote & { rfq: Rfq }, order: Order | null, requiresApproval: boolean) {
+    const notify = async () => {
+      const seller = await this.notificationService.createNotification({
+        userId: quote.sellerId,
+        title: 'Quote Accepted',
+        message: `Your quote for RFQ "${quote.rfq.title}" has been accepted!${order ? ` Order ${order.orderNumber} was created.` : ''}`,
+        type: 'quote_accepted',
+        data: { rfqId: quote.rfqId, quoteId: quote.id, orderId: order?.id },
+      });
+      await this.notificationService.sendNotification(seller.id);
+
+      if (order && requiresApproval) {
+        const buyer = await this.notificationService.createNotification({
+          userId: quote.rfq.buyerId,
+          title: 'Order Awaiting Approval',
+          message: `Order ${order.orderNumber} for RFQ "${quote.rfq.title}" needs your approval before payment.`,
+          type: 'order_approval_required',
+          data: { rfqId: quote.rfqId, quoteId: quote.id, orderId: order.id },
+        });
+        await this.notificationService.sendNotification(buyer.id);
+      }
+    };
+    notify().catch(err => logger.error('Failed to send quote acceptance notifications', err));
+  }
+
   async getPublicRecentRfqs(limit = 5): Promise<Array<{ id: string; title: string; quantity: number | null; budgetMin: number | null; budgetMax: number | null; createdAt: string }>> {
     const rfqs = await this.prisma.rfq.findMany({
       where: {
@@ -0,0 +1,208 @@
+import { SearchReindexJob } from '@prisma/client';
+import { BaseService } from './base.service';
+import elasticsearchClient, {
+  INDICES, MAPPING_VERSIONS, productMapping, serviceMapping, writeAliasFor, reindexAliasFor, physicalIndexName,
+} from '../config/elasticsearch';
+import { elasticsearchService, BulkOpType, WRITE_TARGET_TTL_MS } from './elasticsearch.service';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError } from '../middleware/error-handler';
+
+export type ReindexKind = 'products' | 'services';
+
+export type ReindexJobWithProgress = SearchReindexJob & { progress: number | null };
+
+export interface SearchIndexStatus {
+  kind: ReindexKind;
+  alias: string;
+  indices: string[];
+  writeIndex: string | null;
+  mappingVersion: number | null;
+  currentMappingVersion: number;
+  outdated: boolean;
+  documents: number;
+  lastJob: ReindexJobWithProgress | null;
+}
+
+const TARGETS: Record<ReindexKind, { alias: string; mapping: Record<string, any>; load: (index: string, opType: BulkOpType) => Promise<number> }> = {
+  products: { alias: INDICES.PRODUCTS, mapping: productMapping, load: (index, opType) => elasticsearchService.bulkIndexProducts(index, opType) },
+  services: { alias: INDICES.SERVICES, mapping: serviceMapping, load: (index, opType) => elasticsearchService.bulkIndexServices(index, opType) },
+};
+
+const ACTIVE_STATUSES = ['building', 'verifying'];
+// A job still active after this long belongs to a process that died mid-build
+const STALE_AFTER_MS = 6 * 60 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Zero-downtime reindex into a new versioned index. While it builds, the index holds the reindex
+ * alias so every product and service write is dual-written into it; the bulk load uses 'create' so
+ * those newer copies win. Once the active document count matches Postgres, the read and write
+ * aliases move over in a single atomic call and the old index is dropped.
+ */
+export class SearchIndexService extends BaseService {
+  async reindex(kind: ReindexKind, userId?: string): Promise<SearchReindexJob> {
+    const { alias } = TARGETS[kind];
+    await this.failStaleJobs(alias);
+    const running = await this.prisma.searchReindexJob.findFirst({ where: { alias, status: { in: ACTIVE_STATUSES } } });
+    if (running) throw new ConflictError(`A ${kind} reindex is already running`, { jobId: running.id });
+
+    const job = await this.prisma.searchReindexJob.create({
+      data: {
+        alias,
+        sourceIndices: await this.currentIndices(alias),
+        targetIndex: physicalIndexName(alias),
+        mappingVersion: MAPPING_VERSIONS[alias],
+        startedBy: userId,
+      },
+    });
+    void this.execute(kind, job);
+    return job;
+  }
+
+  async getStatus(): Promise<SearchIndexStatus[]> {
+    return Promise.all((Object.keys(TARGETS) as ReindexKind[]).map(async kind => {
+      const { alias } = TARGETS[kind];
+      const [indices, writeIndices, lastJob] = await Promise.all([
+        this.currentIndices(alias),
+        elasticsearchService.resolveAlias(writeAliasFor(alias)),
+        this.prisma.searchReindexJob.findFirst({ where: { alias }, orderBy: { startedAt: 'desc' } }),
+      ]);
+      const mappingVersion = indices.length ? await this.mappingVersion(indices[0]) : null;
+      const documents = indices.length ? (await elasticsearchClient.count({ index: alias })).count : 0;
+      return {
+        kind,
+        alias,
+        indices,
+        writeIndex: writeIndices[0] ?? null,
+        mappingVersion,
+        currentMappingVersion: MAPPING_VERSIONS[alias],
+        outdated: mappingVersion !== MAPPING_VERSIONS[alias],
+        documents,
+        lastJob: lastJob ? await this.withProgress(lastJob) : null,
+      };
+    }));
+  }
+
+  async getJob(id: string): Promise<ReindexJobWithProgress> {
+    const job = await this.prisma.searchReindexJob.findUnique({ where: { id } });
+    if (!job) throw new NotFoundError('Reindex job not found');
+    return this.withProgress(job);
+  }
+
+  private async execute(kind: ReindexKind, job: SearchReindexJob): Promise<void> {
+    const { alias, mapping, load } = TARGETS[kind];
+    const target = job.targetIndex;
+    try {
+      await elasticsearchService.createVersionedIndex(target, alias, mapping);
+      await elasticsearchClient.indices.updateAliases({ actions: [{ add: { index: target, alias: reindexAliasFor(alias) } }] });
+      elasticsearchService.invalidateWriteTargets(alias);
+      // Every process must be dual-writing before the source rows are read
+      await sleep(WRITE_TARGET_TTL_MS * 2);
+
+      await this.prisma.searchReindexJob.update({ where: { id: job.id }, data: { expectedCount: await this.countSource(kind) } });
+      await load(target, 'create');
+      const indexedCount = await this.verify(kind, job.id, target);
+      await this.swap(alias, target, job.sourceIndices);
+
+      await this.prisma.searchReindexJob.update({
+        where: { id: job.id },
+        data: { status: 'completed', indexedCount, completedAt: new Date() },
+      });
+      logger.info(`Reindexed ${kind} into ${target}: ${indexedCount} documents`);
+    } catch (error: any) {
+      logger.error(`Reindex of ${kind} into ${target} failed:`, error);
+      await this.discard(alias, target);
+      await this.prisma.searchReindexJob.update({
+        where: { id: job.id },
+        data: { status: 'failed', error: error?.message || String(error), completedAt: new Date() },
+      }).catch(updateError => logger.error(`Failed to record reindex failure for job ${job.id}:`, updateError));
+    }
+  }
+
+  // Every active row must be searchable; one catch-up pass absorbs rows that changed mid-build
+  private async verify(kind: ReindexKind, jobId: string, target: string): Promise<number> {
+    await this.prisma.searchReindexJob.update({ where: { id: jobId }, data: { status: 'verifying' } });
+    for (let attempt = 0; ; attempt++) {
+      await elasticsearchClient.indices.refresh({ index: target });
+      const [expectedCount, indexedCount] = await Promise.all([
+        this.countSource(kind),
+        elasticsearchClient.count({ index: target, query: { term: { isActive: true } } }).then(response => response.count),
+      ]);
+      await this.prisma.searchReindexJob.update({ where: { id: jobId }, data: { expectedCount, indexedCount } });
+      if (indexedCount === expectedCount) return indexedCount;
+      if (attempt > 0) throw new Error(`Document count mismatch: ${indexedCount} indexed, ${expectedCount} expected`);
+      await TARGETS[kind].load(target, 'index');
+    }
+  }
+
+  private async swap(alias: string, target: string, sources: string[]): Promise<void> {
+    const writeAlias = writeAliasFor(alias);
+    // Before the first reindex the public name is a concrete index, which must go in the same call
+    const legacy = sources.includes(alias);
+    await elasticsearchClient.indices.updateAliases({
+      actions: [
+        ...(legacy
+          ? [{ remove_index: { index: alias } }]
+          : sources.map(index => ({ remove: { index, aliases: [alias, writeAlias], must_exist: false } }))),
+        { remove: { index: target, alias: reindexAliasFor(alias) } },
+        { add: { index: target, alias } },
+        { add: { index: target, alias: writeAlias, is_write_index: true } },
+      ],
+    });
+    elasticsearchService.invalidateWriteTargets(alias);
+
+    const retired = sources.filter(index => index !== alias);
+    if (retired.length) await elasticsearchClient.indices.delete({ index: retired });
+  }
+
+  private async discard(alias: string, target: string): Promise<void> {
+    await elasticsearchClient.indices.delete({ index: target, ignore_unavailable: true })
+      .catch(error => logger.error(`Failed to delete abandoned index ${target}:`, error));
+    elasticsearchService.invalidateWriteTargets(alias);
+  }
+
+  private async failStaleJobs(alias: string): Promise<void> {
+    const stale = await this.prisma.searchReindexJob.findMany({
+      where: { alias, status: { in: ACTIVE_STATUSES }, startedAt: { lt: new Date(Date.now() - STALE_AFTER_MS) } },
+    });
+    for (const job of stale) {
+      await this.discard(alias, job.targetIndex);
+      await this.prisma.searchReindexJob.update({
+        where: { id: job.id },
+        data: { status: 'failed', error: 'Reindex was interrupted', completedAt: new Date() },
+      });
+    }
+  }
+
+  private async withProgress(job: SearchReindexJob): Promise<ReindexJobWithProgress> {
+    let progress: number | null = null;
+    if (job.status === 'completed') {
+      progress = 1;
+    } else if (ACTIVE_STATUSES.includes(job.status) && job.expectedCount) {
+      const { count } = await elasticsearchClient.count({ index: job.targetIndex });
+      progress = Math.min(1, Math.round((count / job.expectedCount) * 100) / 100);
+    }
+    return { ...job, progress };
+  }
+
+  // Physical indices serving the public name; for a pre-alias index that is the name itself
+  private async currentIndices(alias: string): Promise<string[]> {
+    if (!(await elasticsearchClient.indices.exists({ index: alias }))) return [];
+    return Object.keys(await elasticsearchClient.indices.get({ index: alias }));
+  }
+
+  // Indices created before versioning carry no _meta and count as version 1
+  private async mappingVersion(index: string): Promise<number> {
+    const response = await elasticsearchClient.indices.getMapping({ index });
+    return Number(response[index]?.mappings?._meta?.version ?? 1);
+  }
+
+  private countSource(kind: ReindexKind): Promise<number> {
+    return kind === 'products'
+      ? this.prisma.product.count({ where: { isActive: true } })
+      : this.prisma.service.count({ where: { isActive: true } });
+  }
+}
+
+export const searchIndexService = new SearchIndexService();
@@ -0,0 +1,97 @@
+import { SearchSynonym } from '@prisma/client';
+import { BaseService } from './base.service';
+import { elasticsearchClient, DEFAULT_SYNONYMS, SYNONYM_SET_ID } from '../config/elasticsearch';
+import { logger } from '../utils/logger';
+import { ExternalServiceError, NotFoundError, ValidationError } from '../middleware/error-handler';
+
+export interface SynonymInput {
+  rule: string;
+  description?: string;
+  isActive?: boolean;
+}
+
+const MAX_TERM_LENGTH = 100;
+
+/**
+ * Normalise and check a Solr-format rule: "a, b, c" makes the terms equivalent,
+ * "a, b => c" rewrites the left-hand terms to the right-hand ones.
+ */
+export function normaliseSynonymRule(rule: string): string {
+  const sides = rule.toLowerCase().split('=>');
+  if (sides.length > 2) throw new ValidationError('A synonym rule can contain at most one "=>"');
+
+  const terms = sides.map(side => side.split(',').map(term => term.trim().replace(/\s+/g, ' ')).filter(Boolean));
+  if (terms.some(side => side.length === 0)) throw new ValidationError('Both sides of a "=>" rule need at least one term');
+  if (sides.length === 1 && terms[0].length < 2) throw new ValidationError('An equivalence rule needs at least two terms');
+  if (terms.flat().some(term => term.length > MAX_TERM_LENGTH)) throw new ValidationError(`Synonym terms are limited to ${MAX_TERM_LENGTH} characters`);
+
+  return terms.map(side => side.join(', ')).join(' => ');
+}
+
+/**
+ * Admin-managed search synonyms. Postgres is the source of truth; every change republishes the
+ * whole set to Elasticsearch, where updateable search analyzers reload it without a reindex.
+ */
+export class SearchSynonymService extends BaseService {
+  async list(): Promise<SearchSynonym[]> {
+    // The first listing adopts the seed rules the index was created with
+    if ((await this.prisma.searchSynonym.count()) === 0) {
+      await this.prisma.searchSynonym.createMany({ data: DEFAULT_SYNONYMS.map(rule => ({ rule })) });
+    }
+    return this.prisma.searchSynonym.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  async create(input: SynonymInput, userId: string): Promise<SearchSynonym> {
+    await this.list();
+    const synonym = await this.prisma.searchSynonym.create({
+      data: { rule: normaliseSynonymRule(input.rule), description: input.description, isActive: input.isActive ?? true, updatedBy: userId },
+    });
+    await this.publish();
+    return synonym;
+  }
+
+  async update(id: string, input: Partial<SynonymInput>, userId: string): Promise<SearchSynonym> {
+    await this.getById(id);
+    const synonym = await this.prisma.searchSynonym.update({
+      where: { id },
+      data: {
+        rule: input.rule !== undefined ? normaliseSynonymRule(input.rule) : undefined,
+        description: input.description,
+        isActive: input.isActive,
+        updatedBy: userId,
+      },
+    });
+    await this.publish();
+    return synonym;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.getById(id);
+    await this.prisma.searchSynonym.delete({ where: { id } });
+    await this.publish();
+  }
+
+  // Replace the Elasticsearch synonym set with the active rules
+  async publish(): Promise<number> {
+    const rules = await this.prisma.searchSynonym.findMany({ where: { isActive: true }, orderBy: { createdAt: 'asc' } });
+    try {
+      await elasticsearchClient.synonyms.putSynonym({
+        id: SYNONYM_SET_ID,
+        synonyms_set: rules.map(rule => ({ id: rule.id, synonyms: rule.rule })),
+      });
+    } catch (error: any) {
+      logger.error('Failed to publish search synonyms:', error);
+      throw new ExternalServiceError('Synonyms were saved but could not be published to search', 'elasticsearch', { reason: error?.message });
+    }
+    logger.info(`Published ${rules.length} search synonym rules`);
+    return rules.length;
+  }
+
+  private async getById(id: string): Promise<SearchSynonym> {
+    const synonym = await this.prisma.searchSynonym.findUnique({ where: { id } });
+    if (!synonym) throw new NotFoundError('Synonym rule not found');
+    return synonym;
+  }
+}
+
+export const searchSynonymService = new SearchSynonymService();
@@ -2,7 +2,7 @@ import { Service, ServiceMedia } from '@prisma/client';
 import { BaseService } from './base.service';
 import { logger } from '../utils/logger';
 import { elasticsearchService } from './elasticsearch.service';
-import { elasticsearchClient } from '@/config/elasticsearch';
+import { analysedFields } from '@/config/elasticsearch';
 
 export interface CreateServiceData {
   title: string;
@@ -299,7 +299,7 @@ export class ServiceService extends BaseService {
               {
                 multi_match: {
                   query,
-                  fields: ['title^2', 'description'],
+                  fields: [...analysedFields('title', 2), ...analysedFields('description')],
                   type: 'best_fields',
                   fuzziness: 'AUTO',
                 },
@@ -513,25 +513,21 @@ export class ServiceService extends BaseService {
 
   private async indexServiceInElasticsearch(service: any): Promise<void> {
     try {
-      await elasticsearchClient.index({
-        index: 'services',
+      await elasticsearchService.indexService({
         id: service.id,
-        document: {
-          id: service.id,
-          title: service.title,
-          description: service.description,
-          categoryId: service.categoryId,
-          subcategoryId: service.subcategoryId,
-          providerId: service.providerId,
-          price: service.price,
-          currency: service.currency,
-          duration: service.duration,
-          serviceType: service.serviceType,
-          isActive: service.isActive,
-          status: service.status,
-          createdAt: service.createdAt,
-          updatedAt: service.updatedAt,
-        },
+        title: service.title,
+        description: service.description,
+        categoryId: service.categoryId,
+        subcategoryId: service.subcategoryId,
+        providerId: service.providerId,
+        price: service.price,
+        currency: service.currency,
+        duration: service.duration,
+        serviceType: service.serviceType,
+        isActive: service.isActive,
+        status: service.status,
+        createdAt: service.createdAt,
+        updatedAt: service.updatedAt,
       });
     } catch (error) {
       logger.error('Error indexing service in Elasticsearch:', error);
@@ -540,10 +536,7 @@ export class ServiceService extends BaseService {
 
   private async removeServiceFromElasticsearch(serviceId: string): Promise<void> {
     try {
-      await elasticsearchClient.delete({
-        index: 'services',
-        id: serviceId,
-      });
+      await elasticsearchService.deleteService(serviceId);
     } catch (error) {
       logger.error('Error removing service from Elasticsearch:', error);
     }
@@ -0,0 +1,361 @@
+import type { Prisma, SettlementReport } from '@prisma/client';
+import { BaseService } from './base.service';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+import { minioService } from './minio.service';
+import { paymentGateways } from './payment-gateway.service';
+
+// Settlement files dropped here (e.g. by the gateway's SFTP export) are imported by the scheduler.
+// File names must start with the gateway, e.g. "razorpay-2026-10-18.csv".
+export const SETTLEMENT_INBOX_FOLDER = 'settlements/inbox';
+const SETTLEMENT_ARCHIVE_FOLDER = 'settlements/processed';
+
+// Column aliases across gateway report formats, after normalising headers to snake_case
+const COLUMNS = {
+  transactionId: ['payment_id', 'entity_id', 'transaction_id', 'cf_payment_id', 'txn_id', 'gateway_transaction_id', 'utr_payment_id'],
+  amount: ['amount', 'payment_amount', 'transaction_amount', 'order_amount', 'credit'],
+  fee: ['fee', 'fees', 'service_charge', 'pg_charges'],
+  tax: ['tax', 'service_tax', 'gst'],
+  status: ['status', 'payment_status', 'transaction_status'],
+  type: ['type', 'entity_type', 'event_type', 'transaction_type'],
+  transactedAt: ['created_at', 'transaction_time', 'transaction_date', 'payment_time'],
+  settledAt: ['settled_at', 'settlement_date', 'settled_on', 'settlement_time'],
+};
+
+const SETTLED_STATUSES = ['captured', 'success', 'settled', 'paid', 'processed'];
+const FAILED_STATUSES = ['failed', 'failure', 'declined', 'cancelled', 'user_dropped'];
+// Local statuses a settled payment may legitimately be in
+const CAPTURED_PAYMENT_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+type LineResult = 'matched' | 'amount_mismatch' | 'status_mismatch' | 'missing_payment' | 'missing_in_settlement' | 'duplicate' | 'skipped';
+
+export interface ImportSettlementParams {
+  gateway: string;
+  csv: string;
+  source: 'scheduled' | 'upload';
+  originalFileName?: string;
+  fileName?: string;
+  periodStart?: Date;
+  periodEnd?: Date;
+  uploadedBy?: string;
+}
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Matches gateway settlement reports against our Payment rows by gatewayTransactionId (and
+ * subscription mandate charges against billing invoices by gatewayChargeId) and stores
+ * a report of every line plus the paid payments the gateway never settled.
+ */
+export class SettlementReconciliationService extends BaseService {
+  async importReport(params: ImportSettlementParams): Promise<SettlementReport> {
+    paymentGateways.get(params.gateway);
+    const rows = parseCsv(params.csv);
+    if (rows.length < 2) throw new ValidationError('Settlement file has no data rows');
+
+    const header = rows[0].map(h => h.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''));
+    const column = (key: keyof typeof COLUMNS) => COLUMNS[key].map(alias => header.indexOf(alias)).find(index => index >= 0) ?? -1;
+    const idx = Object.fromEntries(Object.keys(COLUMNS).map(key => [key, column(key as keyof typeof COLUMNS)])) as Record<keyof typeof COLUMNS, number>;
+    if (idx.transactionId < 0 || idx.amount < 0) {
+      throw new ValidationError('Settlement file needs a transaction id and an amount column');
+    }
+
+    const report = await this.prisma.settlementReport.create({
+      data: {
+        gateway: params.gateway,
+        source: params.source,
+        originalFileName: params.originalFileName,
+        fileName: params.fileName,
+        uploadedBy: params.uploadedBy,
+      },
+    });
+
+    try {
+      const dataRows = rows.slice(1).filter(row => row.some(cell => cell.trim() !== ''));
+      const cell = (row: string[], index: number) => (index >= 0 ? (row[index] || '').trim() : '');
+      const transactionIds = [...new Set(dataRows.map(row => cell(row, idx.transactionId)).filter(Boolean))];
+
+      const payments = new Map<string, { id: string; amount: Prisma.Decimal; status: string }>();
+      for (let i = 0; i < transactionIds.length; i += 500) {
+        const batch = await this.prisma.payment.findMany({
+          where: { paymentGateway: params.gateway, gatewayTransactionId: { in: transactionIds.slice(i, i + 500) } },
+          select: { id: true, amount: true, status: true, gatewayTransactionId: true },
+        });
+        for (const payment of batch) payments.set(payment.gatewayTransactionId!, payment);
+      }
+
+      // Subscription mandate charges settle alongside payments but are tracked on billing invoices
+      const unmatched = transactionIds.filter(id => !payments.has(id));
+      const charges = new Map<string, { invoiceNumber: string; amount: Prisma.Decimal; status: string }>();
+      for (let i = 0; i < unmatched.length; i += 500) {
+        const batch = await this.prisma.billingInvoice.findMany({
+          where: { gateway: params.gateway, gatewayChargeId: { in: unmatched.slice(i, i + 500) } },
+          select: { invoiceNumber: true, amount: true, status: true, gatewayChargeId: true },
+        });
+        for (const charge of batch) charges.set(charge.gatewayChargeId!, charge);
+      }
+
+      const seen = new Set<string>();
+      const lines: Prisma.SettlementLineCreateManyInput[] = [];
+      let periodStart = params.periodStart;
+      let periodEnd = params.periodEnd;
+      let grossAmount = 0;
+      let feeAmount = 0;
+
+      dataRows.forEach((row, i) => {
+        const raw = Object.fromEntries(header.map((name, col) => [name, row[col] ?? '']));
+        const gatewayTransactionId = cell(row, idx.transactionId) || null;
+        const type = cell(row, idx.type).toLowerCase();
+        const gatewayStatus = cell(row, idx.status).toLowerCase() || null;
+        const gatewayAmount = parseAmount(cell(row, idx.amount));
+        const fee = (parseAmount(cell(row, idx.fee)) ?? 0) + (parseAmount(cell(row, idx.tax)) ?? 0);
+        const settledAt = parseDate(cell(row, idx.settledAt));
+        const transactedAt = parseDate(cell(row, idx.transactedAt));
+        const base = { reportId: report.id, lineNumber: i + 2, gatewayTransactionId, gatewayAmount, feeAmount: fee || null, gatewayStatus, settledAt, raw };
+
+        // Refunds, adjustments and transfers are not payments
+        if (type && !['payment', 'sale', 'capture', 'captured'].includes(type)) {
+          lines.push({ ...base, result: 'skipped', details: `Not a payment line (${type})` });
+          return;
+        }
+        if (!gatewayTransactionId || gatewayAmount === null) {
+          lines.push({ ...base, result: 'skipped', details: 'Missing transaction id or amount' });
+          return;
+        }
+        if (seen.has(gatewayTransactionId)) {
+          lines.push({ ...base, result: 'duplicate', details: 'Transaction appears more than once in the file' });
+          return;
+        }
+        seen.add(gatewayTransactionId);
+
+        grossAmount += gatewayAmount;
+        feeAmount += fee;
+        if (!params.periodStart && transactedAt && (!periodStart || transactedAt < periodStart)) periodStart = transactedAt;
+        if (!params.periodEnd && transactedAt && (!periodEnd || transactedAt > periodEnd)) periodEnd = transactedAt;
+
+        const payment = payments.get(gatewayTransactionId);
+        const charge = charges.get(gatewayTransactionId);
+        const record = payment || charge;
+        if (!record) {
+          lines.push({ ...base, result: 'missing_payment', details: 'No payment or subscription charge with this gateway transaction id' });
+          return;
+        }
+
+        const matched = { ...base, paymentId: payment?.id, paymentAmount: record.amount, paymentStatus: record.status };
+        const subject = payment ? 'payment' : `subscription invoice ${charge!.invoiceNumber}`;
+        const settled = !gatewayStatus || SETTLED_STATUSES.includes(gatewayStatus);
+        const captured = CAPTURED_PAYMENT_STATUSES.includes(record.status);
+        if ((settled && !captured) || (gatewayStatus && FAILED_STATUSES.includes(gatewayStatus) && captured)) {
+          lines.push({ ...matched, result: 'status_mismatch', details: `Gateway says ${gatewayStatus || 'settled'}, ${subject} is ${record.status}` });
+          return;
+        }
+        if (toPaise(gatewayAmount) !== toPaise(record.amount.toNumber())) {
+          lines.push({ ...matched, result: 'amount_mismatch', details: `Gateway amount ${gatewayAmount}, ${subject} amount ${record.amount}` });
+          return;
+        }
+        lines.push({ ...matched, result: 'matched', details: charge ? `Subscription charge for ${subject}` : undefined });
+      });
+
+      // Paid payments in the covered period that the gateway did not report
+      if (periodStart && periodEnd) {
+        const unsettled = await this.prisma.payment.findMany({
+          where: {
+            paymentGateway: params.gateway,
+            status: { in: CAPTURED_PAYMENT_STATUSES },
+            createdAt: { gte: periodStart, lte: periodEnd },
+            ...(seen.size ? { NOT: { gatewayTransactionId: { in: [...seen] } } } : {}),
+          },
+          select: { id: true, amount: true, status: true, gatewayTransactionId: true },
+        });
+        for (const payment of unsettled) {
+          lines.push({
+            reportId: report.id,
+            gatewayTransactionId: payment.gatewayTransactionId,
+            paymentId: payment.id,
+            paymentAmount: payment.amount,
+            paymentStatus: payment.status,
+            result: 'missing_in_settlement',
+            details: 'Paid payment not present in the settlement file',
+          });
+        }
+      }
+
+      await this.prisma.settlementLine.createMany({ data: lines });
+
+      const count = (...results: LineResult[]) => lines.filter(l => results.includes(l.result as LineResult)).length;
+      const completed = await this.prisma.settlementReport.update({
+        where: { id: report.id },
+        data: {
+          status: 'completed',
+          periodStart,
+          periodEnd,
+          totalLines: dataRows.length,
+          matchedCount: count('matched'),
+          mismatchCount: count('amount_mismatch', 'status_mismatch', 'missing_payment', 'duplicate'),
+          missingCount: count('missing_in_settlement'),
+          skippedCount: count('skipped'),
+          grossAmount: Math.round(grossAmount * 100) / 100,
+          feeAmount: Math.round(feeAmount * 100) / 100,
+          completedAt: new Date(),
+        },
+      });
+
+      if (completed.mismatchCount || completed.missingCount) {
+        logger.warn(`Settlement report ${report.id} (${params.gateway}): ${completed.mismatchCount} mismatches, ${completed.missingCount} unsettled payments`);
+      }
+      return completed;
+    } catch (error: any) {
+      logger.error('Error reconciling settlement report:', error);
+      await this.prisma.settlementReport.update({
+        where: { id: report.id },
+        data: { status: 'failed', error: error?.message || String(error), completedAt: new Date() },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Manual upload for backfills. The file is archived in MinIO alongside scheduled imports.
+   */
+  async importUpload(params: { gateway: string; file: Buffer; originalFileName: string; periodStart?: Date; periodEnd?: Date; uploadedBy: string }) {
+    const stored = await minioService.uploadFile(params.file, params.originalFileName, SETTLEMENT_ARCHIVE_FOLDER, { gateway: params.gateway });
+    return this.importReport({
+      gateway: params.gateway,
+      csv: params.file.toString('utf8'),
+      source: 'upload',
+      originalFileName: params.originalFileName,
+      fileName: stored.fileName,
+      periodStart: params.periodStart,
+      periodEnd: params.periodEnd,
+      uploadedBy: params.uploadedBy,
+    });
+  }
+
+  /**
+   * Import every CSV waiting in the MinIO inbox, archiving each one afterwards.
+   */
+  async importInbox(): Promise<SettlementReport[]> {
+    const files = await minioService.listFiles(SETTLEMENT_INBOX_FOLDER);
+    const reports: SettlementReport[] = [];
+
+    for (const file of files.filter(f => f.name.toLowerCase().endsWith('.csv'))) {
+      const gateway = file.name.split(/[-_.]/)[0].toLowerCase();
+      if (!paymentGateways.has(gateway)) {
+        logger.warn(`Skipping settlement file ${file.name}: unknown gateway "${gateway}"`);
+        continue;
+      }
+      try {
+        const csv = await streamToString(await minioService.getFileStream(file.name, SETTLEMENT_INBOX_FOLDER));
+        reports.push(await this.importReport({ gateway, csv, source: 'scheduled', originalFileName: file.name, fileName: file.name }));
+      } catch (error) {
+        logger.error(`Failed to import settlement file ${file.name}:`, error);
+      }
+      // Archive even when the import failed, so a bad file is not retried forever
+      if (await minioService.copyFile(file.name, file.name, SETTLEMENT_INBOX_FOLDER, SETTLEMENT_ARCHIVE_FOLDER)) {
+        await minioService.deleteFile(file.name, SETTLEMENT_INBOX_FOLDER);
+      }
+    }
+    return reports;
+  }
+
+  async listReports(filters: { gateway?: string; status?: string }, page = 1, limit = 20) {
+    const where: Prisma.SettlementReportWhereInput = {};
+    if (filters.gateway) where.gateway = filters.gateway;
+    if (filters.status) where.status = filters.status;
+
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.settlementReport.findMany({ where, orderBy: { createdAt: 'desc' }, skip, take: limit }),
+      this.prisma.settlementReport.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
+  }
+
+  async getReport(id: string) {
+    const report = await this.prisma.settlementReport.findUnique({ where: { id } });
+    if (!report) throw new NotFoundError('Settlement report not found');
+    return report;
+  }
+
+  async getLines(reportId: string, result?: string, page = 1, limit = 50) {
+    await this.getReport(reportId);
+    const where: Prisma.SettlementLineWhereInput = { reportId };
+    if (result === 'mismatched') where.result = { notIn: ['matched', 'skipped'] };
+    else if (result) where.result = result;
+
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.settlementLine.findMany({
+        where,
+        omit: { raw: true },
+        orderBy: [{ lineNumber: 'asc' }, { createdAt: 'asc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.settlementLine.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
+  }
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, embedded commas and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseAmount(value: string): number | null {
+  if (!value) return null;
+  const amount = Number(value.replace(/[₹,\s]/g, ''));
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function parseDate(value: string): Date | null {
+  if (!value) return null;
+  // Unix timestamps (seconds) appear in some exports
+  const date = /^\d{10}$/.test(value) ? new Date(Number(value) * 1000) : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+async function streamToString(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export const settlementReconciliationService = new SettlementReconciliationService();
@@ -1,6 +1,7 @@
 import { BaseService } from './base.service';
 import { prisma } from '@/config/database';
 import { NotFoundError, ValidationError } from '@/middleware/error-handler';
+import { inventoryService } from './inventory.service';
 
 interface CalculateShippingParams {
   weight: number;
@@ -44,28 +45,33 @@ export class ShippingService extends BaseService {
     const order = await prisma.order.findUnique({ where: { id: params.orderId } });
     if (!order) throw new NotFoundError('Order not found');
 
-    const shipment = await prisma.shipment.create({
-      data: {
-        orderId: params.orderId,
-        providerId: params.providerId || null,
-        trackingNumber: params.trackingNumber || undefined,
-        carrier: params.carrier || undefined,
-        shippingCost: params.shippingCost !== undefined ? Number(params.shippingCost) : undefined,
-        packageDetails: params.packageDetails || undefined,
-        status: 'shipped',
-      },
+    return prisma.$transaction(async (tx) => {
+      const shipment = await tx.shipment.create({
+        data: {
+          orderId: params.orderId,
+          providerId: params.providerId || null,
+          trackingNumber: params.trackingNumber || undefined,
+          carrier: params.carrier || undefined,
+          shippingCost: params.shippingCost !== undefined ? Number(params.shippingCost) : undefined,
+          packageDetails: params.packageDetails || undefined,
+          status: 'shipped',
+        },
+      });
+
+      await tx.order.update({
+        where: { id: params.orderId },
+        data: {
+          trackingNumber: shipment.trackingNumber || undefined,
+          shippingProvider: params.carrier || undefined,
+          shippingAmount: shipment.shippingCost ?? undefined,
+        },
+      });
+
+      // Shipped goods leave the warehouse: convert the order's reservation into an outbound movement
+      await inventoryService.fulfilForOrder(tx, order.id, order.sellerId);
+
+      return shipment;
     });
-
-    await prisma.order.update({
-      where: { id: params.orderId },
-      data: {
-        trackingNumber: shipment.trackingNumber || undefined,
-        shippingProvider: params.carrier || undefined,
-        shippingAmount: shipment.shippingCost ?? undefined,
-      },
-    });
-
-    return shipment;
   }
 
   async trackShipment(trackingNumber: string) {
@@ -0,0 +1,514 @@
+import type { BillingInvoice, Prisma, Subscription } from '@prisma/client';
+import { BaseService } from './base.service';
+import { WalletService } from './wallet.service';
+import { ledgerService, ledgerAccounts } from './ledger.service';
+import { paymentGateways } from './payment-gateway.service';
+import type { GatewayMandateChargeRequest, GatewayMandateChargeResult } from './payment-gateway.service';
+import { invoiceService } from './invoice.service';
+import { notificationService } from './notification.service';
+import { resolvePlanCode } from './usage-limits.service';
+import { ConflictError, NotFoundError, ValidationError } from '@/middleware/error-handler';
+import { config } from '@/config/environment';
+import { PLAN_CATALOGUE } from '@/config/plans';
+import type { PlanCode } from '@/config/plans';
+import { logger } from '@/utils/logger';
+
+export type BillingInvoiceKind = 'initial' | 'renewal' | 'proration';
+
+export interface NewBillingInvoice {
+  kind: BillingInvoiceKind;
+  planCode: PlanCode;
+  amount: number;
+  periodStart: Date;
+  periodEnd: Date;
+  description: string;
+}
+
+export interface ChargeOutcome {
+  status: 'paid' | 'failed' | 'processing';
+  invoice: BillingInvoice;
+}
+
+// Statuses the renewal job bills; an incomplete subscription is waiting on its first charge
+export const BILLABLE_STATUSES = ['trialing', 'active', 'past_due'];
+
+// Errors from the wallet debit that mean the charge was declined rather than broken
+const WALLET_DECLINES = ['Insufficient balance', 'Wallet not found'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Billing engine behind subscriptions. Every charge is a billing invoice collected from the
+ * subscription's payment method: the user's wallet, or a gateway mandate the user authorised.
+ * The renewal job bills each subscription at the end of its period. A failed renewal leaves it
+ * past due with retries on the configured schedule, and it expires, dropping the user to the
+ * free plan, once the grace period runs out.
+ */
+export class SubscriptionBillingService extends BaseService {
+  private walletService = new WalletService();
+
+  async createInvoice(subscription: Subscription, data: NewBillingInvoice): Promise<BillingInvoice> {
+    const financialYear = invoiceService.financialYearFor();
+    return this.prisma.$transaction(async (tx) => {
+      const sequence = await this.nextSequence(tx, financialYear);
+      return tx.billingInvoice.create({
+        data: {
+          subscriptionId: subscription.id,
+          userId: subscription.userId,
+          invoiceNumber: `SUB/${financialYear.slice(2)}/${String(sequence).padStart(6, '0')}`,
+          financialYear,
+          sequence,
+          kind: data.kind,
+          planCode: data.planCode,
+          description: data.description.slice(0, 255),
+          amount: round2(data.amount),
+          periodStart: data.periodStart,
+          periodEnd: data.periodEnd,
+          paymentMethod: subscription.paymentMethod,
+          gateway: subscription.paymentMethod === 'mandate' ? subscription.mandateGateway : null,
+        },
+      });
+    });
+  }
+
+  /**
+   * Charge an open or failed invoice with the subscription's current payment method and apply the
+   * result to the subscription. Mandate charges the gateway has not settled yet come back as
+   * processing and are finished by syncPendingCharges.
+   */
+  async collect(invoiceId: string): Promise<ChargeOutcome> {
+    const invoice = await this.prisma.billingInvoice.findUnique({ where: { id: invoiceId }, include: { subscription: true } });
+    if (!invoice) throw new NotFoundError('Billing invoice not found');
+    if (invoice.status === 'paid' || invoice.status === 'processing') return { status: invoice.status, invoice };
+    if (invoice.status === 'void') throw new ValidationError('Billing invoice has been voided');
+
+    const { subscription, ...open } = invoice;
+    const outcome = subscription.paymentMethod === 'mandate'
+      ? await this.chargeMandate(open, subscription)
+      : await this.chargeWallet(open, subscription);
+    await this.applyOutcome(outcome);
+    return outcome;
+  }
+
+  /**
+   * Scheduler entry point: settle mandate charges the gateways have finished, then renew, retry,
+   * cancel or expire every subscription whose next billing time has passed.
+   */
+  async renewDue(): Promise<{ processed: number; settled: number }> {
+    const settled = await this.syncPendingCharges();
+    const due = await this.prisma.subscription.findMany({
+      where: { status: { in: BILLABLE_STATUSES }, nextBillingAt: { lte: new Date() } },
+      orderBy: { nextBillingAt: 'asc' },
+      take: config.billing.batchSize,
+    });
+
+    let processed = 0;
+    for (const subscription of due) {
+      if (!(await this.claim(subscription))) continue;
+      try {
+        await this.bill(subscription);
+        processed++;
+      } catch (error) {
+        // The claim lapses after claimTimeoutMs and the next run tries again
+        logger.error(`Failed to bill subscription ${subscription.id}:`, error);
+      }
+    }
+    return { processed, settled };
+  }
+
+  /**
+   * Poll the gateway for mandate charges still processing. A charge the gateway never gave an id
+   * for is looked up by the charge id it was sent once the claim lapses; it only fails when the
+   * gateway confirms it never collected, so dunning cannot charge the customer twice.
+   */
+  async syncPendingCharges(): Promise<number> {
+    const pending = await this.prisma.billingInvoice.findMany({
+      where: { status: 'processing' },
+      include: { subscription: true },
+      orderBy: { updatedAt: 'asc' },
+      take: config.billing.batchSize,
+    });
+
+    let settled = 0;
+    for (const { subscription, ...invoice } of pending) {
+      try {
+        // Give an in-flight charge until the claim lapses before asking about it
+        if (!invoice.gatewayChargeId && invoice.updatedAt.getTime() > Date.now() - config.billing.claimTimeoutMs) continue;
+        const gateway = paymentGateways.get(invoice.gateway || '');
+        if (!gateway.getMandateChargeStatus) continue;
+        const result = await gateway.getMandateChargeStatus(await this.mandateRequest(invoice, subscription), invoice.gatewayChargeId);
+        if (result.status !== 'paid' && result.status !== 'failed') continue;
+        const outcome = await this.recordGatewayResult(invoice, result);
+        if (outcome.status === 'processing') continue;
+        await this.applyOutcome(outcome);
+        settled++;
+      } catch (error) {
+        logger.warn(`Failed to check mandate charge for billing invoice ${invoice.invoiceNumber}:`, error);
+      }
+    }
+    return settled;
+  }
+
+  /**
+   * Void the subscription's unpaid invoices when it ends; they are no longer owed.
+   */
+  async voidOpenInvoices(subscriptionId: string): Promise<number> {
+    const result = await this.prisma.billingInvoice.updateMany({
+      where: { subscriptionId, status: { in: ['open', 'failed'] } },
+      data: { status: 'void' },
+    });
+    return result.count;
+  }
+
+  async listInvoices(userId: string, filters: { subscriptionId?: string; status?: string }, page = 1, limit = 20) {
+    const where: Prisma.BillingInvoiceWhereInput = { userId };
+    if (filters.subscriptionId) where.subscriptionId = filters.subscriptionId;
+    if (filters.status) where.status = filters.status;
+
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.billingInvoice.findMany({ where, orderBy: { createdAt: 'desc' }, skip, take: limit }),
+      this.prisma.billingInvoice.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
+  }
+
+  // Optimistic claim: only one run can move nextBillingAt on from the value it read
+  private async claim(subscription: Subscription): Promise<boolean> {
+    const claimed = await this.prisma.subscription.updateMany({
+      where: { id: subscription.id, status: subscription.status, nextBillingAt: subscription.nextBillingAt },
+      data: { nextBillingAt: new Date(Date.now() + config.billing.claimTimeoutMs) },
+    });
+    return claimed.count === 1;
+  }
+
+  private async bill(subscription: Subscription) {
+    const now = new Date();
+
+    if (subscription.status === 'past_due' && subscription.graceEndsAt && subscription.graceEndsAt <= now) {
+      await this.expire(subscription);
+      return;
+    }
+
+    if (subscription.cancelAtPeriodEnd && subscription.currentPeriodEnd <= now) {
+      await this.prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { status: 'cancelled', cancelledAt: now, endDate: subscription.currentPeriodEnd, nextBillingAt: null },
+      });
+      await this.voidOpenInvoices(subscription.id);
+      await this.notify(subscription.userId, 'Subscription Ended', `Your ${subscription.planName} subscription has ended as requested. You are now on the free plan.`, { subscriptionId: subscription.id });
+      return;
+    }
+
+    const planCode = (subscription.pendingPlanCode as PlanCode | null) || resolvePlanCode(subscription.planCode, subscription.planName);
+    const plan = PLAN_CATALOGUE[planCode];
+    const periodStart = subscription.currentPeriodEnd;
+    const periodEnd = addMonths(periodStart, 1);
+
+    // Nothing to charge: roll the period over
+    if (plan.monthlyPrice <= 0) {
+      await this.prisma.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          status: 'active', planCode, planName: plan.name, pendingPlanCode: null,
+          currentPeriodStart: periodStart, currentPeriodEnd: periodEnd, endDate: periodEnd, nextBillingAt: periodEnd,
+        },
+      });
+      return;
+    }
+
+    let invoice = await this.prisma.billingInvoice.findFirst({
+      where: { subscriptionId: subscription.id, kind: 'renewal', periodStart, status: { in: ['open', 'failed', 'processing'] } },
+      orderBy: { createdAt: 'desc' },
+    });
+    // Still with the gateway; syncPendingCharges settles it and the claim lapses meanwhile
+    if (invoice?.status === 'processing') return;
+    if (!invoice) {
+      const trial = subscription.status === 'trialing';
+      invoice = await this.createInvoice(subscription, {
+        kind: 'renewal',
+        planCode,
+        amount: plan.monthlyPrice,
+        periodStart,
+        periodEnd,
+        description: `${plan.name} plan, ${formatDate(periodStart)} to ${formatDate(periodEnd)}${trial ? ' (after trial)' : ''}`,
+      });
+    }
+
+    await this.collect(invoice.id);
+  }
+
+  private async chargeWallet(invoice: BillingInvoice, subscription: Subscription): Promise<ChargeOutcome> {
+    const amount = invoice.amount.toNumber();
+    try {
+      const paid = await this.prisma.$transaction(async (tx) => {
+        const claimed = await tx.billingInvoice.updateMany({
+          where: { id: invoice.id, status: { in: ['open', 'failed'] } },
+          data: { status: 'paid', paidAt: new Date(), attempts: { increment: 1 }, paymentMethod: 'wallet', gateway: null, lastError: null },
+        });
+        if (!claimed.count) throw new ConflictError('Billing invoice is already being collected');
+
+        const transaction = await this.walletService.chargeSubscription(tx, subscription.userId, {
+          transactionType: 'subscription',
+          amount,
+          referenceType: 'billing_invoice',
+          referenceId: invoice.id,
+          description: `Subscription invoice ${invoice.invoiceNumber}`,
+        });
+        return tx.billingInvoice.update({ where: { id: invoice.id }, data: { walletTransactionId: transaction.id } });
+      });
+      logger.info(`Billing invoice ${invoice.invoiceNumber} paid from wallet`);
+      return { status: 'paid', invoice: paid };
+    } catch (error: any) {
+      if (!WALLET_DECLINES.includes(error?.message)) throw error;
+      const failed = await this.prisma.billingInvoice.update({
+        where: { id: invoice.id },
+        data: { status: 'failed', attempts: { increment: 1 }, paymentMethod: 'wallet', gateway: null, lastError: `${error.message} in wallet` },
+      });
+      return { status: 'failed', invoice: failed };
+    }
+  }
+
+  private async chargeMandate(invoice: BillingInvoice, subscription: Subscription): Promise<ChargeOutcome> {
+    const claimed = await this.prisma.billingInvoice.updateMany({
+      where: { id: invoice.id, status: { in: ['open', 'failed'] } },
+      data: {
+        status: 'processing', attempts: { increment: 1 }, paymentMethod: 'mandate',
+        gateway: subscription.mandateGateway, gatewayChargeId: null, lastError: null,
+      },
+    });
+    if (!claimed.count) throw new ConflictError('Billing invoice is already being collected');
+    const attempt = { ...invoice, attempts: invoice.attempts + 1 };
+
+    // Nothing reaches the gateway without a usable mandate, so these fail outright
+    const decline = (failureReason: string) => this.recordGatewayResult(attempt, { status: 'failed', failureReason });
+    if (!subscription.mandateGateway || !subscription.mandateId) return decline('No payment mandate on file');
+    if (!paymentGateways.has(subscription.mandateGateway)) return decline(`Unsupported payment gateway: ${subscription.mandateGateway}`);
+    const gateway = paymentGateways.get(subscription.mandateGateway);
+    if (!gateway.chargeMandate) return decline(`${gateway.name} cannot charge mandates`);
+
+    let result: GatewayMandateChargeResult;
+    try {
+      result = await gateway.chargeMandate(await this.mandateRequest(attempt, subscription));
+    } catch (error: any) {
+      // The charge may have gone through; syncPendingCharges asks the gateway once the claim lapses
+      logger.warn(`Mandate charge for billing invoice ${invoice.invoiceNumber} did not complete:`, error);
+      result = { status: 'processing', failureReason: error.message };
+    }
+    return this.recordGatewayResult(attempt, result);
+  }
+
+  private async recordGatewayResult(invoice: BillingInvoice, result: GatewayMandateChargeResult): Promise<ChargeOutcome> {
+    if (result.status === 'paid') {
+      const paid = await this.prisma.$transaction(async (tx) => {
+        const settled = await tx.billingInvoice.updateMany({
+          where: { id: invoice.id, status: 'processing' },
+          data: { status: 'paid', paidAt: new Date(), gatewayChargeId: result.gatewayChargeId ?? invoice.gatewayChargeId },
+        });
+        if (!settled.count) return null;
+        // The gateway collected the money; it reaches the platform through clearing
+        await ledgerService.post(tx, {
+          entryType: 'subscription',
+          referenceType: 'billing_invoice',
+          referenceId: invoice.id,
+          description: `Subscription invoice ${invoice.invoiceNumber}`,
+          lines: [
+            { account: ledgerAccounts.gatewayClearing(), debit: invoice.amount.toNumber() },
+            { account: ledgerAccounts.subscriptionRevenue(), credit: invoice.amount.toNumber() },
+          ],
+        });
+        return tx.billingInvoice.findUniqueOrThrow({ where: { id: invoice.id } });
+      });
+      if (!paid) throw new ConflictError('Billing invoice was settled by another run');
+      logger.info(`Billing invoice ${invoice.invoiceNumber} paid by ${invoice.gateway} mandate`);
+      return { status: 'paid', invoice: paid };
+    }
+
+    const updated = await this.prisma.billingInvoice.update({
+      where: { id: invoice.id },
+      data: result.status === 'failed'
+        ? { status: 'failed', gatewayChargeId: result.gatewayChargeId ?? invoice.gatewayChargeId, lastError: result.failureReason || 'Declined by the gateway' }
+        : { gatewayChargeId: result.gatewayChargeId, lastError: result.failureReason },
+    });
+    return { status: result.status === 'failed' ? 'failed' : 'processing', invoice: updated };
+  }
+
+  private async mandateRequest(invoice: BillingInvoice, subscription: Subscription): Promise<GatewayMandateChargeRequest> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: subscription.userId },
+      select: { id: true, email: true, phone: true, firstName: true, lastName: true, businessName: true },
+    });
+    return {
+      // Unique per attempt so a retry is never mistaken for a duplicate of the declined charge
+      chargeId: `${invoice.id}-${invoice.attempts}`,
+      reference: invoice.id,
+      mandateId: subscription.mandateId || '',
+      mandateCustomerId: subscription.mandateCustomerId,
+      amount: invoice.amount.toNumber(),
+      currency: invoice.currency,
+      customer: {
+        id: subscription.userId,
+        email: user?.email,
+        phone: user?.phone,
+        name: user?.businessName || [user?.firstName, user?.lastName].filter(Boolean).join(' ') || null,
+      },
+      description: `Subscription invoice ${invoice.invoiceNumber}`,
+    };
+  }
+
+  private async applyOutcome(outcome: ChargeOutcome) {
+    if (outcome.status === 'paid') await this.onPaid(outcome.invoice);
+    if (outcome.status === 'failed') await this.onFailed(outcome.invoice);
+  }
+
+  private async onPaid(invoice: BillingInvoice) {
+    const subscription = await this.prisma.subscription.findUnique({ where: { id: invoice.subscriptionId } });
+    if (!subscription) return;
+    if (subscription.status === 'cancelled') {
+      await this.refundToWallet(invoice);
+      return;
+    }
+    const plan = PLAN_CATALOGUE[invoice.planCode as PlanCode];
+
+    if (invoice.kind === 'proration') {
+      await this.prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { planCode: plan.code, planName: plan.name, pendingPlanCode: null },
+      });
+      await this.notify(subscription.userId, 'Plan Upgraded', `You are now on the ${plan.name} plan. ${invoice.invoiceNumber} for ₹${invoice.amount.toFixed(2)} covers the rest of this billing period.`, { subscriptionId: subscription.id, invoiceId: invoice.id });
+      return;
+    }
+
+    const recovered = subscription.status === 'past_due' || subscription.status === 'expired';
+    const converted = subscription.status === 'trialing';
+    await this.prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: 'active',
+        planCode: plan.code,
+        planName: plan.name,
+        pendingPlanCode: invoice.kind === 'renewal' ? null : subscription.pendingPlanCode,
+        currentPeriodStart: invoice.periodStart,
+        currentPeriodEnd: invoice.periodEnd,
+        endDate: invoice.periodEnd,
+        nextBillingAt: invoice.periodEnd,
+        failedPaymentCount: 0,
+        pastDueSince: null,
+        graceEndsAt: null,
+      },
+    });
+
+    if (invoice.kind !== 'renewal') return;
+    const title = recovered ? 'Payment Received' : converted ? 'Trial Converted' : 'Subscription Renewed';
+    const lead = recovered
+      ? `Thanks, your overdue payment went through and your ${plan.name} plan is back in good standing.`
+      : converted
+        ? `Your trial has ended and your ${plan.name} plan is now active.`
+        : `Your ${plan.name} plan has renewed.`;
+    await this.notify(subscription.userId, title, `${lead} ${invoice.invoiceNumber} for ₹${invoice.amount.toFixed(2)} covers ${formatDate(invoice.periodStart)} to ${formatDate(invoice.periodEnd)}.`, { subscriptionId: subscription.id, invoiceId: invoice.id });
+  }
+
+  /**
+   * Dunning. Only renewals move the subscription: the first failure starts the grace period, each
+   * failure schedules the next retry from the retry schedule, and once retries run out the
+   * subscription waits for the end of the grace period to expire. Initial and proration charges
+   * are answered to the user directly.
+   */
+  /**
+   * A charge that settles after the subscription was cancelled (a mandate debit still in flight
+   * when the user cancelled) pays for nothing, so the amount goes back to the user's wallet.
+   */
+  private async refundToWallet(invoice: BillingInvoice) {
+    const refunded = await this.prisma.$transaction(async (tx) => {
+      const claimed = await tx.billingInvoice.updateMany({ where: { id: invoice.id, status: 'paid' }, data: { status: 'refunded' } });
+      if (!claimed.count) return null;
+
+      const transaction = await this.walletService.refundSubscription(tx, invoice.userId, {
+        transactionType: 'subscription_refund',
+        amount: invoice.amount.toNumber(),
+        referenceType: 'billing_invoice',
+        referenceId: invoice.id,
+        description: `Refund of subscription invoice ${invoice.invoiceNumber}`,
+      });
+      return tx.billingInvoice.update({ where: { id: invoice.id }, data: { walletTransactionId: transaction.id } });
+    });
+    if (!refunded) return;
+
+    logger.info(`Billing invoice ${invoice.invoiceNumber} was paid after its subscription was cancelled; refunded to wallet`);
+    await this.notify(invoice.userId, 'Payment Refunded', `${invoice.invoiceNumber} for ₹${invoice.amount.toFixed(2)} was collected after your subscription was cancelled, so it has been credited to your wallet.`, { subscriptionId: invoice.subscriptionId, invoiceId: invoice.id });
+  }
+
+  private async onFailed(invoice: BillingInvoice) {
+    const subscription = await this.prisma.subscription.findUnique({ where: { id: invoice.subscriptionId } });
+    if (!subscription) return;
+    const reason = invoice.lastError || 'the payment was declined';
+
+    if (invoice.kind === 'initial') {
+      if (subscription.status === 'incomplete') {
+        await this.prisma.subscription.update({ where: { id: subscription.id }, data: { status: 'expired', endDate: new Date(), nextBillingAt: null } });
+      }
+      return;
+    }
+    if (invoice.kind === 'proration') {
+      await this.notify(subscription.userId, 'Upgrade Payment Failed', `We could not charge ${invoice.invoiceNumber} for your upgrade to the ${PLAN_CATALOGUE[invoice.planCode as PlanCode].name} plan: ${reason}. Your plan has not changed.`, { subscriptionId: subscription.id, invoiceId: invoice.id });
+      return;
+    }
+    if (!BILLABLE_STATUSES.includes(subscription.status)) return;
+
+    const now = new Date();
+    const failures = subscription.failedPaymentCount + 1;
+    const pastDueSince = subscription.pastDueSince || now;
+    const graceEndsAt = subscription.graceEndsAt || new Date(pastDueSince.getTime() + config.billing.gracePeriodDays * DAY_MS);
+    const retryDays = config.billing.retryScheduleDays[failures - 1];
+    const retryAt = retryDays !== undefined ? new Date(pastDueSince.getTime() + retryDays * DAY_MS) : null;
+    const nextBillingAt = retryAt && retryAt < graceEndsAt ? retryAt : graceEndsAt;
+
+    await this.prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { status: 'past_due', failedPaymentCount: failures, pastDueSince, graceEndsAt, nextBillingAt },
+    });
+
+    const next = nextBillingAt < graceEndsAt
+      ? `We will try again on ${formatDate(nextBillingAt)}.`
+      : 'We will not retry automatically.';
+    const method = subscription.paymentMethod === 'wallet' ? 'top up your wallet' : 'check your payment mandate';
+    await this.notify(subscription.userId, 'Subscription Payment Failed', `We could not collect ${invoice.invoiceNumber} for ₹${invoice.amount.toFixed(2)} for your ${subscription.planName} plan: ${reason}. ${next} Please ${method} or pay now from your subscription page; your plan stays active until ${formatDate(graceEndsAt)}.`, { subscriptionId: subscription.id, invoiceId: invoice.id, attempt: failures, graceEndsAt: graceEndsAt.toISOString() });
+  }
+
+  private async expire(subscription: Subscription) {
+    await this.prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { status: 'expired', endDate: new Date(), nextBillingAt: null },
+    });
+    await this.voidOpenInvoices(subscription.id);
+    logger.info(`Subscription ${subscription.id} expired after its grace period`);
+    await this.notify(subscription.userId, 'Subscription Expired', `We could not collect payment for your ${subscription.planName} plan before the grace period ended, so your account has moved to the free plan. Reactivate your subscription at any time to restore it.`, { subscriptionId: subscription.id });
+  }
+
+  private async notify(userId: string, title: string, message: string, data: Record<string, any>) {
+    await notificationService.createNotification({ userId, title, message, type: 'subscription', data })
+      .catch(err => logger.warn(`Failed to send subscription notification to ${userId}:`, err));
+  }
+
+  private async nextSequence(tx: Prisma.TransactionClient, financialYear: string): Promise<number> {
+    // The upsert takes a row lock, so concurrent invoices serialize here
+    const row = await tx.billingInvoiceSequence.upsert({
+      where: { financialYear },
+      update: { lastNumber: { increment: 1 } },
+      create: { financialYear, lastNumber: 1 },
+    });
+    return row.lastNumber;
+  }
+}
+
+export const subscriptionBillingService = new SubscriptionBillingService();
@@ -1,73 +1,292 @@
+import type { Subscription } from '@prisma/client';
 import { BaseService } from './base.service';
 import { prisma } from '@/config/database';
-// Prisma namespace not needed explicitly here
-import { ValidationError, NotFoundError } from '@/middleware/error-handler';
+import { subscriptionBillingService, addMonths, BILLABLE_STATUSES } from './subscription-billing.service';
+import type { ChargeOutcome } from './subscription-billing.service';
+import { paymentGateways } from './payment-gateway.service';
+import { resolvePlanCode } from './usage-limits.service';
+import { ValidationError, NotFoundError, ConflictError, CustomError } from '@/middleware/error-handler';
+import { PLAN_CATALOGUE, isPlanCode } from '@/config/plans';
 
-export interface CreateSubscriptionParams {
+export interface PaymentMethodParams {
+  paymentMethod?: 'wallet' | 'mandate'; // defaults to wallet
+  mandateGateway?: string; // gateway holding the mandate, e.g. razorpay
+  mandateId?: string; // Razorpay token id or Cashfree subscription id
+  mandateCustomerId?: string; // Razorpay customer the token belongs to
+}
+
+export interface CreateSubscriptionParams extends PaymentMethodParams {
   userId: string;
-  type: string; // matches schema 'type'
-  planName: string; // schema plan_name
-  durationMonths?: number; // used to set endDate
-  trialDays?: number;
+  type?: string; // matches schema 'type'; defaults to the plan code
+  planName?: string; // schema plan_name; defaults to the plan's catalogue name
+  planCode: string; // free | growth | enterprise
+  durationMonths?: number; // length of the first paid period; renewals are monthly
+  trialDays?: number; // up to the plan's trial; 0 skips it
 }
 
+// A user has at most one of these at a time
+const OPEN_STATUSES = ['incomplete', ...BILLABLE_STATUSES];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+// Prorated upgrades below this are switched without a charge
+const MIN_PRORATION_AMOUNT = 1;
+
 export class SubscriptionService extends BaseService {
-  async getCurrent(userId: string) { return prisma.subscription.findFirst({ where: { userId, status: 'active' }, orderBy: { createdAt: 'desc' } }); }
+  async getCurrent(userId: string) { return prisma.subscription.findFirst({ where: { userId, status: { in: OPEN_STATUSES } }, orderBy: { createdAt: 'desc' } }); }
 
   async listByUser(userId: string) {
     return prisma.subscription.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
   }
 
+  /**
+   * Start a subscription. Plans with a trial start trialing (one trial per user) and are charged
+   * when it ends; paid plans without one are charged now and stay incomplete until that charge
+   * settles.
+   */
   async create(params: CreateSubscriptionParams) {
-    if (!params.userId || !params.type) throw new ValidationError('userId and type required');
+    if (!params.userId) throw new ValidationError('userId required');
+    if (!isPlanCode(params.planCode)) throw new ValidationError(`Unknown plan: ${params.planCode}`);
+    const open = await prisma.subscription.findFirst({ where: { userId: params.userId, status: { in: OPEN_STATUSES } } });
+    if (open) throw new ConflictError('You already have a subscription; change its plan instead', { subscriptionId: open.id });
+
+    const plan = PLAN_CATALOGUE[params.planCode];
+    const paymentMethod = this.paymentMethodData(params);
+    const trialled = plan.trialDays > 0 && await prisma.subscription.count({ where: { userId: params.userId, trialEndsAt: { not: null } } }) > 0;
+    const trialDays = trialled ? 0 : Math.min(params.trialDays ?? plan.trialDays, plan.trialDays);
     const now = new Date();
-    const duration = params.durationMonths && params.durationMonths > 0 ? params.durationMonths : 1;
-    const endDate = new Date(now.getTime()); endDate.setMonth(endDate.getMonth() + duration);
-    return prisma.subscription.create({
-      data: {
-        userId: params.userId,
-        type: params.type,
-        planName: params.planName,
-        status: 'active',
-        startDate: now,
-        endDate,
-        currentPeriodStart: now,
-        currentPeriodEnd: endDate,
-        // cashfreeSubscriptionId left null until external provisioning
-      }
+    const base = {
+      userId: params.userId,
+      type: params.type || plan.code,
+      planCode: plan.code,
+      planName: params.planName || plan.name,
+      startDate: now,
+      currentPeriodStart: now,
+      ...paymentMethod,
+    };
+
+    if (trialDays > 0 || plan.monthlyPrice <= 0) {
+      const periodEnd = trialDays > 0 ? new Date(now.getTime() + trialDays * DAY_MS) : addMonths(now, 1);
+      const subscription = await prisma.subscription.create({
+        data: {
+          ...base,
+          status: trialDays > 0 ? 'trialing' : 'active',
+          endDate: periodEnd,
+          currentPeriodEnd: periodEnd,
+          trialEndsAt: trialDays > 0 ? periodEnd : null,
+          nextBillingAt: periodEnd,
+        }
+      });
+      return { ...subscription, invoice: null };
+    }
+
+    const months = params.durationMonths && params.durationMonths > 0 ? params.durationMonths : 1;
+    const periodEnd = addMonths(now, months);
+    const subscription = await prisma.subscription.create({ data: { ...base, status: 'incomplete', endDate: periodEnd, currentPeriodEnd: periodEnd } });
+    const invoice = await subscriptionBillingService.createInvoice(subscription, {
+      kind: 'initial',
+      planCode: plan.code,
+      amount: plan.monthlyPrice * months,
+      periodStart: now,
+      periodEnd,
+      description: `${plan.name} plan, ${this.formatPeriod(now, periodEnd)}`,
     });
+    return this.settle(subscription.id, await subscriptionBillingService.collect(invoice.id));
   }
 
-  async upgrade(userId: string, subscriptionId: string, data: { planName?: string; type?: string; extendMonths?: number; }) {
-    const sub = await prisma.subscription.findFirst({ where: { id: subscriptionId, userId } });
-    if (!sub) throw new NotFoundError('Subscription not found');
-    let endDate = sub.endDate;
-    if (data.extendMonths && data.extendMonths > 0) {
-      endDate = new Date(endDate); endDate.setMonth(endDate.getMonth() + data.extendMonths);
+  /**
+   * Change plan. Upgrades are charged now for the rest of the period and take effect once paid;
+   * downgrades wait for the next renewal. Trials switch at once and convert on the new plan.
+   */
+  async upgrade(userId: string, subscriptionId: string, data: { planName?: string; planCode?: string; type?: string; }) {
+    const sub = await this.findOwned(userId, subscriptionId);
+    const details = { ...(data.type && { type: data.type }) };
+
+    if (!data.planCode) {
+      return { ...(await prisma.subscription.update({ where: { id: subscriptionId }, data: { ...details, ...(data.planName && { planName: data.planName }) } })), invoice: null };
     }
-    return prisma.subscription.update({ where: { id: subscriptionId }, data: { ...(data.planName && { planName: data.planName }), ...(data.type && { type: data.type }), ...(endDate && { endDate, currentPeriodEnd: endDate }) } });
+    if (!isPlanCode(data.planCode)) throw new ValidationError(`Unknown plan: ${data.planCode}`);
+    if (sub.status !== 'trialing' && sub.status !== 'active') {
+      throw new ValidationError(sub.status === 'past_due' ? 'Pay the overdue invoice before changing plan' : `Cannot change the plan of a ${sub.status} subscription`);
+    }
+
+    const current = PLAN_CATALOGUE[resolvePlanCode(sub.planCode, sub.planName)];
+    const target = PLAN_CATALOGUE[data.planCode];
+    const switchNow = async () => ({
+      ...(await prisma.subscription.update({
+        where: { id: subscriptionId },
+        data: { ...details, planCode: target.code, planName: data.planName || target.name, pendingPlanCode: null },
+      })),
+      invoice: null,
+    });
+
+    if (sub.status === 'trialing' || target.code === current.code) return switchNow();
+    if (target.monthlyPrice <= current.monthlyPrice) {
+      return { ...(await prisma.subscription.update({ where: { id: subscriptionId }, data: { ...details, pendingPlanCode: target.code } })), invoice: null };
+    }
+
+    // Price difference for the unused part of the period; multi-month periods scale it up
+    const now = new Date();
+    const periodMs = sub.currentPeriodEnd.getTime() - sub.currentPeriodStart.getTime();
+    const remainingMs = Math.max(0, sub.currentPeriodEnd.getTime() - now.getTime());
+    const periodMonths = Math.max(1, Math.round(periodMs / (30 * DAY_MS)));
+    const amount = periodMs > 0 ? round2((target.monthlyPrice - current.monthlyPrice) * periodMonths * remainingMs / periodMs) : 0;
+    if (amount < MIN_PRORATION_AMOUNT) return switchNow();
+
+    if (Object.keys(details).length) await prisma.subscription.update({ where: { id: subscriptionId }, data: details });
+    const invoice = await subscriptionBillingService.createInvoice(sub, {
+      kind: 'proration',
+      planCode: target.code,
+      amount,
+      periodStart: now,
+      periodEnd: sub.currentPeriodEnd,
+      description: `Upgrade from ${current.name} to ${target.name}, ${this.formatPeriod(now, sub.currentPeriodEnd)}`,
+    });
+    return this.settle(subscriptionId, await subscriptionBillingService.collect(invoice.id));
   }
 
+  /**
+   * Cancel at the end of the paid period, or straight away. Immediate cancellation does not
+   * refund the rest of the period. Past-due and incomplete subscriptions have no paid period left,
+   * so they always end straight away.
+   */
   async cancel(userId: string, subscriptionId: string, atPeriodEnd = true) {
-    const sub = await prisma.subscription.findFirst({ where: { id: subscriptionId, userId } });
-    if (!sub) throw new NotFoundError('Subscription not found');
-    if (atPeriodEnd) return sub; // no schema flag; client just remembers planned cancellation
-    return prisma.subscription.update({ where: { id: subscriptionId }, data: { status: 'cancelled' } });
+    const sub = await this.findOwned(userId, subscriptionId);
+    if (!OPEN_STATUSES.includes(sub.status)) throw new ValidationError(`Subscription is already ${sub.status}`);
+    if (atPeriodEnd && (sub.status === 'trialing' || sub.status === 'active')) {
+      return prisma.subscription.update({ where: { id: subscriptionId }, data: { cancelAtPeriodEnd: true } });
+    }
+    const now = new Date();
+    const cancelled = await prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: { status: 'cancelled', cancelledAt: now, endDate: now, cancelAtPeriodEnd: false, nextBillingAt: null },
+    });
+    // A mandate charge already in flight cannot be recalled; if it settles it is refunded to the wallet
+    await subscriptionBillingService.voidOpenInvoices(subscriptionId);
+    return cancelled;
   }
 
+  /**
+   * Undo a scheduled cancellation, resume a subscription cancelled inside a period that is still
+   * running, or start a new paid period for one that has ended.
+   */
   async reactivate(userId: string, subscriptionId: string) {
-    const sub = await prisma.subscription.findFirst({ where: { id: subscriptionId, userId } });
-    if (!sub) throw new NotFoundError('Subscription not found');
-    if (sub.status === 'cancelled' && sub.currentPeriodEnd < new Date()) {
-      const now = new Date();
-      const endDate = new Date(now); endDate.setMonth(endDate.getMonth() + 1);
-      return prisma.subscription.update({ where: { id: subscriptionId }, data: { status: 'active', startDate: now, endDate, currentPeriodStart: now, currentPeriodEnd: endDate } });
+    const sub = await this.findOwned(userId, subscriptionId);
+    if (sub.cancelAtPeriodEnd && (sub.status === 'trialing' || sub.status === 'active')) {
+      return { ...(await prisma.subscription.update({ where: { id: subscriptionId }, data: { cancelAtPeriodEnd: false } })), invoice: null };
+    }
+    if (OPEN_STATUSES.includes(sub.status)) throw new ValidationError(`Subscription is ${sub.status}, not cancelled`);
+    const open = await prisma.subscription.findFirst({ where: { userId, status: { in: OPEN_STATUSES } } });
+    if (open) throw new ConflictError('You already have another subscription', { subscriptionId: open.id });
+
+    const now = new Date();
+    if (sub.status === 'cancelled' && sub.currentPeriodEnd > now) {
+      const trialing = sub.trialEndsAt !== null && sub.trialEndsAt >= sub.currentPeriodEnd;
+      return {
+        ...(await prisma.subscription.update({
+          where: { id: subscriptionId },
+          data: { status: trialing ? 'trialing' : 'active', cancelledAt: null, endDate: sub.currentPeriodEnd, nextBillingAt: sub.currentPeriodEnd },
+        })),
+        invoice: null,
+      };
     }
-    return prisma.subscription.update({ where: { id: subscriptionId }, data: { status: 'active' } });
+
+    const plan = PLAN_CATALOGUE[resolvePlanCode(sub.planCode, sub.planName)];
+    const periodEnd = addMonths(now, 1);
+    const restarted = await prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: {
+        status: plan.monthlyPrice > 0 ? 'incomplete' : 'active',
+        planCode: plan.code,
+        startDate: now,
+        endDate: periodEnd,
+        currentPeriodStart: now,
+        currentPeriodEnd: periodEnd,
+        nextBillingAt: plan.monthlyPrice > 0 ? null : periodEnd,
+        cancelAtPeriodEnd: false,
+        cancelledAt: null,
+        pendingPlanCode: null,
+        failedPaymentCount: 0,
+        pastDueSince: null,
+        graceEndsAt: null,
+      },
+    });
+    if (plan.monthlyPrice <= 0) return { ...restarted, invoice: null };
+
+    const invoice = await subscriptionBillingService.createInvoice(restarted, {
+      kind: 'initial',
+      planCode: plan.code,
+      amount: plan.monthlyPrice,
+      periodStart: now,
+      periodEnd,
+      description: `${plan.name} plan, ${this.formatPeriod(now, periodEnd)}`,
+    });
+    return this.settle(subscriptionId, await subscriptionBillingService.collect(invoice.id));
+  }
+
+  /**
+   * Switch between wallet and mandate payments. A past-due subscription is retried with the new
+   * method on the next renewal run.
+   */
+  async setPaymentMethod(userId: string, subscriptionId: string, params: PaymentMethodParams) {
+    const sub = await this.findOwned(userId, subscriptionId);
+    return prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: { ...this.paymentMethodData(params), ...(sub.status === 'past_due' && { nextBillingAt: new Date() }) },
+    });
+  }
+
+  /**
+   * Pay the subscription's outstanding invoice now, e.g. after topping up the wallet.
+   */
+  async retryPayment(userId: string, subscriptionId: string) {
+    await this.findOwned(userId, subscriptionId);
+    const invoice = await prisma.billingInvoice.findFirst({
+      where: { subscriptionId, status: { in: ['open', 'failed'] } },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!invoice) throw new ValidationError('Nothing is owed on this subscription');
+    return this.settle(subscriptionId, await subscriptionBillingService.collect(invoice.id));
+  }
+
+  async listInvoices(userId: string, filters: { subscriptionId?: string; status?: string }, page = 1, limit = 20) {
+    return subscriptionBillingService.listInvoices(userId, filters, page, limit);
   }
 
   // Placeholder for usage tracking (no features JSON in schema currently)
   async recordUsage() { return; }
+
+  private async findOwned(userId: string, subscriptionId: string): Promise<Subscription> {
+    const sub = await prisma.subscription.findFirst({ where: { id: subscriptionId, userId } });
+    if (!sub) throw new NotFoundError('Subscription not found');
+    return sub;
+  }
+
+  // The subscription after a charge, with the invoice it produced; declined charges are errors
+  private async settle(subscriptionId: string, outcome: ChargeOutcome) {
+    if (outcome.status === 'failed') {
+      throw new CustomError(`Payment failed: ${outcome.invoice.lastError || 'declined'}`, 402, 'PAYMENT_FAILED', {
+        invoiceId: outcome.invoice.id,
+        invoiceNumber: outcome.invoice.invoiceNumber,
+      });
+    }
+    const subscription = await prisma.subscription.findUniqueOrThrow({ where: { id: subscriptionId } });
+    return { ...subscription, invoice: outcome.invoice };
+  }
+
+  private paymentMethodData(params: PaymentMethodParams) {
+    if (params.paymentMethod !== 'mandate') return { paymentMethod: 'wallet', mandateGateway: null, mandateId: null, mandateCustomerId: null };
+    if (!params.mandateGateway || !params.mandateId) throw new ValidationError('mandateGateway and mandateId required for mandate payments');
+    const gateway = paymentGateways.get(params.mandateGateway.toLowerCase());
+    if (!gateway.chargeMandate) throw new ValidationError(`${gateway.name} does not support recurring mandates`);
+    return { paymentMethod: 'mandate', mandateGateway: gateway.name, mandateId: params.mandateId, mandateCustomerId: params.mandateCustomerId ?? null };
+  }
+
+  private formatPeriod(start: Date, end: Date) {
+    return `${start.toISOString().slice(0, 10)} to ${end.toISOString().slice(0, 10)}`;
+  }
 }
 
 export const subscriptionService = new SubscriptionService();
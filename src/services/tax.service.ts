@@ -0,0 +1,391 @@
+import type { Prisma, TaxRate } from '@prisma/client';
+import { BaseService } from './base.service';
+import { config } from '@/config/environment';
+import { NotFoundError, ValidationError } from '@/middleware/error-handler';
+import { logger } from '../utils/logger';
+
+type DbClient = Prisma.TransactionClient;
+
+// GST state codes (first two digits of a GSTIN)
+const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+};
+
+export type SupplyType = 'intra_state' | 'inter_state';
+
+export interface TaxParty {
+  userId: string;
+  gstin: string | null;
+  state: string | null;
+  stateCode: string | null;
+}
+
+export interface TaxLineInput {
+  productId?: string;
+  serviceId?: string;
+  quantity: number;
+  unitPrice: number;
+  // Discount allotted to the line; GST is charged on the price after it
+  discount?: number;
+}
+
+export interface TaxLineBreakup {
+  hsnCode: string | null;
+  taxableValue: number;
+  taxRate: number;
+  cessRate: number;
+  isExempt: boolean;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  cessAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxCalculation {
+  supplyType: SupplyType;
+  placeOfSupply: string | null;
+  seller: TaxParty;
+  buyer: TaxParty;
+  lines: TaxLineBreakup[];
+  taxableValue: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  cessAmount: number;
+  taxAmount: number;
+}
+
+export interface CalculateTaxParams {
+  sellerId: string;
+  buyerId: string;
+  items: TaxLineInput[];
+  deliveryAddress?: any;
+}
+
+export interface TaxRateInput {
+  code: string;
+  codeType?: 'hsn' | 'sac';
+  description?: string;
+  categoryId?: string | null;
+  gstRate: number;
+  cessRate?: number;
+  isExempt?: boolean;
+  isActive?: boolean;
+  effectiveFrom?: Date | string;
+  effectiveTo?: Date | string | null;
+}
+
+export interface TaxRateFilters {
+  code?: string;
+  codeType?: string;
+  categoryId?: string;
+  activeOnly?: boolean;
+}
+
+interface ResolvedRate {
+  hsnCode: string | null;
+  gstRate: number;
+  cessRate: number;
+  isExempt: boolean;
+}
+
+const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export class TaxService extends BaseService {
+  /**
+   * Compute the GST breakup for a set of line items sold by one seller to one buyer.
+   * Pass the transaction client when calling from inside a Prisma transaction.
+   */
+  async calculate(params: CalculateTaxParams, db: DbClient = this.prisma): Promise<TaxCalculation> {
+    const [seller, buyer] = await Promise.all([
+      this.resolveParty(params.sellerId, db),
+      this.resolveParty(params.buyerId, db),
+    ]);
+
+    // Place of supply follows the delivery address when one is given
+    const deliveryState = params.deliveryAddress?.state as string | undefined;
+    const placeOfSupply = deliveryState || buyer.state;
+    const placeOfSupplyCode = deliveryState ? this.stateCodeFor(deliveryState) : buyer.stateCode;
+    const supplyType = this.determineSupplyType(seller, placeOfSupply, placeOfSupplyCode);
+
+    const lines: TaxLineBreakup[] = [];
+    for (const item of params.items) {
+      const rate = await this.resolveRateForItem(item, db);
+      lines.push(this.computeLine(Math.max(0, item.unitPrice * item.quantity - (item.discount ?? 0)), rate, supplyType));
+    }
+
+    const sum = (key: keyof TaxLineBreakup) => round2(lines.reduce((acc, l) => acc + (l[key] as number), 0));
+
+    return {
+      supplyType,
+      placeOfSupply: placeOfSupply || null,
+      seller,
+      buyer,
+      lines,
+      taxableValue: sum('taxableValue'),
+      cgstAmount: sum('cgstAmount'),
+      sgstAmount: sum('sgstAmount'),
+      igstAmount: sum('igstAmount'),
+      cessAmount: sum('cessAmount'),
+      taxAmount: sum('taxAmount'),
+    };
+  }
+
+  /**
+   * Resolve GSTIN and state for a user, preferring the business profile over the user record.
+   */
+  async resolveParty(userId: string, db: DbClient = this.prisma): Promise<TaxParty> {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { id: true, gstin: true, state: true, businessProfile: { select: { taxInfo: true, address: true } } },
+    });
+    if (!user) throw new NotFoundError('User not found');
+
+    const taxInfo = (user.businessProfile?.taxInfo || {}) as any;
+    const address = (user.businessProfile?.address || {}) as any;
+    const gstin = (taxInfo.gstin || taxInfo.gstNumber || user.gstin || null) as string | null;
+    const gstinStateCode = gstin && /^\d{2}/.test(gstin) ? gstin.slice(0, 2) : null;
+    const state = (gstinStateCode && GST_STATE_CODES[gstinStateCode]) || address.state || user.state || null;
+
+    return {
+      userId,
+      gstin,
+      state,
+      stateCode: gstinStateCode || (state ? this.stateCodeFor(state) : null),
+    };
+  }
+
+  determineSupplyType(seller: TaxParty, placeOfSupply: string | null | undefined, placeOfSupplyCode: string | null): SupplyType {
+    if (seller.stateCode && placeOfSupplyCode) {
+      return seller.stateCode === placeOfSupplyCode ? 'intra_state' : 'inter_state';
+    }
+    if (seller.state && placeOfSupply) {
+      return seller.state.trim().toLowerCase() === placeOfSupply.trim().toLowerCase() ? 'intra_state' : 'inter_state';
+    }
+    // Without both states we cannot prove an intra-state supply, so charge IGST
+    return 'inter_state';
+  }
+
+  stateCodeFor(state: string): string | null {
+    const normalized = state.trim().toLowerCase();
+    const entry = Object.entries(GST_STATE_CODES).find(([, name]) => name.toLowerCase() === normalized);
+    return entry ? entry[0] : null;
+  }
+
+  private computeLine(taxableValue: number, rate: ResolvedRate, supplyType: SupplyType): TaxLineBreakup {
+    const value = round2(taxableValue);
+    if (rate.isExempt) {
+      return { hsnCode: rate.hsnCode, taxableValue: value, taxRate: 0, cessRate: 0, isExempt: true, cgstAmount: 0, sgstAmount: 0, igstAmount: 0, cessAmount: 0, taxAmount: 0 };
+    }
+
+    const gst = round2((value * rate.gstRate) / 100);
+    const cessAmount = round2((value * rate.cessRate) / 100);
+    let cgstAmount = 0;
+    let sgstAmount = 0;
+    let igstAmount = 0;
+    if (supplyType === 'intra_state') {
+      cgstAmount = round2(gst / 2);
+      sgstAmount = round2(gst - cgstAmount);
+    } else {
+      igstAmount = gst;
+    }
+
+    return {
+      hsnCode: rate.hsnCode,
+      taxableValue: value,
+      taxRate: rate.gstRate,
+      cessRate: rate.cessRate,
+      isExempt: false,
+      cgstAmount,
+      sgstAmount,
+      igstAmount,
+      cessAmount,
+      taxAmount: round2(cgstAmount + sgstAmount + igstAmount + cessAmount),
+    };
+  }
+
+  /**
+   * Rate lookup order: item HSN/SAC code, category HSN code, category-linked rate, configured default.
+   */
+  private async resolveRateForItem(item: TaxLineInput, db: DbClient): Promise<ResolvedRate> {
+    let code: string | null = null;
+    let categoryId: string | null = null;
+
+    if (item.productId) {
+      const product = await db.product.findUnique({ where: { id: item.productId }, select: { hsnCode: true, categoryId: true } });
+      code = product?.hsnCode || null;
+      categoryId = product?.categoryId || null;
+    } else if (item.serviceId) {
+      const service = await db.service.findUnique({ where: { id: item.serviceId }, select: { sacCode: true, categoryId: true } });
+      code = service?.sacCode || null;
+      categoryId = service?.categoryId || null;
+    }
+
+    const category = categoryId
+      ? await db.category.findUnique({ where: { id: categoryId }, select: { hsnCode: true } })
+      : null;
+
+    const candidates = [code, category?.hsnCode].filter((c): c is string => !!c);
+    for (const candidate of candidates) {
+      const rate = await this.findEffectiveRate({ code: candidate }, db);
+      if (rate) return this.toResolved(rate, candidate);
+    }
+
+    if (categoryId) {
+      const rate = await this.findEffectiveRate({ categoryId }, db);
+      if (rate) return this.toResolved(rate, code || rate.code);
+    }
+
+    return { hsnCode: candidates[0] || null, gstRate: config.tax.defaultGstRate, cessRate: 0, isExempt: false };
+  }
+
+  private async findEffectiveRate(where: { code?: string; categoryId?: string }, db: DbClient): Promise<TaxRate | null> {
+    const now = new Date();
+    return db.taxRate.findFirst({
+      where: {
+        ...where,
+        isActive: true,
+        effectiveFrom: { lte: now },
+        OR: [{ effectiveTo: null }, { effectiveTo: { gt: now } }],
+      },
+      orderBy: { effectiveFrom: 'desc' },
+    });
+  }
+
+  private toResolved(rate: TaxRate, hsnCode: string): ResolvedRate {
+    return {
+      hsnCode,
+      gstRate: Number(rate.gstRate),
+      cessRate: Number(rate.cessRate),
+      isExempt: rate.isExempt,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rate table management (admin)
+  // ---------------------------------------------------------------------------
+
+  async listRates(filters: TaxRateFilters = {}, page = 1, limit = 20) {
+    const where: any = {};
+    if (filters.code) where.code = { startsWith: filters.code };
+    if (filters.codeType) where.codeType = filters.codeType;
+    if (filters.categoryId) where.categoryId = filters.categoryId;
+    if (filters.activeOnly) where.isActive = true;
+
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.taxRate.findMany({
+        where,
+        include: { category: { select: { id: true, name: true, slug: true } } },
+        orderBy: [{ code: 'asc' }, { effectiveFrom: 'desc' }],
+        skip,
+        take: limit,
+      }),
+      this.prisma.taxRate.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
+  }
+
+  async getRate(id: string): Promise<TaxRate> {
+    const rate = await this.prisma.taxRate.findUnique({ where: { id } });
+    if (!rate) throw new NotFoundError('Tax rate not found');
+    return rate;
+  }
+
+  async createRate(data: TaxRateInput): Promise<TaxRate> {
+    this.validateRateInput(data);
+    const rate = await this.prisma.taxRate.create({
+      data: {
+        code: data.code.trim(),
+        codeType: data.codeType || 'hsn',
+        description: data.description,
+        categoryId: data.categoryId || null,
+        gstRate: data.gstRate,
+        cessRate: data.cessRate ?? 0,
+        isExempt: data.isExempt ?? false,
+        isActive: data.isActive ?? true,
+        effectiveFrom: data.effectiveFrom ? new Date(data.effectiveFrom) : new Date(),
+        effectiveTo: data.effectiveTo ? new Date(data.effectiveTo) : null,
+      },
+    });
+    logger.info(`Tax rate created: ${rate.code} @ ${rate.gstRate}%`);
+    return rate;
+  }
+
+  async updateRate(id: string, data: Partial<TaxRateInput>): Promise<TaxRate> {
+    await this.getRate(id);
+    this.validateRateInput(data);
+    const rate = await this.prisma.taxRate.update({
+      where: { id },
+      data: {
+        ...(data.code !== undefined && { code: data.code.trim() }),
+        ...(data.codeType !== undefined && { codeType: data.codeType }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.categoryId !== undefined && { categoryId: data.categoryId || null }),
+        ...(data.gstRate !== undefined && { gstRate: data.gstRate }),
+        ...(data.cessRate !== undefined && { cessRate: data.cessRate }),
+        ...(data.isExempt !== undefined && { isExempt: data.isExempt }),
+        ...(data.isActive !== undefined && { isActive: data.isActive }),
+        ...(data.effectiveFrom !== undefined && { effectiveFrom: new Date(data.effectiveFrom) }),
+        ...(data.effectiveTo !== undefined && { effectiveTo: data.effectiveTo ? new Date(data.effectiveTo) : null }),
+      },
+    });
+    logger.info(`Tax rate updated: ${id}`);
+    return rate;
+  }
+
+  async deactivateRate(id: string): Promise<TaxRate> {
+    await this.getRate(id);
+    return this.prisma.taxRate.update({ where: { id }, data: { isActive: false, effectiveTo: new Date() } });
+  }
+
+  private validateRateInput(data: Partial<TaxRateInput>): void {
+    if (data.gstRate !== undefined && (data.gstRate < 0 || data.gstRate > 100)) {
+      throw new ValidationError('GST rate must be between 0 and 100');
+    }
+    if (data.cessRate !== undefined && (data.cessRate < 0 || data.cessRate > 400)) {
+      throw new ValidationError('Cess rate must be between 0 and 400');
+    }
+    if (data.effectiveFrom && data.effectiveTo && new Date(data.effectiveTo) <= new Date(data.effectiveFrom)) {
+      throw new ValidationError('effectiveTo must be after effectiveFrom');
+    }
+  }
+}
+
+export const taxService = new TaxService();
@@ -1,5 +1,8 @@
 import { BaseService } from './base.service';
 import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../middleware/error-handler';
+import { DEFAULT_PLAN, ENTITLEMENTS, PLAN_CATALOGUE, PLAN_ORDER, isPlanCode } from '../config/plans';
+import type { Entitlement, PlanCode, PlanEntitlements } from '../config/plans';
 
 export interface MonthlyUsage {
   userId: string;
@@ -11,16 +14,48 @@ export interface MonthlyUsage {
 }
 
 export interface UsageLimits {
-  rfqPostsLimit: number;
-  quoteResponsesLimit: number;
+  plan: PlanCode;
+  planName: string;
+  subscriptionId: string | null;
+  entitlements: PlanEntitlements;
+  // Entitlements whose limit comes from an admin override rather than the plan
+  overridden: Entitlement[];
 }
 
-export class UsageLimitsService extends BaseService {
-  private readonly DEFAULT_LIMITS: UsageLimits = {
-    rfqPostsLimit: 3,
-    quoteResponsesLimit: 5,
-  };
+export interface UpgradeHint {
+  plan: PlanCode;
+  name: string;
+  monthlyPrice: number;
+  limit: number | null;
+}
+
+export interface EntitlementCheck {
+  allowed: boolean;
+  entitlement: Entitlement;
+  plan: PlanCode;
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  // Cheapest plan that would allow the action; null when allowed or no plan would
+  upgrade: UpgradeHint | null;
+}
+
+// Subscription statuses that grant the plan's entitlements until the period ends; past-due
+// subscriptions keep them until their grace period ends instead
+const ENTITLED_STATUSES = ['trialing', 'active'];
+
+/**
+ * Plan of a subscription row. Older rows only have the free-text planName, which is matched
+ * against plan codes and names.
+ */
+export const resolvePlanCode = (planCode: string | null, planName: string): PlanCode => {
+  if (planCode && isPlanCode(planCode)) return planCode;
+  const name = planName.trim().toLowerCase();
+  const match = PLAN_ORDER.find(code => code === name || PLAN_CATALOGUE[code].name.toLowerCase() === name);
+  return match || DEFAULT_PLAN;
+};
 
+export class UsageLimitsService extends BaseService {
   /**
    * Get current month usage for a user
    */
@@ -50,49 +85,108 @@ export class UsageLimitsService extends BaseService {
   }
 
   /**
-   * Get usage limits for a user (currently same for all users)
+   * Limits for a user: the entitlements of their active subscription's plan (free without one),
+   * with unexpired admin overrides applied on top.
+   */
+  async getUserLimits(userId: string): Promise<UsageLimits> {
+    const now = new Date();
+    const [subscription, overrides] = await Promise.all([
+      this.prisma.subscription.findFirst({
+        where: {
+          userId,
+          OR: [
+            { status: { in: ENTITLED_STATUSES }, currentPeriodEnd: { gte: now } },
+            { status: 'past_due', graceEndsAt: { gte: now } },
+          ],
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.entitlementOverride.findMany({
+        where: { userId, OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+      }),
+    ]);
+
+    const plan = PLAN_CATALOGUE[subscription ? resolvePlanCode(subscription.planCode, subscription.planName) : DEFAULT_PLAN];
+    const entitlements: PlanEntitlements = { ...plan.entitlements };
+    const overridden: Entitlement[] = [];
+    for (const override of overrides) {
+      const entitlement = override.entitlement as Entitlement;
+      if (!ENTITLEMENTS.includes(entitlement)) continue;
+      // Ad credit is an amount, never unlimited
+      (entitlements as unknown as Record<Entitlement, number | null>)[entitlement] =
+        entitlement === 'adCredit' ? override.value ?? 0 : override.value;
+      overridden.push(entitlement);
+    }
+
+    return { plan: plan.code, planName: plan.name, subscriptionId: subscription?.id ?? null, entitlements, overridden };
+  }
+
+  /**
+   * Current consumption of an entitlement: this month's count for monthly allowances, the live
+   * count for the others.
    */
-  async getUserLimits(): Promise<UsageLimits> {
-    // In the future, this could be customized based on user subscription tier
-    return this.DEFAULT_LIMITS;
+  async getUsage(userId: string, entitlement: Entitlement): Promise<number> {
+    switch (entitlement) {
+      case 'rfqPosts':
+        return (await this.getUserMonthlyUsage(userId)).rfqPostsCount;
+      case 'quoteResponses':
+        return (await this.getUserMonthlyUsage(userId)).quoteResponsesCount;
+      case 'productListings':
+        return this.prisma.product.count({ where: { sellerId: userId, isActive: true } });
+      case 'apiKeys':
+        return this.prisma.apiKey.count({
+          where: { userId, isActive: true, OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] },
+        });
+      case 'adCredit': {
+        // Credit is drawn by the budgets of campaigns created this month
+        const committed = await this.prisma.adCampaign.aggregate({
+          where: { businessId: userId, createdAt: { gte: this.getMonthStart() } },
+          _sum: { budget: true },
+        });
+        return Math.round(Number(committed._sum.budget || 0));
+      }
+      case 'teamSeats':
+        // Accounts have no team members yet; the owner holds the only seat
+        return 1;
+    }
   }
 
   /**
-   * Check if user can post an RFQ
+   * Whether the user may consume `amount` more of an entitlement, with an upgrade hint if not.
    */
-  async canPostRfq(userId: string): Promise<{ canPost: boolean; remaining: number; limit: number }> {
-    const [usage, limits] = await Promise.all([
-      this.getUserMonthlyUsage(userId),
-      this.getUserLimits(),
+  async checkEntitlement(userId: string, entitlement: Entitlement, amount = 1): Promise<EntitlementCheck> {
+    const [limits, used] = await Promise.all([
+      this.getUserLimits(userId),
+      this.getUsage(userId, entitlement),
     ]);
-
-    const canPost = usage.rfqPostsCount < limits.rfqPostsLimit;
-    const remaining = Math.max(0, limits.rfqPostsLimit - usage.rfqPostsCount);
+    const limit = limits.entitlements[entitlement];
+    const allowed = limit === null || used + amount <= limit;
 
     return {
-      canPost,
-      remaining,
-      limit: limits.rfqPostsLimit,
+      allowed,
+      entitlement,
+      plan: limits.plan,
+      limit,
+      used,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      upgrade: allowed ? null : this.upgradeFor(limits.plan, entitlement, used + amount),
     };
   }
 
   /**
-   * Check if user can respond to an RFQ with a quote
+   * Check if user can post an RFQ
    */
-  async canRespondToRfq(userId: string): Promise<{ canRespond: boolean; remaining: number; limit: number }> {
-    const [usage, limits] = await Promise.all([
-      this.getUserMonthlyUsage(userId),
-      this.getUserLimits(),
-    ]);
-
-    const canRespond = usage.quoteResponsesCount < limits.quoteResponsesLimit;
-    const remaining = Math.max(0, limits.quoteResponsesLimit - usage.quoteResponsesCount);
+  async canPostRfq(userId: string): Promise<{ canPost: boolean; remaining: number | null; limit: number | null }> {
+    const check = await this.checkEntitlement(userId, 'rfqPosts');
+    return { canPost: check.allowed, remaining: check.remaining, limit: check.limit };
+  }
 
-    return {
-      canRespond,
-      remaining,
-      limit: limits.quoteResponsesLimit,
-    };
+  /**
+   * Check if user can respond to an RFQ with a quote
+   */
+  async canRespondToRfq(userId: string): Promise<{ canRespond: boolean; remaining: number | null; limit: number | null }> {
+    const check = await this.checkEntitlement(userId, 'quoteResponses');
+    return { canRespond: check.allowed, remaining: check.remaining, limit: check.limit };
   }
 
   /**
@@ -159,30 +253,64 @@ export class UsageLimitsService extends BaseService {
    * Get usage summary for a user
    */
   async getUsageSummary(userId: string): Promise<{
-    rfq: { used: number; limit: number; remaining: number };
-    quotes: { used: number; limit: number; remaining: number };
+    plan: { code: PlanCode; name: string; subscriptionId: string | null };
+    rfq: { used: number; limit: number | null; remaining: number | null };
+    quotes: { used: number; limit: number | null; remaining: number | null };
+    entitlements: Record<Entitlement, { used: number; limit: number | null; remaining: number | null; overridden: boolean }>;
     month: string;
   }> {
-    const [usage, limits] = await Promise.all([
-      this.getUserMonthlyUsage(userId),
-      this.getUserLimits(),
+    const [limits, used] = await Promise.all([
+      this.getUserLimits(userId),
+      Promise.all(ENTITLEMENTS.map(entitlement => this.getUsage(userId, entitlement))),
     ]);
 
+    const entitlements = Object.fromEntries(ENTITLEMENTS.map((entitlement, i) => {
+      const limit = limits.entitlements[entitlement];
+      return [entitlement, {
+        used: used[i],
+        limit,
+        remaining: limit === null ? null : Math.max(0, limit - used[i]),
+        overridden: limits.overridden.includes(entitlement),
+      }];
+    })) as Record<Entitlement, { used: number; limit: number | null; remaining: number | null; overridden: boolean }>;
+
     return {
-      rfq: {
-        used: usage.rfqPostsCount,
-        limit: limits.rfqPostsLimit,
-        remaining: Math.max(0, limits.rfqPostsLimit - usage.rfqPostsCount),
-      },
-      quotes: {
-        used: usage.quoteResponsesCount,
-        limit: limits.quoteResponsesLimit,
-        remaining: Math.max(0, limits.quoteResponsesLimit - usage.quoteResponsesCount),
-      },
-      month: usage.month,
+      plan: { code: limits.plan, name: limits.planName, subscriptionId: limits.subscriptionId },
+      rfq: { used: entitlements.rfqPosts.used, limit: entitlements.rfqPosts.limit, remaining: entitlements.rfqPosts.remaining },
+      quotes: { used: entitlements.quoteResponses.used, limit: entitlements.quoteResponses.limit, remaining: entitlements.quoteResponses.remaining },
+      entitlements,
+      month: this.getCurrentMonthKey(),
     };
   }
 
+  async listOverrides(userId: string) {
+    return this.prisma.entitlementOverride.findMany({ where: { userId }, orderBy: { entitlement: 'asc' } });
+  }
+
+  /**
+   * Replace one of a user's plan limits until `expiresAt` (or indefinitely). A null value is
+   * unlimited.
+   */
+  async setOverride(adminId: string, userId: string, entitlement: Entitlement, data: { value: number | null; reason: string; expiresAt?: Date | null }) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) throw new NotFoundError('User not found');
+    if (entitlement === 'adCredit' && data.value === null) throw new ValidationError('Ad credit cannot be unlimited');
+
+    const override = await this.prisma.entitlementOverride.upsert({
+      where: { userId_entitlement: { userId, entitlement } },
+      create: { userId, entitlement, value: data.value, reason: data.reason, expiresAt: data.expiresAt ?? null, grantedById: adminId },
+      update: { value: data.value, reason: data.reason, expiresAt: data.expiresAt ?? null, grantedById: adminId },
+    });
+    logger.info(`Entitlement override ${entitlement}=${data.value ?? 'unlimited'} set for user ${userId} by ${adminId}`);
+    return override;
+  }
+
+  async removeOverride(adminId: string, userId: string, entitlement: Entitlement): Promise<void> {
+    const result = await this.prisma.entitlementOverride.deleteMany({ where: { userId, entitlement } });
+    if (!result.count) throw new NotFoundError('Entitlement override not found');
+    logger.info(`Entitlement override ${entitlement} removed for user ${userId} by ${adminId}`);
+  }
+
   /**
    * Reset usage for a new month (can be used in cron job)
    */
@@ -225,6 +353,22 @@ export class UsageLimitsService extends BaseService {
     });
   }
 
+  private upgradeFor(current: PlanCode, entitlement: Entitlement, needed: number): UpgradeHint | null {
+    const candidates = PLAN_ORDER.slice(PLAN_ORDER.indexOf(current) + 1);
+    const code = candidates.find(c => {
+      const limit = PLAN_CATALOGUE[c].entitlements[entitlement];
+      return limit === null || limit >= needed;
+    });
+    if (!code) return null;
+    const plan = PLAN_CATALOGUE[code];
+    return { plan: code, name: plan.name, monthlyPrice: plan.monthlyPrice, limit: plan.entitlements[entitlement] };
+  }
+
+  private getMonthStart(): Date {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  }
+
   /**
    * Helper method to get current month key
    */
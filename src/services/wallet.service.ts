@@ -1,9 +1,10 @@
-import type { Wallet, WalletTransaction, LockedAmount } from '@prisma/client';
+import type { Wallet, WalletTransaction, LockedAmount, Prisma } from '@prisma/client';
 import { BaseService } from './base.service';
 import { logger } from '../utils/logger';
+import { ledgerService, ledgerAccounts } from './ledger.service';
 
 export interface CreateWalletTransactionData {
-  transactionType: 'credit' | 'debit' | 'refund' | 'withdrawal' | 'deposit';
+  transactionType: 'credit' | 'debit' | 'refund' | 'withdrawal' | 'deposit' | 'lock' | 'release' | 'escrow_hold' | 'escrow_release' | 'commission' | 'subscription' | 'subscription_refund';
   amount: number;
   referenceType?: string;
   referenceId?: string;
@@ -93,36 +94,19 @@ export class WalletService extends BaseService {
   async addFunds(userId: string, data: CreateWalletTransactionData): Promise<WalletTransaction> {
     try {
       return await this.prisma.$transaction(async (tx) => {
-        const wallet = await tx.wallet.findUnique({
-          where: { userId },
-        });
-
-        if (!wallet) {
-          throw new Error('Wallet not found');
-        }
-
-        const newBalance = wallet.availableBalance.toNumber() + data.amount;
-
-        // Update wallet balance
-        await tx.wallet.update({
-          where: { userId },
-          data: {
-            availableBalance: newBalance,
-          },
-        });
-
-        // Create transaction record
-        const transaction = await tx.walletTransaction.create({
-          data: {
-            walletId: wallet.id,
-            transactionType: data.transactionType,
-            amount: data.amount,
-            balanceAfter: newBalance,
-            referenceType: data.referenceType,
-            referenceId: data.referenceId,
-            description: data.description,
-            cashfreeTransactionId: data.cashfreeTransactionId,
-          },
+        await ledgerService.ensureOpened(tx, userId);
+        const transaction = await this.creditWallet(tx, userId, data);
+
+        // Money arrives from outside the platform through the gateway
+        await ledgerService.post(tx, {
+          entryType: data.transactionType,
+          referenceType: data.referenceType,
+          referenceId: data.referenceId,
+          description: data.description,
+          lines: [
+            { account: ledgerAccounts.gatewayClearing(), debit: data.amount },
+            { account: ledgerAccounts.wallet(userId), credit: data.amount },
+          ],
         });
 
         logger.info(`Funds added to wallet: ${userId}, amount: ${data.amount}`);
@@ -137,41 +121,18 @@ export class WalletService extends BaseService {
   async deductFunds(userId: string, data: CreateWalletTransactionData): Promise<WalletTransaction> {
     try {
       return await this.prisma.$transaction(async (tx) => {
-        const wallet = await tx.wallet.findUnique({
-          where: { userId },
-        });
-
-        if (!wallet) {
-          throw new Error('Wallet not found');
-        }
-
-        const currentBalance = wallet.availableBalance.toNumber();
-        if (currentBalance < data.amount) {
-          throw new Error('Insufficient balance');
-        }
-
-        const newBalance = currentBalance - data.amount;
-
-        // Update wallet balance
-        await tx.wallet.update({
-          where: { userId },
-          data: {
-            availableBalance: newBalance,
-          },
-        });
-
-        // Create transaction record
-        const transaction = await tx.walletTransaction.create({
-          data: {
-            walletId: wallet.id,
-            transactionType: data.transactionType,
-            amount: -data.amount, // Negative for debit
-            balanceAfter: newBalance,
-            referenceType: data.referenceType,
-            referenceId: data.referenceId,
-            description: data.description,
-            cashfreeTransactionId: data.cashfreeTransactionId,
-          },
+        await ledgerService.ensureOpened(tx, userId);
+        const transaction = await this.debitWallet(tx, userId, data);
+
+        await ledgerService.post(tx, {
+          entryType: data.transactionType,
+          referenceType: data.referenceType,
+          referenceId: data.referenceId,
+          description: data.description,
+          lines: [
+            { account: ledgerAccounts.wallet(userId), debit: data.amount },
+            { account: ledgerAccounts.gatewayClearing(), credit: data.amount },
+          ],
         });
 
         logger.info(`Funds deducted from wallet: ${userId}, amount: ${data.amount}`);
@@ -183,9 +144,61 @@ export class WalletService extends BaseService {
     }
   }
 
+  /**
+   * Pay a subscription invoice from the wallet inside the caller's transaction, so the invoice is
+   * settled in the same commit. Booked as subscription revenue rather than a gateway payout.
+   */
+  async chargeSubscription(tx: Prisma.TransactionClient, userId: string, data: CreateWalletTransactionData): Promise<WalletTransaction> {
+    await ledgerService.ensureOpened(tx, userId);
+    const transaction = await this.debitWallet(tx, userId, data);
+
+    await ledgerService.post(tx, {
+      entryType: data.transactionType,
+      referenceType: data.referenceType,
+      referenceId: data.referenceId,
+      description: data.description,
+      lines: [
+        { account: ledgerAccounts.wallet(userId), debit: data.amount },
+        { account: ledgerAccounts.subscriptionRevenue(), credit: data.amount },
+      ],
+    });
+
+    logger.info(`Subscription charged to wallet: ${userId}, amount: ${data.amount}`);
+    return transaction;
+  }
+
+  /**
+   * Return a settled subscription charge to the user's wallet inside the caller's transaction,
+   * reversing the revenue it was booked to. Opens the wallet if the charge came from a mandate.
+   */
+  async refundSubscription(tx: Prisma.TransactionClient, userId: string, data: CreateWalletTransactionData): Promise<WalletTransaction> {
+    await tx.wallet.upsert({
+      where: { userId },
+      create: { userId, availableBalance: 0, lockedBalance: 0, negativeBalance: 0 },
+      update: {},
+    });
+    await ledgerService.ensureOpened(tx, userId);
+    const transaction = await this.creditWallet(tx, userId, data);
+
+    await ledgerService.post(tx, {
+      entryType: data.transactionType,
+      referenceType: data.referenceType,
+      referenceId: data.referenceId,
+      description: data.description,
+      lines: [
+        { account: ledgerAccounts.subscriptionRevenue(), debit: data.amount },
+        { account: ledgerAccounts.wallet(userId), credit: data.amount },
+      ],
+    });
+
+    logger.info(`Subscription charge refunded to wallet: ${userId}, amount: ${data.amount}`);
+    return transaction;
+  }
+
   async lockAmount(userId: string, data: LockAmountData): Promise<LockedAmount> {
     try {
       return await this.prisma.$transaction(async (tx) => {
+        await ledgerService.ensureOpened(tx, userId);
         const wallet = await tx.wallet.findUnique({
           where: { userId },
         });
@@ -194,19 +207,18 @@ export class WalletService extends BaseService {
           throw new Error('Wallet not found');
         }
 
-        const currentBalance = wallet.availableBalance.toNumber();
-        if (currentBalance < data.amount) {
-          throw new Error('Insufficient balance to lock');
-        }
-
-        // Update wallet balances
-        await tx.wallet.update({
-          where: { userId },
+        // Conditional decrement so concurrent locks and debits cannot overdraw the wallet
+        const moved = await tx.wallet.updateMany({
+          where: { userId, availableBalance: { gte: data.amount } },
           data: {
-            availableBalance: currentBalance - data.amount,
-            lockedBalance: wallet.lockedBalance.toNumber() + data.amount,
+            availableBalance: { decrement: data.amount },
+            lockedBalance: { increment: data.amount },
           },
         });
+        if (!moved.count) {
+          throw new Error('Insufficient balance to lock');
+        }
+        const updated = await tx.wallet.findUniqueOrThrow({ where: { userId } });
 
         // Create locked amount record
         const lockedAmount = await tx.lockedAmount.create({
@@ -221,6 +233,29 @@ export class WalletService extends BaseService {
           },
         });
 
+        await tx.walletTransaction.create({
+          data: {
+            walletId: wallet.id,
+            transactionType: 'lock',
+            amount: -data.amount,
+            balanceAfter: updated.availableBalance,
+            referenceType: 'locked_amount',
+            referenceId: lockedAmount.id,
+            description: data.reason,
+          },
+        });
+
+        await ledgerService.post(tx, {
+          entryType: 'lock',
+          referenceType: 'locked_amount',
+          referenceId: lockedAmount.id,
+          description: data.reason,
+          lines: [
+            { account: ledgerAccounts.wallet(userId), debit: data.amount },
+            { account: ledgerAccounts.escrow(userId), credit: data.amount },
+          ],
+        });
+
         logger.info(`Amount locked in wallet: ${userId}, amount: ${data.amount}`);
         return lockedAmount;
       });
@@ -242,15 +277,16 @@ export class WalletService extends BaseService {
           throw new Error('Locked amount not found or already released');
         }
 
-        const wallet = lockedAmount.wallet;
+        const userId = lockedAmount.wallet.userId;
         const amount = lockedAmount.amount.toNumber();
+        await ledgerService.ensureOpened(tx, userId);
 
         // Update wallet balances
-        await tx.wallet.update({
-          where: { id: wallet.id },
+        const updated = await tx.wallet.update({
+          where: { id: lockedAmount.walletId },
           data: {
-            availableBalance: wallet.availableBalance.toNumber() + amount,
-            lockedBalance: wallet.lockedBalance.toNumber() - amount,
+            availableBalance: { increment: amount },
+            lockedBalance: { decrement: amount },
           },
         });
 
@@ -263,6 +299,29 @@ export class WalletService extends BaseService {
           },
         });
 
+        await tx.walletTransaction.create({
+          data: {
+            walletId: lockedAmount.walletId,
+            transactionType: 'release',
+            amount,
+            balanceAfter: updated.availableBalance,
+            referenceType: 'locked_amount',
+            referenceId: lockedAmountId,
+            description: `Released: ${lockedAmount.reason}`,
+          },
+        });
+
+        await ledgerService.post(tx, {
+          entryType: 'release',
+          referenceType: 'locked_amount',
+          referenceId: lockedAmountId,
+          description: `Released: ${lockedAmount.reason}`,
+          lines: [
+            { account: ledgerAccounts.escrow(userId), debit: amount },
+            { account: ledgerAccounts.wallet(userId), credit: amount },
+          ],
+        });
+
         logger.info(`Locked amount released: ${lockedAmountId}, amount: ${amount}`);
         return updatedLockedAmount;
       });
@@ -356,8 +415,11 @@ export class WalletService extends BaseService {
   ): Promise<{ fromTransaction: WalletTransaction; toTransaction: WalletTransaction }> {
     try {
       return await this.prisma.$transaction(async (tx) => {
+        await ledgerService.ensureOpened(tx, fromUserId);
+        await ledgerService.ensureOpened(tx, toUserId);
+
         // Deduct from sender
-        const fromTransaction = await this.deductFunds(fromUserId, {
+        const fromTransaction = await this.debitWallet(tx, fromUserId, {
           transactionType: 'debit',
           amount,
           referenceType: 'transfer',
@@ -366,7 +428,7 @@ export class WalletService extends BaseService {
         });
 
         // Add to receiver
-        const toTransaction = await this.addFunds(toUserId, {
+        const toTransaction = await this.creditWallet(tx, toUserId, {
           transactionType: 'credit',
           amount,
           referenceType: 'transfer',
@@ -374,6 +436,17 @@ export class WalletService extends BaseService {
           description: description || `Transfer from user ${fromUserId}`,
         });
 
+        await ledgerService.post(tx, {
+          entryType: 'transfer',
+          referenceType: 'transfer',
+          referenceId: fromTransaction.id,
+          description: description || `Transfer ${fromUserId} -> ${toUserId}`,
+          lines: [
+            { account: ledgerAccounts.wallet(fromUserId), debit: amount },
+            { account: ledgerAccounts.wallet(toUserId), credit: amount },
+          ],
+        });
+
         logger.info(`Funds transferred: ${fromUserId} -> ${toUserId}, amount: ${amount}`);
         return { fromTransaction, toTransaction };
       });
@@ -448,4 +521,72 @@ export class WalletService extends BaseService {
       throw error;
     }
   }
+
+  /**
+   * Balance change plus WalletTransaction row; callers post the matching journal entry.
+   */
+  private async creditWallet(tx: Prisma.TransactionClient, userId: string, data: CreateWalletTransactionData): Promise<WalletTransaction> {
+    const wallet = await tx.wallet.findUnique({
+      where: { userId },
+    });
+
+    if (!wallet) {
+      throw new Error('Wallet not found');
+    }
+
+    const updated = await tx.wallet.update({
+      where: { userId },
+      data: {
+        availableBalance: { increment: data.amount },
+      },
+    });
+
+    return tx.walletTransaction.create({
+      data: {
+        walletId: wallet.id,
+        transactionType: data.transactionType,
+        amount: data.amount,
+        balanceAfter: updated.availableBalance,
+        referenceType: data.referenceType,
+        referenceId: data.referenceId,
+        description: data.description,
+        cashfreeTransactionId: data.cashfreeTransactionId,
+      },
+    });
+  }
+
+  private async debitWallet(tx: Prisma.TransactionClient, userId: string, data: CreateWalletTransactionData): Promise<WalletTransaction> {
+    const wallet = await tx.wallet.findUnique({
+      where: { userId },
+    });
+
+    if (!wallet) {
+      throw new Error('Wallet not found');
+    }
+
+    // Conditional decrement so concurrent debits cannot overdraw the wallet
+    const debited = await tx.wallet.updateMany({
+      where: { userId, availableBalance: { gte: data.amount } },
+      data: {
+        availableBalance: { decrement: data.amount },
+      },
+    });
+    if (!debited.count) {
+      throw new Error('Insufficient balance');
+    }
+    const updated = await tx.wallet.findUnique({ where: { userId } });
+
+    return tx.walletTransaction.create({
+      data: {
+        walletId: wallet.id,
+        transactionType: data.transactionType,
+        amount: -data.amount, // Negative for debit
+        balanceAfter: updated!.availableBalance,
+        referenceType: data.referenceType,
+        referenceId: data.referenceId,
+        description: data.description,
+        cashfreeTransactionId: data.cashfreeTransactionId,
+      },
+    });
+  }
 }
\ No newline at end of file
@@ -1,168 +1,402 @@
+import crypto from 'crypto';
 import axios from 'axios';
-import { prisma } from '@/config/database';
-import { redisClient } from '@/config/redis';
-import { webhookDeliveriesCounter } from '@/observability/metrics';
+import { Prisma } from '@prisma/client';
+import type { Webhook, WebhookDelivery } from '@prisma/client';
 import { trace } from '@opentelemetry/api';
+import { BaseService } from './base.service';
+import { notificationService } from './notification.service';
+import { webhookDeliveriesCounter } from '@/observability/metrics';
+import { config } from '@/config/environment';
+import { WEBHOOK_EVENT_CATALOGUE, WEBHOOK_TEST_EVENT, WEBHOOK_WILDCARD } from '@/config/webhook-events';
+import { logger } from '@/utils/logger';
+import { NotFoundError, ValidationError } from '@/middleware/error-handler';
+import type { DomainEventEnvelope } from '@/types/domain-events.types';
 
 interface DeliveryResult {
   status: 'success' | 'failure';
   statusCode?: number;
   durationMs: number;
   error?: string;
-  responseBody?: any;
 }
 
-class WebhookDeliveryService {
-  private attemptKey(id: string) { return `webhook:attempts:${id}`; }
-  private lastPayloadKey(id: string) { return `webhook:last_payload:${id}`; }
-  private retryMetaKey(id: string) { return `webhook:retry_meta:${id}`; }
-  private retryQueueKey = 'webhook:retry_queue';
-  private maxRetries = 8;
+// Body of every delivery; `id` is the event id and stays the same across redeliveries
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  version: number;
+  timestamp: string;
+  data: unknown;
+  test?: boolean;
+}
 
-  constructor() {
-    // Best-effort background poller; in production replace with real job runner / queue consumer
-    this.startRetryLoop();
-  }
+// A delivery stuck in delivering this long is assumed to belong to a crashed worker
+const STALE_DELIVERING_MS = 5 * 60 * 1000;
+
+// Deliveries sent to one endpoint per pass, so a busy endpoint cannot starve the others
+const ENDPOINT_BATCH_SIZE = 20;
+
+/**
+ * Signature sent in X-Vikareta-Signature: hex HMAC-SHA256 of "<timestamp>.<body>" keyed with
+ * the webhook secret, where timestamp is the X-Vikareta-Timestamp header (epoch milliseconds).
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * Delivers catalogued events to tenant webhooks. Each event becomes a persisted delivery per
+ * subscribed endpoint, and an endpoint's deliveries go out strictly in order: a failing delivery
+ * retries with exponential backoff and holds back the ones behind it. After
+ * `config.webhooks.disableAfterFailures` consecutive failures the endpoint is disabled and its
+ * owner notified; the queue is kept and resumes when the webhook is re-enabled.
+ */
+class WebhookDeliveryService extends BaseService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer || this.running) return;
+    this.running = true;
 
-  private async startRetryLoop() {
     const loop = async () => {
       try {
-        const now = Date.now();
-        // ZRANGEBYSCORE pattern if we stored with score; here using list with JSON entries
-        const entries = await redisClient.lrange(this.retryQueueKey, 0, -1);
-        const remaining: string[] = [];
-        for (const raw of entries) {
-          try {
-            const job = JSON.parse(raw);
-            if (job.runAt <= now) {
-              await this.processRetry(job);
-            } else {
-              remaining.push(raw);
-            }
-          } catch { /* ignore */ }
-        }
-        // Rewrite queue with remaining (simple approach for limited volume)
-        await redisClient.del(this.retryQueueKey);
-        if (remaining.length) await redisClient.rpush(this.retryQueueKey, ...remaining);
-      } catch { /* swallow */ }
-      setTimeout(loop, 3000); // 3s cadence
+        await this.processDue();
+      } catch (error) {
+        logger.error('Webhook delivery failed:', error);
+      }
+      if (this.running) this.timer = setTimeout(loop, config.webhooks.pollIntervalMs);
     };
-    loop();
+    void loop();
+    logger.info('Webhook delivery started');
   }
 
-  private async scheduleRetry(webhookId: string, event: string, payload: any, attempt: number) {
-    if (attempt >= this.maxRetries) return; // give up
-    const delayMs = Math.min(60000, Math.pow(2, attempt) * 1000); // exponential up to 60s
-    const runAt = Date.now() + delayMs;
-    const job = JSON.stringify({ webhookId, event, payload, attempt: attempt + 1, runAt });
-    await redisClient.rpush(this.retryQueueKey, job);
-    await redisClient.set(this.retryMetaKey(webhookId), String(attempt + 1));
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
   }
 
-  private async processRetry(job: { webhookId: string; event: string; payload: any; attempt: number; runAt: number; }) {
-    const result = await this.deliver(job.webhookId, job.event, job.payload);
-    if (result.status === 'failure') {
-      await this.scheduleRetry(job.webhookId, job.event, job.payload, job.attempt);
-    } else {
-      await redisClient.del(this.retryMetaKey(job.webhookId));
+  /**
+   * Queue an outbox event for every active webhook of the given users subscribed to it. Runs
+   * from the outbox relay, which may retry an event, so endpoints already holding the event are
+   * skipped.
+   */
+  async enqueue(userIds: string[], event: DomainEventEnvelope): Promise<number> {
+    const definition = WEBHOOK_EVENT_CATALOGUE[event.type];
+    if (!definition || !userIds.length) return 0;
+
+    const hooks = await this.prisma.webhook.findMany({
+      where: { userId: { in: userIds }, isActive: true, events: { hasSome: [event.type, WEBHOOK_WILDCARD] } },
+      select: { id: true },
+    });
+    if (!hooks.length) return 0;
+
+    const queued = await this.prisma.webhookDelivery.findMany({
+      where: { eventId: event.id, webhookId: { in: hooks.map(h => h.id) }, redeliveryOfId: null },
+      select: { webhookId: true },
+    });
+    const skip = new Set(queued.map(d => d.webhookId));
+
+    const payload: WebhookPayload = {
+      id: event.id,
+      event: event.type,
+      version: definition.version,
+      timestamp: event.occurredAt,
+      data: event.data,
+    };
+    const result = await this.prisma.webhookDelivery.createMany({
+      data: hooks.filter(h => !skip.has(h.id)).map(h => ({
+        webhookId: h.id,
+        eventId: event.id,
+        event: event.type,
+        version: definition.version,
+        payload: payload as unknown as Prisma.InputJsonValue,
+      })),
+    });
+    return result.count;
+  }
+
+  /**
+   * Send due deliveries for every active endpoint that has any.
+   */
+  async processDue() {
+    await this.prisma.webhookDelivery.updateMany({
+      where: { status: 'delivering', updatedAt: { lt: new Date(Date.now() - STALE_DELIVERING_MS) } },
+      data: { status: 'failed', lastError: 'Delivery timed out', nextAttemptAt: new Date() },
+    });
+
+    const endpoints = await this.prisma.webhookDelivery.findMany({
+      where: { status: { in: ['pending', 'failed'] }, nextAttemptAt: { lte: new Date() }, webhook: { isActive: true } },
+      distinct: ['webhookId'],
+      select: { webhookId: true },
+    });
+
+    const result = { delivered: 0, failed: 0 };
+    for (const { webhookId } of endpoints) {
+      const sent = await this.drainEndpoint(webhookId);
+      result.delivered += sent.delivered;
+      result.failed += sent.failed;
     }
+    if (result.delivered + result.failed > 0) {
+      logger.info(`Webhook delivery: delivered=${result.delivered}, failed=${result.failed}`);
+    }
+    return result;
   }
 
-  async deliver(webhookId: string, event: string, payload: any): Promise<DeliveryResult> {
-    const tracer = trace.getTracer('vikareta-webhook');
-    return await tracer.startActiveSpan('webhook.deliver', async (span) => {
-    const hook = await prisma.webhook.findUnique({ where: { id: webhookId } });
-    if (!hook || !hook.isActive) throw new Error('Webhook inactive or missing');
-
-    const signedPayload = this.signPayload(hook.secret, payload);
-    const started = Date.now();
-    try {
-      const resp = await axios.post(hook.url, payload, {
-        headers: {
-          'X-Vikareta-Event': event,
-          'X-Vikareta-Signature': signedPayload.signature,
-          'X-Vikareta-Timestamp': signedPayload.timestamp.toString(),
-          'Content-Type': 'application/json'
-        }, timeout: 8000,
-        validateStatus: () => true
+  /**
+   * Send an endpoint's deliveries in sequence, stopping at the first one that is not due, is
+   * being sent elsewhere, or fails.
+   */
+  async drainEndpoint(webhookId: string) {
+    const result = { delivered: 0, failed: 0 };
+    for (let i = 0; i < ENDPOINT_BATCH_SIZE; i++) {
+      const hook = await this.prisma.webhook.findUnique({ where: { id: webhookId } });
+      if (!hook?.isActive) break;
+
+      // Delivering rows are included so a delivery sent by another instance still holds the line
+      const head = await this.prisma.webhookDelivery.findFirst({
+        where: { webhookId, status: { in: ['pending', 'failed', 'delivering'] } },
+        orderBy: { sequence: 'asc' },
       });
-      const durationMs = Date.now() - started;
-      const status: DeliveryResult = { status: resp.status >= 200 && resp.status < 300 ? 'success' : 'failure', statusCode: resp.status, durationMs, responseBody: resp.data };
-      webhookDeliveriesCounter.inc({ webhookId, status: status.status });
-      await this.persistAttempt(webhookId, event, payload, status);
-      await prisma.webhook.update({ where: { id: webhookId }, data: {
-        lastTriggered: new Date(),
-        ...(status.status === 'success' ? { successCount: { increment: 1 } } : { failureCount: { increment: 1 } })
-      } });
-      span.setAttribute('webhook.id', webhookId);
-      span.setAttribute('webhook.event', event);
-      span.setAttribute('delivery.status', status.status);
-      span.setAttribute('delivery.code', status.statusCode || 0);
-      span.end();
-      return status;
-    } catch (err: any) {
-      const durationMs = Date.now() - started;
-      const status: DeliveryResult = { status: 'failure', durationMs, error: err.message };
-      webhookDeliveriesCounter.inc({ webhookId, status: 'failure' });
-      await this.persistAttempt(webhookId, event, payload, status);
-      await prisma.webhook.update({ where: { id: webhookId }, data: { failureCount: { increment: 1 }, lastTriggered: new Date() } }).catch(() => null);
-      // Schedule retry
-      const metaRaw = await redisClient.get(this.retryMetaKey(webhookId));
-      const attempt = metaRaw ? parseInt(metaRaw, 10) : 0;
-      await this.scheduleRetry(webhookId, event, payload, attempt);
-      span.recordException(err);
-      span.setStatus({ code: 2, message: err.message });
-      span.end();
-      return status;
+      if (!head || head.status === 'delivering' || head.nextAttemptAt > new Date()) break;
+
+      const delivery = await this.attempt(hook, head.id);
+      if (!delivery) break;
+      if (delivery.status !== 'delivered') {
+        result.failed++;
+        break;
+      }
+      result.delivered++;
     }
+    return result;
+  }
+
+  /**
+   * Queue a past attempt's payload again, behind whatever the endpoint already has queued.
+   * Any attempt of a queued delivery can be redelivered, whether it succeeded or not.
+   */
+  async redeliver(webhookId: string, attemptId: string): Promise<WebhookDelivery> {
+    const attempt = await this.prisma.webhookAttempt.findFirst({
+      where: { id: attemptId, webhookId },
+      include: { delivery: true, webhook: { select: { isActive: true } } },
+    });
+    if (!attempt) throw new NotFoundError('Webhook attempt not found');
+    if (!attempt.delivery) throw new ValidationError('Test deliveries cannot be redelivered');
+    if (!attempt.webhook.isActive) throw new ValidationError('Webhook is disabled; enable it before redelivering');
+
+    const original = attempt.delivery;
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        webhookId,
+        eventId: original.eventId,
+        event: original.event,
+        version: original.version,
+        payload: original.payload as Prisma.InputJsonValue,
+        redeliveryOfId: original.redeliveryOfId || original.id,
+      },
+    });
+    logger.info(`Redelivering event ${original.eventId} (${original.event}) to webhook ${webhookId}`);
+
+    this.drainEndpoint(webhookId).catch(err => logger.error(`Failed to drain webhook ${webhookId}:`, err));
+    return delivery;
+  }
+
+  /**
+   * Redeliver the payload of the endpoint's most recent queued attempt.
+   */
+  async retryLast(webhookId: string): Promise<WebhookDelivery> {
+    const last = await this.prisma.webhookAttempt.findFirst({
+      where: { webhookId, deliveryId: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+    if (!last) throw new ValidationError('No recent delivery to retry');
+    return this.redeliver(webhookId, last.id);
+  }
+
+  /**
+   * Requeue failed deliveries immediately, e.g. once a disabled endpoint is enabled again.
+   */
+  async resume(webhookId: string): Promise<number> {
+    const result = await this.prisma.webhookDelivery.updateMany({
+      where: { webhookId, status: 'failed' },
+      data: { nextAttemptAt: new Date() },
     });
+    return result.count;
   }
 
-  private signPayload(secret: string, payload: any) {
-    const timestamp = Date.now();
-    const crypto = require('crypto');
-    const body = JSON.stringify(payload);
-    const signature = crypto.createHmac('sha256', secret).update(timestamp + '.' + body).digest('hex');
-    return { signature, timestamp };
+  async getAttempts(webhookId: string, page = 1, limit = 20) {
+    const where: Prisma.WebhookAttemptWhereInput = { webhookId };
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.webhookAttempt.findMany({
+        where,
+        include: { delivery: { select: { id: true, eventId: true, sequence: true, status: true, attempts: true, redeliveryOfId: true } } },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      this.prisma.webhookAttempt.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
   }
 
-  private async persistAttempt(webhookId: string, event: string, payload: any, result: DeliveryResult) {
-    const entry = JSON.stringify({ ts: Date.now(), event, payload, result });
-    const key = this.attemptKey(webhookId);
-    await redisClient.lpush(key, entry);
-    await redisClient.ltrim(key, 0, 49); // keep last 50 attempts
-  const lastKey = this.lastPayloadKey(webhookId);
-  await redisClient.set(lastKey, JSON.stringify(payload));
-  await redisClient.expire(lastKey, 60 * 60 * 24);
-    // Persist in DB (non-blocking)
-  prisma.webhookAttempt.create({
+  async listDeliveries(webhookId: string, filters: { status?: string; event?: string }, page = 1, limit = 20) {
+    const where: Prisma.WebhookDeliveryWhereInput = { webhookId };
+    if (filters.status) where.status = filters.status;
+    if (filters.event) where.event = filters.event;
+
+    const skip = (page - 1) * limit;
+    const [items, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({ where, orderBy: { sequence: 'desc' }, skip, take: limit }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+    return this.createPaginatedResult(items, total, { page, limit, skip });
+  }
+
+  /**
+   * Send a sample payload straight away, outside the queue. Works on disabled webhooks so an
+   * owner can check a fixed endpoint before enabling it again.
+   */
+  async testFire(webhookId: string, extra?: Record<string, any>): Promise<DeliveryResult> {
+    const hook = await this.prisma.webhook.findUnique({ where: { id: webhookId } });
+    if (!hook) throw new NotFoundError('Webhook not found');
+
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      event: WEBHOOK_TEST_EVENT,
+      version: 1,
+      timestamp: new Date().toISOString(),
+      data: extra || {},
+      test: true,
+    };
+    const result = await this.send(hook, payload);
+    await this.prisma.webhookAttempt.create({
+      data: { webhookId, event: WEBHOOK_TEST_EVENT, status: result.status, statusCode: result.statusCode, durationMs: result.durationMs, error: result.error },
+    });
+    return result;
+  }
+
+  async purgeDelivered(olderThanDays = config.webhooks.retentionDays): Promise<number> {
+    const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+    // Attempts of purged deliveries go with them
+    const [deliveries] = await Promise.all([
+      this.prisma.webhookDelivery.deleteMany({ where: { status: 'delivered', deliveredAt: { lt: cutoff } } }),
+      this.prisma.webhookAttempt.deleteMany({ where: { deliveryId: null, createdAt: { lt: cutoff } } }),
+    ]);
+    return deliveries.count;
+  }
+
+  /**
+   * Make one attempt at a delivery. Safe to call concurrently: only the caller that claims the
+   * row sends it.
+   */
+  private async attempt(hook: Webhook, id: string): Promise<WebhookDelivery | null> {
+    const claimed = await this.prisma.webhookDelivery.updateMany({
+      where: { id, status: { in: ['pending', 'failed'] } },
+      data: { status: 'delivering', attempts: { increment: 1 } },
+    });
+    if (!claimed.count) return null;
+
+    const delivery = await this.prisma.webhookDelivery.findUnique({ where: { id } });
+    if (!delivery) return null;
+
+    const result = await this.send(hook, delivery.payload as unknown as WebhookPayload, delivery.id);
+    await this.prisma.webhookAttempt.create({
       data: {
-        webhookId,
-        event,
+        webhookId: hook.id,
+        deliveryId: delivery.id,
+        event: delivery.event,
         status: result.status,
         statusCode: result.statusCode,
         durationMs: result.durationMs,
-        error: result.error
-      }
-    }).catch(() => null);
-  }
+        error: result.error,
+      },
+    });
+
+    if (result.status === 'success') {
+      await this.prisma.webhook.update({
+        where: { id: hook.id },
+        data: { successCount: { increment: 1 }, consecutiveFailures: 0, lastTriggered: new Date() },
+      });
+      return this.prisma.webhookDelivery.update({
+        where: { id },
+        data: { status: 'delivered', lastError: null, deliveredAt: new Date() },
+      });
+    }
+
+    const lastError = result.error || `HTTP ${result.statusCode}`;
+    // 30s, 1m, 2m, ... capped at an hour between attempts
+    const nextAttemptAt = new Date(Date.now() + Math.min(60 * 60, 30 * Math.pow(2, delivery.attempts - 1)) * 1000);
+    const updated = await this.prisma.webhookDelivery.update({
+      where: { id },
+      data: { status: 'failed', lastError, nextAttemptAt },
+    });
+    logger.warn(`Webhook delivery ${id} (${delivery.event}) to ${hook.id} failed (attempt ${delivery.attempts}): ${lastError}`);
 
-  async getAttempts(webhookId: string) {
-    const cached = await redisClient.lrange(this.attemptKey(webhookId), 0, 49);
-    const parsed = cached.map((r: string) => { try { return JSON.parse(r); } catch { return null; } }).filter(Boolean);
-  const db = await prisma.webhookAttempt.findMany({ where: { webhookId }, orderBy: { createdAt: 'desc' }, take: 20 }).catch(() => [] as any[]);
-    return { db, recentCached: parsed };
+    const { consecutiveFailures } = await this.prisma.webhook.update({
+      where: { id: hook.id },
+      data: { failureCount: { increment: 1 }, consecutiveFailures: { increment: 1 }, lastTriggered: new Date() },
+    });
+    if (consecutiveFailures >= config.webhooks.disableAfterFailures) await this.disable(hook, lastError);
+    return updated;
   }
 
-  async retryLast(webhookId: string, event: string) {
-    const raw = await redisClient.get(this.lastPayloadKey(webhookId));
-    if (!raw) throw new Error('No recent payload to retry');
-    return this.deliver(webhookId, event, JSON.parse(raw));
+  private async disable(hook: Webhook, lastError: string) {
+    const reason = `Disabled after ${config.webhooks.disableAfterFailures} consecutive failed deliveries (last error: ${lastError})`;
+    const disabled = await this.prisma.webhook.updateMany({
+      where: { id: hook.id, isActive: true },
+      data: { isActive: false, disabledAt: new Date(), disabledReason: reason.slice(0, 500) },
+    });
+    if (!disabled.count) return;
+
+    logger.error(`Webhook ${hook.id} disabled: ${reason}`);
+    await notificationService.createNotification({
+      userId: hook.userId,
+      title: 'Webhook Disabled',
+      message: `"${hook.name}" was disabled after repeated delivery failures to ${hook.url}. Pending events are kept and will be delivered once you enable it again.`,
+      type: 'webhook_disabled',
+      data: { webhookId: hook.id },
+    }).catch(err => logger.warn(`Failed to notify owner of disabled webhook ${hook.id}:`, err));
   }
 
-  async testFire(webhookId: string, event: string, extra?: Record<string, any>) {
-    const payload = { id: webhookId, event, test: true, timestamp: new Date().toISOString(), ...extra };
-    return this.deliver(webhookId, event, payload);
+  private async send(hook: Webhook, payload: WebhookPayload, deliveryId?: string): Promise<DeliveryResult> {
+    const tracer = trace.getTracer('vikareta-webhook');
+    return tracer.startActiveSpan('webhook.deliver', async (span) => {
+      // Sign the exact bytes sent; a fresh timestamp per attempt keeps retries inside the receiver's tolerance
+      const body = JSON.stringify(payload);
+      const timestamp = Date.now();
+      const started = Date.now();
+      let result: DeliveryResult;
+      try {
+        const resp = await axios.post(hook.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Vikareta-Event': payload.event,
+            'X-Vikareta-Event-Version': String(payload.version),
+            'X-Vikareta-Signature': signWebhookPayload(hook.secret, timestamp, body),
+            'X-Vikareta-Timestamp': String(timestamp),
+            ...(deliveryId && { 'X-Vikareta-Delivery': deliveryId }),
+          },
+          timeout: config.webhooks.timeoutMs,
+          maxRedirects: 0,
+          validateStatus: () => true,
+        });
+        const ok = resp.status >= 200 && resp.status < 300;
+        result = { status: ok ? 'success' : 'failure', statusCode: resp.status, durationMs: Date.now() - started };
+      } catch (err: any) {
+        result = { status: 'failure', durationMs: Date.now() - started, error: err.message };
+        span.recordException(err);
+        span.setStatus({ code: 2, message: err.message });
+      }
+
+      webhookDeliveriesCounter.inc({ webhookId: hook.id, status: result.status });
+      span.setAttribute('webhook.id', hook.id);
+      span.setAttribute('webhook.event', payload.event);
+      span.setAttribute('delivery.status', result.status);
+      span.setAttribute('delivery.code', result.statusCode || 0);
+      span.end();
+      return result;
+    });
   }
 }
 
@@ -1,40 +1,100 @@
 import crypto from 'crypto';
 import { BaseService } from './base.service';
-import { prisma } from '@/config/database';
 import { webhookDeliveryService } from './webhook-delivery.service';
+import { NotFoundError } from '@/middleware/error-handler';
+import { config } from '@/config/environment';
+import { WEBHOOK_EVENT_CATALOGUE, webhookEnvelopeSchema } from '@/config/webhook-events';
+import type { DomainEventType } from '@/types/domain-events.types';
 
 interface CreateWebhookInput { userId: string; name: string; url: string; events: string[]; }
 interface UpdateWebhookInput { name?: string; url?: string; events?: string[]; isActive?: boolean; }
 
 export class WebhookService extends BaseService {
   async list(userId: string) {
-    return prisma.webhook.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+    return this.prisma.webhook.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
   }
 
   async create(data: CreateWebhookInput) {
     const secret = crypto.randomBytes(24).toString('hex');
-    return prisma.webhook.create({ data: { ...data, secret } });
+    return this.prisma.webhook.create({ data: { ...data, secret } });
   }
 
-  async update(id: string, data: UpdateWebhookInput) {
-    return prisma.webhook.update({ where: { id }, data });
+  async update(userId: string, id: string, data: UpdateWebhookInput) {
+    const hook = await this.findOwned(userId, id);
+    // Enabling again clears the failure streak and lets the kept queue drain straight away
+    const reenabled = data.isActive === true && !hook.isActive;
+    const updated = await this.prisma.webhook.update({
+      where: { id },
+      data: { ...data, ...(reenabled && { consecutiveFailures: 0, disabledAt: null, disabledReason: null }) },
+    });
+    if (reenabled) await webhookDeliveryService.resume(id);
+    return updated;
   }
 
-  async regenerateSecret(id: string) {
+  async regenerateSecret(userId: string, id: string) {
+    await this.findOwned(userId, id);
     const secret = crypto.randomBytes(24).toString('hex');
-    return prisma.webhook.update({ where: { id }, data: { secret } });
+    return this.prisma.webhook.update({ where: { id }, data: { secret } });
   }
 
-  async testFire(id: string, event: string, extra?: Record<string, any>): Promise<any> {
-    return webhookDeliveryService.testFire(id, event, extra);
+  async testFire(userId: string, id: string, extra?: Record<string, any>) {
+    await this.findOwned(userId, id);
+    return webhookDeliveryService.testFire(id, extra);
   }
 
-  async retryLast(id: string, event: string): Promise<any> {
-    return webhookDeliveryService.retryLast(id, event);
+  async retryLast(userId: string, id: string) {
+    await this.findOwned(userId, id);
+    return webhookDeliveryService.retryLast(id);
   }
 
-  async getAttempts(id: string): Promise<any> {
-    return webhookDeliveryService.getAttempts(id);
+  async redeliver(userId: string, id: string, attemptId: string) {
+    await this.findOwned(userId, id);
+    return webhookDeliveryService.redeliver(id, attemptId);
+  }
+
+  async getAttempts(userId: string, id: string, page = 1, limit = 20) {
+    await this.findOwned(userId, id);
+    return webhookDeliveryService.getAttempts(id, page, limit);
+  }
+
+  async getDeliveries(userId: string, id: string, filters: { status?: string; event?: string }, page = 1, limit = 20) {
+    await this.findOwned(userId, id);
+    return webhookDeliveryService.listDeliveries(id, filters, page, limit);
+  }
+
+  /**
+   * Published event catalogue: every subscribable event with its payload version and the JSON
+   * Schema of the delivery body, plus how deliveries are signed.
+   */
+  getCatalogue() {
+    return {
+      events: (Object.keys(WEBHOOK_EVENT_CATALOGUE) as DomainEventType[]).map(event => ({
+        event,
+        version: WEBHOOK_EVENT_CATALOGUE[event].version,
+        description: WEBHOOK_EVENT_CATALOGUE[event].description,
+        schema: webhookEnvelopeSchema(event),
+      })),
+      signature: {
+        algorithm: 'HMAC-SHA256',
+        headers: {
+          signature: 'X-Vikareta-Signature',
+          timestamp: 'X-Vikareta-Timestamp',
+          event: 'X-Vikareta-Event',
+          version: 'X-Vikareta-Event-Version',
+          delivery: 'X-Vikareta-Delivery',
+        },
+        signedContent: '<X-Vikareta-Timestamp>.<raw request body>',
+        timestampUnit: 'milliseconds',
+        // Receivers should reject older timestamps to stop captured requests being replayed
+        toleranceSeconds: config.webhooks.signatureToleranceSeconds,
+      },
+    };
+  }
+
+  private async findOwned(userId: string, id: string) {
+    const hook = await this.prisma.webhook.findFirst({ where: { id, userId } });
+    if (!hook) throw new NotFoundError('Webhook not found');
+    return hook;
   }
 }
 
@@ -0,0 +1,86 @@
+// Catalogue of domain events written to the outbox. Payloads must stay JSON-safe:
+// amounts as numbers, timestamps as ISO strings.
+
+interface OrderRef {
+  orderId: string;
+  orderNumber: string;
+  buyerId: string;
+  sellerId: string;
+}
+
+interface PaymentEventData {
+  paymentId: string;
+  orderId: string | null;
+  checkoutId: string | null;
+  amount: number;
+  currency: string;
+  gateway: string;
+  gatewayTransactionId: string | null;
+}
+
+interface RefundEventData {
+  refundId: string;
+  paymentId: string;
+  orderId: string | null;
+  amount: number;
+  currency: string;
+  destination: string;
+  reasonCode: string;
+  status: string;
+}
+
+interface ProductEventData {
+  productId: string;
+  sellerId: string;
+}
+
+interface RfqEventData {
+  rfqId: string;
+  buyerId: string;
+  status: string;
+}
+
+export interface DomainEventPayloads {
+  'order.created': OrderRef & { status: string; totalAmount: number; quoteId: string | null };
+  'order.status_changed': OrderRef & { fromStatus: string; toStatus: string; notes: string | null };
+  'order.cancelled': OrderRef & { reason: string | null; paymentStatus: string };
+  'payment.captured': PaymentEventData;
+  'payment.failed': PaymentEventData;
+  'refund.created': RefundEventData;
+  'refund.succeeded': RefundEventData;
+  'refund.failed': RefundEventData;
+  // Seller and price are null while a sealed bid is still hidden from the buyer
+  'quote.submitted': { quoteId: string; rfqId: string; sellerId: string | null; buyerId: string; totalPrice: number | null; validUntil: string | null };
+  'quote.accepted': { quoteId: string; rfqId: string; sellerId: string; buyerId: string; totalPrice: number; orderId: string | null; dealId: string };
+  'rfq.published': RfqEventData & { title: string; categoryId: string | null; mode: string; expiresAt: string | null };
+  'rfq.updated': RfqEventData;
+  'rfq.closed': RfqEventData;
+  'shipment.updated': OrderRef & { status: string; location: string | null; description: string | null; provider: string | null; trackingNumber: string | null };
+  'product.created': ProductEventData;
+  'product.updated': ProductEventData;
+  'product.deleted': ProductEventData;
+  'invoice.generated': { invoiceId: string; orderId: string; documentType: string; invoiceNumber: string; totalAmount: number; issuedAt: string };
+}
+
+export type DomainEventType = keyof DomainEventPayloads;
+
+// "order", "payment", ...: selects the Kafka topic and the aggregate type
+export type DomainEventDomain = DomainEventType extends `${infer D}.${string}` ? D : never;
+
+export interface DomainEventInput<T extends DomainEventType = DomainEventType> {
+  type: T;
+  aggregateId: string;
+  // Users whose webhooks subscribe to the event; falsy entries are dropped
+  recipients?: (string | null | undefined)[];
+  data: DomainEventPayloads[T];
+}
+
+// Envelope published to Kafka and handed to in-process subscribers
+export interface DomainEventEnvelope<T extends DomainEventType = DomainEventType> {
+  id: string;
+  type: T;
+  aggregateType: DomainEventDomain;
+  aggregateId: string;
+  occurredAt: string;
+  data: DomainEventPayloads[T];
+}
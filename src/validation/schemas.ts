@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { WEBHOOK_WILDCARD, isWebhookEvent } from '../config/webhook-events';
+import { API_KEY_SCOPE_NAMES } from '../config/api-key-scopes';
+import { ENTITLEMENTS, isPlanCode } from '../config/plans';
 
 // Delivery Partner Schemas
 export const createDeliveryPartnerSchema = z.object({
@@ -115,6 +118,7 @@ export const productCreateSchema = z.object({
   stock: z.number().int().nonnegative().default(0).optional(),
   attributes: z.record(z.string(), z.any()).optional(),
   sku: z.string().min(1).max(100).optional(),
+  hsnCode: z.string().regex(/^\d{4,8}$/).optional(),
   status: z.enum(['draft','active','inactive']).default('active').optional(),
 });
 export const productUpdateSchema = productCreateSchema.partial();
@@ -127,11 +131,16 @@ export const orderCreateSchema = z.object({
   shippingAddressId: z.string().uuid(),
   paymentMethod: z.enum(['cod','prepaid','wallet']).default('cod').optional(),
   notes: z.string().max(1000).optional(),
+  warehouseId: z.string().uuid().optional(),
+  escrow: z.boolean().optional(),
 });
 export const orderUpdateSchema = z.object({
   notes: z.string().max(1000).optional(),
 });
-export const orderStatusUpdateSchema = z.object({ status: z.enum(['pending','processing','shipped','delivered','cancelled','returned']) });
+export const orderStatusUpdateSchema = z.object({
+  status: z.enum(['processing','shipped','returned']),
+  notes: z.string().max(1000).optional(),
+});
 export const orderIdParamsSchema = z.object({ id: z.string().uuid() });
 export const orderListQuerySchema = paginationQuerySchema.merge(sortQuerySchema(orderSortFields));
 export const orderTrackingEventSchema = z.object({
@@ -143,6 +152,17 @@ export const orderTrackingEventSchema = z.object({
   timestamp: z.string().datetime().optional(),
 });
 export const orderTrackingEventParamsSchema = z.object({ id: z.string().uuid() });
+export const orderInvoiceParamsSchema = z.object({ id: z.string().uuid(), invoiceId: z.string().uuid() });
+export const creditNoteCreateSchema = z.object({
+  reason: z.enum(['cancellation','return']),
+  items: z.array(z.object({ orderItemId: z.string().uuid(), quantity: z.number().int().positive() })).min(1).optional(),
+});
+export const orderDisputeSchema = z.object({ reason: z.string().min(5).max(2000) });
+export const orderApprovalSchema = z.object({ decision: z.enum(['approve','reject']), reason: z.string().max(1000).optional() });
+export const escrowResolveSchema = z.object({
+  outcome: z.enum(['release','refund']),
+  notes: z.string().max(1000).optional(),
+});
 
 // Service Order (when orderType service)
 export const serviceOrderCreateSchema = z.object({
@@ -207,8 +227,27 @@ export const cartUpdateItemSchema = z.object({
   variantId: z.string().uuid().optional(),
 });
 export const cartItemIdParamsSchema = z.object({ itemId: z.string().uuid() });
+export const cartCheckoutSchema = z.object({
+  couponCode: z.string().min(1).max(50).optional(),
+  shippingAddressId: z.string().uuid().optional(),
+  deliveryAddress: z.record(z.string(), z.any()).optional(),
+  billingAddress: z.record(z.string(), z.any()).optional(),
+  paymentMethod: z.enum(['card','netbanking','upi','wallet']).default('upi').optional(),
+  notes: z.string().max(1000).optional(),
+  escrow: z.boolean().optional(),
+}).refine(d => d.shippingAddressId || d.deliveryAddress, { message: 'shippingAddressId or deliveryAddress required' });
 
 // RFQ Schemas
+const rfqItemSchema = z.object({
+  productId: z.string().uuid().optional(),
+  name: z.string().min(1).max(255),
+  description: z.string().max(5000).optional(),
+  quantity: z.number().int().positive(),
+  unit: z.string().min(1).max(50),
+  targetPrice: z.number().positive().optional(),
+  specifications: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+  requiredCertifications: z.array(z.string().min(1).max(100)).max(20).optional(),
+});
 export const rfqCreateSchema = z.object({
   title: z.string().min(3).max(255),
   description: z.string().min(5).max(5000),
@@ -218,35 +257,198 @@ export const rfqCreateSchema = z.object({
   budgetMin: z.number().nonnegative().optional(),
   budgetMax: z.number().positive().optional(),
   expiresAt: z.string().datetime().optional(),
-});
-export const rfqUpdateSchema = rfqCreateSchema.partial();
+  mode: z.enum(['open','sealed_bid','reverse_auction']).optional(),
+  biddingClosesAt: z.string().datetime().optional(),
+  minDecrement: z.number().positive().optional(),
+  minDecrementType: z.enum(['amount','percent']).optional(),
+  antiSnipeMinutes: z.number().int().min(0).max(60).optional(),
+  extensionMinutes: z.number().int().min(1).max(60).optional(),
+  maxExtensions: z.number().int().min(0).max(100).optional(),
+  deliveryLocation: z.string().max(255).optional(),
+  deliveryLat: z.number().min(-90).max(90).optional(),
+  deliveryLng: z.number().min(-180).max(180).optional(),
+  items: z.array(rfqItemSchema).min(1).max(100).optional(),
+});
+// Bidding settings are fixed once an RFQ is posted
+export const rfqUpdateSchema = rfqCreateSchema.omit({ mode: true, biddingClosesAt: true, minDecrement: true, minDecrementType: true, antiSnipeMinutes: true, extensionMinutes: true, maxExtensions: true }).partial();
 export const rfqIdParamsSchema = z.object({ id: z.string().uuid() });
 export const rfqListQuerySchema = paginationQuerySchema.merge(sortQuerySchema(rfqSortFields));
+export const rfqBidSchema = z.object({ amount: z.number().positive() });
+export const rfqAttachmentUploadSchema = z.object({
+  kind: z.enum(['drawing','specification','certificate','other']).default('other'),
+  rfqItemId: z.string().uuid().optional(),
+});
+export const rfqAttachmentParamsSchema = z.object({ id: z.string().uuid(), attachmentId: z.string().uuid() });
+export const rfqMatchStatsQuerySchema = z.object({ from: z.string().datetime().optional(), to: z.string().datetime().optional() });
+// Weights are relative to each other; omitted ones use the defaults
+export const quoteCompareQuerySchema = z.object({
+  format: z.enum(['json','csv','xlsx']).default('json'),
+  price: z.coerce.number().min(0).max(100).optional(),
+  delivery: z.coerce.number().min(0).max(100).optional(),
+  rating: z.coerce.number().min(0).max(100).optional(),
+  verification: z.coerce.number().min(0).max(100).optional(),
+  onTime: z.coerce.number().min(0).max(100).optional(),
+});
+
+// RFQ Template Schemas
+const rfqTemplateBaseSchema = z.object({
+  name: z.string().min(1).max(255),
+  title: z.string().min(3).max(255).optional(),
+  description: z.string().min(5).max(5000).optional(),
+  categoryId: z.string().uuid().optional(),
+  subcategoryId: z.string().uuid().optional(),
+  quantity: z.number().int().positive().optional(),
+  budgetMin: z.number().nonnegative().optional(),
+  budgetMax: z.number().positive().optional(),
+  deliveryTimeline: z.string().max(100).optional(),
+  deliveryLocation: z.string().max(255).optional(),
+  deliveryLat: z.number().min(-90).max(90).optional(),
+  deliveryLng: z.number().min(-180).max(180).optional(),
+  mode: z.enum(['open','sealed_bid','reverse_auction']).optional(),
+  biddingHours: z.number().int().min(1).max(24 * 90).optional(),
+  items: z.array(rfqItemSchema).min(1).max(100).optional(),
+  frequency: z.enum(['daily','weekly','monthly']),
+  interval: z.number().int().min(1).max(12).optional(),
+  validityDays: z.number().int().min(1).max(90).optional(),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime().optional(),
+  maxOccurrences: z.number().int().positive().optional(),
+  inviteWinners: z.boolean().optional(),
+  shareBenchmark: z.boolean().optional(),
+});
+export const rfqTemplateCreateSchema = rfqTemplateBaseSchema.extend({ fromRfqId: z.string().uuid().optional() })
+  .refine(d => d.fromRfqId || (d.title && d.categoryId), { message: 'fromRfqId or title and categoryId required' });
+export const rfqTemplateUpdateSchema = rfqTemplateBaseSchema.partial();
+export const rfqTemplateIdParamsSchema = z.object({ id: z.string().uuid() });
 
 // Quote Schemas
 export const quoteCreateSchema = z.object({
   rfqId: z.string().uuid(),
-  items: z.array(z.object({ description: z.string().min(1), quantity: z.number().int().positive(), unitPrice: z.number().positive() })).min(1),
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    rfqItemId: z.string().uuid().optional(),
+    quantity: z.number().int().positive(),
+    unitPrice: z.number().positive(),
+    certifications: z.array(z.string().min(1).max(100)).max(20).optional(),
+  })).min(1),
   validityDays: z.number().int().min(1).max(90).default(30).optional(),
   notes: z.string().max(1000).optional(),
 });
 export const quoteUpdateSchema = quoteCreateSchema.partial();
 export const quoteIdParamsSchema = z.object({ id: z.string().uuid() });
 export const quoteListQuerySchema = paginationQuerySchema.merge(sortQuerySchema(['createdAt','totalPrice'] as const));
+export const quoteAcceptSchema = z.object({
+  shippingAddressId: z.string().uuid().optional(),
+  deliveryAddress: z.any().optional(),
+  billingAddress: z.any().optional(),
+  notes: z.string().max(1000).optional(),
+  requireApproval: z.boolean().optional(),
+});
+export const quoteRejectSchema = z.object({ reason: z.string().max(1000).optional() });
+
+// Negotiation Schemas
+const negotiationOfferSchema = z.object({
+  price: z.number().positive().optional(),
+  items: z.array(z.object({ quoteItemId: z.string().uuid(), unitPrice: z.number().positive() })).min(1).optional(),
+  message: z.string().max(2000).optional(),
+  terms: z.string().max(5000).optional(),
+  validUntil: z.string().datetime().optional(),
+  final: z.boolean().optional(),
+});
+export const negotiationCounterSchema = negotiationOfferSchema.refine(d => d.price || d.items, { message: 'price or items required' });
+export const negotiationCreateSchema = negotiationOfferSchema.extend({ quoteId: z.string().uuid() }).refine(d => d.price || d.items, { message: 'price or items required' });
+export const negotiationIdParamsSchema = z.object({ id: z.string().uuid() });
+export const negotiationQuoteParamsSchema = z.object({ quoteId: z.string().uuid() });
+
+// Tax Schemas
+export const taxRateCreateSchema = z.object({
+  code: z.string().regex(/^\d{4,8}$/),
+  codeType: z.enum(['hsn','sac']).default('hsn').optional(),
+  description: z.string().max(500).optional(),
+  categoryId: z.string().uuid().nullable().optional(),
+  gstRate: z.number().min(0).max(100),
+  cessRate: z.number().min(0).max(400).optional(),
+  isExempt: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  effectiveFrom: z.string().datetime().optional(),
+  effectiveTo: z.string().datetime().nullable().optional(),
+});
+export const taxRateUpdateSchema = taxRateCreateSchema.partial();
+export const taxRateIdParamsSchema = z.object({ id: z.string().uuid() });
+export const taxRateListQuerySchema = paginationQuerySchema.extend({
+  code: z.string().max(8).optional(),
+  codeType: z.enum(['hsn','sac']).optional(),
+  categoryId: z.string().uuid().optional(),
+  activeOnly: z.coerce.boolean().optional(),
+});
+export const taxCalculateSchema = z.object({
+  sellerId: z.string().uuid(),
+  items: z.array(z.object({
+    productId: z.string().uuid().optional(),
+    serviceId: z.string().uuid().optional(),
+    quantity: z.number().int().positive(),
+    unitPrice: z.number().nonnegative(),
+  })).min(1),
+  deliveryAddress: z.record(z.string(), z.any()).optional(),
+});
 
 // Payment Schemas
 export const paymentCreateSchema = z.object({
   orderId: z.string().uuid(),
-  provider: z.enum(['razorpay','cashfree']).default('razorpay').optional(),
+  provider: z.enum(['razorpay','cashfree','fake']).optional(), // Resolved from gateway rules when omitted
   method: z.enum(['card','netbanking','upi','wallet','cod']).optional(),
   amount: z.number().positive(),
   currency: z.string().length(3).default('INR').optional(),
 });
 export const paymentVerifySchema = z.object({
-  provider: z.enum(['razorpay','cashfree']),
-  payload: z.record(z.string(), z.any()),
+  provider: z.enum(['razorpay','cashfree','fake']).optional(),
+  payload: z.record(z.string(), z.any()).default({}),
 });
 export const paymentIdParamsSchema = z.object({ id: z.string().uuid() });
+export const paymentGatewayRuleSchema = z.object({
+  sellerId: z.string().uuid().nullable().optional(), // Admins only; sellers always manage their own rules
+  paymentMethod: z.enum(['card','netbanking','upi','wallet','cod']).nullable().optional(),
+  gateway: z.enum(['razorpay','cashfree']),
+  isActive: z.boolean().default(true).optional(),
+});
+export const paymentGatewayRuleQuerySchema = z.object({
+  sellerId: z.string().uuid().optional(),
+});
+export const settlementUploadSchema = z.object({
+  gateway: z.enum(['razorpay','cashfree']),
+  periodStart: z.string().datetime().optional(), // Defaults to the earliest transaction in the file
+  periodEnd: z.string().datetime().optional(),
+});
+export const settlementReportQuerySchema = paginationQuerySchema.extend({
+  gateway: z.enum(['razorpay','cashfree','fake']).optional(),
+  status: z.enum(['processing','completed','failed']).optional(),
+});
+export const settlementLineQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50).optional(),
+  result: z.enum(['mismatched','matched','amount_mismatch','status_mismatch','missing_payment','missing_in_settlement','duplicate','skipped']).optional(),
+});
+export const paymentWebhookEventQuerySchema = paginationQuerySchema.extend({
+  status: z.enum(['received','processing','processed','ignored','failed','dead_lettered','rejected']).optional(),
+  gateway: z.enum(['razorpay','cashfree','fake']).optional(),
+});
+export const refundCreateSchema = z.object({
+  orderId: z.string().uuid().optional(),
+  amount: z.number().positive().optional(),
+  reasonCode: z.enum(['order_cancelled','item_returned','damaged','not_delivered','duplicate_payment','price_adjustment','other']),
+  notes: z.string().max(1000).optional(),
+  destination: z.enum(['gateway','wallet']).default('gateway').optional(),
+});
+
+// Ledger Schemas
+export const ledgerJournalQuerySchema = paginationQuerySchema.extend({
+  accountCode: z.string().max(100).optional(),
+  referenceType: z.string().max(50).optional(),
+  referenceId: z.string().uuid().optional(),
+});
+export const ledgerDriftQuerySchema = paginationQuerySchema.extend({
+  status: z.enum(['open','resolved','all']).default('open').optional(),
+});
 
 // Support Ticket Schemas
 export const supportTicketCreateSchema = z.object({
@@ -386,10 +588,128 @@ export const searchGlobalQuerySchema = z.object({
   page: z.coerce.number().int().min(1).optional(),
   limit: z.coerce.number().int().min(1).max(100).optional(),
 });
+const rfqSearchCriteria = {
+  q: z.string().min(1).max(255).optional(),
+  categoryId: z.string().uuid().optional(),
+  subcategoryId: z.string().uuid().optional(),
+  mode: z.enum(['open','sealed_bid','reverse_auction']).optional(),
+  budgetMin: z.coerce.number().nonnegative().optional(),
+  budgetMax: z.coerce.number().positive().optional(),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radiusKm: z.coerce.number().positive().max(5000).optional(),
+  expiresWithinDays: z.coerce.number().int().min(1).max(365).optional(),
+};
+const hasRadiusOrigin = (d: { radiusKm?: number; lat?: number; lng?: number }) => !d.radiusKm || (d.lat !== undefined && d.lng !== undefined);
+export const rfqSearchCriteriaSchema = z.object(rfqSearchCriteria).refine(hasRadiusOrigin, { message: 'lat and lng required with radiusKm' });
+export const searchRfqsQuerySchema = z.object({
+  ...rfqSearchCriteria,
+  sort: z.enum(['relevance','newest','expiring','budget','distance']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+}).refine(hasRadiusOrigin, { message: 'lat and lng required with radiusKm' });
+export const rfqSavedSearchCreateSchema = z.object({
+  name: z.string().min(1).max(100),
+  criteria: rfqSearchCriteriaSchema,
+  alertsEnabled: z.boolean().optional(),
+});
+export const rfqSavedSearchUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  criteria: rfqSearchCriteriaSchema.optional(),
+  alertsEnabled: z.boolean().optional(),
+});
+export const rfqSavedSearchParamsSchema = z.object({ searchId: z.string().uuid() });
 export const searchSuggestionsQuerySchema = z.object({
   q: z.string().min(2).max(255),
   type: z.enum(['all','products','services','categories','businesses']).optional(),
 });
+
+// Admin search management
+export const searchSynonymCreateSchema = z.object({
+  rule: z.string().min(3).max(500),
+  description: z.string().max(255).optional(),
+  isActive: z.boolean().optional(),
+});
+export const searchSynonymUpdateSchema = searchSynonymCreateSchema.partial();
+export const searchSynonymParamsSchema = z.object({ id: z.string().uuid() });
+export const searchReindexSchema = z.object({ index: z.enum(['products', 'services']) });
+export const searchReindexJobParamsSchema = z.object({ id: z.string().uuid() });
+export const outboxEventQuerySchema = paginationQuerySchema.extend({
+  status: z.enum(['pending', 'publishing', 'published', 'failed', 'dead_lettered']).optional(),
+  eventType: z.string().max(100).optional(),
+  aggregateId: z.string().max(100).optional(),
+});
+export const outboxEventParamsSchema = z.object({ id: z.string().uuid() });
+const webhookEventsSchema = z.array(
+  z.string().refine(event => event === WEBHOOK_WILDCARD || isWebhookEvent(event), { message: 'Unknown webhook event; see /webhooks/events' })
+).min(1).max(50);
+export const webhookCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: z.string().url().max(2000),
+  events: webhookEventsSchema,
+});
+export const webhookUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  url: z.string().url().max(2000).optional(),
+  events: webhookEventsSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+export const webhookTestSchema = z.object({ extra: z.record(z.string(), z.any()).optional() });
+export const webhookParamsSchema = z.object({ id: z.string().uuid() });
+export const webhookAttemptParamsSchema = webhookParamsSchema.extend({ attemptId: z.string().uuid() });
+export const entitlementUserParamsSchema = z.object({ userId: z.string().uuid() });
+export const entitlementOverrideParamsSchema = entitlementUserParamsSchema.extend({ entitlement: z.enum(ENTITLEMENTS) });
+export const entitlementOverrideSchema = z.object({
+  // null is unlimited
+  value: z.number().int().min(0).nullable(),
+  reason: z.string().trim().min(3).max(500),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), { message: 'expiresAt must be in the future' }).nullable().optional(),
+});
+export const apiKeyCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  permissions: z.array(z.enum(API_KEY_SCOPE_NAMES)).min(1),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), { message: 'expiresAt must be in the future' }).nullable().optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).nullable().optional(),
+});
+export const apiKeyParamsSchema = z.object({ id: z.string().uuid() });
+const planCodeSchema = z.string().refine(isPlanCode, { message: 'Unknown plan; see /usage-limits/plans' });
+const paymentMethodFields = {
+  paymentMethod: z.enum(['wallet', 'mandate']).optional(),
+  // Gateway that holds the mandate, and its token (Razorpay) or subscription (Cashfree) id
+  mandateGateway: z.string().trim().min(1).max(20).optional(),
+  mandateId: z.string().trim().min(1).max(255).optional(),
+  mandateCustomerId: z.string().trim().min(1).max(255).optional(),
+};
+const hasMandate = (d: { paymentMethod?: string; mandateGateway?: string; mandateId?: string }) =>
+  d.paymentMethod !== 'mandate' || Boolean(d.mandateGateway && d.mandateId);
+export const subscriptionCreateSchema = z.object({
+  type: z.string().trim().min(1).max(50),
+  planCode: planCodeSchema,
+  planName: z.string().trim().min(1).max(100).optional(),
+  durationMonths: z.number().int().min(1).max(12).optional(),
+  // Shortens the plan's trial; 0 skips it and charges straight away
+  trialDays: z.number().int().min(0).max(90).optional(),
+  ...paymentMethodFields,
+}).refine(hasMandate, { message: 'mandateGateway and mandateId required for mandate payments', path: ['mandateId'] });
+export const subscriptionUpgradeSchema = z.object({
+  planCode: planCodeSchema.optional(),
+  planName: z.string().trim().min(1).max(100).optional(),
+  type: z.string().trim().min(1).max(50).optional(),
+});
+export const subscriptionCancelSchema = z.object({ atPeriodEnd: z.boolean().optional() });
+export const subscriptionPaymentMethodSchema = z.object({
+  ...paymentMethodFields,
+  paymentMethod: paymentMethodFields.paymentMethod.unwrap(),
+}).refine(hasMandate, { message: 'mandateGateway and mandateId required for mandate payments', path: ['mandateId'] });
+export const subscriptionParamsSchema = z.object({ id: z.string().uuid() });
+export const billingInvoiceQuerySchema = paginationQuerySchema.extend({
+  subscriptionId: z.string().uuid().optional(),
+  status: z.enum(['open', 'processing', 'paid', 'failed', 'void', 'refunded']).optional(),
+});
+export const webhookDeliveryQuerySchema = paginationQuerySchema.extend({
+  status: z.enum(['pending', 'delivering', 'delivered', 'failed']).optional(),
+  event: z.string().max(100).optional(),
+});
 export const popularSearchesQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(50).optional(),
 });